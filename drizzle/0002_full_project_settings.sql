@@ -0,0 +1,8 @@
+ALTER TABLE "project_settings" ADD COLUMN "canvas_mode" text DEFAULT 'adaptive';--> statement-breakpoint
+ALTER TABLE "project_settings" ADD COLUMN "max_canvas_width" integer;--> statement-breakpoint
+ALTER TABLE "project_settings" ADD COLUMN "max_canvas_height" integer;--> statement-breakpoint
+ALTER TABLE "project_settings" ADD COLUMN "unit_system" text DEFAULT 'cm';--> statement-breakpoint
+ALTER TABLE "project_settings" ADD COLUMN "show_zones" boolean DEFAULT true;--> statement-breakpoint
+ALTER TABLE "project_settings" ADD COLUMN "show_furniture" boolean DEFAULT true;--> statement-breakpoint
+ALTER TABLE "project_settings" ADD COLUMN "show_diagrams" boolean DEFAULT true;--> statement-breakpoint
+ALTER TABLE "project_settings" ADD COLUMN "background" jsonb;
\ No newline at end of file
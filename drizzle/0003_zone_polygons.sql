@@ -0,0 +1 @@
+ALTER TABLE "zones" ADD COLUMN "points" jsonb;
\ No newline at end of file
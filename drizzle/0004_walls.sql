@@ -0,0 +1,16 @@
+CREATE TABLE "walls" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"wall_id" text NOT NULL,
+	"x1" numeric(10, 2) NOT NULL,
+	"y1" numeric(10, 2) NOT NULL,
+	"x2" numeric(10, 2) NOT NULL,
+	"y2" numeric(10, 2) NOT NULL,
+	"thickness" numeric(10, 2) DEFAULT '15' NOT NULL,
+	"height" numeric(10, 2) DEFAULT '250' NOT NULL,
+	"color" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "walls" ADD CONSTRAINT "walls_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "openings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"opening_id" text NOT NULL,
+	"type" text NOT NULL,
+	"host_type" text NOT NULL,
+	"host_id" text NOT NULL,
+	"edge_index" integer,
+	"offset" numeric(10, 2) NOT NULL,
+	"width" numeric(10, 2) NOT NULL,
+	"hinge" text DEFAULT 'start' NOT NULL,
+	"swing" text DEFAULT 'left' NOT NULL,
+	"height" numeric(10, 2),
+	"sill_height" numeric(10, 2),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "imported_floor_plans" ADD COLUMN "openings" jsonb;--> statement-breakpoint
+ALTER TABLE "openings" ADD CONSTRAINT "openings_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
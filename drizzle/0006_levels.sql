@@ -0,0 +1,16 @@
+CREATE TABLE "levels" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"level_id" text NOT NULL,
+	"name" text NOT NULL,
+	"elevation" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "diagram_shapes" ADD COLUMN "level_id" text;--> statement-breakpoint
+ALTER TABLE "furniture_items" ADD COLUMN "level_id" text;--> statement-breakpoint
+ALTER TABLE "walls" ADD COLUMN "level_id" text;--> statement-breakpoint
+ALTER TABLE "zones" ADD COLUMN "level_id" text;--> statement-breakpoint
+ALTER TABLE "levels" ADD CONSTRAINT "levels_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
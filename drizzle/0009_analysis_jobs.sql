@@ -0,0 +1,14 @@
+CREATE TABLE "analysis_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"file_name" text,
+	"error" text,
+	"analysis_method" text,
+	"imported_floor_plan_id" integer,
+	"result" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "analysis_jobs" ADD CONSTRAINT "analysis_jobs_imported_floor_plan_id_imported_floor_plans_id_fk" FOREIGN KEY ("imported_floor_plan_id") REFERENCES "public"."imported_floor_plans"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
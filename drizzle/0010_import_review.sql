@@ -0,0 +1,4 @@
+ALTER TABLE "imported_floor_plans" ADD COLUMN "reviewed_zones" jsonb;--> statement-breakpoint
+ALTER TABLE "imported_floor_plans" ADD COLUMN "reviewed_openings" jsonb;--> statement-breakpoint
+ALTER TABLE "imported_floor_plans" ADD COLUMN "corrections" jsonb;--> statement-breakpoint
+ALTER TABLE "imported_floor_plans" ADD COLUMN "reviewed_at" timestamp;
\ No newline at end of file
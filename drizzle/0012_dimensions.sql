@@ -0,0 +1,14 @@
+CREATE TABLE "dimensions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"project_id" uuid NOT NULL,
+	"dimension_id" text NOT NULL,
+	"kind" text NOT NULL,
+	"anchors" jsonb NOT NULL,
+	"offset" numeric(10, 2) DEFAULT '0' NOT NULL,
+	"style" text DEFAULT 'tick' NOT NULL,
+	"level_id" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "dimensions" ADD CONSTRAINT "dimensions_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
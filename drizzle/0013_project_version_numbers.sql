@@ -0,0 +1,8 @@
+-- Concurrent saves could take the same version number; renumber each project's versions in order before enforcing it
+UPDATE "project_versions" SET "version" = "numbered"."position"
+FROM (
+	SELECT "id", row_number() OVER (PARTITION BY "project_id" ORDER BY "version", "created_at") AS "position"
+	FROM "project_versions"
+) AS "numbered"
+WHERE "project_versions"."id" = "numbered"."id" AND "project_versions"."version" <> "numbered"."position";--> statement-breakpoint
+CREATE UNIQUE INDEX "project_versions_project_id_version_idx" ON "project_versions" USING btree ("project_id","version");
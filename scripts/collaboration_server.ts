@@ -0,0 +1,6 @@
+import { createCollaborationServer } from '../src/lib/collaboration/server';
+
+const port = Number(process.env.COLLABORATION_PORT) || 3001;
+
+createCollaborationServer({ port });
+console.log(`Collaboration server listening on ws://localhost:${port}`);
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { analysisJobs } from '@/lib/db/schema';
+import { FINAL_JOB_STATUSES, toAnalysisJobSummary } from '@/lib/analysis/jobs';
+import { AnalysisJobStatus } from '@/types';
+import { and, eq, notInArray } from 'drizzle-orm';
+import { stackServerApp } from '@/app/stack';
+
+// Zod schema for route parameter validation
+const jobIdSchema = z.string().uuid("Invalid job ID");
+
+/**
+ * Load a job the current user may see. Jobs started without signing in are
+ * reachable by anyone holding their unguessable ID, like imported plans.
+ */
+async function findJob(id: string) {
+    const validation = jobIdSchema.safeParse(id);
+    if (!validation.success) {
+        return {
+            response: NextResponse.json(
+                {
+                    error: 'Invalid job ID',
+                    details: validation.error.issues
+                },
+                { status: 400 }
+            )
+        };
+    }
+
+    const [job] = await db
+        .select()
+        .from(analysisJobs)
+        .where(eq(analysisJobs.id, id))
+        .limit(1);
+
+    if (!job) {
+        return {
+            response: NextResponse.json(
+                { error: 'Analysis job not found' },
+                { status: 404 }
+            )
+        };
+    }
+
+    if (job.userId) {
+        let currentUserId: string | null = null;
+        try {
+            const user = await stackServerApp.getUser();
+            currentUserId = user?.id || null;
+        } catch {
+            // Treated as signed out
+        }
+        if (job.userId !== currentUserId) {
+            return {
+                response: NextResponse.json(
+                    { error: 'Access denied' },
+                    { status: 403 }
+                )
+            };
+        }
+    }
+
+    return { job };
+}
+
+// GET - Current stage of an analysis job, with the result once it is done
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const { job, response } = await findJob(id);
+        if (!job) return response;
+
+        return NextResponse.json(toAnalysisJobSummary(job));
+
+    } catch (error) {
+        console.error('Fetch analysis job error:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to fetch analysis job',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE - Cancel a job; the running stage finishes but nothing after it is saved
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        const { id } = await params;
+        const { job, response } = await findJob(id);
+        if (!job) return response;
+
+        if (FINAL_JOB_STATUSES.includes(job.status as AnalysisJobStatus)) {
+            return NextResponse.json(
+                { error: `Analysis job is already ${job.status}` },
+                { status: 409 }
+            );
+        }
+
+        const [cancelled] = await db
+            .update(analysisJobs)
+            .set({ status: 'cancelled', updatedAt: new Date() })
+            .where(and(eq(analysisJobs.id, id), notInArray(analysisJobs.status, FINAL_JOB_STATUSES)))
+            .returning();
+
+        // Finished between the read and the update
+        if (!cancelled) {
+            return NextResponse.json(
+                { error: 'Analysis job has already finished' },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({
+            success: true,
+            job: toAnalysisJobSummary(cancelled),
+            message: 'Analysis cancelled'
+        });
+
+    } catch (error) {
+        console.error('Cancel analysis job error:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to cancel analysis job',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
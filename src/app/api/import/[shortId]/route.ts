@@ -4,6 +4,8 @@ import { importedFloorPlans, selectImportedFloorPlanSchema } from '@/lib/db/sche
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
 import { stackServerApp } from '@/app/stack';
+import { ImportedZone, Opening, reviewImportedFloorPlanSchema } from '@/types';
+import { applyZoneCorrections, rehostOpenings, ZoneCorrectionError } from '@/components/floor-plan/utils/import_review';
 
 // Simple in-memory rate limiting store
 // In production, consider using Redis or a similar solution
@@ -162,10 +164,10 @@ export async function GET(
             console.log('Auth check failed for shortId access:', error);
         }
 
-        // Security: Check if the floor plan belongs to the current user
-        // For now, allow access if userId is null (public access) or matches current user
-        // In the future, this could be more restrictive
-        if (floorPlan.userId && currentUserId && floorPlan.userId !== currentUserId) {
+        // Security: Floor plans imported by a signed-in user are only readable by that user;
+        // anonymous imports (userId is null) stay reachable by their short ID.
+        // Use a project share link to show a plan to others.
+        if (floorPlan.userId && floorPlan.userId !== currentUserId) {
             const errorResponse = NextResponse.json(
                 { error: 'Access denied: Floor plan belongs to another user' },
                 { status: 403 }
@@ -235,3 +237,141 @@ export async function GET(
         return errorResponse;
     }
 }
+
+// PATCH - Store the review of the detected zones; the project is built from the reviewed zones
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ shortId: string }> }
+) {
+    try {
+        const clientIP = getClientIP(request);
+        if (!checkRateLimit(clientIP)) {
+            return NextResponse.json(
+                {
+                    error: 'Too many requests',
+                    details: 'Rate limit exceeded. Please try again later.',
+                    retryAfter: Math.ceil(RATE_LIMIT_WINDOW / 1000)
+                },
+                {
+                    status: 429,
+                    headers: { 'Retry-After': Math.ceil(RATE_LIMIT_WINDOW / 1000).toString() }
+                }
+            );
+        }
+
+        const { shortId } = await params;
+        const sanitizedShortId = (shortId || '').replace(/[\x00-\x1f\x7f-\x9f]/g, '').trim();
+        const shortIdValidationResult = shortIdSchema.safeParse({ shortId: sanitizedShortId });
+        if (!shortIdValidationResult.success) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid shortId format',
+                    details: shortIdValidationResult.error.issues
+                },
+                { status: 400 }
+            );
+        }
+
+        let body: unknown;
+        try {
+            body = await request.json();
+        } catch {
+            return NextResponse.json(
+                { error: 'Invalid review data', details: 'Request body must be valid JSON' },
+                { status: 400 }
+            );
+        }
+
+        const bodyValidation = reviewImportedFloorPlanSchema.safeParse(body);
+        if (!bodyValidation.success) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid review data',
+                    details: bodyValidation.error.issues
+                },
+                { status: 400 }
+            );
+        }
+
+        const [floorPlan] = await db
+            .select()
+            .from(importedFloorPlans)
+            .where(eq(importedFloorPlans.shortId, sanitizedShortId))
+            .limit(1);
+
+        if (!floorPlan) {
+            return NextResponse.json(
+                { error: 'Imported floor plan not found' },
+                { status: 404 }
+            );
+        }
+
+        let currentUserId: string | null = null;
+        try {
+            const user = await stackServerApp.getUser();
+            currentUserId = user?.id || null;
+        } catch (error) {
+            console.log('Auth check failed for shortId review:', error);
+        }
+
+        // Same rule as reading: anonymous imports can be reviewed by anyone holding the short ID
+        if (floorPlan.userId && floorPlan.userId !== currentUserId) {
+            return NextResponse.json(
+                { error: 'Access denied: Floor plan belongs to another user' },
+                { status: 403 }
+            );
+        }
+
+        // Corrections are always replayed on the detected zones, so a review can be redone
+        const { corrections } = bodyValidation.data;
+        const detectedZones = (floorPlan.zones ?? []) as ImportedZone[];
+        let reviewedZones: ImportedZone[];
+        try {
+            reviewedZones = applyZoneCorrections(detectedZones, corrections);
+        } catch (error) {
+            if (error instanceof ZoneCorrectionError) {
+                return NextResponse.json(
+                    { error: `Invalid correction: ${error.message}` },
+                    { status: 400 }
+                );
+            }
+            throw error;
+        }
+
+        if (reviewedZones.length === 0) {
+            return NextResponse.json(
+                { error: 'Keep at least one zone' },
+                { status: 400 }
+            );
+        }
+
+        const reviewedOpenings = rehostOpenings((floorPlan.openings ?? []) as Opening[], detectedZones, reviewedZones);
+
+        const [updatedFloorPlan] = await db
+            .update(importedFloorPlans)
+            .set({
+                reviewedZones,
+                reviewedOpenings,
+                corrections,
+                reviewedAt: new Date(),
+                updatedAt: new Date(),
+            })
+            .where(eq(importedFloorPlans.id, floorPlan.id))
+            .returning();
+
+        const response = NextResponse.json(updatedFloorPlan);
+        response.headers.set('X-Content-Type-Options', 'nosniff');
+        response.headers.set('Cache-Control', 'private, no-cache, no-store, must-revalidate');
+        return response;
+
+    } catch (error) {
+        console.error('Error reviewing imported floor plan:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to save floor plan review',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
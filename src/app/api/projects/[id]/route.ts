@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '@/lib/db';
 import { projects, selectProjectSchema } from '@/lib/db/schema';
+import { readProjectData } from '@/lib/db/project_data';
 import { eq } from 'drizzle-orm';
 import { stackServerApp } from '@/app/stack';
 import { error } from 'console';
@@ -12,7 +13,7 @@ const projectIdSchema = z.object({
     id: z.string().uuid("Invalid project ID"),
 });
 
-// GET - Get a specific project
+// GET - Get a specific project with its zones, furniture, settings, diagrams, walls, openings, levels, measurements and dimensions
 export async function GET(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
@@ -84,7 +85,13 @@ export async function GET(
             );
         }
 
-        return NextResponse.json(validationResult.data);
+        // Load project contents
+        const contents = await readProjectData(id);
+
+        return NextResponse.json({
+            ...validationResult.data,
+            ...contents,
+        });
 
     } catch (error) {
         console.error('Get project error:', error);
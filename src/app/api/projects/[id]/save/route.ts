@@ -1,16 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '@/lib/db';
-import {
-    projects,
-    zones,
-    furnitureItems,
-    projectSettings,
-    selectProjectSchema,
-    insertZoneSchema,
-    insertFurnitureItemSchema,
-    insertProjectSettingsSchema
-} from '@/lib/db/schema';
+import { projects, selectProjectSchema } from '@/lib/db/schema';
+import { writeProjectData, recordProjectVersion } from '@/lib/db/project_data';
 import {
     saveProjectDataSchema
 } from '@/types';
@@ -22,7 +14,7 @@ const projectIdSchema = z.object({
     id: z.string().uuid("Invalid project ID"),
 });
 
-// POST - Save project data (zones, furniture, settings)
+// POST - Save project data (zones, furniture, settings, diagrams, walls, openings, levels, measurements, dimensions) and record a version
 export async function POST(
     request: NextRequest,
     { params }: { params: Promise<{ id: string }> }
@@ -73,8 +65,6 @@ export async function POST(
             );
         }
 
-        const { zones: zonesData, furniture: furnitureData, settings: settingsData } = validationResult.data;
-
         // Verify project exists and user owns it
         const [project] = await db
             .select()
@@ -96,110 +86,10 @@ export async function POST(
             );
         }
 
-        // Use transaction to ensure data consistency
-        await db.transaction(async (tx) => {
-            // Delete existing zones for this project
-            await tx
-                .delete(zones)
-                .where(eq(zones.projectId, id));
-
-            // Insert new zones
-            if (zonesData.length > 0) {
-                const zonesToInsert = zonesData.map(zone => ({
-                    projectId: id,
-                    zoneId: zone.zoneId,
-                    name: zone.name,
-                    x: zone.x,
-                    y: zone.y,
-                    width: zone.w,
-                    height: zone.h,
-                    color: zone.color || null,
-                }));
-
-                // Validate zones data using the database schema
-                const zonesValidationResult = insertZoneSchema.omit({ id: true, createdAt: true, updatedAt: true }).safeParse(zonesToInsert);
-                if (!zonesValidationResult.success) {
-                    throw new Error(`Invalid zones data: ${zonesValidationResult.error.issues.map(issue => issue.message).join(', ')}`);
-                }
-
-                await tx
-                    .insert(zones)
-                    .values(zonesValidationResult.data);
-            }
-
-            // Delete existing furniture items for this project
-            await tx
-                .delete(furnitureItems)
-                .where(eq(furnitureItems.projectId, id));
-
-            // Insert new furniture items
-            if (furnitureData.length > 0) {
-                const furnitureToInsert = furnitureData.map(item => ({
-                    projectId: id,
-                    catalogId: item.catalogId || null,
-                    name: item.name,
-                    x: item.x,
-                    y: item.y,
-                    width: item.w,
-                    height: item.h,
-                    rotation: item.r,
-                    color: item.color,
-                    zoneId: item.zoneId || null,
-                }));
-
-                // Validate furniture data using the database schema
-                const furnitureValidationResult = insertFurnitureItemSchema.omit({ id: true, createdAt: true, updatedAt: true }).safeParse(furnitureToInsert);
-                if (!furnitureValidationResult.success) {
-                    throw new Error(`Invalid furniture data: ${furnitureValidationResult.error.issues.map(issue => issue.message).join(', ')}`);
-                }
-
-                await tx
-                    .insert(furnitureItems)
-                    .values(furnitureValidationResult.data);
-            }
-
-            // Update or create project settings
-            const [existingSettings] = await tx
-                .select()
-                .from(projectSettings)
-                .where(eq(projectSettings.projectId, id))
-                .limit(1);
-
-            const settingsToSave = {
-                projectId: id,
-                apartmentWidth: settingsData.apartmentWidth,
-                apartmentHeight: settingsData.apartmentHeight,
-                scale: settingsData.scale,
-                snap: settingsData.snap,
-                showGrid: settingsData.showGrid,
-                showDimensions: settingsData.showDimensions,
-            };
-
-            // Validate settings data
-            const settingsValidationResult = insertProjectSettingsSchema.omit({ id: true, updatedAt: true }).safeParse(settingsToSave);
-            if (!settingsValidationResult.success) {
-                throw new Error(`Invalid settings data: ${settingsValidationResult.error.issues.map(issue => issue.message).join(', ')}`);
-            }
-
-            if (existingSettings) {
-                await tx
-                    .update(projectSettings)
-                    .set({
-                        ...settingsValidationResult.data,
-                        updatedAt: new Date(),
-                    })
-                    .where(eq(projectSettings.id, existingSettings.id));
-            } else {
-                await tx
-                    .insert(projectSettings)
-                    .values(settingsValidationResult.data);
-            }
-
-            // Update project updatedAt timestamp
-            await tx
-                .update(projects)
-                .set({ updatedAt: new Date() })
-                .where(eq(projects.id, id));
+        // Use transaction to ensure data consistency; every save also appends an immutable snapshot
+        const version = await db.transaction(async (tx) => {
+            await writeProjectData(tx, id, validationResult.data);
+            return recordProjectVersion(tx, id, validationResult.data, { userId: user.id });
         });
 
         // Get updated project data
@@ -225,6 +115,7 @@ export async function POST(
         return NextResponse.json({
             success: true,
             project: returnValidationResult.data,
+            version,
             message: 'Project saved successfully'
         });
 
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { projects, projectShares } from '@/lib/db/schema';
+import { toShareSummary } from '@/lib/db/project_shares';
+import { and, eq } from 'drizzle-orm';
+import { stackServerApp } from '@/app/stack';
+
+// Zod schema for route parameter validation
+const shareParamsSchema = z.object({
+    id: z.string().uuid("Invalid project ID"),
+    shareId: z.string().uuid("Invalid share ID"),
+});
+
+// DELETE - Revoke a share link; the row is kept so the owner can see it was revoked
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; shareId: string }> }
+) {
+    try {
+        // Get authenticated user
+        let user;
+        try {
+            user = await stackServerApp.getUser();
+            if (!user) {
+                return NextResponse.json(
+                    { error: 'Authentication required' },
+                    { status: 401 }
+                );
+            }
+        } catch {
+            return NextResponse.json(
+                { error: 'Authentication failed' },
+                { status: 401 }
+            );
+        }
+
+        const { id, shareId } = await params;
+
+        // Validate route parameters
+        const paramsValidationResult = shareParamsSchema.safeParse({ id, shareId });
+        if (!paramsValidationResult.success) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid share link ID',
+                    details: paramsValidationResult.error.issues
+                },
+                { status: 400 }
+            );
+        }
+
+        // Verify project exists and user owns it
+        const [project] = await db
+            .select()
+            .from(projects)
+            .where(eq(projects.id, id))
+            .limit(1);
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        if (project.userId !== user.id) {
+            return NextResponse.json(
+                { error: 'Access denied' },
+                { status: 403 }
+            );
+        }
+
+        const [share] = await db
+            .select()
+            .from(projectShares)
+            .where(and(eq(projectShares.id, shareId), eq(projectShares.projectId, id)))
+            .limit(1);
+
+        if (!share) {
+            return NextResponse.json(
+                { error: 'Share link not found' },
+                { status: 404 }
+            );
+        }
+
+        // Revoking twice keeps the original revocation time
+        const [revoked] = share.revokedAt
+            ? [share]
+            : await db
+                .update(projectShares)
+                .set({ revokedAt: new Date() })
+                .where(eq(projectShares.id, shareId))
+                .returning();
+
+        return NextResponse.json({
+            success: true,
+            share: toShareSummary(revoked),
+            message: 'Share link revoked successfully'
+        });
+
+    } catch (error) {
+        console.error('Revoke share link error:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to revoke share link',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,304 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { projects, projectShares } from '@/lib/db/schema';
+import { generateShareToken, toShareSummary } from '@/lib/db/project_shares';
+import { createProjectShareSchema, updateProjectVisibilitySchema } from '@/types';
+import { desc, eq } from 'drizzle-orm';
+import { stackServerApp } from '@/app/stack';
+
+// Zod schema for project ID validation
+const projectIdSchema = z.object({
+    id: z.string().uuid("Invalid project ID"),
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// GET - Get a project's visibility and its share links, newest first
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        // Get authenticated user
+        let user;
+        try {
+            user = await stackServerApp.getUser();
+            if (!user) {
+                return NextResponse.json(
+                    { error: 'Authentication required' },
+                    { status: 401 }
+                );
+            }
+        } catch {
+            return NextResponse.json(
+                { error: 'Authentication failed' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+
+        // Validate project ID
+        const idValidationResult = projectIdSchema.safeParse({ id });
+        if (!idValidationResult.success) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid project ID',
+                    details: idValidationResult.error.issues
+                },
+                { status: 400 }
+            );
+        }
+
+        // Verify project exists and user owns it
+        const [project] = await db
+            .select()
+            .from(projects)
+            .where(eq(projects.id, id))
+            .limit(1);
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        if (project.userId !== user.id) {
+            return NextResponse.json(
+                { error: 'Access denied' },
+                { status: 403 }
+            );
+        }
+
+        const shareRows = await db
+            .select()
+            .from(projectShares)
+            .where(eq(projectShares.projectId, id))
+            .orderBy(desc(projectShares.createdAt));
+
+        return NextResponse.json({
+            isPublic: project.isPublic ?? false,
+            shares: shareRows.map(toShareSummary),
+        });
+
+    } catch (error) {
+        console.error('Get project shares error:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to fetch share links',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+// POST - Create a share link and make the project public
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        // Get authenticated user
+        let user;
+        try {
+            user = await stackServerApp.getUser();
+            if (!user) {
+                return NextResponse.json(
+                    { error: 'Authentication required' },
+                    { status: 401 }
+                );
+            }
+        } catch {
+            return NextResponse.json(
+                { error: 'Authentication failed' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+
+        // Validate project ID
+        const idValidationResult = projectIdSchema.safeParse({ id });
+        if (!idValidationResult.success) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid project ID',
+                    details: idValidationResult.error.issues
+                },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+
+        // Validate share options
+        const validationResult = createProjectShareSchema.safeParse(body);
+        if (!validationResult.success) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid share data',
+                    details: validationResult.error.issues
+                },
+                { status: 400 }
+            );
+        }
+
+        // Verify project exists and user owns it
+        const [project] = await db
+            .select()
+            .from(projects)
+            .where(eq(projects.id, id))
+            .limit(1);
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        if (project.userId !== user.id) {
+            return NextResponse.json(
+                { error: 'Access denied' },
+                { status: 403 }
+            );
+        }
+
+        const { expiresInDays } = validationResult.data;
+
+        const share = await db.transaction(async (tx) => {
+            // Share links only work while the project is public
+            await tx
+                .update(projects)
+                .set({ isPublic: true, updatedAt: new Date() })
+                .where(eq(projects.id, id));
+
+            const [created] = await tx
+                .insert(projectShares)
+                .values({
+                    projectId: id,
+                    token: generateShareToken(),
+                    expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+                    createdBy: user.id,
+                })
+                .returning();
+
+            return created;
+        });
+
+        return NextResponse.json({
+            success: true,
+            isPublic: true,
+            share: toShareSummary(share),
+            message: 'Share link created successfully'
+        }, { status: 201 });
+
+    } catch (error) {
+        console.error('Create share link error:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to create share link',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+// PATCH - Toggle public visibility; existing links stop working while the project is private
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        // Get authenticated user
+        let user;
+        try {
+            user = await stackServerApp.getUser();
+            if (!user) {
+                return NextResponse.json(
+                    { error: 'Authentication required' },
+                    { status: 401 }
+                );
+            }
+        } catch {
+            return NextResponse.json(
+                { error: 'Authentication failed' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+
+        // Validate project ID
+        const idValidationResult = projectIdSchema.safeParse({ id });
+        if (!idValidationResult.success) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid project ID',
+                    details: idValidationResult.error.issues
+                },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+
+        // Validate visibility data
+        const validationResult = updateProjectVisibilitySchema.safeParse(body);
+        if (!validationResult.success) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid visibility data',
+                    details: validationResult.error.issues
+                },
+                { status: 400 }
+            );
+        }
+
+        // Verify project exists and user owns it
+        const [project] = await db
+            .select()
+            .from(projects)
+            .where(eq(projects.id, id))
+            .limit(1);
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        if (project.userId !== user.id) {
+            return NextResponse.json(
+                { error: 'Access denied' },
+                { status: 403 }
+            );
+        }
+
+        await db
+            .update(projects)
+            .set({ isPublic: validationResult.data.isPublic, updatedAt: new Date() })
+            .where(eq(projects.id, id));
+
+        return NextResponse.json({
+            success: true,
+            isPublic: validationResult.data.isPublic,
+            message: validationResult.data.isPublic ? 'Project is now public' : 'Project is now private'
+        });
+
+    } catch (error) {
+        console.error('Update project visibility error:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to update project visibility',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { projects, projectVersions } from '@/lib/db/schema';
+import { writeProjectData, recordProjectVersion } from '@/lib/db/project_data';
+import { saveProjectDataSchema } from '@/types';
+import { and, eq } from 'drizzle-orm';
+import { stackServerApp } from '@/app/stack';
+
+// Zod schema for project and version ID validation
+const versionParamsSchema = z.object({
+    id: z.string().uuid("Invalid project ID"),
+    versionId: z.string().uuid("Invalid version ID"),
+});
+
+// POST - Restore a project to a version. The restore itself is recorded as a new
+// version, so the layout it replaced stays in the history.
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+    try {
+        // Get authenticated user
+        let user;
+        try {
+            user = await stackServerApp.getUser();
+            if (!user) {
+                return NextResponse.json(
+                    { error: 'Authentication required' },
+                    { status: 401 }
+                );
+            }
+        } catch {
+            return NextResponse.json(
+                { error: 'Authentication failed' },
+                { status: 401 }
+            );
+        }
+
+        const { id, versionId } = await params;
+
+        // Validate project and version IDs
+        const paramsValidationResult = versionParamsSchema.safeParse({ id, versionId });
+        if (!paramsValidationResult.success) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid version request',
+                    details: paramsValidationResult.error.issues
+                },
+                { status: 400 }
+            );
+        }
+
+        // Verify project exists and user owns it
+        const [project] = await db
+            .select()
+            .from(projects)
+            .where(eq(projects.id, id))
+            .limit(1);
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        if (project.userId !== user.id) {
+            return NextResponse.json(
+                { error: 'Access denied' },
+                { status: 403 }
+            );
+        }
+
+        const [versionRow] = await db
+            .select()
+            .from(projectVersions)
+            .where(and(eq(projectVersions.id, versionId), eq(projectVersions.projectId, id)))
+            .limit(1);
+
+        if (!versionRow) {
+            return NextResponse.json(
+                { error: 'Version not found' },
+                { status: 404 }
+            );
+        }
+
+        // Validate snapshot data
+        const dataValidationResult = saveProjectDataSchema.safeParse(versionRow.data);
+        if (!dataValidationResult.success) {
+            console.error('Version data validation failed:', dataValidationResult.error.issues);
+            return NextResponse.json(
+                {
+                    error: 'Invalid version data from database',
+                    details: dataValidationResult.error.issues
+                },
+                { status: 500 }
+            );
+        }
+
+        const data = dataValidationResult.data;
+
+        // Use transaction to ensure data consistency
+        const version = await db.transaction(async (tx) => {
+            await writeProjectData(tx, id, data);
+            return recordProjectVersion(tx, id, data, {
+                userId: user.id,
+                restoredFrom: versionRow.version,
+            });
+        });
+
+        return NextResponse.json({
+            success: true,
+            version,
+            data,
+            message: `Project restored to version ${versionRow.version}`
+        });
+
+    } catch (error) {
+        console.error('Restore project version error:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to restore project version',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/db';
+import { projects, projectVersions } from '@/lib/db/schema';
+import { recordProjectVersion, writeProjectData } from '@/lib/db/project_data';
+import { createProjectVersionSchema, ProjectVersionSummary } from '@/types';
+import { and, desc, eq } from 'drizzle-orm';
+import { stackServerApp } from '@/app/stack';
+
+// Zod schema for project ID validation
+const projectIdSchema = z.object({
+    id: z.string().uuid("Invalid project ID"),
+});
+
+// GET - List a project's versions, newest first (without snapshot data)
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        // Get authenticated user
+        let user;
+        try {
+            user = await stackServerApp.getUser();
+            if (!user) {
+                return NextResponse.json(
+                    { error: 'Authentication required' },
+                    { status: 401 }
+                );
+            }
+        } catch {
+            return NextResponse.json(
+                { error: 'Authentication failed' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+
+        // Validate project ID
+        const idValidationResult = projectIdSchema.safeParse({ id });
+        if (!idValidationResult.success) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid project ID',
+                    details: idValidationResult.error.issues
+                },
+                { status: 400 }
+            );
+        }
+
+        // Verify project exists and user owns it
+        const [project] = await db
+            .select()
+            .from(projects)
+            .where(eq(projects.id, id))
+            .limit(1);
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        if (project.userId !== user.id) {
+            return NextResponse.json(
+                { error: 'Access denied' },
+                { status: 403 }
+            );
+        }
+
+        const checkpointsOnly = request.nextUrl.searchParams.get('checkpoints') === 'true';
+
+        const versionRows = await db
+            .select({
+                id: projectVersions.id,
+                version: projectVersions.version,
+                name: projectVersions.name,
+                isCheckpoint: projectVersions.isCheckpoint,
+                restoredFrom: projectVersions.restoredFrom,
+                createdAt: projectVersions.createdAt,
+            })
+            .from(projectVersions)
+            .where(checkpointsOnly
+                ? and(eq(projectVersions.projectId, id), eq(projectVersions.isCheckpoint, true))
+                : eq(projectVersions.projectId, id))
+            .orderBy(desc(projectVersions.version));
+
+        const versions: ProjectVersionSummary[] = versionRows.map(row => ({
+            ...row,
+            createdAt: row.createdAt.toISOString(),
+        }));
+
+        return NextResponse.json({ versions });
+
+    } catch (error) {
+        console.error('Get project versions error:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to fetch project versions',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+// POST - Save the editor's current data as a named checkpoint
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    try {
+        // Get authenticated user
+        let user;
+        try {
+            user = await stackServerApp.getUser();
+            if (!user) {
+                return NextResponse.json(
+                    { error: 'Authentication required' },
+                    { status: 401 }
+                );
+            }
+        } catch {
+            return NextResponse.json(
+                { error: 'Authentication failed' },
+                { status: 401 }
+            );
+        }
+
+        const { id } = await params;
+
+        // Validate project ID
+        const idValidationResult = projectIdSchema.safeParse({ id });
+        if (!idValidationResult.success) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid project ID',
+                    details: idValidationResult.error.issues
+                },
+                { status: 400 }
+            );
+        }
+
+        const body = await request.json();
+
+        // Validate checkpoint data
+        const validationResult = createProjectVersionSchema.safeParse(body);
+        if (!validationResult.success) {
+            return NextResponse.json(
+                {
+                    error: 'Invalid checkpoint data',
+                    details: validationResult.error.issues
+                },
+                { status: 400 }
+            );
+        }
+
+        // Verify project exists and user owns it
+        const [project] = await db
+            .select()
+            .from(projects)
+            .where(eq(projects.id, id))
+            .limit(1);
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            );
+        }
+
+        if (project.userId !== user.id) {
+            return NextResponse.json(
+                { error: 'Access denied' },
+                { status: 403 }
+            );
+        }
+
+        // A checkpoint is a save with a name, so unsaved edits are part of it
+        const version = await db.transaction(async (tx) => {
+            await writeProjectData(tx, id, validationResult.data.data);
+            return recordProjectVersion(tx, id, validationResult.data.data, {
+                userId: user.id,
+                name: validationResult.data.name,
+                isCheckpoint: true,
+            });
+        });
+
+        return NextResponse.json({
+            success: true,
+            version,
+            message: 'Checkpoint created successfully'
+        }, { status: 201 });
+
+    } catch (error) {
+        console.error('Create checkpoint error:', error);
+        return NextResponse.json(
+            {
+                error: 'Failed to create checkpoint',
+                details: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
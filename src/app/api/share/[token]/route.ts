@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db';
+import { projects, projectShares } from '@/lib/db/schema';
+import { readProjectData } from '@/lib/db/project_data';
+import { SHARE_TOKEN_PATTERN, getShareStatus } from '@/lib/db/project_shares';
+import { eq } from 'drizzle-orm';
+
+// Shared plans are private to whoever holds the link, so never cache or leak the URL
+function withSecurityHeaders(response: NextResponse): NextResponse {
+    response.headers.set('X-Content-Type-Options', 'nosniff');
+    response.headers.set('X-Frame-Options', 'DENY');
+    response.headers.set('Referrer-Policy', 'no-referrer');
+    response.headers.set('Cache-Control', 'private, no-cache, no-store, must-revalidate');
+    return response;
+}
+
+// GET - Read-only project data for a public share link; no authentication required
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ token: string }> }
+) {
+    try {
+        const { token } = await params;
+
+        // Validate token format before touching the database
+        if (!SHARE_TOKEN_PATTERN.test(token)) {
+            return withSecurityHeaders(NextResponse.json(
+                { error: 'Share link not found' },
+                { status: 404 }
+            ));
+        }
+
+        const [row] = await db
+            .select({ share: projectShares, project: projects })
+            .from(projectShares)
+            .innerJoin(projects, eq(projectShares.projectId, projects.id))
+            .where(eq(projectShares.token, token))
+            .limit(1);
+
+        if (!row) {
+            return withSecurityHeaders(NextResponse.json(
+                { error: 'Share link not found' },
+                { status: 404 }
+            ));
+        }
+
+        // Private projects answer like unknown links so their existence isn't revealed
+        const status = getShareStatus(row.share, row.project.isPublic);
+        if (status === 'private') {
+            return withSecurityHeaders(NextResponse.json(
+                { error: 'Share link not found' },
+                { status: 404 }
+            ));
+        }
+        if (status !== 'active') {
+            return withSecurityHeaders(NextResponse.json(
+                { error: status === 'expired' ? 'Share link has expired' : 'Share link has been revoked' },
+                { status: 410 }
+            ));
+        }
+
+        const contents = await readProjectData(row.project.id);
+
+        // Only expose what the viewer needs, not the owner or internal IDs
+        return withSecurityHeaders(NextResponse.json({
+            name: row.project.name,
+            description: row.project.description,
+            updatedAt: row.project.updatedAt.toISOString(),
+            expiresAt: row.share.expiresAt?.toISOString() ?? null,
+            ...contents,
+        }));
+
+    } catch (error) {
+        console.error('Get shared project error:', error);
+        return withSecurityHeaders(NextResponse.json(
+            { error: 'Failed to fetch shared project' },
+            { status: 500 }
+        ));
+    }
+}
@@ -1,11 +1,12 @@
 "use client";
 
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useParams } from 'next/navigation';
 import { z } from 'zod';
 import { EditorShell } from "@/components/floor-plan/editor/editor_shell";
+import { ImportReview } from "@/components/floor-plan/editor/import_review";
 import { DiagramShape } from "@/components/floor-plan/canvas/tools/diagram_schemas";
-import { ImportedFloorPlanData, FloorPlanZone, FurnitureItemType, FloorPlanSettings, floorPlanZoneSchema, furnitureItemSchema, floorPlanSettingsSchema } from '@/types';
+import { ImportedFloorPlanData, FloorPlanZone, FurnitureItemType, FloorPlanSettings, WallSegment, Opening, Level, Measurement, Dimension, floorPlanZoneSchema, furnitureItemSchema, floorPlanSettingsSchema } from '@/types';
 import { DEFAULT_FURNITURE_CATALOG } from '@/lib/furniture-catalog';
 
 interface ImportedFloorPlanResponse extends ImportedFloorPlanData {
@@ -36,6 +37,14 @@ export default function ImportedEditorPage() {
     const [importedData, setImportedData] = useState<ImportedFloorPlanResponse | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    // Project created on the first save; later saves add versions to it
+    const [projectId, setProjectId] = useState<string | null>(null);
+
+    // Built once the detected zones are reviewed, so re-renders don't reload the editor
+    const initialData = useMemo(
+        () => importedData?.reviewedAt ? buildInitialEditorData(importedData) : null,
+        [importedData]
+    );
 
     useEffect(() => {
         if (!shortId || !validationResult.success) {
@@ -62,7 +71,7 @@ export default function ImportedEditorPage() {
         fetchImportedFloorPlan();
     }, [shortId, validationResult.success]);
 
-    const handleSave = async (data: { zones: FloorPlanZone[]; furniture: FurnitureItemType[]; settings: FloorPlanSettings; diagrams?: DiagramShape[] }) => {
+    const handleSave = async (data: { zones: FloorPlanZone[]; furniture: FurnitureItemType[]; settings: FloorPlanSettings; diagrams?: DiagramShape[]; walls?: WallSegment[]; openings?: Opening[]; levels?: Level[]; measurements?: Measurement[]; dimensions?: Dimension[] }) => {
         try {
             // Validate data before saving
             const zonesValidation = z.array(floorPlanZoneSchema).safeParse(data.zones);
@@ -79,45 +88,54 @@ export default function ImportedEditorPage() {
             if (!settingsValidation.success) {
                 throw new Error(`Invalid settings data: ${settingsValidation.error.issues.map(issue => issue.message).join(', ')}`);
             }
-            // First, we need to create a project for this imported floor plan
+            // On the first save, create a project for this imported floor plan
             // The imported floor plan data will be converted to a project
-            const createProjectResponse = await fetch('/api/projects', {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    name: `Floor Plan ${importedData?.shortId || shortId}`,
-                    description: `Project created from imported floor plan ${importedData?.shortId || shortId}`,
-                    apartmentType: 'type_7',
-                }),
-            });
+            let savedProjectId = projectId;
+            if (!savedProjectId) {
+                const createProjectResponse = await fetch('/api/projects', {
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                    },
+                    body: JSON.stringify({
+                        name: `Floor Plan ${importedData?.shortId || shortId}`,
+                        description: `Project created from imported floor plan ${importedData?.shortId || shortId}`,
+                        apartmentType: 'type_7',
+                    }),
+                });
 
-            if (!createProjectResponse.ok) {
-                const errorData = await createProjectResponse.json();
-                throw new Error(errorData.details || errorData.error || 'Failed to create project');
-            }
+                if (!createProjectResponse.ok) {
+                    const errorData = await createProjectResponse.json();
+                    throw new Error(errorData.details || errorData.error || 'Failed to create project');
+                }
 
-            const createdProject = await createProjectResponse.json();
+                const createdProject = await createProjectResponse.json();
+                savedProjectId = createdProject.id as string;
+                setProjectId(savedProjectId);
+            }
 
-            // Now save the project data (zones, furniture, settings)
-            const saveResponse = await fetch(`/api/projects/${createdProject.id}/save`, {
+            // Now save the project data (zones, furniture, settings, diagrams, walls, openings, levels, measurements, dimensions)
+            const saveResponse = await fetch(`/api/projects/${savedProjectId}/save`, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                 },
                 body: JSON.stringify({
                     zones: data.zones.map(zone => ({
+                        id: zone.id,
                         zoneId: zone.zoneId,
                         name: zone.name,
                         x: zone.x,
                         y: zone.y,
                         w: zone.w,
                         h: zone.h,
+                        points: zone.points,
                         color: zone.color,
                         suggestedFurniture: zone.suggestedFurniture,
+                        levelId: zone.levelId,
                     })),
                     furniture: data.furniture.map(item => ({
+                        id: item.id,
                         name: item.name,
                         x: item.x,
                         y: item.y,
@@ -127,6 +145,7 @@ export default function ImportedEditorPage() {
                         color: item.color,
                         catalogId: item.catalogId,
                         zoneId: item.zoneId,
+                        levelId: item.levelId,
                     })),
                     settings: {
                         apartmentWidth: data.settings.apartmentWidth,
@@ -135,7 +154,21 @@ export default function ImportedEditorPage() {
                         snap: data.settings.snap,
                         showGrid: data.settings.showGrid,
                         showDimensions: data.settings.showDimensions,
+                        unitSystem: data.settings.unitSystem,
+                        canvasMode: data.settings.canvasMode,
+                        maxCanvasWidth: data.settings.maxCanvasWidth,
+                        maxCanvasHeight: data.settings.maxCanvasHeight,
+                        showZones: data.settings.showZones,
+                        showFurniture: data.settings.showFurniture,
+                        showDiagrams: data.settings.showDiagrams,
+                        background: data.settings.background,
                     },
+                    diagrams: data.diagrams ?? [],
+                    walls: data.walls ?? [],
+                    openings: data.openings ?? [],
+                    levels: data.levels ?? [],
+                    measurements: data.measurements ?? [],
+                    dimensions: data.dimensions ?? [],
                 }),
             });
 
@@ -144,11 +177,13 @@ export default function ImportedEditorPage() {
                 throw new Error(errorData.details || errorData.error || 'Failed to save project data');
             }
 
+            const saveResult = await saveResponse.json();
+
             // Show success message
-            alert(`Project saved successfully! Project ID: ${createdProject.id}`);
+            alert(`Project saved successfully! Project ID: ${savedProjectId} (version ${saveResult.version})`);
 
             // Optionally redirect to the project page
-            // window.location.href = `/editor/${createdProject.id}`;
+            // window.location.href = `/editor/${savedProjectId}`;
 
         } catch (error) {
             console.error('Save error:', error);
@@ -167,7 +202,17 @@ export default function ImportedEditorPage() {
         );
     }
 
-    if (error || !importedData) {
+    // Detected zones are reviewed once before the editor opens
+    if (importedData && !importedData.reviewedAt && !error) {
+        return (
+            <ImportReview
+                importedData={importedData}
+                onComplete={(reviewed) => setImportedData(reviewed as ImportedFloorPlanResponse)}
+            />
+        );
+    }
+
+    if (error || !importedData || !initialData) {
         return (
             <div className="h-screen flex items-center justify-center bg-gray-50">
                 <div className="text-center">
@@ -185,8 +230,24 @@ export default function ImportedEditorPage() {
         );
     }
 
-    // Convert imported zones to the format expected by the editor
-    const zones: FloorPlanZone[] = importedData.zones.map((zone, index) => ({
+    return (
+        <EditorShell
+            projectId={projectId ?? undefined}
+            initialZones={initialData.zones}
+            initialFurniture={initialData.furniture}
+            initialSettings={initialData.settings}
+            initialOpenings={initialData.openings}
+            onSave={handleSave}
+        />
+    );
+}
+
+/**
+ * Converts an imported floor plan into the editor's initial zones, furniture, settings and openings
+ */
+function buildInitialEditorData(importedData: ImportedFloorPlanResponse) {
+    // Convert imported zones to the format expected by the editor, using the reviewed ones when present
+    const zones: FloorPlanZone[] = (importedData.reviewedZones ?? importedData.zones).map((zone, index) => ({
         id: `zone_${index}`,
         zoneId: zone.zoneId,
         name: zone.name,
@@ -194,11 +255,18 @@ export default function ImportedEditorPage() {
         y: zone.y,
         w: zone.w,
         h: zone.h,
+        points: zone.points,
         color: undefined,
         // Add default suggested furniture if not provided
         suggestedFurniture: zone.suggestedFurniture || getDefaultFurnitureForZone(zone.name, zone.zoneId),
     }));
 
+    // Detected doors and windows reference their zone by zoneId; point them at the editor zone IDs
+    const openings: Opening[] = (importedData.reviewedOpenings ?? importedData.openings ?? []).flatMap(opening => {
+        const zone = zones.find(z => z.zoneId === opening.hostId);
+        return zone ? [{ ...opening, hostId: zone.id }] : [];
+    });
+
     // Helper function to get default furniture suggestions based on zone type
     function getDefaultFurnitureForZone(zoneName: string, zoneId: string): string[] {
         const name = zoneName.toLowerCase();
@@ -393,12 +461,5 @@ export default function ImportedEditorPage() {
         });
     }
 
-    return (
-        <EditorShell
-            initialZones={zones}
-            initialFurniture={furniture}
-            initialSettings={settings}
-            onSave={handleSave}
-        />
-    );
+    return { zones, furniture, settings, openings };
 }
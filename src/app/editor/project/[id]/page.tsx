@@ -0,0 +1,91 @@
+"use client";
+
+import { ComponentProps, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { EditorShell } from "@/components/floor-plan/editor/editor_shell";
+import { fetchProject, saveProject, SavedProject } from "@/components/floor-plan/services/projects";
+import { saveProjectDataSchema } from '@/types';
+
+type EditorSaveData = Parameters<NonNullable<ComponentProps<typeof EditorShell>['onSave']>>[0];
+
+export default function ProjectEditorPage() {
+    const params = useParams();
+    const projectId = params.id as string;
+
+    const [project, setProject] = useState<SavedProject | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const loadProject = async () => {
+            try {
+                setProject(await fetchProject(projectId));
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Unknown error');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        loadProject();
+    }, [projectId]);
+
+    const handleSave = async (data: EditorSaveData) => {
+        try {
+            const validation = saveProjectDataSchema.safeParse(data);
+            if (!validation.success) {
+                throw new Error(`Invalid project data: ${validation.error.issues.map(issue => issue.message).join(', ')}`);
+            }
+            const version = await saveProject(projectId, validation.data);
+            alert(`Project saved successfully! (version ${version})`);
+        } catch (error) {
+            console.error('Save error:', error);
+            alert(`Failed to save project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="h-screen flex items-center justify-center bg-gray-50">
+                <div className="text-center">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                    <p className="text-gray-600">Loading project...</p>
+                </div>
+            </div>
+        );
+    }
+
+    if (error || !project) {
+        return (
+            <div className="h-screen flex items-center justify-center bg-gray-50">
+                <div className="text-center">
+                    <div className="text-red-600 mb-4">❌</div>
+                    <h2 className="text-xl font-semibold text-gray-900 mb-2">Failed to Load Project</h2>
+                    <p className="text-gray-600">{error || 'Project not found'}</p>
+                    <button
+                        onClick={() => window.location.href = '/editor'}
+                        className="mt-4 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                    >
+                        Go to Editor
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <EditorShell
+            projectId={projectId}
+            initialZones={project.zones}
+            initialFurniture={project.furniture}
+            initialSettings={project.settings ?? undefined}
+            initialDiagrams={project.diagrams}
+            initialWalls={project.walls}
+            initialOpenings={project.openings}
+            initialLevels={project.levels}
+            initialMeasurements={project.measurements}
+            initialDimensions={project.dimensions}
+            onSave={handleSave}
+        />
+    );
+}
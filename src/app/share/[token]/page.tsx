@@ -0,0 +1,181 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Eye } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { KonvaStage } from '@/components/floor-plan/canvas/konva_stage';
+import { DEFAULT_SETTINGS } from '@/components/floor-plan/state/editor_store';
+import { DEFAULT_LEVEL, filterByLevel, filterOpeningsByHosts } from '@/components/floor-plan/utils/level_logic';
+import { DiagramShape } from '@/components/floor-plan/canvas/tools/diagram_schemas';
+import { FloorPlanZone, FurnitureItemType, FloorPlanSettings, WallSegment, Opening, Level, Measurement, Dimension } from '@/types';
+
+interface SharedProjectResponse {
+    name: string;
+    description: string | null;
+    updatedAt: string;
+    expiresAt: string | null;
+    zones: FloorPlanZone[];
+    furniture: FurnitureItemType[];
+    settings: FloorPlanSettings | null;
+    diagrams: DiagramShape[];
+    walls: WallSegment[];
+    openings: Opening[];
+    levels: Level[];
+    measurements: Measurement[];
+    dimensions: Dimension[];
+}
+
+export default function SharedProjectPage() {
+    const params = useParams();
+    const token = params.token as string;
+
+    const [project, setProject] = useState<SharedProjectResponse | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [currentLevelId, setCurrentLevelId] = useState<string | null>(null);
+    const canvasContainerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const fetchSharedProject = async () => {
+            try {
+                const response = await fetch(`/api/share/${encodeURIComponent(token)}`);
+                if (!response.ok) {
+                    const errorData = await response.json().catch(() => ({}));
+                    throw new Error(errorData.error || 'Failed to load shared floor plan');
+                }
+                setProject(await response.json());
+            } catch (err) {
+                setError(err instanceof Error ? err.message : 'Unknown error');
+            } finally {
+                setLoading(false);
+            }
+        };
+
+        fetchSharedProject();
+    }, [token]);
+
+    const levels = useMemo(
+        () => project && project.levels.length > 0 ? project.levels : [DEFAULT_LEVEL],
+        [project]
+    );
+    const levelId = currentLevelId ?? levels[0].id;
+
+    // Stored settings, always fitted to the viewer's window
+    const settings: FloorPlanSettings = useMemo(() => ({
+        ...DEFAULT_SETTINGS,
+        ...project?.settings,
+        canvasMode: 'fit-to-screen',
+    }), [project]);
+
+    const levelData = useMemo(() => {
+        if (!project) return null;
+        const zones = filterByLevel(project.zones, levelId, levels);
+        const walls = filterByLevel(project.walls, levelId, levels);
+        return {
+            zones,
+            walls,
+            furniture: filterByLevel(project.furniture, levelId, levels),
+            diagrams: filterByLevel(project.diagrams, levelId, levels),
+            openings: filterOpeningsByHosts(project.openings, walls, zones),
+            measurements: filterByLevel(project.measurements, levelId, levels),
+            dimensions: filterByLevel(project.dimensions, levelId, levels),
+        };
+    }, [project, levelId, levels]);
+
+    if (loading) {
+        return (
+            <div className="h-screen flex items-center justify-center bg-gray-50">
+                <div className="text-center">
+                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+                    <p className="text-gray-600">Loading shared floor plan...</p>
+                </div>
+            </div>
+        );
+    }
+
+    if (error || !project || !levelData) {
+        return (
+            <div className="h-screen flex items-center justify-center bg-gray-50">
+                <div className="text-center">
+                    <div className="text-red-600 mb-4">❌</div>
+                    <h2 className="text-xl font-semibold text-gray-900 mb-2">Floor Plan Unavailable</h2>
+                    <p className="text-gray-600">{error || 'Shared floor plan not found'}</p>
+                </div>
+            </div>
+        );
+    }
+
+    const noop = () => { };
+
+    return (
+        <div className="h-screen flex flex-col bg-gray-50">
+            <div className="bg-white border-b px-4 py-2 flex items-center justify-between">
+                <div className="flex items-center space-x-3 min-w-0">
+                    <h1 className="text-lg font-semibold truncate">{project.name}</h1>
+                    <Badge variant="secondary">
+                        <Eye className="w-3 h-3 mr-1" />
+                        View only
+                    </Badge>
+                    {project.description && (
+                        <span className="text-sm text-gray-500 truncate">{project.description}</span>
+                    )}
+                </div>
+                <div className="flex items-center space-x-3">
+                    {project.expiresAt && (
+                        <span className="text-xs text-gray-500">
+                            Link expires {new Date(project.expiresAt).toLocaleDateString()}
+                        </span>
+                    )}
+                    {levels.length > 1 && (
+                        <Select value={levelId} onValueChange={setCurrentLevelId}>
+                            <SelectTrigger className="w-40 h-8">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {[...levels].reverse().map(level => (
+                                    <SelectItem key={level.id} value={level.id}>
+                                        {level.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    )}
+                </div>
+            </div>
+
+            <div ref={canvasContainerRef} className="flex-1 bg-gray-200 p-4 overflow-auto">
+                {/* Furniture mode keeps every layer visible; readOnly blocks all editing */}
+                <KonvaStage
+                    zones={levelData.zones}
+                    furniture={levelData.furniture}
+                    settings={settings}
+                    editorMode="furniture"
+                    selectedZoneId={null}
+                    selectedFurnitureId={null}
+                    diagrams={levelData.diagrams}
+                    walls={levelData.walls}
+                    openings={levelData.openings}
+                    measurements={levelData.measurements}
+                    dimensions={levelData.dimensions}
+                    onZoneSelect={noop}
+                    onFurnitureSelect={noop}
+                    onFurnitureUpdate={noop}
+                    showZones={settings.showZones ?? true}
+                    showFurniture={settings.showFurniture ?? true}
+                    showDiagrams={settings.showDiagrams ?? true}
+                    containerRef={canvasContainerRef as React.RefObject<HTMLDivElement>}
+                    className="w-full h-full"
+                    readOnly
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,232 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Stage, Layer, Rect, Line, Text } from 'react-konva';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download } from 'lucide-react';
+import { FloorPlanSettings, FloorPlanZone, FurnitureItemType } from '@/types';
+import {
+  DEFAULT_ELEVATION_DEPTH,
+  ElevationShape,
+  buildWallElevation,
+  getZoneEdges,
+  layoutWallElevation,
+} from '../utils/elevation';
+import { DEFAULT_CEILING_HEIGHT } from '../utils/mesh_export';
+import { getRotatedCorners } from '../utils/geometry';
+import { getZonePolygon } from '../utils/zone_logic';
+import { format_dimension } from '../utils/units';
+import { exportWallElevation } from '../utils/export_utils';
+
+interface ElevationViewProps {
+  zones: FloorPlanZone[];
+  furniture: FurnitureItemType[];
+  settings: FloorPlanSettings;
+  className?: string;
+}
+
+interface WallPick {
+  zoneId: string;
+  edgeIndex: number;
+}
+
+// Exports are drawn at a fixed size rather than fitted to the screen
+const EXPORT_SCALE = 2;
+// Width Konva text boxes get so they can be centered or right-aligned on a point
+const TEXT_BOX = 400;
+
+function ShapeNode({ shape }: { shape: ElevationShape }) {
+  switch (shape.type) {
+    case 'rect':
+      return <Rect x={shape.x} y={shape.y} width={shape.w} height={shape.h} fill={shape.fill} stroke={shape.stroke} strokeWidth={1} />;
+    case 'line':
+      return <Line points={shape.points} stroke={shape.stroke} strokeWidth={shape.strokeWidth} />;
+    case 'text': {
+      // Shapes place text by its baseline like SVG; Konva places it by its top
+      const offsetX = shape.align === 'center' ? TEXT_BOX / 2 : shape.align === 'right' ? TEXT_BOX : 0;
+      return (
+        <Text
+          x={shape.x}
+          y={shape.y}
+          text={shape.text}
+          fontSize={shape.fontSize}
+          fontFamily="Arial"
+          fill={shape.fill}
+          width={TEXT_BOX}
+          align={shape.align}
+          offsetX={offsetX}
+          offsetY={shape.fontSize * 0.8}
+          rotation={shape.rotation || 0}
+        />
+      );
+    }
+  }
+}
+
+/**
+ * Elevation mode: pick a zone edge on the small plan to see that wall head-on,
+ * with the furniture standing within the chosen depth of it
+ */
+export function ElevationView({ zones, furniture, settings, className }: ElevationViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState({ width: 800, height: 600 });
+  const [pick, setPick] = useState<WallPick | null>(null);
+  const [hover, setHover] = useState<WallPick | null>(null);
+  const [depth, setDepth] = useState(DEFAULT_ELEVATION_DEPTH);
+  const [wallHeight, setWallHeight] = useState(DEFAULT_CEILING_HEIGHT);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const update = () => setSize({ width: container.clientWidth, height: container.clientHeight });
+    update();
+    const observer = new ResizeObserver(() => requestAnimationFrame(update));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const zone = zones.find(z => z.id === pick?.zoneId);
+  const elevation = useMemo(
+    () => (zone && pick ? buildWallElevation(zone, pick.edgeIndex, furniture, { depth, wallHeight }) : null),
+    [zone, pick, furniture, depth, wallHeight]
+  );
+
+  // Fit the wall into the stage, leaving room for the dimension margins
+  const drawing = useMemo(() => {
+    if (!elevation) return null;
+    const base = layoutWallElevation(elevation, { scale: 1, unitSystem: settings.unitSystem });
+    const marginX = base.width - elevation.length;
+    const marginY = base.height - elevation.height;
+    const scale = Math.max(0.05, Math.min(
+      (size.width - marginX) / elevation.length,
+      (size.height - marginY) / elevation.height
+    ));
+    return layoutWallElevation(elevation, { scale, unitSystem: settings.unitSystem });
+  }, [elevation, size, settings.unitSystem]);
+
+  const handleExport = (format: 'png' | 'svg') => {
+    if (!elevation) return;
+    const exported = layoutWallElevation(elevation, { scale: EXPORT_SCALE, unitSystem: settings.unitSystem });
+    exportWallElevation(exported, format, `${elevation.zoneName}_wall_${elevation.edgeIndex + 1}_elevation`);
+  };
+
+  const isPicked = (candidate: WallPick, target: WallPick | null) =>
+    !!target && target.zoneId === candidate.zoneId && target.edgeIndex === candidate.edgeIndex;
+
+  return (
+    <div className={`flex gap-4 ${className ?? ''}`}>
+      <div className="w-64 shrink-0 space-y-4 bg-white rounded shadow-sm p-3 overflow-y-auto">
+        <div>
+          <Label className="text-xs font-medium">Wall</Label>
+          <p className="text-xs text-gray-500 mb-2">Click a room edge to view that wall from inside the room.</p>
+          <svg
+            viewBox={`-10 -10 ${settings.apartmentWidth + 20} ${settings.apartmentHeight + 20}`}
+            className="w-full border rounded bg-gray-50"
+            onMouseLeave={() => setHover(null)}
+          >
+            {zones.map(z => (
+              <polygon
+                key={z.id}
+                points={getZonePolygon(z).map(p => `${p.x},${p.y}`).join(' ')}
+                fill={z.color || '#f3f4f6'}
+                fillOpacity={0.4}
+                stroke="#9ca3af"
+                strokeWidth={2}
+              />
+            ))}
+            {furniture.map(item => (
+              <polygon
+                key={item.id}
+                points={getRotatedCorners({ x: item.x, y: item.y, w: item.w, h: item.h, r: item.r || 0 }).map(p => `${p.x},${p.y}`).join(' ')}
+                fill={item.color}
+                fillOpacity={0.5}
+              />
+            ))}
+            {zones.flatMap(z => getZoneEdges(z).map((edge, edgeIndex) => {
+              const candidate = { zoneId: z.id, edgeIndex };
+              const active = isPicked(candidate, pick) || isPicked(candidate, hover);
+              return (
+                <line
+                  key={`${z.id}-${edgeIndex}`}
+                  x1={edge.a.x}
+                  y1={edge.a.y}
+                  x2={edge.b.x}
+                  y2={edge.b.y}
+                  stroke={isPicked(candidate, pick) ? '#2563eb' : '#60a5fa'}
+                  strokeOpacity={active ? 1 : 0}
+                  strokeWidth={Math.max(12, settings.apartmentWidth / 60)}
+                  strokeLinecap="round"
+                  className="cursor-pointer"
+                  style={{ pointerEvents: 'stroke' }}
+                  onMouseEnter={() => setHover(candidate)}
+                  onClick={() => setPick(candidate)}
+                >
+                  <title>{`${z.name}, wall ${edgeIndex + 1} (${format_dimension(Math.round(edge.length), settings.unitSystem)})`}</title>
+                </line>
+              );
+            }))}
+          </svg>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label className="text-xs font-medium">Depth (cm)</Label>
+            <Input
+              type="number"
+              value={depth}
+              onChange={(e) => setDepth(Math.max(0, Number(e.target.value)))}
+              className="h-8 text-sm"
+              min="0"
+            />
+          </div>
+          <div>
+            <Label className="text-xs font-medium">Wall Height (cm)</Label>
+            <Input
+              type="number"
+              value={wallHeight}
+              onChange={(e) => setWallHeight(Math.max(50, Number(e.target.value)))}
+              className="h-8 text-sm"
+              min="50"
+            />
+          </div>
+        </div>
+
+        {elevation && (
+          <div className="space-y-2">
+            <div className="text-xs text-gray-600">
+              {elevation.items.length} item{elevation.items.length === 1 ? '' : 's'} within {format_dimension(depth, settings.unitSystem)} of the wall
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="flex-1" onClick={() => handleExport('png')}>
+                <Download className="w-4 h-4 mr-1" />
+                PNG
+              </Button>
+              <Button variant="outline" size="sm" className="flex-1" onClick={() => handleExport('svg')}>
+                <Download className="w-4 h-4 mr-1" />
+                SVG
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div ref={containerRef} className="flex-1 min-w-0 bg-white rounded shadow-sm overflow-hidden">
+        {drawing ? (
+          <Stage width={size.width} height={size.height}>
+            <Layer listening={false}>
+              {drawing.shapes.map((shape, index) => (
+                <ShapeNode key={index} shape={shape} />
+              ))}
+            </Layer>
+          </Stage>
+        ) : (
+          <div className="h-full flex items-center justify-center text-sm text-gray-500">
+            {zones.length > 0 ? 'Pick a wall on the plan to see its elevation.' : 'Add rooms to the plan to see wall elevations.'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
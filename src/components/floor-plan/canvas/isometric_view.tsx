@@ -0,0 +1,135 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Konva from 'konva';
+import { Stage, Layer, Line } from 'react-konva';
+import { Button } from '@/components/ui/button';
+import { Download, RotateCcw, RotateCw } from 'lucide-react';
+import { FloorPlanSettings, FloorPlanZone, FurnitureItemType, WallSegment } from '@/types';
+import { buildPlanModel } from '../utils/plan_model';
+import { buildIsoScene, IsoRotation } from '../utils/isometric';
+import { exportImageDataUrl } from '../utils/export_utils';
+
+interface IsometricViewProps {
+  zones: FloorPlanZone[];
+  furniture: FurnitureItemType[];
+  walls: WallSegment[];
+  settings: FloorPlanSettings;
+  className?: string;
+}
+
+type WallView = 'full' | 'cutaway' | 'hidden';
+
+// Height (cm) of room outlines raised into walls when no walls are drawn
+const ZONE_WALL_HEIGHT = 250;
+// Walls are cut down to this height (cm) in the cutaway view
+const CUTAWAY_HEIGHT = 100;
+const PADDING = 40;
+
+const WALL_VIEW_LABELS: Record<WallView, string> = {
+  full: 'Full walls',
+  cutaway: 'Cutaway',
+  hidden: 'No walls',
+};
+
+/**
+ * Read-only isometric view of the current level: zone floors, walls extruded to
+ * their height and furniture as simple per-category shapes
+ */
+export function IsometricView({ zones, furniture, walls, settings, className }: IsometricViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const stageRef = useRef<Konva.Stage>(null);
+  const [size, setSize] = useState({ width: 800, height: 600 });
+  const [rotation, setRotation] = useState<IsoRotation>(0);
+  const [wallView, setWallView] = useState<WallView>('cutaway');
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const update = () => setSize({ width: container.clientWidth, height: container.clientHeight });
+    update();
+    const observer = new ResizeObserver(() => requestAnimationFrame(update));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const scene = useMemo(() => {
+    const prisms = buildPlanModel(
+      { zones, furniture, walls: wallView === 'hidden' ? [] : walls },
+      {
+        // Room outlines stand in for walls on plans without any
+        zoneWallHeight: wallView !== 'hidden' && walls.length === 0 ? ZONE_WALL_HEIGHT : undefined,
+        maxWallHeight: wallView === 'cutaway' ? CUTAWAY_HEIGHT : undefined,
+        segmentLength: 50,
+      }
+    );
+    return buildIsoScene(prisms, { rotation, width: settings.apartmentWidth, height: settings.apartmentHeight });
+  }, [zones, furniture, walls, wallView, rotation, settings.apartmentWidth, settings.apartmentHeight]);
+
+  // Fit the scene into the stage
+  const { bounds } = scene;
+  const sceneWidth = Math.max(1, bounds.maxX - bounds.minX);
+  const sceneHeight = Math.max(1, bounds.maxY - bounds.minY);
+  const scale = Math.max(0.01, Math.min((size.width - PADDING * 2) / sceneWidth, (size.height - PADDING * 2) / sceneHeight));
+  const offsetX = (size.width - sceneWidth * scale) / 2 - bounds.minX * scale;
+  const offsetY = (size.height - sceneHeight * scale) / 2 - bounds.minY * scale;
+
+  const turn = (step: number) => setRotation(((rotation + step + 360) % 360) as IsoRotation);
+
+  const handleExport = () => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    exportImageDataUrl(stage.toDataURL({ pixelRatio: 2, mimeType: 'image/png' }), 'floor_plan_isometric', 'png');
+  };
+
+  return (
+    <div className={`relative ${className ?? ''}`}>
+      <div className="absolute top-2 left-2 z-10 flex items-center gap-1 bg-white/90 border rounded-md shadow-sm p-1">
+        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => turn(-90)} title="Turn camera left">
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+        <span className="text-xs text-gray-600 w-8 text-center">{rotation}°</span>
+        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => turn(90)} title="Turn camera right">
+          <RotateCw className="w-4 h-4" />
+        </Button>
+        <select
+          value={wallView}
+          onChange={(e) => setWallView(e.target.value as WallView)}
+          className="h-7 px-2 border rounded text-xs bg-white"
+        >
+          {(Object.keys(WALL_VIEW_LABELS) as WallView[]).map(view => (
+            <option key={view} value={view}>{WALL_VIEW_LABELS[view]}</option>
+          ))}
+        </select>
+        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={handleExport} title="Export as PNG">
+          <Download className="w-4 h-4 mr-1" />
+          PNG
+        </Button>
+      </div>
+
+      <div ref={containerRef} className="w-full h-full bg-white rounded shadow-sm overflow-hidden">
+        <Stage ref={stageRef} width={size.width} height={size.height}>
+          <Layer listening={false}>
+            <Line
+              points={[0, 0, size.width, 0, size.width, size.height, 0, size.height]}
+              closed
+              fill="#ffffff"
+            />
+            {scene.faces.map((face, index) => (
+              <Line
+                key={index}
+                points={face.points.map((value, i) => value * scale + (i % 2 === 0 ? offsetX : offsetY))}
+                closed
+                fill={face.fill}
+                stroke={face.stroke}
+                strokeWidth={0.75}
+                lineJoin="round"
+                perfectDrawEnabled={false}
+              />
+            ))}
+          </Layer>
+        </Stage>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import React, { useRef, useEffect, useState, useMemo } from 'react';
 import Konva from 'konva';
-import { FloorPlanZone, FurnitureItemType, FloorPlanSettings } from '@/types';
+import { FloorPlanZone, FurnitureItemType, FloorPlanSettings, WallSegment, Opening, Measurement, Dimension } from '@/types';
 import { DiagramShape, DrawingTool } from './tools/diagram_schemas';
 import { GridLayer } from './layers/grid_layer';
 import { ZonesLayer } from './layers/zones_layer';
@@ -10,6 +10,18 @@ import { FurnitureLayer } from './layers/furniture_layer';
 import { DiagramLayer } from './layers/diagram_layer';
 import { BackgroundLayer } from './layers/background_layer';
 import { SelectionOverlay } from './layers/selection_overlay';
+import { WallsLayer } from './layers/walls_layer';
+import { ViolationsLayer } from './layers/violations_layer';
+import { LevelUnderlayLayer } from './layers/level_underlay_layer';
+import { PresenceLayer } from './layers/presence_layer';
+import { MeasureLayer } from './layers/measure_layer';
+import { DimensionLayer } from './layers/dimension_layer';
+import type { PlacementViolation } from '../utils/placement_validation';
+import type { DimensionTool, MeasureTool, WallTool } from '../state/editor_store';
+import type { DimensionStyle } from '../utils/dimension_logic';
+import type { RemotePeer } from '../state/selection_store';
+import type { Point } from '../utils/geometry';
+import { px2cm } from '../utils/units';
 import {
   calculateCanvasSize,
   getCanvasModeClasses,
@@ -26,7 +38,7 @@ interface KonvaStageProps {
   settings: FloorPlanSettings;
 
   // Editor state
-  editorMode: 'zones' | 'furniture' | 'diagrams';
+  editorMode: 'zones' | 'furniture' | 'diagrams' | 'walls';
   selectedZoneId: string | null;
   selectedFurnitureId: string | null;
 
@@ -38,6 +50,41 @@ interface KonvaStageProps {
   diagramFillColor?: string;
   diagramStrokeWidth?: number;
 
+  // Wall state
+  walls?: WallSegment[];
+  selectedWallId?: string | null;
+  wallTool?: WallTool;
+  wallThickness?: number;
+  wallHeight?: number;
+
+  // Door and window state
+  openings?: Opening[];
+  selectedOpeningId?: string | null;
+
+  // Pinned measurements and the active measure tool
+  measurements?: Measurement[];
+  measureTool?: MeasureTool | null;
+
+  // Dimension lines, the active dimension tool and the end style for new ones
+  dimensions?: Dimension[];
+  dimensionTool?: DimensionTool | null;
+  dimensionStyle?: DimensionStyle;
+
+  // Placement validation results to highlight
+  placementViolations?: PlacementViolation[];
+
+  // Level below the current one, drawn faded for alignment
+  levelUnderlay?: {
+    name: string;
+    zones: FloorPlanZone[];
+    furniture: FurnitureItemType[];
+    walls: WallSegment[];
+  } | null;
+  levelUnderlayOpacity?: number;
+
+  // Collaborators on this level, with their cursors and selections
+  remotePeers?: RemotePeer[];
+
   // Event handlers
   onZoneSelect: (id: string | null) => void;
   onZoneUpdate?: (id: string, updates: Partial<FloorPlanZone>) => void;
@@ -48,6 +95,16 @@ interface KonvaStageProps {
   onDiagramAdd?: (shape: DiagramShape) => void;
   onDiagramUpdate?: (id: string, updates: Partial<DiagramShape>) => void;
   onDiagramDelete?: (id: string) => void;
+  onWallSelect?: (id: string | null) => void;
+  onWallAdd?: (wall: WallSegment) => void;
+  onWallJointMove?: (from: Point, to: Point) => void;
+  onOpeningSelect?: (id: string | null) => void;
+  onOpeningAdd?: (opening: Opening) => void;
+  onOpeningUpdate?: (id: string, updates: Partial<Opening>) => void;
+  onMeasurementPin?: (measurement: Omit<Measurement, 'id'>) => void;
+  onMeasurementDelete?: (id: string) => void;
+  onDimensionAdd?: (dimension: Omit<Dimension, 'id'>) => void;
+  onDimensionDelete?: (id: string) => void;
   onBackgroundUpdate?: (updates: {
     opacity?: number;
     scale?: number;
@@ -56,6 +113,8 @@ interface KonvaStageProps {
     offsetY?: number;
     locked?: boolean;
   }) => void;
+  // Pointer position in cm, null when it leaves the canvas
+  onCursorMove?: (point: Point | null) => void;
 
   // Container props
   className?: string;
@@ -65,6 +124,9 @@ interface KonvaStageProps {
   showZones?: boolean;
   showFurniture?: boolean;
   showDiagrams?: boolean;
+
+  // Draw everything but ignore pointer input (shared viewer)
+  readOnly?: boolean;
 }
 
 export function KonvaStage({
@@ -80,6 +142,22 @@ export function KonvaStage({
   diagramStrokeColor = '#000000',
   diagramFillColor = 'transparent',
   diagramStrokeWidth = 2,
+  walls = [],
+  selectedWallId = null,
+  wallTool = 'draw',
+  wallThickness = 15,
+  wallHeight = 250,
+  openings = [],
+  selectedOpeningId = null,
+  measurements = [],
+  measureTool = null,
+  dimensions = [],
+  dimensionTool = null,
+  dimensionStyle = 'tick',
+  placementViolations = [],
+  levelUnderlay = null,
+  levelUnderlayOpacity,
+  remotePeers = [],
   onZoneSelect,
   onZoneUpdate,
   onFurnitureSelect,
@@ -89,12 +167,24 @@ export function KonvaStage({
   onDiagramAdd,
   onDiagramUpdate,
   onDiagramDelete,
+  onWallSelect,
+  onWallAdd,
+  onWallJointMove,
+  onOpeningSelect,
+  onOpeningAdd,
+  onOpeningUpdate,
+  onMeasurementPin,
+  onMeasurementDelete,
+  onDimensionAdd,
+  onDimensionDelete,
   onBackgroundUpdate,
+  onCursorMove,
   className,
   containerRef,
   showZones = true,
   showFurniture = true,
-  showDiagrams = true
+  showDiagrams = true,
+  readOnly = false
 }: KonvaStageProps) {
   const _stageRef = useRef<Konva.Stage>(null);
   const [viewport, setViewport] = useState<ViewportSize | null>(null);
@@ -179,6 +269,14 @@ export function KonvaStage({
     return getCanvasModeClasses(settings.canvasMode);
   }, [settings.canvasMode]);
 
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onCursorMove?.({
+      x: px2cm(e.clientX - rect.left, effectiveScale),
+      y: px2cm(e.clientY - rect.top, effectiveScale),
+    });
+  };
+
 
   // Render based on editor mode
   const renderContent = () => {
@@ -186,6 +284,8 @@ export function KonvaStage({
       <div
         className={containerClasses}
         style={containerStyle}
+        onPointerMove={onCursorMove ? handlePointerMove : undefined}
+        onPointerLeave={onCursorMove ? () => onCursorMove(null) : undefined}
       >
         {/* Background Image Layer (below grid) */}
         <BackgroundLayer
@@ -199,7 +299,7 @@ export function KonvaStage({
           canvasWidth={canvasSize.width}
           canvasHeight={canvasSize.height}
           editorScale={effectiveSettings.scale}
-          onImageUpdate={onBackgroundUpdate}
+          onImageUpdate={readOnly ? undefined : onBackgroundUpdate}
         />
         {/* Grid Layer */}
         <GridLayer
@@ -208,6 +308,20 @@ export function KonvaStage({
           height={canvasSize.height}
         />
 
+        {/* Faded level below (above grid, below everything editable) */}
+        {levelUnderlay && (
+          <LevelUnderlayLayer
+            zones={levelUnderlay.zones}
+            furniture={levelUnderlay.furniture}
+            walls={levelUnderlay.walls}
+            levelName={levelUnderlay.name}
+            opacity={levelUnderlayOpacity}
+            scale={effectiveSettings.scale}
+            width={canvasSize.width}
+            height={canvasSize.height}
+          />
+        )}
+
         {/* Diagram Layer */}
         {showDiagrams && (
           <DiagramLayer
@@ -248,6 +362,18 @@ export function KonvaStage({
           />
         )}
 
+        {/* Placement violations over the furniture */}
+        {showFurniture && (
+          <ViolationsLayer
+            violations={placementViolations}
+            furniture={furniture}
+            selectedFurnitureId={editorMode === 'furniture' ? selectedFurnitureId : null}
+            scale={effectiveSettings.scale}
+            width={canvasSize.width}
+            height={canvasSize.height}
+          />
+        )}
+
         {/* Zones Layer */}
         {showZones && (
           <ZonesLayer
@@ -260,25 +386,94 @@ export function KonvaStage({
           />
         )}
 
-        {/* Selection Overlay for resizing and transforming */}
-        <SelectionOverlay
+        {/* Walls Layer */}
+        <WallsLayer
+          walls={walls}
+          zones={zones}
+          openings={openings}
+          settings={effectiveSettings}
           width={canvasSize.width}
           height={canvasSize.height}
-          scale={effectiveSettings.scale}
-          selectedFurniture={selectedFurnitureId ? furniture.find(f => f.id === selectedFurnitureId) || null : null}
-          selectedZone={selectedZoneId ? zones.find(z => z.id === selectedZoneId) || null : null}
           editorMode={editorMode}
-          onFurnitureUpdate={onFurnitureUpdate}
-          onZoneUpdate={onZoneUpdate || (() => { })}
-          onRotationChange={(rotation) => {
-            if (selectedFurnitureId) {
-              onFurnitureUpdate(selectedFurnitureId, { r: rotation });
-            }
-          }}
-          snapEnabled={effectiveSettings.snap > 0}
-          snapGrid={effectiveSettings.snap}
-          constrainToCanvas={true}
+          selectedWallId={selectedWallId}
+          selectedOpeningId={selectedOpeningId}
+          wallTool={wallTool}
+          wallThickness={wallThickness}
+          wallHeight={wallHeight}
+          onWallSelect={onWallSelect ?? (() => { })}
+          onWallAdd={onWallAdd ?? (() => { })}
+          onWallJointMove={onWallJointMove ?? (() => { })}
+          onOpeningSelect={onOpeningSelect ?? (() => { })}
+          onOpeningAdd={onOpeningAdd ?? (() => { })}
+          onOpeningUpdate={onOpeningUpdate ?? (() => { })}
         />
+
+        {/* Collaborators' selections and cursors */}
+        <PresenceLayer
+          peers={remotePeers}
+          zones={zones}
+          furniture={furniture}
+          walls={walls}
+          openings={openings}
+          scale={effectiveSettings.scale}
+          width={canvasSize.width}
+          height={canvasSize.height}
+        />
+
+        {/* Pinned measurements, and the measure tool above everything while it is active */}
+        <MeasureLayer
+          measurements={measurements}
+          zones={zones}
+          furniture={furniture}
+          scale={effectiveSettings.scale}
+          unitSystem={settings.unitSystem}
+          width={canvasSize.width}
+          height={canvasSize.height}
+          tool={readOnly ? null : measureTool}
+          onMeasurementPin={onMeasurementPin ?? (() => { })}
+          onMeasurementDelete={onMeasurementDelete ?? (() => { })}
+        />
+
+        {/* Dimension lines, and the dimension tool above everything while it is active */}
+        <DimensionLayer
+          dimensions={dimensions}
+          zones={zones}
+          walls={walls}
+          furniture={furniture}
+          scale={effectiveSettings.scale}
+          unitSystem={settings.unitSystem}
+          width={canvasSize.width}
+          height={canvasSize.height}
+          tool={readOnly ? null : dimensionTool}
+          dimensionStyle={dimensionStyle}
+          onDimensionAdd={onDimensionAdd ?? (() => { })}
+          onDimensionDelete={onDimensionDelete ?? (() => { })}
+        />
+
+        {/* Selection Overlay for resizing and transforming */}
+        {!readOnly && (
+          <SelectionOverlay
+            width={canvasSize.width}
+            height={canvasSize.height}
+            scale={effectiveSettings.scale}
+            selectedFurniture={selectedFurnitureId ? furniture.find(f => f.id === selectedFurnitureId) || null : null}
+            selectedZone={selectedZoneId ? zones.find(z => z.id === selectedZoneId) || null : null}
+            editorMode={editorMode}
+            onFurnitureUpdate={onFurnitureUpdate}
+            onZoneUpdate={onZoneUpdate || (() => { })}
+            onRotationChange={(rotation) => {
+              if (selectedFurnitureId) {
+                onFurnitureUpdate(selectedFurnitureId, { r: rotation });
+              }
+            }}
+            snapEnabled={effectiveSettings.snap > 0}
+            snapGrid={effectiveSettings.snap}
+            constrainToCanvas={true}
+          />
+        )}
+
+        {/* Blocks pointer input above every layer in read-only mode */}
+        {readOnly && <div className="absolute inset-0" style={{ zIndex: 50 }} />}
       </div>
     );
   };
@@ -20,7 +20,7 @@ interface DiagramLayerProps {
   width: number;
   height: number;
   settings: FloorPlanSettings;
-  editorMode: 'zones' | 'furniture' | 'diagrams';
+  editorMode: 'zones' | 'furniture' | 'diagrams' | 'walls';
   onExport?: (dataUrl: string, format: 'png' | 'json') => void;
   onDiagramSelect?: (id: string | null) => void;
   className?: string;
@@ -0,0 +1,299 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Stage, Layer, Line, Text } from 'react-konva';
+import { KonvaEventObject } from 'konva/lib/Node';
+import { X } from 'lucide-react';
+import { Dimension, DimensionAnchor, FloorPlanZone, FurnitureItemType, WallSegment } from '@/types';
+import { cm2px, px2cm } from '../../utils/units';
+import { Point, getRotatedCorners, pointInPolygon } from '../../utils/geometry';
+import { findNearestHostEdge, getHostEdges } from '../../utils/opening_logic';
+import {
+  DEFAULT_ZONE_DIMENSION_OFFSET,
+  DimensionEntities,
+  DimensionStyle,
+  isSameDimension,
+  layoutDimension,
+  resolveDimension,
+} from '../../utils/dimension_logic';
+import type { DimensionTool } from '../../state/editor_store';
+
+interface DimensionLayerProps {
+  dimensions: Dimension[];
+  zones: FloorPlanZone[];
+  walls: WallSegment[];
+  furniture: FurnitureItemType[];
+  scale: number;
+  unitSystem: 'cm' | 'm';
+  width: number;
+  height: number;
+  // Active dimension tool; null leaves the dimensions on display only
+  tool: DimensionTool | null;
+  // End style given to new dimensions
+  dimensionStyle: DimensionStyle;
+  onDimensionAdd: (dimension: Omit<Dimension, 'id'>) => void;
+  onDimensionDelete: (id: string) => void;
+}
+
+// Distance in screen pixels within which the pointer picks a zone edge or wall
+const PICK_PX = 12;
+
+// Tick and arrowhead size, and the gap between the line and its label, in screen pixels
+const MARK_PX = 8;
+const TEXT_GAP_PX = 8;
+const LABEL_WIDTH = 120;
+
+const DIMENSION_COLOR = '#334155';
+const LIVE_COLOR = '#0d9488';
+
+type DimensionDraft = Pick<Dimension, 'kind' | 'from' | 'to'>;
+
+interface DimensionShapeProps {
+  dimension: Pick<Dimension, 'kind' | 'from' | 'to' | 'offset' | 'style'>;
+  entities: DimensionEntities;
+  color: string;
+  scale: number;
+  unitSystem: 'cm' | 'm';
+  dashed?: boolean;
+}
+
+// Extension lines, end marks and label of one dimension at its anchors' current positions
+function DimensionShape({ dimension, entities, color, scale, unitSystem, dashed }: DimensionShapeProps) {
+  const resolved = resolveDimension(dimension, entities);
+  if (!resolved) return null;
+
+  const toPx = (cm: number) => cm2px(cm, scale);
+  const { lines, label } = layoutDimension(resolved, dimension, {
+    unitSystem,
+    markSize: px2cm(MARK_PX, scale),
+    textGap: px2cm(TEXT_GAP_PX, scale),
+  });
+
+  return (
+    <>
+      {lines.map(([a, b], index) => (
+        <Line
+          key={index}
+          points={[toPx(a.x), toPx(a.y), toPx(b.x), toPx(b.y)]}
+          stroke={color}
+          strokeWidth={index === 0 ? 1.25 : 1}
+          dash={dashed && index === 0 ? [6, 4] : undefined}
+        />
+      ))}
+      <Text
+        x={toPx(label.at.x)}
+        y={toPx(label.at.y)}
+        width={LABEL_WIDTH}
+        offsetX={LABEL_WIDTH / 2}
+        offsetY={6}
+        rotation={label.angle}
+        align="center"
+        text={label.text}
+        fontSize={11}
+        fill={color}
+      />
+    </>
+  );
+}
+
+/**
+ * Dimension lines attached to zone edges, walls and furniture, plus the tools that
+ * place them: click a zone edge, a furniture item then a wall, or two furniture items
+ */
+export function DimensionLayer({
+  dimensions,
+  zones,
+  walls,
+  furniture,
+  scale,
+  unitSystem,
+  width,
+  height,
+  tool,
+  dimensionStyle,
+  onDimensionAdd,
+  onDimensionDelete
+}: DimensionLayerProps) {
+  const toPx = (cm: number) => cm2px(cm, scale);
+
+  // Furniture item picked as the first end, and the dimension under the pointer
+  const [picked, setPicked] = useState<DimensionAnchor | null>(null);
+  const [hover, setHover] = useState<DimensionDraft | null>(null);
+
+  const entities = useMemo<DimensionEntities>(() => ({ zones, walls, furniture }), [zones, walls, furniture]);
+  const hostEdges = useMemo(() => getHostEdges(walls, zones), [walls, zones]);
+  const zoneEdges = useMemo(() => hostEdges.filter(edge => edge.hostType === 'zone'), [hostEdges]);
+
+  // Switching tools drops the dimension in progress
+  useEffect(() => {
+    setPicked(null);
+    setHover(null);
+  }, [tool]);
+
+  // Escape drops the picked first end
+  useEffect(() => {
+    if (!tool) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setPicked(null);
+        setHover(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [tool]);
+
+  // Topmost furniture item under the point
+  const furnitureAt = (point: Point): DimensionAnchor | null => {
+    const item = [...furniture].reverse().find(f =>
+      pointInPolygon(point, getRotatedCorners({ x: f.x, y: f.y, w: f.w, h: f.h, r: f.r || 0 }))
+    );
+    return item ? { type: 'furniture', id: item.id } : null;
+  };
+
+  // Dimension the current tool would create for a click at the point
+  const draftAt = (point: Point): DimensionDraft | null => {
+    const maxDistance = px2cm(PICK_PX, scale);
+
+    if (tool === 'zone-edge') {
+      const nearest = findNearestHostEdge(point, zoneEdges, maxDistance);
+      return nearest
+        ? { kind: 'zone-edge', from: { type: 'zone', id: nearest.edge.hostId, edgeIndex: nearest.edge.edgeIndex } }
+        : null;
+    }
+    if (!tool || !picked) return null;
+
+    if (tool === 'furniture-wall') {
+      const nearest = findNearestHostEdge(point, hostEdges, maxDistance);
+      return nearest
+        ? {
+          kind: 'furniture-wall',
+          from: picked,
+          to: { type: nearest.edge.hostType, id: nearest.edge.hostId, edgeIndex: nearest.edge.edgeIndex },
+        }
+        : null;
+    }
+
+    const other = furnitureAt(point);
+    return other && other.id !== picked.id ? { kind: 'item-item', from: picked, to: other } : null;
+  };
+
+  const pointerToCm = (e: KonvaEventObject<MouseEvent>): Point | null => {
+    const pointer = e.target.getStage()?.getPointerPosition();
+    return pointer ? { x: px2cm(pointer.x, scale), y: px2cm(pointer.y, scale) } : null;
+  };
+
+  const handleMouseDown = (e: KonvaEventObject<MouseEvent>) => {
+    if (!tool || e.evt.button !== 0) return;
+    const point = pointerToCm(e);
+    if (!point) return;
+
+    // Furniture to wall and item to item start by picking a furniture item
+    if (tool !== 'zone-edge' && !picked) {
+      setPicked(furnitureAt(point));
+      return;
+    }
+
+    const draft = draftAt(point);
+    if (!draft || !resolveDimension(draft, entities)) return;
+    if (!dimensions.some(dimension => isSameDimension(dimension, draft))) {
+      onDimensionAdd({
+        ...draft,
+        offset: draft.kind === 'zone-edge' ? DEFAULT_ZONE_DIMENSION_OFFSET : 0,
+        style: dimensionStyle,
+      });
+    }
+    setPicked(null);
+    setHover(null);
+  };
+
+  const handleMouseMove = (e: KonvaEventObject<MouseEvent>) => {
+    if (!tool) return;
+    const point = pointerToCm(e);
+    setHover(point ? draftAt(point) : null);
+  };
+
+  const pickedItem = picked ? furniture.find(item => item.id === picked.id) : undefined;
+  const pickedOutline = pickedItem
+    ? getRotatedCorners({ x: pickedItem.x, y: pickedItem.y, w: pickedItem.w, h: pickedItem.h, r: pickedItem.r || 0 })
+    : null;
+
+  return (
+    <div
+      className="absolute inset-0 pointer-events-none"
+      style={{ zIndex: tool ? 40 : 7 }}
+    >
+      <Stage
+        width={width}
+        height={height}
+        onMouseDown={handleMouseDown}
+        onMousemove={handleMouseMove}
+        onMouseLeave={() => setHover(null)}
+        className={tool ? 'pointer-events-auto' : undefined}
+        style={{ cursor: tool ? 'crosshair' : 'default' }}
+      >
+        <Layer listening={false}>
+          {dimensions.map(dimension => (
+            <DimensionShape
+              key={dimension.id}
+              dimension={dimension}
+              entities={entities}
+              color={DIMENSION_COLOR}
+              scale={scale}
+              unitSystem={unitSystem}
+            />
+          ))}
+
+          {/* Outline of the furniture item picked as the first end */}
+          {tool && pickedOutline && (
+            <Line
+              points={pickedOutline.flatMap(p => [toPx(p.x), toPx(p.y)])}
+              closed
+              stroke={LIVE_COLOR}
+              strokeWidth={2}
+              dash={[6, 4]}
+            />
+          )}
+
+          {tool && hover && (
+            <DimensionShape
+              dimension={{
+                ...hover,
+                offset: hover.kind === 'zone-edge' ? DEFAULT_ZONE_DIMENSION_OFFSET : 0,
+                style: dimensionStyle,
+              }}
+              entities={entities}
+              color={LIVE_COLOR}
+              scale={scale}
+              unitSystem={unitSystem}
+              dashed
+            />
+          )}
+        </Layer>
+      </Stage>
+
+      {/* Dimensions can be removed while a dimension tool is active */}
+      {tool && dimensions.map(dimension => {
+        const resolved = resolveDimension(dimension, entities);
+        if (!resolved) return null;
+        const { label } = layoutDimension(resolved, dimension, {
+          unitSystem,
+          markSize: px2cm(MARK_PX, scale),
+          textGap: px2cm(TEXT_GAP_PX, scale),
+        });
+        return (
+          <button
+            key={dimension.id}
+            type="button"
+            title="Remove dimension"
+            className="absolute pointer-events-auto p-0.5 rounded-full bg-white border border-slate-700 text-slate-700 shadow hover:bg-slate-50"
+            style={{ left: toPx(label.at.x) - 7, top: toPx(label.at.y) + 8 }}
+            onClick={() => onDimensionDelete(dimension.id)}
+          >
+            <X className="w-2.5 h-2.5" />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
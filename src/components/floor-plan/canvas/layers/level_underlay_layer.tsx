@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { Stage, Layer, Line, Text } from 'react-konva';
+import { FloorPlanZone, FurnitureItemType, WallSegment } from '@/types';
+import { cm2px } from '../../utils/units';
+import { Point, getPolygonBounds, getRotatedCorners } from '../../utils/geometry';
+import { computeWallOutlines } from '../../utils/wall_logic';
+import { getZonePolygon } from '../../utils/zone_logic';
+
+interface LevelUnderlayLayerProps {
+  // Contents of the level below the one being edited
+  zones: FloorPlanZone[];
+  furniture: FurnitureItemType[];
+  walls: WallSegment[];
+  levelName: string;
+  opacity?: number;
+  scale: number;
+  width: number;
+  height: number;
+}
+
+const UNDERLAY_COLOR = '#475569';
+
+/**
+ * Read-only, faded drawing of another level, used to line up stairs, shafts and
+ * load-bearing walls between floors. Fades the whole stage with CSS opacity
+ * like the background image layer.
+ */
+export function LevelUnderlayLayer({
+  zones,
+  furniture,
+  walls,
+  levelName,
+  opacity = 0.3,
+  scale,
+  width,
+  height
+}: LevelUnderlayLayerProps) {
+  const flat = (points: Point[]) => points.flatMap(p => [cm2px(p.x, scale), cm2px(p.y, scale)]);
+
+  const wallOutlines = useMemo(() => computeWallOutlines(walls), [walls]);
+
+  if (zones.length === 0 && furniture.length === 0 && walls.length === 0) return null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      <div className="absolute inset-0 transition-opacity duration-200" style={{ opacity }}>
+        <Stage width={width} height={height} listening={false}>
+          <Layer listening={false}>
+            {zones.map(zone => {
+              const polygon = getZonePolygon(zone);
+              const bounds = getPolygonBounds(polygon);
+              return (
+                <React.Fragment key={zone.id}>
+                  <Line
+                    points={flat(polygon)}
+                    closed
+                    stroke={UNDERLAY_COLOR}
+                    strokeWidth={1}
+                    dash={[6, 4]}
+                  />
+                  <Text
+                    x={cm2px(bounds.minX, scale) + 4}
+                    y={cm2px(bounds.minY, scale) + 4}
+                    text={zone.name}
+                    fontSize={10}
+                    fill={UNDERLAY_COLOR}
+                  />
+                </React.Fragment>
+              );
+            })}
+
+            {walls.map(wall => {
+              const outline = wallOutlines.get(wall.id);
+              return outline && (
+                <Line
+                  key={wall.id}
+                  points={flat(outline)}
+                  closed
+                  fill={UNDERLAY_COLOR}
+                />
+              );
+            })}
+
+            {furniture.map(item => (
+              <Line
+                key={item.id}
+                points={flat(getRotatedCorners(item))}
+                closed
+                stroke={UNDERLAY_COLOR}
+                strokeWidth={1}
+              />
+            ))}
+          </Layer>
+        </Stage>
+      </div>
+
+      <div className="absolute bottom-2 left-2 bg-slate-100 border border-slate-300 text-slate-700 px-2 py-1 rounded text-xs">
+        Below: {levelName}
+      </div>
+    </div>
+  );
+}
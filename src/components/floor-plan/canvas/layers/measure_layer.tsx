@@ -0,0 +1,277 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Stage, Layer, Line, Circle, Label, Tag, Text } from 'react-konva';
+import { KonvaEventObject } from 'konva/lib/Node';
+import { Pin, X } from 'lucide-react';
+import { FloorPlanZone, FurnitureItemType, Measurement } from '@/types';
+import { cm2px, px2cm, format_dimension } from '../../utils/units';
+import { Point, distance } from '../../utils/geometry';
+import {
+  formatMeasurement,
+  getMeasureSnapTargets,
+  getMeasurementLabelPoint,
+  snapMeasurePoint,
+} from '../../utils/measure_logic';
+import type { MeasureTool } from '../../state/editor_store';
+
+interface MeasureLayerProps {
+  measurements: Measurement[];
+  zones: FloorPlanZone[];
+  furniture: FurnitureItemType[];
+  scale: number;
+  unitSystem: 'cm' | 'm';
+  width: number;
+  height: number;
+  // Active measure tool; null leaves the pinned measurements on display only
+  tool: MeasureTool | null;
+  onMeasurementPin: (measurement: Omit<Measurement, 'id'>) => void;
+  onMeasurementDelete: (id: string) => void;
+}
+
+// Distance in screen pixels within which the pointer snaps to corners and furniture edges
+const SNAP_PX = 10;
+
+const LIVE_COLOR = '#db2777';
+const PINNED_COLOR = '#9d174d';
+
+// Pointer position in cm and what it snapped to, if anything
+interface MeasureCursor {
+  point: Point;
+  snap: 'corner' | 'edge' | null;
+}
+
+interface MeasureShapeProps {
+  kind: MeasureTool;
+  points: Point[];
+  color: string;
+  scale: number;
+  unitSystem: 'cm' | 'm';
+  dashed?: boolean;
+}
+
+// Lines, segment lengths and the main label of one measurement
+function MeasureShape({ kind, points, color, scale, unitSystem, dashed }: MeasureShapeProps) {
+  const toPx = (cm: number) => cm2px(cm, scale);
+  const closed = kind === 'area' && points.length > 2;
+  const segments = points.slice(1).map((point, i) => [points[i], point]);
+  if (closed) segments.push([points[points.length - 1], points[0]]);
+  const labelPoint = getMeasurementLabelPoint({ kind, points });
+
+  return (
+    <>
+      <Line
+        points={points.flatMap(p => [toPx(p.x), toPx(p.y)])}
+        closed={closed}
+        fill={closed ? 'rgba(219, 39, 119, 0.1)' : undefined}
+        stroke={color}
+        strokeWidth={2}
+        dash={dashed ? [6, 4] : undefined}
+      />
+      {points.map((point, index) => (
+        <Circle key={index} x={toPx(point.x)} y={toPx(point.y)} radius={3} fill={color} />
+      ))}
+      {/* Per-segment lengths once there is more than one segment */}
+      {segments.length > 1 && segments.map(([a, b], index) => (
+        <Text
+          key={index}
+          x={toPx((a.x + b.x) / 2) + 4}
+          y={toPx((a.y + b.y) / 2) + 4}
+          text={format_dimension(Math.round(distance(a, b)), unitSystem)}
+          fontSize={10}
+          fill={color}
+        />
+      ))}
+      <Label x={toPx(labelPoint.x)} y={toPx(labelPoint.y)} offsetY={-8}>
+        <Tag fill="#ffffff" stroke={color} strokeWidth={1} cornerRadius={3} opacity={0.9} />
+        <Text text={formatMeasurement({ kind, points }, unitSystem)} fontSize={12} padding={3} fill={color} />
+      </Label>
+    </>
+  );
+}
+
+/**
+ * Measure tool overlay: point-to-point distances, multi-segment paths and polygon
+ * areas snapped to zone corners and furniture outlines, plus the pinned measurements
+ */
+export function MeasureLayer({
+  measurements,
+  zones,
+  furniture,
+  scale,
+  unitSystem,
+  width,
+  height,
+  tool,
+  onMeasurementPin,
+  onMeasurementDelete
+}: MeasureLayerProps) {
+  const toPx = (cm: number) => cm2px(cm, scale);
+
+  // Points placed so far and the snapped pointer position, in cm
+  const [points, setPoints] = useState<Point[]>([]);
+  const [finished, setFinished] = useState(false);
+  const [cursor, setCursor] = useState<MeasureCursor | null>(null);
+
+  const snapTargets = useMemo(() => getMeasureSnapTargets(zones, furniture), [zones, furniture]);
+
+  // Switching tools drops the measurement in progress
+  useEffect(() => {
+    setPoints([]);
+    setFinished(false);
+    setCursor(null);
+  }, [tool]);
+
+  // A path needs two points and an area three before it can be finished
+  const canFinish = points.length >= (tool === 'area' ? 3 : 2);
+
+  // Enter finishes a path or area, Escape discards the current measurement
+  useEffect(() => {
+    if (!tool) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setPoints([]);
+        setFinished(false);
+      } else if (e.key === 'Enter' && canFinish) {
+        setFinished(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [tool, canFinish]);
+
+  // Snap to corners and furniture edges unless Alt is held
+  const resolvePoint = (px: Point, altKey: boolean): MeasureCursor => {
+    const point = { x: px2cm(px.x, scale), y: px2cm(px.y, scale) };
+    const snap = altKey ? null : snapMeasurePoint(point, snapTargets, px2cm(SNAP_PX, scale));
+    return snap
+      ? { point: snap.point, snap: snap.kind }
+      : { point: { x: Math.round(point.x * 10) / 10, y: Math.round(point.y * 10) / 10 }, snap: null };
+  };
+
+  const handleMouseDown = (e: KonvaEventObject<MouseEvent>) => {
+    if (!tool || e.evt.button !== 0) return;
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!pointer) return;
+    const { point } = resolvePoint(pointer, e.evt.altKey);
+
+    // A click after a finished measurement starts the next one
+    if (finished) {
+      setPoints([point]);
+      setFinished(false);
+      return;
+    }
+    const last = points[points.length - 1];
+    if (last && last.x === point.x && last.y === point.y) return;
+
+    const next = [...points, point];
+    setPoints(next);
+    if (tool === 'distance' && next.length === 2) {
+      setFinished(true);
+    }
+  };
+
+  const handleMouseMove = (e: KonvaEventObject<MouseEvent>) => {
+    if (!tool) return;
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!pointer) return;
+    setCursor(resolvePoint(pointer, e.evt.altKey));
+  };
+
+  const handlePin = () => {
+    if (!tool || !finished) return;
+    onMeasurementPin({ kind: tool, points });
+    setPoints([]);
+    setFinished(false);
+  };
+
+  const livePoints = !finished && cursor && points.length > 0 ? [...points, cursor.point] : points;
+  const liveLabel = finished && points.length > 0 ? getMeasurementLabelPoint({ kind: tool ?? 'distance', points }) : null;
+
+  return (
+    <div
+      className="absolute inset-0 pointer-events-none"
+      style={{ zIndex: tool ? 40 : 7 }}
+    >
+      <Stage
+        width={width}
+        height={height}
+        onMouseDown={handleMouseDown}
+        onMousemove={handleMouseMove}
+        onMouseLeave={() => setCursor(null)}
+        onDblClick={() => canFinish && setFinished(true)}
+        className={tool ? 'pointer-events-auto' : undefined}
+        style={{ cursor: tool ? 'crosshair' : 'default' }}
+      >
+        <Layer listening={false}>
+          {measurements.map(measurement => (
+            <MeasureShape
+              key={measurement.id}
+              kind={measurement.kind}
+              points={measurement.points}
+              color={PINNED_COLOR}
+              scale={scale}
+              unitSystem={unitSystem}
+            />
+          ))}
+
+          {tool && livePoints.length > 1 && (
+            <MeasureShape
+              kind={tool}
+              points={livePoints}
+              color={LIVE_COLOR}
+              scale={scale}
+              unitSystem={unitSystem}
+              dashed={!finished}
+            />
+          )}
+          {tool && points.length === 1 && !cursor && (
+            <Circle x={toPx(points[0].x)} y={toPx(points[0].y)} radius={3} fill={LIVE_COLOR} />
+          )}
+
+          {/* Snap marker: a ring on corners, a dot on furniture edges */}
+          {tool && cursor?.snap && (
+            <Circle
+              x={toPx(cursor.point.x)}
+              y={toPx(cursor.point.y)}
+              radius={cursor.snap === 'corner' ? 6 : 3}
+              stroke={LIVE_COLOR}
+              strokeWidth={cursor.snap === 'corner' ? 2 : 0}
+              fill={cursor.snap === 'corner' ? undefined : LIVE_COLOR}
+            />
+          )}
+        </Layer>
+      </Stage>
+
+      {/* Pin the finished measurement so it stays on the plan */}
+      {tool && liveLabel && (
+        <button
+          type="button"
+          className="absolute pointer-events-auto flex items-center gap-1 px-1.5 py-0.5 rounded bg-pink-600 text-white text-[10px] shadow hover:bg-pink-700"
+          style={{ left: toPx(liveLabel.x), top: toPx(liveLabel.y) - 22 }}
+          onClick={handlePin}
+        >
+          <Pin className="w-3 h-3" />
+          Pin
+        </button>
+      )}
+
+      {/* Pinned measurements can be removed while a measure tool is active */}
+      {tool && measurements.map(measurement => {
+        const labelPoint = getMeasurementLabelPoint(measurement);
+        return (
+          <button
+            key={measurement.id}
+            type="button"
+            title="Remove measurement"
+            className="absolute pointer-events-auto p-0.5 rounded-full bg-white border border-pink-800 text-pink-800 shadow hover:bg-pink-50"
+            style={{ left: toPx(labelPoint.x) - 18, top: toPx(labelPoint.y) + 10 }}
+            onClick={() => onMeasurementDelete(measurement.id)}
+          >
+            <X className="w-2.5 h-2.5" />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
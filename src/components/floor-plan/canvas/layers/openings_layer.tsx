@@ -0,0 +1,161 @@
+"use client";
+
+import React from 'react';
+import { Layer, Line, Circle } from 'react-konva';
+import { KonvaEventObject } from 'konva/lib/Node';
+import { Opening } from '@/types';
+import { cm2px, px2cm } from '../../utils/units';
+import { Point } from '../../utils/geometry';
+import {
+  HostEdge,
+  clampOpeningOffset,
+  getOpeningCutout,
+  getOpeningGeometry,
+} from '../../utils/opening_logic';
+
+interface OpeningsLayerProps {
+  openings: Opening[];
+  hostEdges: Map<string, HostEdge>;
+  scale: number;
+  selectedOpeningId: string | null;
+  // Opening being placed with the door or window tool
+  preview: { opening: Opening; edge: HostEdge } | null;
+  interactive: boolean;
+  onOpeningSelect: (id: string) => void;
+  onOpeningUpdate: (id: string, updates: Partial<Opening>) => void;
+}
+
+const SELECTED_COLOR = '#2563eb';
+
+/**
+ * Key of the host edge of an opening in the hostEdges map
+ */
+export function getHostEdgeKey(opening: Pick<Opening, 'hostType' | 'hostId' | 'edgeIndex'>): string {
+  return opening.hostType === 'wall'
+    ? `wall:${opening.hostId}`
+    : `zone:${opening.hostId}:${opening.edgeIndex ?? 0}`;
+}
+
+export function OpeningsLayer({
+  openings,
+  hostEdges,
+  scale,
+  selectedOpeningId,
+  preview,
+  interactive,
+  onOpeningSelect,
+  onOpeningUpdate
+}: OpeningsLayerProps) {
+  const toPx = (cm: number) => cm2px(cm, scale);
+  const flat = (points: Point[]) => points.flatMap(p => [toPx(p.x), toPx(p.y)]);
+
+  // Project a dragged handle back onto its host edge, in screen pixels
+  const projectOnEdge = (pos: Point, edge: HostEdge, width: number): { point: Point; offset: number } => {
+    const dx = (edge.end.x - edge.start.x) / edge.length;
+    const dy = (edge.end.y - edge.start.y) / edge.length;
+    const cm = { x: px2cm(pos.x, scale), y: px2cm(pos.y, scale) };
+    const along = (cm.x - edge.start.x) * dx + (cm.y - edge.start.y) * dy;
+    const offset = Math.round(clampOpeningOffset(along, width, edge.length));
+    return {
+      point: { x: toPx(edge.start.x + dx * offset), y: toPx(edge.start.y + dy * offset) },
+      offset,
+    };
+  };
+
+  const renderOpening = (opening: Opening, edge: HostEdge, isPreview: boolean) => {
+    const geometry = getOpeningGeometry(opening, edge);
+    const isSelected = !isPreview && opening.id === selectedOpeningId;
+    const stroke = isSelected || isPreview ? SELECTED_COLOR : '#1f2937';
+    const handleClick = (e: KonvaEventObject<MouseEvent>) => {
+      if (!interactive) return;
+      e.cancelBubble = true;
+      onOpeningSelect(opening.id);
+    };
+
+    const cutout = (
+      <Line
+        points={flat(getOpeningCutout(geometry))}
+        closed
+        fill={opening.type === 'window' ? '#e0f2fe' : '#ffffff'}
+        stroke={isSelected ? SELECTED_COLOR : undefined}
+        strokeWidth={isSelected ? 1 : 0}
+        opacity={isPreview ? 0.7 : 1}
+        onClick={handleClick}
+        listening={!isPreview}
+      />
+    );
+
+    if (opening.type === 'window') {
+      // Two panes drawn as parallel lines across the gap
+      const { jambs, dir } = geometry;
+      const n = { x: -dir.y, y: dir.x };
+      const inset = geometry.thickness / 4;
+      const panes = [inset, -inset].map(d => [
+        { x: jambs[0].x + n.x * d, y: jambs[0].y + n.y * d },
+        { x: jambs[1].x + n.x * d, y: jambs[1].y + n.y * d },
+      ]);
+      return (
+        <React.Fragment key={isPreview ? 'preview' : opening.id}>
+          {cutout}
+          {panes.map((pane, index) => (
+            <Line key={index} points={flat(pane)} stroke={stroke} strokeWidth={1.5} listening={false} />
+          ))}
+        </React.Fragment>
+      );
+    }
+
+    return (
+      <React.Fragment key={isPreview ? 'preview' : opening.id}>
+        {cutout}
+        <Line
+          points={flat([geometry.hinge, geometry.leafEnd])}
+          stroke={stroke}
+          strokeWidth={2}
+          listening={false}
+        />
+        <Line
+          points={flat(geometry.arc)}
+          stroke={stroke}
+          strokeWidth={1}
+          dash={[4, 3]}
+          listening={false}
+        />
+      </React.Fragment>
+    );
+  };
+
+  const selected = interactive ? openings.find(o => o.id === selectedOpeningId) : undefined;
+  const selectedEdge = selected ? hostEdges.get(getHostEdgeKey(selected)) : undefined;
+  const selectedCenter = selected && selectedEdge ? getOpeningGeometry(selected, selectedEdge).center : null;
+
+  return (
+    <Layer>
+      {openings.map(opening => {
+        const edge = hostEdges.get(getHostEdgeKey(opening));
+        return edge ? renderOpening(opening, edge, false) : null;
+      })}
+
+      {preview && renderOpening(preview.opening, preview.edge, true)}
+
+      {/* Dragging the handle slides the selected opening along its host edge */}
+      {selected && selectedEdge && selectedCenter && (
+        <Circle
+          x={toPx(selectedCenter.x)}
+          y={toPx(selectedCenter.y)}
+          radius={6}
+          fill="#ffffff"
+          stroke={SELECTED_COLOR}
+          strokeWidth={2}
+          draggable
+          dragBoundFunc={(pos) => projectOnEdge(pos, selectedEdge, selected.width).point}
+          onDragEnd={(e) => {
+            const { offset } = projectOnEdge(e.target.position(), selectedEdge, selected.width);
+            if (offset !== selected.offset) {
+              onOpeningUpdate(selected.id, { offset });
+            }
+          }}
+        />
+      )}
+    </Layer>
+  );
+}
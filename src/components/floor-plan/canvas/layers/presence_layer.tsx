@@ -0,0 +1,108 @@
+"use client";
+
+import React from 'react';
+import { Stage, Layer, Line } from 'react-konva';
+import { FloorPlanZone, FurnitureItemType, WallSegment, Opening } from '@/types';
+import { cm2px } from '../../utils/units';
+import { Point, getRotatedCorners } from '../../utils/geometry';
+import { getZonePolygon } from '../../utils/zone_logic';
+import { getOpeningHostEdge, getOpeningGeometry } from '../../utils/opening_logic';
+import type { RemotePeer } from '../../state/selection_store';
+
+interface PresenceLayerProps {
+  peers: RemotePeer[];
+  zones: FloorPlanZone[];
+  furniture: FurnitureItemType[];
+  walls: WallSegment[];
+  openings: Opening[];
+  scale: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Read-only overlay showing collaborators' selections as outlines in their
+ * color, and their pointers with a name tag
+ */
+export function PresenceLayer({
+  peers,
+  zones,
+  furniture,
+  walls,
+  openings,
+  scale,
+  width,
+  height
+}: PresenceLayerProps) {
+  const flat = (points: Point[]) => points.flatMap(p => [cm2px(p.x, scale), cm2px(p.y, scale)]);
+
+  // Outline of a selected entity in cm, closed unless it is a line
+  const getOutline = (item: RemotePeer['selection'][number]): { points: Point[]; closed: boolean } | null => {
+    switch (item.type) {
+      case 'zone': {
+        const zone = zones.find(z => z.id === item.id);
+        return zone ? { points: getZonePolygon(zone), closed: true } : null;
+      }
+      case 'furniture': {
+        const piece = furniture.find(f => f.id === item.id);
+        return piece ? { points: getRotatedCorners(piece), closed: true } : null;
+      }
+      case 'wall': {
+        const wall = walls.find(w => w.id === item.id);
+        return wall ? { points: [{ x: wall.x1, y: wall.y1 }, { x: wall.x2, y: wall.y2 }], closed: false } : null;
+      }
+      case 'opening': {
+        const opening = openings.find(o => o.id === item.id);
+        const edge = opening ? getOpeningHostEdge(opening, walls, zones) : null;
+        return opening && edge ? { points: getOpeningGeometry(opening, edge).jambs, closed: false } : null;
+      }
+      default:
+        return null;
+    }
+  };
+
+  if (peers.length === 0) return null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none" style={{ zIndex: 6 }}>
+      <Stage width={width} height={height} listening={false}>
+        <Layer listening={false}>
+          {peers.flatMap(peer => peer.selection.map(item => {
+            const outline = getOutline(item);
+            if (!outline) return null;
+            return (
+              <Line
+                key={`${peer.id}-${item.type}-${item.id}`}
+                points={flat(outline.points)}
+                closed={outline.closed}
+                stroke={peer.color}
+                strokeWidth={outline.closed ? 2 : 6}
+                opacity={outline.closed ? 1 : 0.6}
+                dash={outline.closed ? [6, 3] : undefined}
+                lineCap="round"
+              />
+            );
+          }))}
+        </Layer>
+      </Stage>
+
+      {peers.map(peer => peer.cursor && (
+        <div
+          key={peer.id}
+          className="absolute"
+          style={{ left: cm2px(peer.cursor.x, scale), top: cm2px(peer.cursor.y, scale) }}
+        >
+          <svg width="16" height="16" viewBox="0 0 16 16" className="-ml-px -mt-px">
+            <path d="M1 1 L1 13 L4.5 9.5 L7 15 L9 14 L6.5 8.5 L11.5 8.5 Z" fill={peer.color} stroke="white" strokeWidth={1} />
+          </svg>
+          <div
+            className="ml-3 -mt-1 px-1.5 py-0.5 rounded text-[10px] text-white whitespace-nowrap shadow"
+            style={{ backgroundColor: peer.color }}
+          >
+            {peer.name}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 "use client";
 
 import React, { useEffect, useRef, useState } from 'react';
-import { Stage, Layer, Transformer, Group, Rect } from 'react-konva';
+import { Stage, Layer, Transformer, Group, Rect, Line, Circle } from 'react-konva';
 import Konva from 'konva';
-import { FloorPlanZone, FurnitureItemType } from '@/types';
+import { FloorPlanZone, FurnitureItemType, ZonePoint } from '@/types';
+import { isPolygonZone, translateZone, zoneUpdatesFromPoints } from '../../utils/zone_logic';
 
 interface SelectionOverlayProps {
   // Canvas props
@@ -14,7 +15,7 @@ interface SelectionOverlayProps {
   // Selection state
   selectedFurniture: FurnitureItemType | null;
   selectedZone: FloorPlanZone | null;
-  editorMode: 'zones' | 'furniture' | 'diagrams';
+  editorMode: 'zones' | 'furniture' | 'diagrams' | 'walls';
 
   // Callbacks
   onFurnitureUpdate: (id: string, updates: Partial<FurnitureItemType>) => void;
@@ -51,6 +52,15 @@ export function SelectionOverlay({
   const [_isDragging, setIsDragging] = useState(false);
   const [_isTransforming, setIsTransforming] = useState(false);
 
+  // Live vertex positions (cm) while a polygon zone vertex is being dragged
+  const [draftPoints, setDraftPoints] = useState<ZonePoint[] | null>(null);
+
+  const isEditingPolygon = !!selectedZone && editorMode === 'zones' && isPolygonZone(selectedZone);
+
+  useEffect(() => {
+    setDraftPoints(null);
+  }, [selectedZone]);
+
   // Convert cm to pixels
   const cm2px = (cm: number) => cm * scale;
   const px2cm = (px: number) => px / scale;
@@ -87,14 +97,14 @@ export function SelectionOverlay({
 
     if (!transformer || !selectionRect) return;
 
-    if ((selectedFurniture && editorMode === 'furniture') || (selectedZone && editorMode === 'zones')) {
+    if ((selectedFurniture && editorMode === 'furniture') || (selectedZone && editorMode === 'zones' && !isEditingPolygon)) {
       transformer.nodes([selectionRect]);
       transformer.getLayer()?.batchDraw();
     } else {
       transformer.nodes([]);
       transformer.getLayer()?.batchDraw();
     }
-  }, [selectedFurniture, selectedZone, editorMode]);
+  }, [selectedFurniture, selectedZone, editorMode, isEditingPolygon]);
 
   // Handle transform events
   const handleTransformStart = () => {
@@ -232,6 +242,135 @@ export function SelectionOverlay({
     }
   };
 
+  // Polygon vertex editing
+  const snapCm = (value: number) => {
+    if (!snapEnabled || snapGrid <= 0) return value;
+    return Math.round(value / snapGrid) * snapGrid;
+  };
+
+  const clampPoint = (point: ZonePoint): ZonePoint => ({
+    x: Math.max(0, Math.min(px2cm(width), point.x)),
+    y: Math.max(0, Math.min(px2cm(height), point.y)),
+  });
+
+  const commitPolygon = (points: ZonePoint[]) => {
+    if (!selectedZone) return;
+    onZoneUpdate(selectedZone.id, zoneUpdatesFromPoints(points));
+    setDraftPoints(null);
+  };
+
+  const handleVertexDragMove = (index: number, e: Konva.KonvaEventObject<DragEvent>) => {
+    if (!selectedZone?.points) return;
+    const node = e.target;
+    const point = clampPoint({ x: snapCm(px2cm(node.x())), y: snapCm(px2cm(node.y())) });
+    node.x(cm2px(point.x));
+    node.y(cm2px(point.y));
+
+    const base = draftPoints ?? selectedZone.points;
+    setDraftPoints(base.map((p, i) => (i === index ? point : p)));
+  };
+
+  const handleVertexDragEnd = () => {
+    if (draftPoints) {
+      commitPolygon(draftPoints);
+    }
+  };
+
+  const handleVertexRemove = (index: number) => {
+    if (!selectedZone?.points || selectedZone.points.length <= 3) return;
+    commitPolygon(selectedZone.points.filter((_, i) => i !== index));
+  };
+
+  const handleVertexInsert = (index: number) => {
+    if (!selectedZone?.points) return;
+    const points = selectedZone.points;
+    const a = points[index];
+    const b = points[(index + 1) % points.length];
+    const midpoint = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    commitPolygon([...points.slice(0, index + 1), midpoint, ...points.slice(index + 1)]);
+  };
+
+  const handlePolygonDragEnd = (e: Konva.KonvaEventObject<DragEvent>) => {
+    if (!selectedZone) return;
+    const node = e.target;
+    let dx = snapCm(px2cm(node.x()));
+    let dy = snapCm(px2cm(node.y()));
+    node.position({ x: 0, y: 0 });
+
+    // Keep the outline on the canvas
+    dx = Math.max(-selectedZone.x, dx);
+    dy = Math.max(-selectedZone.y, dy);
+    if (dx !== 0 || dy !== 0) {
+      onZoneUpdate(selectedZone.id, translateZone(selectedZone, Math.round(dx), Math.round(dy)));
+    }
+  };
+
+  if (isEditingPolygon && selectedZone?.points) {
+    const points = draftPoints ?? selectedZone.points;
+
+    return (
+      <div className="absolute inset-0 pointer-events-auto">
+        <Stage
+          ref={stageRef}
+          width={width}
+          height={height}
+          style={{ position: 'absolute', top: 0, left: 0 }}
+        >
+          <Layer>
+            {/* Outline - drag to move the whole zone */}
+            <Line
+              points={points.flatMap(p => [cm2px(p.x), cm2px(p.y)])}
+              closed
+              fill="rgba(220, 38, 38, 0.05)"
+              stroke="#dc2626"
+              strokeWidth={2}
+              dash={[5, 5]}
+              draggable
+              onDragEnd={handlePolygonDragEnd}
+            />
+
+            {/* Edge midpoints - click to insert a vertex */}
+            {points.map((p, i) => {
+              const next = points[(i + 1) % points.length];
+              return (
+                <Circle
+                  key={`mid-${i}`}
+                  x={cm2px((p.x + next.x) / 2)}
+                  y={cm2px((p.y + next.y) / 2)}
+                  radius={4}
+                  fill="#ffffff"
+                  stroke="#dc2626"
+                  strokeWidth={1}
+                  opacity={0.8}
+                  onClick={() => handleVertexInsert(i)}
+                  onTap={() => handleVertexInsert(i)}
+                />
+              );
+            })}
+
+            {/* Vertices - drag to move, double-click to remove */}
+            {points.map((p, i) => (
+              <Circle
+                key={`vertex-${i}`}
+                x={cm2px(p.x)}
+                y={cm2px(p.y)}
+                radius={6}
+                fill="#dc2626"
+                stroke="#ffffff"
+                strokeWidth={2}
+                draggable
+                onDragMove={(e) => handleVertexDragMove(i, e)}
+                onDragEnd={handleVertexDragEnd}
+                onDblClick={() => handleVertexRemove(i)}
+                onDblTap={() => handleVertexRemove(i)}
+              />
+            ))}
+          </Layer>
+        </Stage>
+      </div>
+    );
+  }
+
   // Get current selection for rendering
   const getSelectionProps = () => {
     if (selectedFurniture && editorMode === 'furniture') {
@@ -0,0 +1,99 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { Stage, Layer, Line } from 'react-konva';
+import { FloorPlanZone, FurnitureItemType, WallSegment, Opening } from '@/types';
+import { cm2px } from '../../utils/units';
+import { Point, getRotatedCorners } from '../../utils/geometry';
+import { computeWallOutlines } from '../../utils/wall_logic';
+import { getZonePolygon } from '../../utils/zone_logic';
+import { getOpeningCutout, getOpeningGeometry, getOpeningHostEdge } from '../../utils/opening_logic';
+import type { VersionChangeType } from '../../utils/version_diff';
+
+interface VersionDiffLayerProps {
+  // Entities of the version shown in this pane
+  zones: FloorPlanZone[];
+  furniture: FurnitureItemType[];
+  walls: WallSegment[];
+  openings: Opening[];
+  // Change type per entity ID on this side of the comparison
+  changedIds: Map<string, VersionChangeType>;
+  scale: number;
+  width: number;
+  height: number;
+}
+
+export const CHANGE_COLORS: Record<VersionChangeType, string> = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  modified: '#d97706',
+};
+
+/**
+ * Read-only overlay that outlines the entities added, removed or modified
+ * between two versions, on one side of a side-by-side comparison
+ */
+export function VersionDiffLayer({
+  zones,
+  furniture,
+  walls,
+  openings,
+  changedIds,
+  scale,
+  width,
+  height
+}: VersionDiffLayerProps) {
+  const flat = (points: Point[]) => points.flatMap(p => [cm2px(p.x, scale), cm2px(p.y, scale)]);
+
+  const wallOutlines = useMemo(() => computeWallOutlines(walls), [walls]);
+
+  // Outline polygon in cm of every changed entity
+  const highlights = useMemo(() => {
+    const result: { id: string; polygon: Point[]; change: VersionChangeType; filled: boolean }[] = [];
+
+    zones.forEach(zone => {
+      const change = changedIds.get(zone.id);
+      if (change) result.push({ id: zone.id, polygon: getZonePolygon(zone), change, filled: false });
+    });
+    walls.forEach(wall => {
+      const change = changedIds.get(wall.id);
+      const outline = wallOutlines.get(wall.id);
+      if (change && outline) result.push({ id: wall.id, polygon: outline, change, filled: true });
+    });
+    openings.forEach(opening => {
+      const change = changedIds.get(opening.id);
+      const edge = change ? getOpeningHostEdge(opening, walls, zones) : null;
+      if (change && edge) {
+        result.push({ id: opening.id, polygon: getOpeningCutout(getOpeningGeometry(opening, edge)), change, filled: true });
+      }
+    });
+    furniture.forEach(item => {
+      const change = changedIds.get(item.id);
+      if (change) result.push({ id: item.id, polygon: getRotatedCorners(item), change, filled: true });
+    });
+
+    return result;
+  }, [zones, furniture, walls, openings, changedIds, wallOutlines]);
+
+  if (highlights.length === 0) return null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none" style={{ zIndex: 5 }}>
+      <Stage width={width} height={height} listening={false}>
+        <Layer listening={false}>
+          {highlights.map(({ id, polygon, change, filled }) => (
+            <Line
+              key={id}
+              points={flat(polygon)}
+              closed
+              stroke={CHANGE_COLORS[change]}
+              strokeWidth={2}
+              dash={change === 'modified' ? [5, 3] : undefined}
+              fill={filled ? `${CHANGE_COLORS[change]}55` : undefined}
+            />
+          ))}
+        </Layer>
+      </Stage>
+    </div>
+  );
+}
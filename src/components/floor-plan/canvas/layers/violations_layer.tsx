@@ -0,0 +1,98 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { Stage, Layer, Line } from 'react-konva';
+import { FurnitureItemType } from '@/types';
+import { cm2px } from '../../utils/units';
+import { Point, getRotatedCorners } from '../../utils/geometry';
+import {
+  PlacementViolation,
+  getClearanceEnvelope,
+  getPlacementRules,
+} from '../../utils/placement_validation';
+
+interface ViolationsLayerProps {
+  violations: PlacementViolation[];
+  furniture: FurnitureItemType[];
+  selectedFurnitureId: string | null;
+  scale: number;
+  width: number;
+  height: number;
+}
+
+const ERROR_COLOR = '#dc2626';
+const WARNING_COLOR = '#d97706';
+
+/**
+ * Read-only overlay that outlines furniture with placement problems, fills the
+ * offending regions and shows the clearance envelope of the selected item
+ */
+export function ViolationsLayer({
+  violations,
+  furniture,
+  selectedFurnitureId,
+  scale,
+  width,
+  height
+}: ViolationsLayerProps) {
+  const flat = (points: Point[]) => points.flatMap(p => [cm2px(p.x, scale), cm2px(p.y, scale)]);
+
+  // Worst severity per item involved in any violation
+  const flagged = useMemo(() => {
+    const severities = new Map<string, PlacementViolation['severity']>();
+    violations.forEach(v => {
+      [v.furnitureId, v.otherId].forEach(id => {
+        if (!id || !furniture.some(f => f.id === id)) return;
+        if (severities.get(id) !== 'error') {
+          severities.set(id, v.severity);
+        }
+      });
+    });
+    return severities;
+  }, [violations, furniture]);
+
+  const selected = furniture.find(f => f.id === selectedFurnitureId);
+  const selectedClearance = selected ? getPlacementRules(selected)?.requiredClearance : undefined;
+  const envelope = selected && selectedClearance ? getClearanceEnvelope(selected, selectedClearance) : null;
+
+  if (violations.length === 0 && !envelope) return null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none" style={{ zIndex: 3 }}>
+      <Stage width={width} height={height} listening={false}>
+        <Layer listening={false}>
+          {envelope && (
+            <Line
+              points={flat(envelope)}
+              closed
+              stroke="#2563eb"
+              strokeWidth={1}
+              dash={[6, 4]}
+              fill="rgba(37, 99, 235, 0.06)"
+            />
+          )}
+
+          {violations.map(v => v.region && v.region.length >= 3 && v.type !== 'zone' && v.type !== 'wall_distance' && (
+            <Line
+              key={v.id}
+              points={flat(v.region)}
+              closed
+              fill={v.severity === 'error' ? 'rgba(220, 38, 38, 0.35)' : 'rgba(217, 119, 6, 0.3)'}
+            />
+          ))}
+
+          {furniture.filter(item => flagged.has(item.id)).map(item => (
+            <Line
+              key={item.id}
+              points={flat(getRotatedCorners(item))}
+              closed
+              stroke={flagged.get(item.id) === 'error' ? ERROR_COLOR : WARNING_COLOR}
+              strokeWidth={2}
+              dash={flagged.get(item.id) === 'error' ? undefined : [4, 3]}
+            />
+          ))}
+        </Layer>
+      </Stage>
+    </div>
+  );
+}
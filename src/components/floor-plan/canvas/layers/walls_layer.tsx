@@ -0,0 +1,352 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Stage, Layer, Line, Circle, Text } from 'react-konva';
+import { KonvaEventObject } from 'konva/lib/Node';
+import { FloorPlanSettings, FloorPlanZone, Opening, WallSegment } from '@/types';
+import { cm2px, px2cm, format_dimension } from '../../utils/units';
+import { Point } from '../../utils/geometry';
+import {
+  computeWallOutlines,
+  constrainWallOrthogonal,
+  getWallLength,
+  snapToWallEnds,
+} from '../../utils/wall_logic';
+import {
+  DEFAULT_DOOR_WIDTH,
+  DEFAULT_WINDOW_WIDTH,
+  HostEdge,
+  clampOpeningOffset,
+  findNearestHostEdge,
+  getHostEdges,
+} from '../../utils/opening_logic';
+import type { WallTool } from '../../state/editor_store';
+import { OpeningsLayer, getHostEdgeKey } from './openings_layer';
+
+interface WallsLayerProps {
+  walls: WallSegment[];
+  zones: FloorPlanZone[];
+  openings: Opening[];
+  settings: FloorPlanSettings;
+  width: number;
+  height: number;
+  editorMode: 'zones' | 'furniture' | 'diagrams' | 'walls';
+  selectedWallId: string | null;
+  selectedOpeningId: string | null;
+  wallTool: WallTool;
+  wallThickness: number;
+  wallHeight: number;
+  onWallSelect: (id: string | null) => void;
+  onWallAdd: (wall: WallSegment) => void;
+  onWallJointMove: (from: Point, to: Point) => void;
+  onOpeningSelect: (id: string | null) => void;
+  onOpeningAdd: (opening: Opening) => void;
+  onOpeningUpdate: (id: string, updates: Partial<Opening>) => void;
+}
+
+// Distance in screen pixels within which the pointer snaps to an existing wall end
+const END_SNAP_PX = 10;
+
+// Distance in screen pixels within which doors and windows attach to a wall or zone edge
+const HOST_SNAP_PX = 20;
+
+export function WallsLayer({
+  walls,
+  zones,
+  openings,
+  settings,
+  width,
+  height,
+  editorMode,
+  selectedWallId,
+  selectedOpeningId,
+  wallTool,
+  wallThickness,
+  wallHeight,
+  onWallSelect,
+  onWallAdd,
+  onWallJointMove,
+  onOpeningSelect,
+  onOpeningAdd,
+  onOpeningUpdate
+}: WallsLayerProps) {
+  const toPx = (cm: number) => cm2px(cm, settings.scale);
+  const isActive = editorMode === 'walls';
+  const isDrawing = isActive && wallTool === 'draw';
+  const isPlacing = isActive && (wallTool === 'door' || wallTool === 'window');
+
+  // Start of the wall being drawn and the current pointer position, in cm
+  const [draftStart, setDraftStart] = useState<Point | null>(null);
+  const [cursor, setCursor] = useState<Point | null>(null);
+
+  const [placement, setPlacement] = useState<{ opening: Opening; edge: HostEdge } | null>(null);
+
+  const outlines = useMemo(() => computeWallOutlines(walls), [walls]);
+  const hostEdgeList = useMemo(() => getHostEdges(walls, zones), [walls, zones]);
+  const hostEdges = useMemo(
+    () => new Map(hostEdgeList.map(edge => [getHostEdgeKey(edge), edge])),
+    [hostEdgeList]
+  );
+
+  // Leaving draw mode drops the unfinished wall
+  useEffect(() => {
+    if (!isDrawing) {
+      setDraftStart(null);
+      setCursor(null);
+    }
+  }, [isDrawing]);
+
+  useEffect(() => {
+    if (!isPlacing) {
+      setPlacement(null);
+    }
+  }, [isPlacing]);
+
+  // Escape finishes the current chain of walls
+  useEffect(() => {
+    if (!draftStart) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setDraftStart(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [draftStart]);
+
+  // Snap a pointer position to wall ends first, then to the grid; shift keeps walls orthogonal
+  const resolvePoint = (px: Point, shiftKey: boolean, excludeWallId?: string): { point: Point; joined: boolean } => {
+    let point = { x: px2cm(px.x, settings.scale), y: px2cm(px.y, settings.scale) };
+
+    const endSnap = snapToWallEnds(point, walls, px2cm(END_SNAP_PX, settings.scale), excludeWallId);
+    if (endSnap) {
+      return { point: endSnap, joined: true };
+    }
+
+    if (draftStart && shiftKey) {
+      point = constrainWallOrthogonal(draftStart, point);
+    }
+    if (settings.snap > 0) {
+      point = {
+        x: Math.round(point.x / settings.snap) * settings.snap,
+        y: Math.round(point.y / settings.snap) * settings.snap,
+      };
+    }
+    return {
+      point: { x: Math.max(0, Math.round(point.x)), y: Math.max(0, Math.round(point.y)) },
+      joined: false,
+    };
+  };
+
+  // Attach a door or window to the wall or zone edge nearest to the pointer
+  const resolvePlacement = (px: Point): { opening: Opening; edge: HostEdge } | null => {
+    const point = { x: px2cm(px.x, settings.scale), y: px2cm(px.y, settings.scale) };
+    const nearest = findNearestHostEdge(point, hostEdgeList, px2cm(HOST_SNAP_PX, settings.scale));
+    if (!nearest) return null;
+
+    const type = wallTool === 'window' ? 'window' : 'door';
+    const { edge } = nearest;
+    const openingWidth = Math.min(type === 'door' ? DEFAULT_DOOR_WIDTH : DEFAULT_WINDOW_WIDTH, edge.length);
+    return {
+      edge,
+      opening: {
+        id: Math.random().toString(36).slice(2, 9),
+        type,
+        hostType: edge.hostType,
+        hostId: edge.hostId,
+        edgeIndex: edge.edgeIndex,
+        offset: Math.round(clampOpeningOffset(nearest.offset, openingWidth, edge.length)),
+        width: openingWidth,
+        hinge: 'start',
+        swing: 'left',
+        height: type === 'door' ? 210 : 120,
+        sillHeight: type === 'door' ? undefined : 90,
+      },
+    };
+  };
+
+  const handleMouseDown = (e: KonvaEventObject<MouseEvent>) => {
+    if (!isActive || e.evt.button !== 0) return;
+    const stage = e.target.getStage();
+    const pointer = stage?.getPointerPosition();
+    if (!pointer) return;
+
+    if (isPlacing) {
+      const next = resolvePlacement(pointer);
+      if (next) {
+        onOpeningAdd(next.opening);
+      }
+      return;
+    }
+
+    if (!isDrawing) {
+      // Clicking empty canvas clears the wall and opening selection
+      if (e.target === stage) {
+        onWallSelect(null);
+        onOpeningSelect(null);
+      }
+      return;
+    }
+
+    const { point, joined } = resolvePoint(pointer, e.evt.shiftKey);
+    if (!draftStart) {
+      setDraftStart(point);
+      return;
+    }
+    if (point.x === draftStart.x && point.y === draftStart.y) return;
+
+    onWallAdd({
+      id: Math.random().toString(36).slice(2, 9),
+      x1: draftStart.x,
+      y1: draftStart.y,
+      x2: point.x,
+      y2: point.y,
+      thickness: wallThickness,
+      height: wallHeight,
+    });
+
+    // Keep chaining walls until an existing wall end is reached
+    setDraftStart(joined ? null : point);
+  };
+
+  const handleMouseMove = (e: KonvaEventObject<MouseEvent>) => {
+    if (!isDrawing && !isPlacing) return;
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!pointer) return;
+    if (isPlacing) {
+      setPlacement(resolvePlacement(pointer));
+      return;
+    }
+    setCursor(resolvePoint(pointer, e.evt.shiftKey).point);
+  };
+
+  const handleWallClick = (e: KonvaEventObject<MouseEvent>, wallId: string) => {
+    if (!isActive || isDrawing || isPlacing) return;
+    e.cancelBubble = true;
+    onWallSelect(wallId);
+  };
+
+  const handleEndDragEnd = (e: KonvaEventObject<DragEvent>, wall: WallSegment, from: Point) => {
+    const node = e.target;
+    const { point } = resolvePoint({ x: node.x(), y: node.y() }, false, wall.id);
+    node.position({ x: toPx(from.x), y: toPx(from.y) });
+    if (point.x !== from.x || point.y !== from.y) {
+      onWallJointMove(from, point);
+    }
+  };
+
+  const selectedWall = isActive && wallTool === 'select'
+    ? walls.find(w => w.id === selectedWallId) ?? null
+    : null;
+
+  const draftWall: WallSegment | null = draftStart && cursor
+    ? {
+      id: 'draft',
+      x1: draftStart.x,
+      y1: draftStart.y,
+      x2: cursor.x,
+      y2: cursor.y,
+      thickness: wallThickness,
+      height: wallHeight,
+    }
+    : null;
+  const draftOutline = draftWall ? computeWallOutlines([draftWall]).get('draft') : undefined;
+
+  return (
+    <div
+      className="absolute inset-0 pointer-events-none"
+      style={{ zIndex: isActive ? 4 : 1 }}
+    >
+      <Stage
+        width={width}
+        height={height}
+        onMouseDown={handleMouseDown}
+        onMousemove={handleMouseMove}
+        onMouseLeave={() => setPlacement(null)}
+        onDblClick={() => setDraftStart(null)}
+        className={isActive ? 'pointer-events-auto' : undefined}
+        style={{ cursor: isDrawing || isPlacing ? 'crosshair' : 'default' }}
+      >
+        <Layer>
+          {walls.map(wall => {
+            const outline = outlines.get(wall.id);
+            if (!outline) return null;
+            const isSelected = isActive && wall.id === selectedWallId;
+            return (
+              <Line
+                key={wall.id}
+                points={outline.flatMap(p => [toPx(p.x), toPx(p.y)])}
+                closed
+                fill={wall.color || '#4b5563'}
+                stroke={isSelected ? '#2563eb' : '#1f2937'}
+                strokeWidth={isSelected ? 2 : 1}
+                onClick={(e) => handleWallClick(e, wall.id)}
+              />
+            );
+          })}
+
+          {/* Wall being drawn */}
+          {draftWall && draftOutline && (
+            <>
+              <Line
+                points={draftOutline.flatMap(p => [toPx(p.x), toPx(p.y)])}
+                closed
+                fill="rgba(37, 99, 235, 0.3)"
+                stroke="#2563eb"
+                strokeWidth={1}
+                dash={[4, 4]}
+                listening={false}
+              />
+              <Text
+                x={toPx((draftWall.x1 + draftWall.x2) / 2) + 8}
+                y={toPx((draftWall.y1 + draftWall.y2) / 2) + 8}
+                text={format_dimension(getWallLength(draftWall), settings.unitSystem)}
+                fontSize={12}
+                fill="#1d4ed8"
+                listening={false}
+              />
+            </>
+          )}
+          {isDrawing && cursor && (
+            <Circle
+              x={toPx(cursor.x)}
+              y={toPx(cursor.y)}
+              radius={4}
+              fill="#2563eb"
+              listening={false}
+            />
+          )}
+
+          {/* End handles of the selected wall - dragging moves the whole joint */}
+          {selectedWall && [
+            { x: selectedWall.x1, y: selectedWall.y1 },
+            { x: selectedWall.x2, y: selectedWall.y2 },
+          ].map((end, index) => (
+            <Circle
+              key={index}
+              x={toPx(end.x)}
+              y={toPx(end.y)}
+              radius={6}
+              fill="#ffffff"
+              stroke="#2563eb"
+              strokeWidth={2}
+              draggable
+              onDragEnd={(e) => handleEndDragEnd(e, selectedWall, end)}
+            />
+          ))}
+        </Layer>
+
+        <OpeningsLayer
+          openings={openings}
+          hostEdges={hostEdges}
+          scale={settings.scale}
+          selectedOpeningId={selectedOpeningId}
+          preview={placement}
+          interactive={isActive && wallTool === 'select'}
+          onOpeningSelect={onOpeningSelect}
+          onOpeningUpdate={onOpeningUpdate}
+        />
+      </Stage>
+    </div>
+  );
+}
@@ -2,7 +2,9 @@
 
 import React, { useState } from 'react';
 import { FloorPlanZone, FloorPlanSettings } from '@/types';
-import { cm2px } from '../../utils/units';
+import { cm2px, format_area } from '../../utils/units';
+import { getZoneArea, getZonePolygon, isPolygonZone, translateZone } from '../../utils/zone_logic';
+import { polygonCentroid } from '../../utils/geometry';
 
 interface ZonesLayerProps {
   zones: FloorPlanZone[];
@@ -10,7 +12,7 @@ interface ZonesLayerProps {
   selectedZoneId: string | null;
   onZoneSelect: (id: string | null) => void;
   onZoneUpdate?: (id: string, updates: Partial<FloorPlanZone>) => void;
-  editorMode: 'zones' | 'furniture' | 'diagrams';
+  editorMode: 'zones' | 'furniture' | 'diagrams' | 'walls';
 }
 
 export function ZonesLayer({
@@ -53,7 +55,7 @@ export function ZonesLayer({
     const newX = Math.max(0, zone.x + Math.round(deltaX / settings.scale));
     const newY = Math.max(0, zone.y + Math.round(deltaY / settings.scale));
 
-    onZoneUpdate(draggedZone, { x: newX, y: newY });
+    onZoneUpdate(draggedZone, translateZone(zone, newX - zone.x, newY - zone.y));
     setDragStart({ x: e.clientX, y: e.clientY });
   };
 
@@ -70,6 +72,56 @@ export function ZonesLayer({
         const isInZonesMode = editorMode === 'zones';
         const isDragging = draggedZone === zone.id;
 
+        if (isPolygonZone(zone)) {
+          const outline = getZonePolygon(zone);
+          const centroid = polygonCentroid(outline);
+          const colors = isInZonesMode
+            ? isSelected
+              ? { fill: 'rgba(219, 234, 254, 0.5)', stroke: '#3b82f6' }
+              : { fill: 'rgba(254, 243, 199, 0.3)', stroke: '#fbbf24' }
+            : { fill: 'rgba(243, 244, 246, 0.3)', stroke: '#d1d5db' };
+
+          return (
+            <div
+              key={zone.id}
+              className="absolute pointer-events-none select-none"
+              style={{
+                left: toPx(zone.x),
+                top: toPx(zone.y),
+                width: toPx(zone.w),
+                height: toPx(zone.h),
+                zIndex: isSelected ? 3 : 1,
+              }}
+            >
+              {/* Polygon outline, in coordinates relative to the bounding box */}
+              <svg width={toPx(zone.w)} height={toPx(zone.h)} className="absolute inset-0 overflow-visible">
+                <polygon
+                  points={outline.map(p => `${toPx(p.x - zone.x)},${toPx(p.y - zone.y)}`).join(' ')}
+                  fill={colors.fill}
+                  stroke={colors.stroke}
+                  strokeWidth={2}
+                  strokeLinejoin="round"
+                  className={`cursor-pointer ${isDragging ? 'drop-shadow-2xl' : ''}`}
+                  style={{ pointerEvents: 'visiblePainted' }}
+                  onClick={(e) => handleZoneClick(e, zone)}
+                  onMouseDown={(e) => handleMouseDown(e, zone)}
+                />
+              </svg>
+              <div
+                className="absolute text-center text-xs text-gray-700 px-1 -translate-x-1/2 -translate-y-1/2"
+                style={{ left: toPx(centroid.x - zone.x), top: toPx(centroid.y - zone.y) }}
+              >
+                <div className="font-medium truncate">{zone.name}</div>
+                {settings.showDimensions && (
+                  <div className="text-xs opacity-70">
+                    {format_area(getZoneArea(zone), 'm')}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        }
+
         return (
           <div key={zone.id}>
             {/* Main zone rectangle */}
@@ -2,6 +2,7 @@
 
 import React, { useMemo, useCallback } from 'react';
 import { FloorPlanZone, FurnitureItemType } from '@/types';
+import { isPointInZone } from '../../utils/zone_logic';
 
 interface ZoneAssignmentOverlayProps {
   // Canvas dimensions
@@ -43,12 +44,7 @@ export function ZoneAssignmentOverlay({
     const furnitureCenterX = x / scale;
     const furnitureCenterY = y / scale;
 
-    return zones.find(zone => {
-      return furnitureCenterX >= zone.x &&
-        furnitureCenterX <= zone.x + zone.w &&
-        furnitureCenterY >= zone.y &&
-        furnitureCenterY <= zone.y + zone.h;
-    });
+    return zones.find(zone => isPointInZone({ x: furnitureCenterX, y: furnitureCenterY }, zone));
   };
 
   const hoveredZone = dragPosition ? getZoneAtPosition(dragPosition.x, dragPosition.y) : null;
@@ -21,6 +21,7 @@ export const base_shape_schema = z.object({
   rotation: z.number().optional().default(0),
   scaleX: z.number().positive().optional().default(1),
   scaleY: z.number().positive().optional().default(1),
+  levelId: z.string().optional(),
 });
 
 // Shape-specific schemas
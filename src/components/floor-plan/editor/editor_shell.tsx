@@ -1,39 +1,90 @@
 "use client";
 
-import React, { useEffect, useRef, useState } from "react";
-import { FloorPlanZone, FurnitureItemType, FloorPlanSettings } from "@/types";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { FloorPlanZone, FurnitureItemType, FloorPlanSettings, WallSegment, Opening, Level, Measurement, Dimension, SaveProjectData, saveProjectDataSchema } from "@/types";
 import { DEFAULT_FURNITURE_CATALOG } from "@/lib/furniture-catalog";
 import { FloatingSettingsPanel } from "./settings/floating_settings_panel";
 import { DiagramShape } from "../canvas/tools/diagram_schemas";
 import { ModeToggle } from "./header/mode_toggle";
 import { ActionsBar } from "./header/actions_bar";
 import { AIImportToggle } from "./header/ai_import_toggle";
+import { ViewToggle, CanvasView } from "./header/view_toggle";
 import { EditorToolbar } from "./header/editor_toolbar";
 import { EditorSidebar } from "./sidebar";
 import { KonvaStage } from "../canvas/konva_stage";
+import { IsometricView } from "../canvas/isometric_view";
+import { ElevationView } from "../canvas/elevation_view";
 import { useEditorStore, EditorMode } from "../state/editor_store";
+import { useSelectionStore, SelectionItem } from "../state/selection_store";
+import { useCollaboration } from "../hooks/use_collaboration";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { exportFloorPlan } from "../utils/export_utils";
-import { CommandManager, UpdateZoneCommand, UpdateFurnitureCommand, AddZoneCommand } from "../state/command_manager";
+import { ExportData, ExportOptions, exportFloorPlan } from "../utils/export_utils";
+import {
+    CommandManager,
+    UpdateZoneCommand,
+    UpdateFurnitureCommand,
+    AddZoneCommand,
+    RemoveZoneCommand,
+    AddFurnitureCommand,
+    RemoveFurnitureCommand,
+    AddWallCommand,
+    RemoveWallCommand,
+    UpdateWallCommand,
+    AddOpeningCommand,
+    RemoveOpeningCommand,
+    UpdateOpeningCommand,
+    UpdateSettingsCommand,
+    ReplaceEntitiesCommand,
+    BatchCommand,
+    type Command
+} from "../state/command_manager";
+import { EntityChange, SHARED_SETTINGS, diffEntities } from "../utils/entity_operations";
+import { moveWallJoint, snapFurnitureToWalls } from "../utils/wall_logic";
+import { getOpeningHostEdge } from "../utils/opening_logic";
+import { validatePlacement } from "../utils/placement_validation";
+import { DEFAULT_LEVEL, LevelContent, addLevel, filterByLevel, filterOpeningsByHosts, getLevelBelow, removeLevel } from "../utils/level_logic";
+import { mergeProjectData } from "../utils/project_json";
+import type { Point } from "../utils/geometry";
 import { duplicateShape } from "../canvas/tools/drawing_tools";
 import { BackgroundImportModal } from "./overlays/background_import_modal";
 import { CalibrationModal } from "./overlays/calibration_modal";
 import { ExportModal } from "./overlays/export_modal";
+import { VersionHistoryModal } from "./overlays/version_history_modal";
+import { ShareModal } from "./overlays/share_modal";
+import { ProjectImportModal } from "./overlays/project_import_modal";
+import { Collaborators } from "./header/collaborators";
 
 interface EditorShellProps {
     projectId?: string;
     initialZones?: FloorPlanZone[];
     initialFurniture?: FurnitureItemType[];
     initialSettings?: Partial<FloorPlanSettings>;
-    onSave?: (data: { zones: FloorPlanZone[]; furniture: FurnitureItemType[]; settings: FloorPlanSettings; diagrams?: DiagramShape[] }) => void;
+    initialDiagrams?: DiagramShape[];
+    initialWalls?: WallSegment[];
+    initialOpenings?: Opening[];
+    initialLevels?: Level[];
+    initialMeasurements?: Measurement[];
+    initialDimensions?: Dimension[];
+    onSave?: (data: { zones: FloorPlanZone[]; furniture: FurnitureItemType[]; settings: FloorPlanSettings; diagrams?: DiagramShape[]; walls?: WallSegment[]; openings?: Opening[]; levels?: Level[]; measurements?: Measurement[]; dimensions?: Dimension[] }) => void;
 }
 
+// Furniture dragged within this distance (cm) of a wall face snaps flush against it
+const WALL_SNAP_DISTANCE = 10;
+
 
 function EditorShell({
+    projectId,
     initialZones,
     initialFurniture,
     initialSettings,
+    initialDiagrams,
+    initialWalls,
+    initialOpenings,
+    initialLevels,
+    initialMeasurements,
+    initialDimensions,
     onSave
 }: EditorShellProps) {
     // Get state and actions from store
@@ -42,10 +93,20 @@ function EditorShell({
         furniture,
         settings,
         diagrams,
+        walls,
+        openings,
+        levels,
+        measurements,
+        dimensions,
+        currentLevelId,
+        showLevelUnderlay,
+        levelUnderlayOpacity,
         editorMode,
         selectedZoneId,
         selectedFurnitureId,
         selectedDiagramId,
+        selectedWallId,
+        selectedOpeningId,
         showAIImport,
         showKeyboardShortcuts,
         sidebarCollapsed,
@@ -53,28 +114,45 @@ function EditorShell({
         diagramStrokeColor,
         diagramFillColor,
         diagramStrokeWidth,
+        currentWallTool,
+        wallThickness,
+        wallHeight,
+        currentMeasureTool,
+        currentDimensionTool,
+        dimensionStyle,
         setEditorMode,
         setSelectedZoneId,
         setSelectedFurnitureId,
         setSelectedDiagramId,
+        setSelectedWallId,
+        setSelectedOpeningId,
         setShowAIImport,
         setShowKeyboardShortcuts,
         setSidebarCollapsed,
+        setCurrentLevelId,
+        setShowLevelUnderlay,
+        setLevelUnderlayOpacity,
         setCurrentDiagramTool,
         setDiagramStrokeColor,
         setDiagramFillColor,
         setDiagramStrokeWidth,
-        setFurniture,
-        setDiagrams,
+        setCurrentWallTool,
+        setWallThickness,
+        setCurrentMeasureTool,
+        setCurrentDimensionTool,
+        setDimensionStyle,
         updateFurniture,
         updateZone,
-        deleteZone,
-        updateSettings,
+        updateWall,
+        updateOpening,
+        updateSettings: updateStoreSettings,
         resetToDefaults,
         loadData,
         validateAndSaveData,
     } = useEditorStore();
 
+    const router = useRouter();
+
     // Ref for canvas container to calculate viewport size
     const canvasContainerRef = useRef<HTMLDivElement>(null);
 
@@ -90,25 +168,86 @@ function EditorShell({
         }
     }, []);
 
+    // Real-time collaboration; off unless a collaboration server is configured
+    const collaboration = useCollaboration({ projectId, commandManager: commandManagerRef.current });
+    const remotePeers = useSelectionStore(state => state.remotePeers);
+
+    // Mirror the editor's selection so collaborators can see it
+    useEffect(() => {
+        const items: SelectionItem[] = [];
+        if (selectedZoneId) items.push({ id: selectedZoneId, type: 'zone' });
+        if (selectedFurnitureId) items.push({ id: selectedFurnitureId, type: 'furniture' });
+        if (selectedDiagramId) items.push({ id: selectedDiagramId, type: 'diagram' });
+        if (selectedWallId) items.push({ id: selectedWallId, type: 'wall' });
+        if (selectedOpeningId) items.push({ id: selectedOpeningId, type: 'opening' });
+        useSelectionStore.getState().selectMultiple(items);
+    }, [selectedZoneId, selectedFurnitureId, selectedDiagramId, selectedWallId, selectedOpeningId]);
+
     // Initialize store with initial data on mount
     useEffect(() => {
-        if (initialZones || initialFurniture || initialSettings) {
+        if (initialZones || initialFurniture || initialSettings || initialDiagrams || initialWalls || initialOpenings || initialLevels || initialMeasurements || initialDimensions) {
             loadData({
                 zones: initialZones,
                 furniture: initialFurniture,
                 settings: initialSettings,
+                diagrams: initialDiagrams,
+                walls: initialWalls,
+                openings: initialOpenings,
+                levels: initialLevels,
+                measurements: initialMeasurements,
+                dimensions: initialDimensions,
             });
         } else {
             // Load defaults if no initial data
             resetToDefaults();
         }
-    }, [initialZones, initialFurniture, initialSettings, loadData, resetToDefaults]); // Include dependencies for proper linting
+    }, [initialZones, initialFurniture, initialSettings, initialDiagrams, initialWalls, initialOpenings, initialLevels, initialMeasurements, initialDimensions, loadData, resetToDefaults]); // Include dependencies for proper linting
 
     // Helper function for generating IDs
     const generateId = () => Math.random().toString(36).slice(2, 9);
 
     // Computed values
+    // The canvas, sidebar and exports only see the current level
+    const levelZones = useMemo(() => filterByLevel(zones, currentLevelId, levels), [zones, currentLevelId, levels]);
+    const levelFurniture = useMemo(() => filterByLevel(furniture, currentLevelId, levels), [furniture, currentLevelId, levels]);
+    const levelWalls = useMemo(() => filterByLevel(walls, currentLevelId, levels), [walls, currentLevelId, levels]);
+    const levelDiagrams = useMemo(() => filterByLevel(diagrams, currentLevelId, levels), [diagrams, currentLevelId, levels]);
+    const levelMeasurements = useMemo(() => filterByLevel(measurements, currentLevelId, levels), [measurements, currentLevelId, levels]);
+    const levelDimensions = useMemo(() => filterByLevel(dimensions, currentLevelId, levels), [dimensions, currentLevelId, levels]);
+    const levelOpenings = useMemo(
+        () => filterOpeningsByHosts(openings, levelWalls, levelZones),
+        [openings, levelWalls, levelZones]
+    );
+
+    // Undoing a new level, or a collaborator deleting one, can take away the level on screen
+    useEffect(() => {
+        if (levels.length > 0 && !levels.some(level => level.id === currentLevelId)) {
+            setCurrentLevelId(levels[0].id);
+        }
+    }, [levels, currentLevelId, setCurrentLevelId]);
+
+    const levelBelow = getLevelBelow(levels, currentLevelId);
+    const levelUnderlay = useMemo(() => {
+        if (!levelBelow || !showLevelUnderlay) return null;
+        return {
+            name: levelBelow.name,
+            zones: filterByLevel(zones, levelBelow.id, levels),
+            furniture: filterByLevel(furniture, levelBelow.id, levels),
+            walls: filterByLevel(walls, levelBelow.id, levels),
+        };
+    }, [levelBelow, showLevelUnderlay, zones, furniture, walls, levels]);
+
+    const levelPeers = useMemo(
+        () => Object.values(remotePeers).filter(peer => peer.levelId === currentLevelId),
+        [remotePeers, currentLevelId]
+    );
+    const conflictPeerName = collaboration.conflict ? remotePeers[collaboration.conflict.peerId]?.name ?? 'A collaborator' : null;
+
     const selectedFurniture = furniture.find(f => f.id === selectedFurnitureId) || null;
+    const placementViolations = useMemo(
+        () => validatePlacement(levelFurniture, levelZones, levelWalls),
+        [levelFurniture, levelZones, levelWalls]
+    );
 
 
     // Utility functions (using shared utils)
@@ -117,6 +256,10 @@ function EditorShell({
     const [isBgModalOpen, setBgModalOpen] = useState(false);
     const [isCalibrateOpen, setCalibrateOpen] = useState(false);
     const [isExportOpen, setExportOpen] = useState(false);
+    const [isHistoryOpen, setHistoryOpen] = useState(false);
+    const [isShareOpen, setShareOpen] = useState(false);
+    const [isProjectImportOpen, setProjectImportOpen] = useState(false);
+    const [canvasView, setCanvasView] = useState<CanvasView>('plan');
 
     // Header handlers
     const handleModeChange = (mode: EditorMode) => {
@@ -125,17 +268,114 @@ function EditorShell({
         switch (mode) {
             case 'zones':
                 setSelectedFurnitureId(null);
+                setSelectedWallId(null);
+                setSelectedOpeningId(null);
                 break;
             case 'furniture':
                 setSelectedZoneId(null);
+                setSelectedWallId(null);
+                setSelectedOpeningId(null);
                 break;
             case 'diagrams':
+                setSelectedZoneId(null);
+                setSelectedFurnitureId(null);
+                setSelectedWallId(null);
+                setSelectedOpeningId(null);
+                break;
+            case 'walls':
                 setSelectedZoneId(null);
                 setSelectedFurnitureId(null);
                 break;
         }
     };
 
+    // Level handlers
+
+    const clearSelections = () => {
+        setSelectedZoneId(null);
+        setSelectedFurnitureId(null);
+        setSelectedDiagramId(null);
+        setSelectedWallId(null);
+        setSelectedOpeningId(null);
+    };
+
+    const handleLevelChange = (id: string) => {
+        setCurrentLevelId(id);
+        clearSelections();
+    };
+
+    // Edits given as whole entities; the command manager makes them undoable and shares them with collaborators
+    const commitChanges = (name: string, changes: EntityChange[]) => {
+        if (changes.length === 0) return;
+        commandManagerRef.current.executeCommand(new ReplaceEntitiesCommand(name, changes));
+    };
+
+    const levelContent: LevelContent = { levels, zones, furniture, walls, openings, diagrams, measurements, dimensions };
+
+    const handleAddLevel = (position: 'above' | 'below') => {
+        const { level, content } = addLevel(levelContent, position, generateId());
+        commitChanges(`Add ${level.name}`, diffEntities(levelContent, content));
+        handleLevelChange(level.id);
+    };
+
+    const handleRenameLevel = () => {
+        const level = levels.find(l => l.id === currentLevelId);
+        if (!level) return;
+        const name = prompt('Level name:', level.name)?.trim();
+        if (name && name !== level.name) {
+            commitChanges('Rename Level', [{ kind: 'level', before: level, after: { ...level, name } }]);
+        }
+    };
+
+    // Deleting a level removes everything on it as one step, which undo brings back
+    const handleDeleteLevel = () => {
+        const index = levels.findIndex(l => l.id === currentLevelId);
+        const level = levels[index];
+        if (!level || levels.length <= 1) return;
+        if (!confirm(`Delete ${level.name} and everything on it?`)) return;
+        commitChanges(`Delete ${level.name}`, diffEntities(levelContent, removeLevel(levelContent, level.id)));
+        handleLevelChange(levels.filter(l => l.id !== level.id)[Math.max(0, index - 1)].id);
+    };
+
+    const updateDiagrams = (next: DiagramShape[]) => {
+        commitChanges('Edit Diagrams', diffEntities({ diagrams }, { diagrams: next }));
+    };
+
+    const handleMeasurementPin = (measurement: Omit<Measurement, 'id'>) => {
+        commitChanges('Pin Measurement', [{ kind: 'measurement', after: { ...measurement, id: generateId(), levelId: currentLevelId } }]);
+    };
+
+    const handleMeasurementDelete = (id: string) => {
+        const measurement = measurements.find(m => m.id === id);
+        if (measurement) commitChanges('Remove Measurement', [{ kind: 'measurement', before: measurement }]);
+    };
+
+    const handleDimensionAdd = (dimension: Omit<Dimension, 'id'>) => {
+        commitChanges('Add Dimension', [{ kind: 'dimension', after: { ...dimension, id: generateId(), levelId: currentLevelId } }]);
+    };
+
+    const handleDimensionDelete = (id: string) => {
+        const dimension = dimensions.find(d => d.id === id);
+        if (dimension) commitChanges('Remove Dimension', [{ kind: 'dimension', before: dimension }]);
+    };
+
+    // Plan settings are shared and can be undone; view settings such as zoom and the grid stay local
+    const updateSettings = (updates: Partial<FloorPlanSettings>) => {
+        const shared = SHARED_SETTINGS.filter(key => key in updates);
+        const local = Object.fromEntries(
+            Object.entries(updates).filter(([key]) => !(SHARED_SETTINGS as readonly string[]).includes(key))
+        );
+        if (Object.keys(local).length > 0) {
+            updateStoreSettings(local);
+        }
+        if (shared.length > 0) {
+            commandManagerRef.current.executeCommand(new UpdateSettingsCommand(
+                Object.fromEntries(shared.map(key => [key, settings[key]])),
+                Object.fromEntries(shared.map(key => [key, updates[key]]))
+            ));
+        }
+    };
+
     const handleAIImportToggle = () => {
         setShowAIImport(!showAIImport);
         setEditorMode('zones');
@@ -153,6 +393,52 @@ function EditorShell({
         commandManagerRef.current.clear();
     };
 
+    // Restoring replaces the project's contents as one undoable edit shared with collaborators;
+    // like other shared edits it keeps this editor's view settings
+    const handleVersionRestored = (data: SaveProjectData) => {
+        const restored = { ...data, levels: data.levels.length > 0 ? data.levels : [DEFAULT_LEVEL] };
+        commandManagerRef.current.executeCommand(new BatchCommand('Restore Version', [
+            new ReplaceEntitiesCommand('Restore Version', diffEntities(levelContent, restored)),
+            new UpdateSettingsCommand(
+                Object.fromEntries(SHARED_SETTINGS.map(key => [key, settings[key]])),
+                Object.fromEntries(SHARED_SETTINGS.map(key => [key, data.settings[key]]))
+            ),
+        ]));
+        clearSelections();
+    };
+
+    // A CAD import is saved as a new project; open it instead of loading it over this one
+    const handleCadImported = (importedProjectId: string) => {
+        router.push(`/editor/project/${importedProjectId}`);
+    };
+
+    // The editor's data in the saved format, or null when it does not validate
+    const getProjectData = (): SaveProjectData | null => {
+        const result = saveProjectDataSchema.safeParse(validateAndSaveData());
+        return result.success ? result.data : null;
+    };
+
+    // Merge an imported project JSON file into this project on the current level, as one undoable edit
+    const handleProjectMerge = (data: SaveProjectData) => {
+        const current = getProjectData();
+        if (!current) {
+            console.error('Failed to validate current data for merge');
+            return;
+        }
+        const merged = mergeProjectData(current, data, currentLevelId);
+        // The merged lists keep the current entities, so only the imported ones are added
+        const commands: Command[] = [new ReplaceEntitiesCommand('Import Project', diffEntities(current, merged))];
+        const { apartmentWidth, apartmentHeight } = merged.settings;
+        if (apartmentWidth !== settings.apartmentWidth || apartmentHeight !== settings.apartmentHeight) {
+            commands.push(new UpdateSettingsCommand(
+                { apartmentWidth: settings.apartmentWidth, apartmentHeight: settings.apartmentHeight },
+                { apartmentWidth, apartmentHeight }
+            ));
+        }
+        commandManagerRef.current.executeCommand(new BatchCommand('Import Project', commands));
+        clearSelections();
+    };
+
 
     const addFurnitureFromCatalog = (catalogName: string) => {
         const catalogItem = DEFAULT_FURNITURE_CATALOG.find(cat => cat.name === catalogName);
@@ -167,9 +453,14 @@ function EditorShell({
             h: catalogItem.height,
             r: 0,
             color: catalogItem.color,
+            levelId: currentLevelId,
         };
 
-        setFurniture((prev: FurnitureItemType[]) => [...prev, newItem]);
+        commandManagerRef.current.executeCommand(
+            new AddFurnitureCommand(
+                newItem
+            )
+        );
     };
 
     const duplicateFurniture = () => {
@@ -182,12 +473,21 @@ function EditorShell({
             y: selectedFurniture.y + 20,
         };
 
-        setFurniture((prev: FurnitureItemType[]) => [...prev, newItem]);
+        commandManagerRef.current.executeCommand(
+            new AddFurnitureCommand(
+                newItem
+            )
+        );
     };
 
     const deleteFurnitureItem = () => {
-        if (!selectedFurnitureId) return;
-        setFurniture((prev: FurnitureItemType[]) => prev.filter((f: FurnitureItemType) => f.id !== selectedFurnitureId));
+        if (!selectedFurniture) return;
+        commandManagerRef.current.executeCommand(
+            new RemoveFurnitureCommand(
+                selectedFurniture
+            )
+        );
+        setSelectedFurnitureId(null);
     };
 
     // Zone handlers
@@ -201,6 +501,7 @@ function EditorShell({
             y: 100,
             w: 200,
             h: 150,
+            levelId: currentLevelId,
         };
         commandManagerRef.current.executeCommand(
             new AddZoneCommand(
@@ -210,6 +511,24 @@ function EditorShell({
         // Command manager handles state update, no need for duplicate update
     };
 
+    // Deleting a zone also removes the doors and windows on its outline
+    const deleteZone = (id: string) => {
+        const zone = zones.find(z => z.id === id);
+        if (!zone) return;
+        const hosted = openings.filter(o => o.hostType === 'zone' && o.hostId === id);
+        commandManagerRef.current.executeCommand(
+            hosted.length > 0
+                ? new BatchCommand(
+                    'Remove Zone',
+                    [...hosted.map(o => new RemoveOpeningCommand(o)), new RemoveZoneCommand(zone)]
+                )
+                : new RemoveZoneCommand(
+                    zone
+                )
+        );
+        if (selectedZoneId === id) setSelectedZoneId(null);
+    };
+
     const rotateFurniture = (degrees: number) => {
         if (!selectedFurniture || !selectedFurnitureId) return;
         const newR = (selectedFurniture.r + degrees) % 360;
@@ -252,9 +571,8 @@ function EditorShell({
         const oldVals: Partial<FloorPlanZone> = {};
         Object.keys(updates).forEach(k => {
             const key = k as keyof FloorPlanZone;
-            if (existing[key] !== undefined) {
-                (oldVals as Record<string, unknown>)[key] = existing[key];
-            }
+            // Keep undefined values too, so undo can clear fields such as a newly added outline
+            (oldVals as Record<string, unknown>)[key] = existing[key];
         });
         commandManagerRef.current.executeCommand(
             new UpdateZoneCommand(
@@ -266,6 +584,122 @@ function EditorShell({
         // Command manager handles state update, no need for duplicate update
     };
 
+    // Wall handlers
+
+    const handleWallAdd = (wall: WallSegment) => {
+        commandManagerRef.current.executeCommand(
+            new AddWallCommand(
+                { ...wall, levelId: currentLevelId }
+            )
+        );
+    };
+
+    const handleWallUpdate = (id: string, updates: Partial<WallSegment>) => {
+        const existing = walls.find(w => w.id === id);
+        if (!existing) return updateWall(id, updates);
+        const oldVals: Partial<WallSegment> = {};
+        Object.keys(updates).forEach(k => {
+            const key = k as keyof WallSegment;
+            (oldVals as Record<string, unknown>)[key] = existing[key];
+        });
+        commandManagerRef.current.executeCommand(
+            new UpdateWallCommand(
+                id,
+                oldVals,
+                updates
+            )
+        );
+    };
+
+    // Move a wall corner together with every wall joined at it
+    const handleWallJointMove = (from: Point, to: Point) => {
+        const moves = moveWallJoint(levelWalls, from, to);
+        if (moves.length === 0) return;
+        commandManagerRef.current.executeCommand(
+            new BatchCommand(
+                'Move Wall Corner',
+                moves.map(({ id, updates }) => {
+                    const existing = walls.find(w => w.id === id)!;
+                    const oldVals: Partial<WallSegment> = {};
+                    Object.keys(updates).forEach(k => {
+                        const key = k as keyof WallSegment;
+                        (oldVals as Record<string, unknown>)[key] = existing[key];
+                    });
+                    return new UpdateWallCommand(id, oldVals, updates);
+                })
+            )
+        );
+    };
+
+    // Deleting a wall also removes the doors and windows it hosts
+    const handleWallDelete = () => {
+        const wall = walls.find(w => w.id === selectedWallId);
+        if (!wall) return;
+        const hosted = openings.filter(o => o.hostType === 'wall' && o.hostId === wall.id);
+        commandManagerRef.current.executeCommand(
+            hosted.length > 0
+                ? new BatchCommand(
+                    'Remove Wall',
+                    [...hosted.map(o => new RemoveOpeningCommand(o)), new RemoveWallCommand(wall)]
+                )
+                : new RemoveWallCommand(
+                    wall
+                )
+        );
+        setSelectedWallId(null);
+    };
+
+    const handleWallSelect = (id: string | null) => {
+        setSelectedWallId(id);
+        if (id) setSelectedOpeningId(null);
+    };
+
+    // Door and window handlers
+
+    const handleOpeningAdd = (opening: Opening) => {
+        commandManagerRef.current.executeCommand(
+            new AddOpeningCommand(
+                opening
+            )
+        );
+    };
+
+    const handleOpeningUpdate = (id: string, updates: Partial<Opening>) => {
+        const existing = openings.find(o => o.id === id);
+        if (!existing) return updateOpening(id, updates);
+        const oldVals: Partial<Opening> = {};
+        Object.keys(updates).forEach(k => {
+            const key = k as keyof Opening;
+            (oldVals as Record<string, unknown>)[key] = existing[key];
+        });
+        commandManagerRef.current.executeCommand(
+            new UpdateOpeningCommand(
+                id,
+                oldVals,
+                updates
+            )
+        );
+    };
+
+    const handleOpeningDelete = () => {
+        const opening = openings.find(o => o.id === selectedOpeningId);
+        if (!opening) return;
+        commandManagerRef.current.executeCommand(
+            new RemoveOpeningCommand(
+                opening
+            )
+        );
+        setSelectedOpeningId(null);
+    };
+
+    const handleOpeningSelect = (id: string | null) => {
+        setSelectedOpeningId(id);
+        if (id) setSelectedWallId(null);
+    };
+
+    const selectedOpening = openings.find(o => o.id === selectedOpeningId) || null;
+    const selectedOpeningHost = selectedOpening ? getOpeningHostEdge(selectedOpening, walls, zones) : null;
+
     const handleSave = () => {
         if (onSave) {
             const validatedData = validateAndSaveData();
@@ -285,6 +719,11 @@ function EditorShell({
         return commandManagerRef.current.redo();
     };
 
+    // Drawings show the current level; a project JSON file carries every level so it round-trips
+    const getExportData = (format: ExportOptions['format']): ExportData => format === 'json'
+        ? { zones, furniture, settings, diagramShapes: diagrams, walls, openings, measurements, dimensions, levels }
+        : { zones: levelZones, furniture: levelFurniture, settings, diagramShapes: levelDiagrams, walls: levelWalls, openings: levelOpenings, measurements: levelMeasurements, dimensions: levelDimensions };
+
     // Export specific formats
     const handleExportSpecific = (format: 'png' | 'svg' | 'pdf' | 'json' | 'csv') => {
         const exportOptions = {
@@ -301,10 +740,7 @@ function EditorShell({
             title: 'Floor Plan Export'
         };
 
-        exportFloorPlan(
-            { zones, furniture, settings, diagramShapes: [] },
-            exportOptions
-        );
+        exportFloorPlan(getExportData(format), exportOptions);
     };
 
 
@@ -332,6 +768,11 @@ function EditorShell({
                         onToggle={handleAIImportToggle}
                     />
 
+                    <ViewToggle
+                        currentView={canvasView}
+                        onViewChange={setCanvasView}
+                    />
+
                     {/* Sidebar Toggle */}
                     <Button
                         variant="ghost"
@@ -350,12 +791,21 @@ function EditorShell({
                     </Button>
                 </div>
 
-                <ActionsBar
-                    showKeyboardShortcuts={showKeyboardShortcuts}
-                    onToggleKeyboardShortcuts={() => setShowKeyboardShortcuts(!showKeyboardShortcuts)}
-                    onReset={resetLayout}
-                    onSave={handleSave}
-                />
+                <div className="flex items-center space-x-4">
+                    {collaboration.enabled && (
+                        <Collaborators status={collaboration.status} peers={Object.values(remotePeers)} />
+                    )}
+
+                    <ActionsBar
+                        showKeyboardShortcuts={showKeyboardShortcuts}
+                        onToggleKeyboardShortcuts={() => setShowKeyboardShortcuts(!showKeyboardShortcuts)}
+                        onReset={resetLayout}
+                        onSave={handleSave}
+                        onImport={() => setProjectImportOpen(true)}
+                        onShowHistory={projectId ? () => setHistoryOpen(true) : undefined}
+                        onShare={projectId ? () => setShareOpen(true) : undefined}
+                    />
+                </div>
             </div>
             <EditorToolbar
                 editorMode={editorMode}
@@ -363,9 +813,10 @@ function EditorShell({
                 scale={settings.scale}
                 showGrid={settings.showGrid}
                 snapEnabled={settings.snap > 0}
-                selectedZone={zones.find(z => z.id === selectedZoneId) || null}
+                selectedZone={levelZones.find(z => z.id === selectedZoneId) || null}
                 selectedFurniture={selectedFurniture}
                 selectedDiagramShapes={selectedDiagramId ? [selectedDiagramId] : []}
+                selectedWall={walls.find(w => w.id === selectedWallId) || null}
                 onUndo={handleUndo}
                 onRedo={handleRedo}
                 onZoomIn={() => updateSettings({ scale: Math.min(1.4, settings.scale + 0.05) })}
@@ -396,16 +847,37 @@ function EditorShell({
                 onDeleteDiagramShapes={() => {
                     if (selectedDiagramId) {
                         const newDiagrams = diagrams.filter(d => d.id !== selectedDiagramId);
-                        setDiagrams(newDiagrams);
+                        updateDiagrams(newDiagrams);
                         setSelectedDiagramId(null);
                     }
                 }}
                 onExportDiagramPNG={() => setExportOpen(true)}
                 onExportDiagramJSON={() => setExportOpen(true)}
-                zones={zones}
+                onLevelChange={handleLevelChange}
+                onAddLevel={handleAddLevel}
+                onRenameLevel={handleRenameLevel}
+                onDeleteLevel={handleDeleteLevel}
+                onToggleLevelUnderlay={() => setShowLevelUnderlay(!showLevelUnderlay)}
+                onLevelUnderlayOpacityChange={setLevelUnderlayOpacity}
+                onSelectWallTool={setCurrentWallTool}
+                onWallThicknessChange={(thickness) => setWallThickness(Math.min(200, Math.max(1, thickness)))}
+                onDeleteWall={handleWallDelete}
+                onSelectMeasureTool={setCurrentMeasureTool}
+                onSelectDimensionTool={setCurrentDimensionTool}
+                onDimensionStyleChange={setDimensionStyle}
+                zones={levelZones}
+                levels={levels}
+                currentLevelId={currentLevelId}
                 canUndo={commandManagerRef.current.canUndo()}
                 canRedo={commandManagerRef.current.canRedo()}
                 currentDiagramTool={currentDiagramTool}
+                currentWallTool={currentWallTool}
+                currentMeasureTool={currentMeasureTool}
+                currentDimensionTool={currentDimensionTool}
+                dimensionStyle={dimensionStyle}
+                wallThickness={wallThickness}
+                showLevelUnderlay={showLevelUnderlay}
+                levelUnderlayOpacity={levelUnderlayOpacity}
             />
 
             <div className="flex flex-1 overflow-hidden min-h-0">
@@ -414,12 +886,17 @@ function EditorShell({
                     showAIImport={showAIImport}
                     editorMode={editorMode}
                     sidebarCollapsed={sidebarCollapsed}
-                    zones={zones}
-                    furniture={furniture}
-                    diagrams={diagrams}
+                    zones={levelZones}
+                    furniture={levelFurniture}
+                    diagrams={levelDiagrams}
+                    walls={levelWalls}
+                    openings={levelOpenings}
                     selectedZoneId={selectedZoneId}
                     selectedFurnitureId={selectedFurnitureId}
                     selectedDiagramId={selectedDiagramId}
+                    selectedWallId={selectedWallId}
+                    selectedOpeningId={selectedOpeningId}
+                    selectedOpeningHostLength={selectedOpeningHost?.length ?? null}
                     selectedFurniture={selectedFurniture}
                     settings={settings}
                     currentDiagramTool={currentDiagramTool}
@@ -432,16 +909,16 @@ function EditorShell({
                     deleteZone={deleteZone}
                     updateSettings={updateSettings}
                     setSelectedDiagramId={setSelectedDiagramId}
-                    setDiagrams={setDiagrams}
+                    setDiagrams={updateDiagrams}
                     setBgModalOpen={setBgModalOpen}
                     onUpdateDiagramShape={(id, updates) => {
                         const newDiagrams = diagrams.map(d => d.id === id ? { ...d, ...updates } : d);
-                        setDiagrams(newDiagrams);
+                        updateDiagrams(newDiagrams);
                     }}
                     onDeleteDiagramShape={() => {
                         if (selectedDiagramId) {
                             const newDiagrams = diagrams.filter(d => d.id !== selectedDiagramId);
-                            setDiagrams(newDiagrams);
+                            updateDiagrams(newDiagrams);
                             setSelectedDiagramId(null);
                         }
                     }}
@@ -451,61 +928,131 @@ function EditorShell({
                             if (selectedShape) {
                                 const newShape = duplicateShape(selectedShape);
                                 const newDiagrams = [...diagrams, newShape];
-                                setDiagrams(newDiagrams);
+                                updateDiagrams(newDiagrams);
                                 setSelectedDiagramId(newShape.id);
                             }
                         }
                     }}
+                    onUpdateWall={handleWallUpdate}
+                    onDeleteWall={handleWallDelete}
+                    onUpdateOpening={handleOpeningUpdate}
+                    onDeleteOpening={handleOpeningDelete}
+                    placementViolations={placementViolations}
+                    onSelectFurniture={setSelectedFurnitureId}
+                    onCadImported={handleCadImported}
                 />
 
                 {/* Main Canvas Area */}
-                <div ref={canvasContainerRef} className="flex-1 bg-gray-200 p-4 overflow-auto">
-                    <KonvaStage
-                        zones={zones}
-                        furniture={furniture}
-                        settings={settings}
-                        editorMode={editorMode}
-                        selectedZoneId={selectedZoneId}
-                        selectedFurnitureId={selectedFurnitureId}
-                        diagrams={diagrams}
-                        selectedDiagramId={selectedDiagramId}
-                        diagramTool={currentDiagramTool}
-                        diagramStrokeColor={diagramStrokeColor}
-                        diagramFillColor={diagramFillColor}
-                        diagramStrokeWidth={diagramStrokeWidth}
-                        onZoneSelect={setSelectedZoneId}
-                        onZoneUpdate={handleZoneUpdate}
-                        onFurnitureSelect={setSelectedFurnitureId}
-                        onDiagramSelect={setSelectedDiagramId}
-                        onFurnitureUpdate={(id, updates) => {
-                            // Commandize furniture updates
-                            const existing = furniture.find(f => f.id === id);
-                            if (!existing) return updateFurniture(id, updates);
-                            const oldVals: Partial<FurnitureItemType> = {};
-                            Object.keys(updates).forEach(k => { (oldVals as Record<string, unknown>)[k as keyof FurnitureItemType] = existing[k as keyof FurnitureItemType]; });
-                            commandManagerRef.current.executeCommand(new UpdateFurnitureCommand(id, oldVals, updates));
-                            // Command manager handles state update, no need for duplicate update
-                        }}
-                        onDiagramAdd={(shape) => {
-                            const newDiagrams = [...diagrams, shape];
-                            setDiagrams(newDiagrams);
-                        }}
-                        onDiagramUpdate={(id, updates) => {
-                            const newDiagrams = diagrams.map(d => d.id === id ? { ...d, ...updates } : d);
-                            setDiagrams(newDiagrams as DiagramShape[]);
-                        }}
-                        onDiagramDelete={(id) => {
-                            const newDiagrams = diagrams.filter(d => d.id !== id);
-                            setDiagrams(newDiagrams);
-                        }}
-                        onBackgroundUpdate={(bg) => updateSettings({ background: { ...(settings.background || {}), ...bg } } as FloorPlanSettings)}
-                        onDiagramExport={handleDiagramExport}
-                        showZones={settings.showZones ?? true}
-                        showFurniture={settings.showFurniture ?? true}
-                        showDiagrams={settings.showDiagrams ?? true}
-                        containerRef={canvasContainerRef as React.RefObject<HTMLDivElement>}
-                        className="w-full h-full"
-                    />
+                <div ref={canvasContainerRef} className="relative flex-1 bg-gray-200 p-4 overflow-auto">
+                    {collaboration.conflict && (
+                        <div className="absolute top-2 left-1/2 -translate-x-1/2 z-20 flex items-center space-x-2 text-sm bg-amber-50 border border-amber-200 text-amber-800 rounded px-3 py-2 shadow">
+                            <span>
+                                {collaboration.conflict.resolution === 'removed'
+                                    ? `${conflictPeerName} deleted a ${collaboration.conflict.kind} you were editing.`
+                                    : `${conflictPeerName} edited the same ${collaboration.conflict.kind}; your change was kept.`}
+                            </span>
+                            <Button variant="ghost" size="sm" className="h-6 px-2" onClick={collaboration.dismissConflict}>
+                                Dismiss
+                            </Button>
+                        </div>
+                    )}
+                    {canvasView === 'isometric' ? (
+                        <IsometricView
+                            zones={levelZones}
+                            furniture={levelFurniture}
+                            walls={levelWalls}
+                            settings={settings}
+                            className="w-full h-full"
+                        />
+                    ) : canvasView === 'elevation' ? (
+                        <ElevationView
+                            zones={levelZones}
+                            furniture={levelFurniture}
+                            settings={settings}
+                            className="w-full h-full"
+                        />
+                    ) : (
+                        <KonvaStage
+                            zones={levelZones}
+                            furniture={levelFurniture}
+                            settings={settings}
+                            editorMode={editorMode}
+                            selectedZoneId={selectedZoneId}
+                            selectedFurnitureId={selectedFurnitureId}
+                            diagrams={levelDiagrams}
+                            selectedDiagramId={selectedDiagramId}
+                            diagramTool={currentDiagramTool}
+                            diagramStrokeColor={diagramStrokeColor}
+                            diagramFillColor={diagramFillColor}
+                            diagramStrokeWidth={diagramStrokeWidth}
+                            walls={levelWalls}
+                            selectedWallId={selectedWallId}
+                            openings={levelOpenings}
+                            selectedOpeningId={selectedOpeningId}
+                            measurements={levelMeasurements}
+                            measureTool={currentMeasureTool}
+                            dimensions={levelDimensions}
+                            dimensionTool={currentDimensionTool}
+                            dimensionStyle={dimensionStyle}
+                            placementViolations={placementViolations}
+                            levelUnderlay={levelUnderlay}
+                            levelUnderlayOpacity={levelUnderlayOpacity}
+                            remotePeers={levelPeers}
+                            onCursorMove={collaboration.enabled ? collaboration.updateCursor : undefined}
+                            wallTool={currentWallTool}
+                            wallThickness={wallThickness}
+                            wallHeight={wallHeight}
+                            onZoneSelect={setSelectedZoneId}
+                            onZoneUpdate={handleZoneUpdate}
+                            onFurnitureSelect={setSelectedFurnitureId}
+                            onDiagramSelect={setSelectedDiagramId}
+                            onFurnitureUpdate={(id, updates) => {
+                                // Commandize furniture updates
+                                const existing = furniture.find(f => f.id === id);
+                                if (!existing) return updateFurniture(id, updates);
+                                // Snap moved furniture flush against nearby wall faces
+                                if ((updates.x !== undefined || updates.y !== undefined) && levelWalls.length > 0 && settings.snap > 0) {
+                                    const snapped = snapFurnitureToWalls({ ...existing, ...updates }, levelWalls, WALL_SNAP_DISTANCE);
+                                    if (snapped) {
+                                        updates = { ...updates, ...snapped };
+                                    }
+                                }
+                                const oldVals: Partial<FurnitureItemType> = {};
+                                Object.keys(updates).forEach(k => { (oldVals as Record<string, unknown>)[k as keyof FurnitureItemType] = existing[k as keyof FurnitureItemType]; });
+                                commandManagerRef.current.executeCommand(new UpdateFurnitureCommand(id, oldVals, updates));
+                                // Command manager handles state update, no need for duplicate update
+                            }}
+                            onDiagramAdd={(shape) => {
+                                const newDiagrams = [...diagrams, { ...shape, levelId: currentLevelId }];
+                                updateDiagrams(newDiagrams);
+                            }}
+                            onDiagramUpdate={(id, updates) => {
+                                const newDiagrams = diagrams.map(d => d.id === id ? { ...d, ...updates } : d);
+                                updateDiagrams(newDiagrams as DiagramShape[]);
+                            }}
+                            onDiagramDelete={(id) => {
+                                const newDiagrams = diagrams.filter(d => d.id !== id);
+                                updateDiagrams(newDiagrams);
+                            }}
+                            onWallSelect={handleWallSelect}
+                            onWallAdd={handleWallAdd}
+                            onWallJointMove={handleWallJointMove}
+                            onOpeningSelect={handleOpeningSelect}
+                            onOpeningAdd={handleOpeningAdd}
+                            onOpeningUpdate={handleOpeningUpdate}
+                            onMeasurementPin={handleMeasurementPin}
+                            onMeasurementDelete={handleMeasurementDelete}
+                            onDimensionAdd={handleDimensionAdd}
+                            onDimensionDelete={handleDimensionDelete}
+                            onBackgroundUpdate={(bg) => updateSettings({ background: { ...(settings.background || {}), ...bg } } as FloorPlanSettings)}
+                            onDiagramExport={handleDiagramExport}
+                            showZones={settings.showZones ?? true}
+                            showFurniture={settings.showFurniture ?? true}
+                            showDiagrams={settings.showDiagrams ?? true}
+                            containerRef={canvasContainerRef as React.RefObject<HTMLDivElement>}
+                            className="w-full h-full"
+                        />
+                    )}
                 </div>
             </div>
 
@@ -536,6 +1083,9 @@ function EditorShell({
                 currentScale={settings.scale}
                 onScaleChange={(newScale) => updateSettings({ scale: newScale })}
                 unitSystem={settings.unitSystem}
+                backgroundUrl={settings.background?.url}
+                backgroundScale={settings.background?.scale}
+                onBackgroundScaleChange={settings.background ? (newScale) => updateSettings({ background: { ...settings.background!, scale: newScale } }) : undefined}
             />
 
             {/* Export modal using export_utils */}
@@ -543,14 +1093,42 @@ function EditorShell({
                 isOpen={isExportOpen}
                 onClose={() => setExportOpen(false)}
                 onExport={(opts) => {
-                    exportFloorPlan({ zones, furniture, settings, diagramShapes: [] }, opts);
+                    exportFloorPlan(getExportData(opts.format), opts);
                 }}
-                zones={zones}
-                furniture={furniture}
+                zones={levelZones}
+                furniture={levelFurniture}
                 settings={settings}
+                diagramShapes={levelDiagrams}
                 canvasWidth={settings.apartmentWidth * settings.scale}
                 canvasHeight={settings.apartmentHeight * settings.scale}
             />
+
+            {/* Version history */}
+            {projectId && (
+                <VersionHistoryModal
+                    isOpen={isHistoryOpen}
+                    onClose={() => setHistoryOpen(false)}
+                    projectId={projectId}
+                    onRestored={handleVersionRestored}
+                    getProjectData={getProjectData}
+                />
+            )}
+
+            {/* Public share links */}
+            {projectId && (
+                <ShareModal
+                    isOpen={isShareOpen}
+                    onClose={() => setShareOpen(false)}
+                    projectId={projectId}
+                />
+            )}
+
+            {/* Project JSON import */}
+            <ProjectImportModal
+                isOpen={isProjectImportOpen}
+                onClose={() => setProjectImportOpen(false)}
+                onMerge={handleProjectMerge}
+            />
         </div>
     );
 }
@@ -19,7 +19,7 @@ interface FurnitureLayerProps {
   selectedFurnitureId: string | null;
   onFurnitureSelect: (id: string | null) => void;
   onFurnitureUpdate: (id: string, updates: Partial<FurnitureItemType>) => void;
-  editorMode: 'zones' | 'furniture' | 'diagrams';
+  editorMode: 'zones' | 'furniture' | 'diagrams' | 'walls';
   width: number;
   height: number;
 }
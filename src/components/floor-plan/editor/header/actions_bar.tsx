@@ -1,20 +1,28 @@
 import React from "react";
 import { Button } from "@/components/ui/button";
 import { UserButton } from "@stackframe/stack";
-import { Keyboard, Undo, Save } from "lucide-react";
+import { Keyboard, Undo, Save, History, Share2, FileUp } from "lucide-react";
 
 interface ActionsBarProps {
     showKeyboardShortcuts: boolean;
     onToggleKeyboardShortcuts: () => void;
     onReset: () => void;
     onSave: () => void;
+    // Opens the project JSON import
+    onImport: () => void;
+    // Only shown once the project has been saved
+    onShowHistory?: () => void;
+    onShare?: () => void;
 }
 
 export function ActionsBar({
     showKeyboardShortcuts: _showKeyboardShortcuts,
     onToggleKeyboardShortcuts,
     onReset,
-    onSave
+    onSave,
+    onImport,
+    onShowHistory,
+    onShare
 }: ActionsBarProps) {
     return (
         <div className="flex items-center space-x-2">
@@ -34,6 +42,34 @@ export function ActionsBar({
                 <Undo className="w-4 h-4 mr-2" />
                 Reset
             </Button>
+            <Button
+                variant="outline"
+                size="sm"
+                onClick={onImport}
+            >
+                <FileUp className="w-4 h-4 mr-2" />
+                Import
+            </Button>
+            {onShowHistory && (
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={onShowHistory}
+                >
+                    <History className="w-4 h-4 mr-2" />
+                    History
+                </Button>
+            )}
+            {onShare && (
+                <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={onShare}
+                >
+                    <Share2 className="w-4 h-4 mr-2" />
+                    Share
+                </Button>
+            )}
             <Button
                 size="sm"
                 onClick={onSave}
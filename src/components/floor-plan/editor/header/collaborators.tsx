@@ -0,0 +1,44 @@
+import React from "react";
+import type { RemotePeer } from "../../state/selection_store";
+import type { CollaborationStatus } from "../../services/collaboration";
+
+interface CollaboratorsProps {
+    status: CollaborationStatus;
+    peers: RemotePeer[];
+}
+
+const STATUS_LABELS: Record<CollaborationStatus, string> = {
+    connected: "Live",
+    connecting: "Connecting...",
+    disconnected: "Offline",
+};
+
+const STATUS_COLORS: Record<CollaborationStatus, string> = {
+    connected: "bg-green-500",
+    connecting: "bg-amber-400",
+    disconnected: "bg-gray-400",
+};
+
+// Connection status and an avatar per collaborator in the project
+export function Collaborators({ status, peers }: CollaboratorsProps) {
+    return (
+        <div className="flex items-center space-x-2">
+            <div className="flex items-center text-xs text-gray-600" title={`Collaboration: ${STATUS_LABELS[status]}`}>
+                <span className={`w-2 h-2 rounded-full mr-1 ${STATUS_COLORS[status]}`} />
+                {STATUS_LABELS[status]}
+            </div>
+            <div className="flex -space-x-1">
+                {peers.map(peer => (
+                    <div
+                        key={peer.id}
+                        className="w-7 h-7 rounded-full border-2 border-white flex items-center justify-center text-xs font-medium text-white"
+                        style={{ backgroundColor: peer.color }}
+                        title={peer.name}
+                    >
+                        {peer.name.charAt(0).toUpperCase()}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
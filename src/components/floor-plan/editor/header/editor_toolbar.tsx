@@ -14,6 +14,7 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -43,12 +44,28 @@ import {
   FileJson,
   FileText,
   File,
-  ChevronDown
+  ChevronDown,
+  BrickWall,
+  MousePointer2,
+  DoorOpen,
+  AppWindow,
+  Building2,
+  Layers,
+  ArrowUpToLine,
+  ArrowDownToLine,
+  Pencil,
+  Ruler,
+  Route,
+  SquareDashed,
+  RulerDimensionLine,
+  Check
 } from 'lucide-react';
-import { FloorPlanZone, FurnitureItemType } from '@/types';
+import { FloorPlanZone, FurnitureItemType, WallSegment, Level } from '@/types';
 import { DrawingTool } from '../../canvas/tools/diagram_schemas';
+import type { DimensionTool, MeasureTool, WallTool } from '../../state/editor_store';
+import type { DimensionStyle } from '../../utils/dimension_logic';
 
-type EditorMode = 'zones' | 'furniture' | 'diagrams';
+type EditorMode = 'zones' | 'furniture' | 'diagrams' | 'walls';
 type CanvasMode = 'fixed' | 'fit-to-screen' | 'centered' | 'adaptive';
 
 interface EditorToolbarProps {
@@ -63,6 +80,7 @@ interface EditorToolbarProps {
   selectedZone: FloorPlanZone | null;
   selectedFurniture: FurnitureItemType | null;
   selectedDiagramShapes: string[];
+  selectedWall?: WallSegment | null;
 
   // Global actions
   onUndo: () => void;
@@ -104,13 +122,42 @@ interface EditorToolbarProps {
   onExportDiagramPNG: () => void;
   onExportDiagramJSON: () => void;
 
+  // Level actions
+  onLevelChange?: (id: string) => void;
+  onAddLevel?: (position: 'above' | 'below') => void;
+  onRenameLevel?: () => void;
+  onDeleteLevel?: () => void;
+  onToggleLevelUnderlay?: () => void;
+  onLevelUnderlayOpacityChange?: (opacity: number) => void;
+
+  // Wall actions
+  onSelectWallTool?: (tool: WallTool) => void;
+  onWallThicknessChange?: (thickness: number) => void;
+  onDeleteWall?: () => void;
+
+  // Measure actions - selecting the active tool again turns it off
+  onSelectMeasureTool?: (tool: MeasureTool | null) => void;
+
+  // Dimension actions - selecting the active tool again turns it off
+  onSelectDimensionTool?: (tool: DimensionTool | null) => void;
+  onDimensionStyleChange?: (style: DimensionStyle) => void;
+
   // Data
   zones: FloorPlanZone[];
+  levels?: Level[];
+  currentLevelId?: string;
 
   // State
   canUndo: boolean;
   canRedo: boolean;
   currentDiagramTool?: string;
+  currentWallTool?: WallTool;
+  currentMeasureTool?: MeasureTool | null;
+  currentDimensionTool?: DimensionTool | null;
+  dimensionStyle?: DimensionStyle;
+  wallThickness?: number;
+  showLevelUnderlay?: boolean;
+  levelUnderlayOpacity?: number;
 }
 
 export function EditorToolbar({
@@ -122,6 +169,7 @@ export function EditorToolbar({
   selectedZone,
   selectedFurniture,
   selectedDiagramShapes,
+  selectedWall,
   onUndo,
   onRedo,
   onZoomIn,
@@ -152,10 +200,31 @@ export function EditorToolbar({
   onDeleteDiagramShapes,
   onExportDiagramPNG,
   onExportDiagramJSON,
+  onLevelChange,
+  onAddLevel,
+  onRenameLevel,
+  onDeleteLevel,
+  onToggleLevelUnderlay,
+  onLevelUnderlayOpacityChange,
+  onSelectWallTool,
+  onWallThicknessChange,
+  onDeleteWall,
+  onSelectMeasureTool,
+  onSelectDimensionTool,
+  onDimensionStyleChange,
   zones,
+  levels = [],
+  currentLevelId,
   canUndo,
   canRedo,
-  currentDiagramTool
+  currentDiagramTool,
+  currentWallTool = 'draw',
+  currentMeasureTool = null,
+  currentDimensionTool = null,
+  dimensionStyle = 'tick',
+  wallThickness = 15,
+  showLevelUnderlay = false,
+  levelUnderlayOpacity = 0.3
 }: EditorToolbarProps) {
 
   const renderGlobalActions = () => (
@@ -295,6 +364,165 @@ export function EditorToolbar({
     </div>
   );
 
+  const renderLevelActions = () => {
+    if (levels.length === 0 || !currentLevelId) return null;
+
+    const currentIndex = levels.findIndex(level => level.id === currentLevelId);
+    const hasLevelBelow = currentIndex > 0;
+
+    return (
+      <div className="flex items-center space-x-1">
+        <Separator orientation="vertical" className="h-6" />
+
+        {/* Level switcher, listed top floor first like a building section */}
+        <Select value={currentLevelId} onValueChange={(id) => onLevelChange?.(id)}>
+          <SelectTrigger className="w-36 h-8" title="Current Level">
+            <Building2 className="h-4 w-4 mr-1 shrink-0" />
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {[...levels].reverse().map(level => (
+              <SelectItem key={level.id} value={level.id}>
+                {level.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              title="Level Options"
+            >
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            <DropdownMenuItem onClick={() => onAddLevel?.('above')}>
+              <ArrowUpToLine className="h-4 w-4 mr-2" />
+              Add Level Above
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onAddLevel?.('below')}>
+              <ArrowDownToLine className="h-4 w-4 mr-2" />
+              Add Level Below
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={onRenameLevel}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Rename Level
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onDeleteLevel} disabled={levels.length <= 1}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete Level
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        {/* Faded underlay of the level below */}
+        <Button
+          variant={showLevelUnderlay && hasLevelBelow ? "default" : "ghost"}
+          size="sm"
+          onClick={onToggleLevelUnderlay}
+          disabled={!hasLevelBelow}
+          className="h-8 w-8 p-0"
+          title="Show Level Below"
+        >
+          <Layers className="h-4 w-4" />
+        </Button>
+        {showLevelUnderlay && hasLevelBelow && (
+          <input
+            type="range"
+            min="0.1"
+            max="0.8"
+            step="0.05"
+            value={levelUnderlayOpacity}
+            onChange={(e) => onLevelUnderlayOpacityChange?.(Number(e.target.value))}
+            className="w-16"
+            title="Level Below Opacity"
+          />
+        )}
+      </div>
+    );
+  };
+
+  const renderMeasureActions = () => {
+    if (!onSelectMeasureTool) return null;
+
+    const tools: Array<{ tool: MeasureTool; icon: React.ReactNode; title: string }> = [
+      { tool: 'distance', icon: <Ruler className="h-4 w-4" />, title: 'Measure Distance' },
+      { tool: 'path', icon: <Route className="h-4 w-4" />, title: 'Measure Path (double-click or Enter to finish)' },
+      { tool: 'area', icon: <SquareDashed className="h-4 w-4" />, title: 'Measure Area (double-click or Enter to finish)' },
+    ];
+
+    return (
+      <div className="flex items-center space-x-1">
+        <Separator orientation="vertical" className="h-6" />
+        {tools.map(({ tool, icon, title }) => (
+          <Button
+            key={tool}
+            variant={currentMeasureTool === tool ? "default" : "ghost"}
+            size="sm"
+            onClick={() => onSelectMeasureTool(currentMeasureTool === tool ? null : tool)}
+            className="h-8 w-8 p-0"
+            title={title}
+          >
+            {icon}
+          </Button>
+        ))}
+      </div>
+    );
+  };
+
+  const renderDimensionActions = () => {
+    if (!onSelectDimensionTool) return null;
+
+    const tools: Array<{ tool: DimensionTool; label: string }> = [
+      { tool: 'zone-edge', label: 'Zone Edge Length' },
+      { tool: 'furniture-wall', label: 'Furniture to Wall' },
+      { tool: 'item-item', label: 'Item to Item' },
+    ];
+    const styles: Array<{ style: DimensionStyle; label: string }> = [
+      { style: 'tick', label: 'Tick Ends' },
+      { style: 'arrow', label: 'Arrow Ends' },
+    ];
+
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant={currentDimensionTool ? "default" : "ghost"}
+            size="sm"
+            className="h-8 px-2"
+            title="Dimension Lines"
+          >
+            <RulerDimensionLine className="h-4 w-4" />
+            <ChevronDown className="h-3 w-3 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {tools.map(({ tool, label }) => (
+            <DropdownMenuItem
+              key={tool}
+              onClick={() => onSelectDimensionTool(currentDimensionTool === tool ? null : tool)}
+            >
+              <Check className={`h-4 w-4 mr-2 ${currentDimensionTool === tool ? '' : 'invisible'}`} />
+              {label}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          {styles.map(({ style, label }) => (
+            <DropdownMenuItem key={style} onClick={() => onDimensionStyleChange?.(style)}>
+              <Check className={`h-4 w-4 mr-2 ${dimensionStyle === style ? '' : 'invisible'}`} />
+              {label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
   const renderZoneActions = () => {
     if (editorMode !== 'zones') return null;
 
@@ -347,6 +575,73 @@ export function EditorToolbar({
     );
   };
 
+  const renderWallActions = () => {
+    if (editorMode !== 'walls') return null;
+
+    return (
+      <div className="flex items-center space-x-1">
+        <Separator orientation="vertical" className="h-6" />
+        <span className="text-xs font-medium text-gray-600 px-2">Wall Tools</span>
+        <Button
+          variant={currentWallTool === 'select' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => onSelectWallTool?.('select')}
+          className="h-8 w-8 p-0"
+          title="Select Wall"
+        >
+          <MousePointer2 className="h-4 w-4" />
+        </Button>
+        <Button
+          variant={currentWallTool === 'draw' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => onSelectWallTool?.('draw')}
+          className="h-8 w-8 p-0"
+          title="Draw Walls (Shift for straight walls, Esc or double-click to finish)"
+        >
+          <BrickWall className="h-4 w-4" />
+        </Button>
+        <Button
+          variant={currentWallTool === 'door' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => onSelectWallTool?.('door')}
+          className="h-8 w-8 p-0"
+          title="Place Door (click a wall or room edge)"
+        >
+          <DoorOpen className="h-4 w-4" />
+        </Button>
+        <Button
+          variant={currentWallTool === 'window' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => onSelectWallTool?.('window')}
+          className="h-8 w-8 p-0"
+          title="Place Window (click a wall or room edge)"
+        >
+          <AppWindow className="h-4 w-4" />
+        </Button>
+        <input
+          type="number"
+          min={1}
+          max={200}
+          value={wallThickness}
+          onChange={(e) => onWallThicknessChange?.(Number(e.target.value))}
+          className="w-16 h-8 text-xs border rounded px-2"
+          title="New wall thickness (cm)"
+        />
+        {selectedWall && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onDeleteWall}
+            className="h-8 w-8 p-0"
+            title="Delete Wall"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    );
+  };
+
   const renderFurnitureActions = () => {
     if (editorMode !== 'furniture') return null;
 
@@ -558,7 +853,11 @@ export function EditorToolbar({
     <div className="flex items-center justify-between bg-white border-b border-gray-200 px-4 py-2 min-h-12">
       <div className="flex items-center space-x-2 overflow-x-auto">
         {renderGlobalActions()}
+        {renderLevelActions()}
+        {renderMeasureActions()}
+        {renderDimensionActions()}
         {renderZoneActions()}
+        {renderWallActions()}
         {renderFurnitureActions()}
         {renderDiagramActions()}
       </div>
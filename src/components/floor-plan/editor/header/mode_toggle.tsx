@@ -1,8 +1,8 @@
 import React from "react";
 import { Button } from "@/components/ui/button";
-import { MapPin, Sofa, Ruler } from "lucide-react";
+import { MapPin, Sofa, Ruler, BrickWall } from "lucide-react";
 
-export type EditorMode = 'zones' | 'furniture' | 'diagrams';
+export type EditorMode = 'zones' | 'furniture' | 'diagrams' | 'walls';
 
 interface ModeToggleProps {
     currentMode: EditorMode;
@@ -22,6 +22,16 @@ export function ModeToggle({ currentMode, onModeChange }: ModeToggleProps) {
                 <MapPin className="w-4 h-4 mr-1" />
                 Plan Rooms
             </Button>
+            <Button
+                size="sm"
+                variant={currentMode === 'walls' ? 'default' : 'ghost'}
+                onClick={() => onModeChange('walls')}
+                className="rounded-none px-3"
+                title="Draw walls with thickness and connected corners"
+            >
+                <BrickWall className="w-4 h-4 mr-1" />
+                Draw Walls
+            </Button>
             <Button
                 size="sm"
                 variant={currentMode === 'furniture' ? 'default' : 'ghost'}
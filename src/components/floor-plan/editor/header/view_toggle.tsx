@@ -0,0 +1,47 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { MapIcon, Box, PanelsTopLeft } from "lucide-react";
+
+export type CanvasView = 'plan' | 'isometric' | 'elevation';
+
+interface ViewToggleProps {
+    currentView: CanvasView;
+    onViewChange: (view: CanvasView) => void;
+}
+
+export function ViewToggle({ currentView, onViewChange }: ViewToggleProps) {
+    return (
+        <div className="flex border rounded-lg overflow-hidden bg-white">
+            <Button
+                size="sm"
+                variant={currentView === 'plan' ? 'default' : 'ghost'}
+                onClick={() => onViewChange('plan')}
+                className="rounded-none px-3"
+                title="Edit the floor plan"
+            >
+                <MapIcon className="w-4 h-4 mr-1" />
+                Plan
+            </Button>
+            <Button
+                size="sm"
+                variant={currentView === 'isometric' ? 'default' : 'ghost'}
+                onClick={() => onViewChange('isometric')}
+                className="rounded-none px-3"
+                title="Read-only isometric preview of the current level"
+            >
+                <Box className="w-4 h-4 mr-1" />
+                3D View
+            </Button>
+            <Button
+                size="sm"
+                variant={currentView === 'elevation' ? 'default' : 'ghost'}
+                onClick={() => onViewChange('elevation')}
+                className="rounded-none px-3"
+                title="See a wall head-on with the furniture against it"
+            >
+                <PanelsTopLeft className="w-4 h-4 mr-1" />
+                Elevation
+            </Button>
+        </div>
+    );
+}
@@ -0,0 +1,379 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Check, Combine, RotateCcw, Scissors, Trash2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ImportedFloorPlanData, ImportedZone, ZoneCorrection } from "@/types";
+import { IMPORT_ROOM_TYPES, LOW_CONFIDENCE, applyZoneCorrection } from "../utils/import_review";
+import { saveImportReview } from "../services/imports";
+import { polygonCentroid } from "../utils/geometry";
+import { getZoneArea, getZonePolygon, isPolygonZone } from "../utils/zone_logic";
+
+interface ImportReviewProps {
+    importedData: ImportedFloorPlanData;
+    // Called with the imported plan once the review is stored
+    onComplete: (reviewed: ImportedFloorPlanData) => void;
+}
+
+interface DroppedZone {
+    zone: ImportedZone;
+    // Index of the drop in the corrections list
+    correctionIndex: number;
+}
+
+function formatConfidence(confidence: number | undefined): string {
+    return confidence === undefined ? "n/a" : `${Math.round(confidence * 100)}%`;
+}
+
+// Zones created while reviewing get IDs that cannot clash, even after undo or restore
+function newZoneId(prefix: string): string {
+    return `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function isLowConfidence(zone: ImportedZone): boolean {
+    return zone.confidence !== undefined && zone.confidence < LOW_CONFIDENCE;
+}
+
+/**
+ * Review step between an AI import and the editor: detected zones are shown over
+ * the uploaded plan and can be merged, split, relabelled or dropped before the
+ * project is built from them
+ */
+export function ImportReview({ importedData, onComplete }: ImportReviewProps) {
+    const [corrections, setCorrections] = useState<ZoneCorrection[]>(importedData.corrections ?? []);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [draftName, setDraftName] = useState("");
+    const [draftType, setDraftType] = useState("room");
+    const [splitRatio, setSplitRatio] = useState(50);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Replay the corrections, remembering what each drop removed so it can be restored
+    const { zones, dropped } = useMemo(() => {
+        let current = importedData.zones;
+        const removed: DroppedZone[] = [];
+        corrections.forEach((correction, correctionIndex) => {
+            if (correction.action === 'drop') {
+                const zone = current.find(z => z.zoneId === correction.zoneId);
+                if (zone) removed.push({ zone, correctionIndex });
+            }
+            try {
+                current = applyZoneCorrection(current, correction);
+            } catch (err) {
+                // Stored corrections that no longer fit the detected zones are skipped
+                console.warn('Skipping correction:', err);
+            }
+        });
+        return { zones: current, dropped: removed };
+    }, [importedData.zones, corrections]);
+
+    const selectedZones = zones.filter(zone => selectedIds.includes(zone.zoneId));
+    const selectedZone = selectedZones.length === 1 ? selectedZones[0] : null;
+    const lowConfidenceZones = zones.filter(isLowConfidence);
+
+    const planWidth = Math.round(importedData.dimensions.width * 100);
+    const planHeight = Math.round(importedData.dimensions.height * 100);
+
+    const addCorrections = (...added: ZoneCorrection[]) => {
+        setCorrections(prev => [...prev, ...added]);
+        setSelectedIds([]);
+        setError(null);
+    };
+
+    const selectZone = (zone: ImportedZone, additive: boolean) => {
+        const ids = additive
+            ? (selectedIds.includes(zone.zoneId) ? selectedIds.filter(id => id !== zone.zoneId) : [...selectedIds, zone.zoneId])
+            : [zone.zoneId];
+        setSelectedIds(ids);
+        if (ids.length === 1) {
+            const only = ids[0] === zone.zoneId ? zone : zones.find(z => z.zoneId === ids[0]);
+            setDraftName(only?.name ?? "");
+            setDraftType(only?.type ?? "room");
+        }
+    };
+
+    const handleRelabel = () => {
+        if (!selectedZone || !draftName.trim()) return;
+        addCorrections({ action: 'relabel', zoneId: selectedZone.zoneId, name: draftName.trim(), type: draftType });
+    };
+
+    const handleSplit = (axis: 'vertical' | 'horizontal') => {
+        if (!selectedZone) return;
+        const id = newZoneId('split');
+        addCorrections({
+            action: 'split',
+            zoneId: selectedZone.zoneId,
+            axis,
+            ratio: splitRatio / 100,
+            into: [`${id}_a`, `${id}_b`],
+        });
+    };
+
+    const handleMerge = () => {
+        if (selectedZones.length < 2) return;
+        addCorrections({ action: 'merge', zoneIds: selectedZones.map(zone => zone.zoneId), into: newZoneId('merged') });
+    };
+
+    const handleDrop = (zoneIds: string[]) => {
+        if (zoneIds.length === 0) return;
+        addCorrections(...zoneIds.map(zoneId => ({ action: 'drop' as const, zoneId })));
+    };
+
+    // Nothing after a drop can refer to the dropped zone, so removing the drop is safe
+    const handleRestore = (correctionIndex: number) => {
+        setCorrections(prev => prev.filter((_, index) => index !== correctionIndex));
+    };
+
+    const handleSave = async () => {
+        if (zones.length === 0) {
+            setError('Keep at least one zone to build the project from.');
+            return;
+        }
+        setSaving(true);
+        setError(null);
+        try {
+            const reviewed = await saveImportReview(importedData.shortId, corrections);
+            onComplete(reviewed);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save the review');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="h-screen flex flex-col bg-gray-50">
+            <div className="bg-white border-b px-6 py-3 flex items-center justify-between">
+                <div>
+                    <h1 className="text-lg font-semibold text-gray-900">Review detected rooms</h1>
+                    <p className="text-xs text-gray-600">
+                        Click rooms to select them; Shift-click to select several. Fix the detection before the project is created.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setCorrections(prev => prev.slice(0, -1))}
+                        disabled={corrections.length === 0 || saving}
+                    >
+                        <Undo2 className="w-4 h-4 mr-1" />
+                        Undo
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => { setCorrections([]); setSelectedIds([]); }}
+                        disabled={corrections.length === 0 || saving}
+                    >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        Reset
+                    </Button>
+                    <Button size="sm" onClick={handleSave} disabled={saving || zones.length === 0}>
+                        <Check className="w-4 h-4 mr-1" />
+                        {saving ? 'Saving…' : `Create project with ${zones.length} rooms`}
+                    </Button>
+                </div>
+            </div>
+
+            <div className="flex-1 flex min-h-0">
+                <div className="flex-1 p-6 overflow-auto">
+                    <svg
+                        viewBox={`0 0 ${planWidth} ${planHeight}`}
+                        className="w-full max-h-full bg-white border shadow-sm"
+                        onClick={() => setSelectedIds([])}
+                    >
+                        {importedData.originalImageUrl && (
+                            <image
+                                href={importedData.originalImageUrl}
+                                x={0}
+                                y={0}
+                                width={planWidth}
+                                height={planHeight}
+                                preserveAspectRatio="none"
+                                opacity={0.6}
+                            />
+                        )}
+                        {zones.map(zone => {
+                            const selected = selectedIds.includes(zone.zoneId);
+                            const low = isLowConfidence(zone);
+                            const fontSize = Math.max(12, Math.min(zone.w, zone.h) / 8);
+                            // Merged and split zones can be polygons; labels sit at the centre of the outline
+                            const outline = getZonePolygon(zone);
+                            const center = polygonCentroid(outline);
+                            return (
+                                <g
+                                    key={zone.zoneId}
+                                    className="cursor-pointer"
+                                    onClick={(e) => {
+                                        e.stopPropagation();
+                                        selectZone(zone, e.shiftKey || e.metaKey || e.ctrlKey);
+                                    }}
+                                >
+                                    <polygon
+                                        points={outline.map(p => `${p.x},${p.y}`).join(' ')}
+                                        fill={low ? '#f59e0b' : '#3b82f6'}
+                                        fillOpacity={selected ? 0.35 : 0.15}
+                                        stroke={selected ? '#1d4ed8' : low ? '#d97706' : '#3b82f6'}
+                                        strokeWidth={selected ? 6 : 3}
+                                        strokeDasharray={low ? '12 8' : undefined}
+                                    />
+                                    <text
+                                        x={center.x}
+                                        y={center.y}
+                                        textAnchor="middle"
+                                        fontSize={fontSize}
+                                        fill="#111827"
+                                    >
+                                        {zone.name}
+                                    </text>
+                                    <text
+                                        x={center.x}
+                                        y={center.y + fontSize * 1.2}
+                                        textAnchor="middle"
+                                        fontSize={fontSize * 0.8}
+                                        fill={low ? '#b45309' : '#4b5563'}
+                                    >
+                                        {formatConfidence(zone.confidence)}
+                                    </text>
+                                </g>
+                            );
+                        })}
+                    </svg>
+                </div>
+
+                <div className="w-96 bg-white border-l overflow-y-auto p-4 space-y-4">
+                    {error && <p className="text-xs text-red-600">{error}</p>}
+
+                    {selectedZone && (
+                        <div className="space-y-3 border rounded p-3">
+                            <div className="text-sm font-semibold">Edit {selectedZone.name}</div>
+                            <div className="space-y-1">
+                                <Label className="text-xs">Name</Label>
+                                <Input value={draftName} onChange={(e) => setDraftName(e.target.value)} />
+                            </div>
+                            <div className="space-y-1">
+                                <Label className="text-xs">Room type</Label>
+                                <select
+                                    value={draftType}
+                                    onChange={(e) => setDraftType(e.target.value)}
+                                    className="w-full px-3 py-2 border rounded text-sm"
+                                >
+                                    {IMPORT_ROOM_TYPES.map(type => (
+                                        <option key={type} value={type}>{type}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <Button size="sm" className="w-full" onClick={handleRelabel} disabled={!draftName.trim()}>
+                                Apply label
+                            </Button>
+
+                            <div className="space-y-1">
+                                <Label className="text-xs">Split at {splitRatio}%</Label>
+                                <input
+                                    type="range"
+                                    min={10}
+                                    max={90}
+                                    step={5}
+                                    value={splitRatio}
+                                    onChange={(e) => setSplitRatio(Number(e.target.value))}
+                                    className="w-full"
+                                />
+                                <div className="flex gap-2">
+                                    <Button size="sm" variant="outline" className="flex-1" onClick={() => handleSplit('vertical')}>
+                                        <Scissors className="w-4 h-4 mr-1" />
+                                        Left / right
+                                    </Button>
+                                    <Button size="sm" variant="outline" className="flex-1" onClick={() => handleSplit('horizontal')}>
+                                        <Scissors className="w-4 h-4 mr-1" />
+                                        Top / bottom
+                                    </Button>
+                                </div>
+                            </div>
+                        </div>
+                    )}
+
+                    {selectedZones.length > 0 && (
+                        <div className="flex gap-2">
+                            {selectedZones.length > 1 && (
+                                <Button size="sm" variant="outline" className="flex-1" onClick={handleMerge}>
+                                    <Combine className="w-4 h-4 mr-1" />
+                                    Merge {selectedZones.length}
+                                </Button>
+                            )}
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                className="flex-1 text-red-600"
+                                onClick={() => handleDrop(selectedZones.map(zone => zone.zoneId))}
+                            >
+                                <Trash2 className="w-4 h-4 mr-1" />
+                                Drop {selectedZones.length > 1 ? selectedZones.length : ''}
+                            </Button>
+                        </div>
+                    )}
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between">
+                            <div className="text-sm font-semibold">Detected rooms ({zones.length})</div>
+                            {lowConfidenceZones.length > 0 && (
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="text-xs text-amber-700"
+                                    onClick={() => handleDrop(lowConfidenceZones.map(zone => zone.zoneId))}
+                                >
+                                    Drop {lowConfidenceZones.length} uncertain
+                                </Button>
+                            )}
+                        </div>
+                        {zones.map(zone => (
+                            <button
+                                key={zone.zoneId}
+                                type="button"
+                                onClick={(e) => selectZone(zone, e.shiftKey || e.metaKey || e.ctrlKey)}
+                                className={`w-full flex items-center justify-between text-left text-xs p-2 rounded border ${selectedIds.includes(zone.zoneId)
+                                    ? 'border-blue-400 bg-blue-50'
+                                    : 'border-gray-200 hover:bg-gray-50'
+                                    }`}
+                            >
+                                <span>
+                                    <span className="font-medium">{zone.name}</span>
+                                    <span className="text-gray-500"> · {zone.type ?? 'room'} · {isPolygonZone(zone)
+                                        ? `${(getZoneArea(zone) / 10000).toFixed(1)} m²`
+                                        : `${(zone.w / 100).toFixed(1)}×${(zone.h / 100).toFixed(1)} m`}</span>
+                                </span>
+                                <Badge variant={isLowConfidence(zone) ? 'destructive' : 'secondary'}>
+                                    {formatConfidence(zone.confidence)}
+                                </Badge>
+                            </button>
+                        ))}
+                    </div>
+
+                    {dropped.length > 0 && (
+                        <div className="space-y-2">
+                            <div className="text-sm font-semibold text-gray-600">Dropped ({dropped.length})</div>
+                            {dropped.map(({ zone, correctionIndex }) => (
+                                <div key={correctionIndex} className="flex items-center justify-between text-xs p-2 rounded border border-dashed text-gray-500">
+                                    <span className="line-through">{zone.name}</span>
+                                    <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => handleRestore(correctionIndex)}>
+                                        Restore
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {(importedData.openings?.length ?? 0) > 0 && (
+                        <p className="text-xs text-gray-500">
+                            Detected doors and windows move to the nearest edge of the corrected rooms; those between merged rooms are removed.
+                        </p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -5,12 +5,21 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { X, Ruler, Target, RotateCcw, Minus } from 'lucide-react';
+import { X, Ruler, Target, RotateCcw, Minus, Trash2 } from 'lucide-react';
+import { fitCalibration, parseDimensionString } from '../../utils/calibration';
 
 interface CalibrationPoint {
   x: number;
   y: number;
+}
+
+// A measured line and the real length typed for it
+interface CalibrationLine {
   id: number;
+  start: CalibrationPoint;
+  end: CalibrationPoint;
+  // Real length as typed or copied from the plan, e.g. "3.45 m"
+  label: string;
 }
 
 interface CalibrationModalProps {
@@ -21,8 +30,15 @@ interface CalibrationModalProps {
   currentScale: number;
   onScaleChange: (newScale: number) => void;
   unitSystem?: 'cm' | 'm';
+  // When the plan has a background image, lines are measured on it and its scale is calibrated
+  backgroundUrl?: string;
+  backgroundScale?: number;
+  onBackgroundScaleChange?: (newScale: number) => void;
 }
 
+// Lines on the image are shown in these colours, in order
+const LINE_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
+
 export function CalibrationModal({
   isOpen,
   onClose,
@@ -30,41 +46,52 @@ export function CalibrationModal({
   canvasHeight,
   currentScale,
   onScaleChange,
-  unitSystem = 'cm'
+  unitSystem = 'cm',
+  backgroundUrl,
+  backgroundScale = 1,
+  onBackgroundScaleChange
 }: CalibrationModalProps) {
 
-  const [step, setStep] = useState<'instructions' | 'measuring' | 'input' | 'confirm'>('instructions');
-  const [points, setPoints] = useState<CalibrationPoint[]>([]);
-  const [realDistance, setRealDistance] = useState<string>('');
+  const [step, setStep] = useState<'instructions' | 'measuring'>('instructions');
+  const [lines, setLines] = useState<CalibrationLine[]>([]);
+  const [pendingStart, setPendingStart] = useState<CalibrationPoint | null>(null);
   const [unit, setUnit] = useState<'cm' | 'm'>(unitSystem);
   const [straightLineMode, setStraightLineMode] = useState(false);
+  // Displayed pixels per image pixel, once the background image has loaded
+  const [imageRatio, setImageRatio] = useState<number | null>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
 
-  // Calculate distance between two points in pixels
-  const calculatePixelDistance = () => {
-    if (points.length !== 2) return 0;
-    const dx = points[1].x - points[0].x;
-    const dy = points[1].y - points[0].y;
-    return Math.sqrt(dx * dx + dy * dy);
-  };
+  const calibratesImage = !!backgroundUrl && !!onBackgroundScaleChange;
+
+  // Length of a line in image pixels when calibrating the image, otherwise in screen pixels
+  const getMeasuredLength = useCallback((line: CalibrationLine) => {
+    const length = Math.hypot(line.end.x - line.start.x, line.end.y - line.start.y);
+    return calibratesImage ? (imageRatio ? length / imageRatio : 0) : length;
+  }, [calibratesImage, imageRatio]);
 
   // Get formatted distance display
   const getFormattedDistance = (distance: number, unit: 'cm' | 'm') => {
     if (unit === 'm') {
-      return `${(distance / 100).toFixed(1)} m`;
+      return `${(distance / 100).toFixed(2)} m`;
     }
     return `${distance.toFixed(1)} cm`;
   };
 
-  // Calculate new scale
-  const calculateNewScale = () => {
-    const pixelDistance = calculatePixelDistance();
-    const realDistanceCm = unit === 'cm' ? Number(realDistance) : Number(realDistance) * 100;
+  const parsedLengths = lines.map(line => parseDimensionString(line.label, unit));
 
-    if (pixelDistance === 0 || realDistanceCm === 0) return currentScale;
+  // One scale fitted to every line with a known length
+  const fit = fitCalibration(lines.map((line, index) => ({
+    measured: getMeasuredLength(line),
+    actual: parsedLengths[index] ?? 0,
+  })));
 
-    return pixelDistance / realDistanceCm;
-  };
+  // Editor scale in px per cm, or the background scale in displayed px per image px
+  // so that the image matches the plan drawn at the current scale
+  const previousScale = calibratesImage ? backgroundScale : currentScale;
+  const newScale = fit
+    ? (calibratesImage ? fit.cmPerUnit * currentScale : 1 / fit.cmPerUnit)
+    : previousScale;
+  const scaleChange = ((newScale / previousScale - 1) * 100);
 
   // Handle canvas click
   const handleCanvasClick = useCallback((event: React.MouseEvent) => {
@@ -77,45 +104,53 @@ export function CalibrationModal({
     const x = event.clientX - rect.left;
     const y = event.clientY - rect.top;
 
-    if (points.length === 0) {
-      // First point
-      setPoints([{ x, y, id: Date.now() }]);
-    } else if (points.length === 1) {
-      // Second point
-      const firstPoint = points[0];
-
-      if (straightLineMode || event.shiftKey) {
-        // Snap to horizontal or vertical
-        const dx = x - firstPoint.x;
-        const dy = y - firstPoint.y;
-
-        if (Math.abs(dx) > Math.abs(dy)) {
-          // Snap to horizontal
-          setPoints(prev => [...prev, { x, y: firstPoint.y, id: Date.now() }]);
-        } else {
-          // Snap to vertical
-          setPoints(prev => [...prev, { x: firstPoint.x, y, id: Date.now() }]);
-        }
-      } else {
-        setPoints(prev => [...prev, { x, y, id: Date.now() }]);
-      }
-
-      setStep('input');
+    if (!pendingStart) {
+      setPendingStart({ x, y });
+      return;
+    }
+
+    let end = { x, y };
+    if (straightLineMode || event.shiftKey) {
+      // Snap to horizontal or vertical, along the wall being measured
+      end = Math.abs(x - pendingStart.x) > Math.abs(y - pendingStart.y)
+        ? { x, y: pendingStart.y }
+        : { x: pendingStart.x, y };
     }
-  }, [step, points, straightLineMode]);
+
+    setLines(prev => [...prev, { id: Date.now(), start: pendingStart, end, label: '' }]);
+    setPendingStart(null);
+  }, [step, pendingStart, straightLineMode]);
+
+  const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+    const image = event.currentTarget;
+    // The image is drawn with object-fit: contain
+    setImageRatio(Math.min(image.clientWidth / image.naturalWidth, image.clientHeight / image.naturalHeight));
+  };
+
+  const updateLabel = (id: number, label: string) => {
+    setLines(prev => prev.map(line => line.id === id ? { ...line, label } : line));
+  };
+
+  const removeLine = (id: number) => {
+    setLines(prev => prev.filter(line => line.id !== id));
+  };
 
   // Reset calibration
   const resetCalibration = () => {
-    setPoints([]);
-    setRealDistance('');
+    setLines([]);
+    setPendingStart(null);
     setStep('instructions');
     setStraightLineMode(false);
   };
 
   // Apply calibration
   const applyCalibration = () => {
-    const newScale = calculateNewScale();
-    onScaleChange(newScale);
+    if (!fit) return;
+    if (calibratesImage) {
+      onBackgroundScaleChange?.(newScale);
+    } else {
+      onScaleChange(newScale);
+    }
     onClose();
     resetCalibration();
   };
@@ -126,10 +161,6 @@ export function CalibrationModal({
     onClose();
   };
 
-  const pixelDistance = calculatePixelDistance();
-  const newScale = calculateNewScale();
-  const scaleChange = ((newScale / currentScale - 1) * 100);
-
   if (!isOpen) return null;
 
   return (
@@ -143,9 +174,8 @@ export function CalibrationModal({
               <CardTitle className="text-lg font-semibold flex items-center justify-between">
                 <div className="flex items-center">
                   <Target className="w-5 h-5 mr-2" />
-                  {step === 'instructions' && 'Click two points to measure'}
-                  {step === 'measuring' && `Point ${points.length + 1} of 2`}
-                  {(step === 'input' || step === 'confirm') && 'Measurement Complete'}
+                  {step === 'instructions' && 'Measure known lengths'}
+                  {step === 'measuring' && (pendingStart ? 'Click the end of the line' : `Click the start of line ${lines.length + 1}`)}
                 </div>
                 {step === 'measuring' && (
                   <Button
@@ -170,11 +200,22 @@ export function CalibrationModal({
                   backgroundImage: `
                     linear-gradient(rgba(0,0,0,0.15) 1px, transparent 1px),
                     linear-gradient(90deg, rgba(0,0,0,0.15) 1px, transparent 1px)
-                    ${straightLineMode && points.length === 1 ? ', linear-gradient(rgba(59,130,246,0.3) 1px, transparent 1px), linear-gradient(90deg, rgba(59,130,246,0.3) 1px, transparent 1px)' : ''}
                   `,
                   backgroundSize: '20px 20px, 20px 20px'
                 }}
               >
+                {/* Plan image to measure on */}
+                {calibratesImage && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={backgroundUrl}
+                    alt="Floor plan to calibrate"
+                    onLoad={handleImageLoad}
+                    className="absolute inset-0 w-full h-full object-contain object-left-top pointer-events-none select-none"
+                    draggable={false}
+                  />
+                )}
+
                 {/* Instructions overlay */}
                 {step === 'instructions' && (
                   <div className="absolute inset-0 flex items-center justify-center">
@@ -182,13 +223,13 @@ export function CalibrationModal({
                       <Target className="w-12 h-12 mx-auto mb-3 text-blue-500" />
                       <h3 className="text-lg font-medium mb-2">Calibrate Scale</h3>
                       <p className="text-sm text-gray-600 mb-4">
-                        Click two points on your floor plan that you know the real distance between.
-                        This could be a wall, door, or any known measurement.
+                        Click the two ends of a wall, door, or any length written on your plan,
+                        then type its real length. Measure several for a more accurate scale.
                       </p>
                       <div className="text-xs text-gray-500 mb-4 space-y-1">
-                        <div>• <strong>Hold Shift</strong> while clicking second point for straight lines</div>
-                        <div>• Use <strong>Straight Lines mode</strong> for horizontal/vertical measurements</div>
-                        <div>• Blue guides appear when straight line mode is active</div>
+                        <div>• <strong>Hold Shift</strong> while clicking the end for straight lines</div>
+                        <div>• Lengths can be typed as printed: <strong>3.45 m</strong>, <strong>345 cm</strong> or <strong>11&apos; 4&quot;</strong></div>
+                        <div>• The residual shows how well the lengths agree</div>
                       </div>
                       <Button onClick={() => setStep('measuring')}>
                         Start Measuring
@@ -197,86 +238,71 @@ export function CalibrationModal({
                   </div>
                 )}
 
-                {/* Measurement points */}
-                {points.map((point, index) => (
+                {/* Pending start point */}
+                {pendingStart && (
                   <div
-                    key={point.id}
                     className="absolute w-4 h-4 bg-blue-500 border-2 border-white rounded-full shadow-lg transform -translate-x-2 -translate-y-2 z-10"
-                    style={{ left: point.x, top: point.y }}
-                  >
-                    <div className="absolute -top-6 -left-1 text-xs font-bold text-blue-800 bg-white border-2 border-blue-400 px-2 py-1 rounded shadow-md">
-                      {index + 1}
-                    </div>
-                  </div>
-                ))}
+                    style={{ left: pendingStart.x, top: pendingStart.y }}
+                  />
+                )}
 
                 {/* Straight line guides */}
-                {straightLineMode && points.length === 1 && (
-                  <svg className="absolute inset-0 pointer-events-none z-5">
-                    {/* Horizontal guide */}
+                {straightLineMode && pendingStart && (
+                  <svg className="absolute inset-0 w-full h-full pointer-events-none z-5">
                     <line
                       x1={0}
-                      y1={points[0].y}
+                      y1={pendingStart.y}
                       x2={canvasWidth}
-                      y2={points[0].y}
+                      y2={pendingStart.y}
                       stroke="#3b82f6"
                       strokeWidth="1"
                       strokeDasharray="3,3"
                       opacity="0.6"
                     />
-                    {/* Vertical guide */}
                     <line
-                      x1={points[0].x}
+                      x1={pendingStart.x}
                       y1={0}
-                      x2={points[0].x}
+                      x2={pendingStart.x}
                       y2={canvasHeight}
                       stroke="#3b82f6"
                       strokeWidth="1"
                       strokeDasharray="3,3"
                       opacity="0.6"
                     />
-                    {/* Guide labels */}
-                    <text
-                      x={10}
-                      y={points[0].y - 10}
-                      className="text-xs font-medium fill-blue-600"
-                      style={{ filter: 'drop-shadow(1px 1px 1px white)' }}
-                    >
-                      Horizontal
-                    </text>
-                    <text
-                      x={points[0].x + 10}
-                      y={20}
-                      className="text-xs font-medium fill-blue-600"
-                      style={{ filter: 'drop-shadow(1px 1px 1px white)' }}
-                    >
-                      Vertical
-                    </text>
                   </svg>
                 )}
 
-                {/* Measurement line */}
-                {points.length === 2 && (
-                  <svg className="absolute inset-0 pointer-events-none z-5">
-                    <line
-                      x1={points[0].x}
-                      y1={points[0].y}
-                      x2={points[1].x}
-                      y2={points[1].y}
-                      stroke="#3b82f6"
-                      strokeWidth="2"
-                      strokeDasharray="5,5"
-                    />
-                    {/* Distance label */}
-                    <text
-                      x={(points[0].x + points[1].x) / 2}
-                      y={(points[0].y + points[1].y) / 2 - 10}
-                      textAnchor="middle"
-                      className="text-xs font-bold fill-blue-600"
-                      style={{ filter: 'drop-shadow(1px 1px 1px white)' }}
-                    >
-                      {pixelDistance.toFixed(0)} px ({getFormattedDistance(pixelDistance / currentScale, unit)})
-                    </text>
+                {/* Measured lines */}
+                {lines.length > 0 && (
+                  <svg className="absolute inset-0 w-full h-full pointer-events-none z-5">
+                    {lines.map((line, index) => {
+                      const color = LINE_COLORS[index % LINE_COLORS.length];
+                      return (
+                        <g key={line.id}>
+                          <line
+                            x1={line.start.x}
+                            y1={line.start.y}
+                            x2={line.end.x}
+                            y2={line.end.y}
+                            stroke={color}
+                            strokeWidth="2"
+                            strokeDasharray="5,5"
+                          />
+                          <circle cx={line.start.x} cy={line.start.y} r={4} fill={color} />
+                          <circle cx={line.end.x} cy={line.end.y} r={4} fill={color} />
+                          <text
+                            x={(line.start.x + line.end.x) / 2}
+                            y={(line.start.y + line.end.y) / 2 - 10}
+                            textAnchor="middle"
+                            className="text-xs font-bold"
+                            fill={color}
+                            style={{ filter: 'drop-shadow(1px 1px 1px white)' }}
+                          >
+                            {index + 1}{line.label ? `: ${line.label}` : ''}
+                          </text>
+                        </g>
+                      );
+                    })}
                   </svg>
                 )}
               </div>
@@ -302,95 +328,87 @@ export function CalibrationModal({
               </Button>
             </CardTitle>
           </CardHeader>
-          <CardContent className="space-y-6">
-
-            {/* Progress */}
-            <div className="space-y-2">
-              <div className="flex justify-between text-xs text-gray-500">
-                <span>Step {Math.max(1, ['instructions', 'measuring', 'input', 'confirm'].indexOf(step) + 1)} of 3</span>
-                <span>{points.length}/2 points</span>
-              </div>
-              <div className="w-full bg-gray-200 rounded-full h-2">
-                <div
-                  className="bg-blue-500 h-2 rounded-full transition-all duration-300"
-                  style={{
-                    width: `${(step === 'instructions' ? 0 : step === 'measuring' ? 33 : step === 'input' ? 66 : 100)}%`
-                  }}
-                />
-              </div>
-            </div>
-
-            {/* Current measurement */}
-            {points.length > 0 && (
-              <div className="space-y-3 p-3 bg-gray-200 border border-gray-400 rounded">
-                <div className="text-sm font-medium">Current Measurement</div>
-                <div className="grid grid-cols-2 gap-3 text-xs">
-                  <div>
-                    <div className="text-gray-600">Points</div>
-                    <div>{points.length}/2 placed</div>
-                  </div>
-                  <div>
-                    <div className="text-gray-600">Distance</div>
-                    <div>{pixelDistance.toFixed(0)} pixels</div>
-                    <div className="text-xs text-gray-500">
-                      {points.length === 2 && getFormattedDistance(pixelDistance / currentScale, unit)}
-                    </div>
-                  </div>
-                </div>
-                {straightLineMode && (
-                  <div className="text-xs text-blue-600 bg-blue-50 p-2 rounded">
-                    <strong>Straight Line Mode:</strong> Second point will snap to horizontal or vertical
-                  </div>
-                )}
-                {points.length === 2 && (
-                  <div className="text-xs text-gray-600">
-                    <strong>Tip:</strong> {straightLineMode ? 'Disable' : 'Enable'} straight lines or hold Shift for one-time use
-                  </div>
-                )}
-              </div>
-            )}
+          <CardContent className="space-y-6 max-h-[520px] overflow-y-auto">
 
-            {/* Real distance input */}
-            {(step === 'input' || step === 'confirm') && points.length === 2 && (
+            {/* Known lengths */}
+            {lines.length > 0 && (
               <div className="space-y-3">
-                <Label className="text-sm font-medium">Real Distance</Label>
-                <div className="flex space-x-2">
-                  <Input
-                    type="number"
-                    placeholder="Enter distance"
-                    value={realDistance}
-                    onChange={(e) => setRealDistance(e.target.value)}
-                    className="flex-1"
-                    min="0.1"
-                    step="0.1"
-                  />
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm font-medium">Known Lengths</Label>
                   <select
                     value={unit}
                     onChange={(e) => setUnit(e.target.value as 'cm' | 'm')}
-                    className="px-3 py-2 border rounded text-sm"
+                    className="px-2 py-1 border rounded text-xs"
+                    title="Unit for lengths typed without one"
                   >
                     <option value="cm">cm</option>
                     <option value="m">m</option>
                   </select>
                 </div>
-                <p className="text-xs text-gray-500">
-                  Enter the real-world distance between the two points you clicked.
-                </p>
+                {lines.map((line, index) => {
+                  const parsed = parsedLengths[index];
+                  const error = fit?.errors[index];
+                  return (
+                    <div key={line.id} className="space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <span
+                          className="w-5 text-xs font-bold"
+                          style={{ color: LINE_COLORS[index % LINE_COLORS.length] }}
+                        >
+                          {index + 1}
+                        </span>
+                        <Input
+                          placeholder="e.g. 3.45 m"
+                          value={line.label}
+                          onChange={(e) => updateLabel(line.id, e.target.value)}
+                          className="flex-1 h-8 text-sm"
+                        />
+                        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => removeLine(line.id)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                      <div className="pl-7 text-xs text-gray-500">
+                        {Math.round(getMeasuredLength(line))} px
+                        {line.label && parsed === null && <span className="text-red-600"> · not a length</span>}
+                        {parsed !== null && ` · ${getFormattedDistance(parsed, unit)}`}
+                        {error !== null && error !== undefined && fit && fit.count > 1 && (
+                          <span className={Math.abs(error) > 5 ? 'text-amber-600' : 'text-green-600'}>
+                            {' '}· {error > 0 ? '+' : ''}{error.toFixed(1)} cm
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
               </div>
             )}
 
             {/* Calibration preview */}
-            {realDistance && Number(realDistance) > 0 && (
+            {fit && (
               <div className="space-y-3 p-3 bg-blue-200 border border-blue-400 rounded">
                 <div className="text-sm font-medium text-blue-800">Calibration Preview</div>
                 <div className="grid grid-cols-2 gap-3 text-xs">
                   <div>
-                    <div className="text-blue-600">Current Scale</div>
-                    <div>{currentScale.toFixed(3)} px/cm</div>
+                    <div className="text-blue-600">{calibratesImage ? 'Current Image Scale' : 'Current Scale'}</div>
+                    <div>{calibratesImage ? `${(previousScale * 100).toFixed(1)}%` : `${previousScale.toFixed(3)} px/cm`}</div>
                   </div>
                   <div>
-                    <div className="text-blue-600">New Scale</div>
-                    <div>{newScale.toFixed(3)} px/cm</div>
+                    <div className="text-blue-600">{calibratesImage ? 'New Image Scale' : 'New Scale'}</div>
+                    <div>{calibratesImage ? `${(newScale * 100).toFixed(1)}%` : `${newScale.toFixed(3)} px/cm`}</div>
+                  </div>
+                  {calibratesImage && (
+                    <div className="col-span-2">
+                      <div className="text-blue-600">Image Resolution</div>
+                      <div>{(1 / fit.cmPerUnit).toFixed(2)} image px per cm</div>
+                    </div>
+                  )}
+                  <div className="col-span-2">
+                    <div className="text-blue-600">Residual Error</div>
+                    <div>
+                      {fit.count > 1
+                        ? `±${fit.rmsError.toFixed(1)} cm RMS, ${fit.maxError.toFixed(1)} cm max across ${fit.count} lengths`
+                        : 'Measure another length to check the scale'}
+                    </div>
                   </div>
                   <div className="col-span-2">
                     <div className="text-blue-600">Scale Change</div>
@@ -411,29 +429,21 @@ export function CalibrationModal({
                 </Button>
               )}
 
-              {step === 'measuring' && points.length > 0 && (
-                <Button
-                  variant="outline"
-                  onClick={resetCalibration}
-                  className="w-full"
-                >
-                  <RotateCcw className="w-4 h-4 mr-2" />
-                  Reset Points
-                </Button>
-              )}
-
-              {(step === 'input' || step === 'confirm') && (
+              {step === 'measuring' && (
                 <div className="space-y-2">
                   <Button
                     onClick={applyCalibration}
-                    disabled={!realDistance || Number(realDistance) <= 0}
+                    disabled={!fit}
                     className="w-full"
                   >
-                    Apply Calibration
-                  </Button>
-                  <Button variant="outline" onClick={resetCalibration} className="w-full">
-                    Start Over
+                    {calibratesImage ? 'Calibrate Background' : 'Apply Calibration'}
                   </Button>
+                  {(lines.length > 0 || pendingStart) && (
+                    <Button variant="outline" onClick={resetCalibration} className="w-full">
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Start Over
+                    </Button>
+                  )}
                 </div>
               )}
 
@@ -446,4 +456,4 @@ export function CalibrationModal({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -21,13 +21,17 @@ import {
   FileText, 
   Database,
   Printer,
-  Settings
+  Settings,
+  DraftingCompass,
+  Box
 } from 'lucide-react';
 import { FloorPlanZone, FurnitureItemType, FloorPlanSettings } from '@/types';
 import { DiagramShape } from '../schemas';
+import { DRAWING_SCALES, PAPER_SIZES, getSheetLayout } from '../../utils/pdf_export';
+import { DEFAULT_CEILING_HEIGHT, DEFAULT_SLAB_THICKNESS } from '../../utils/mesh_export';
 
 interface ExportOptions {
-  format: 'png' | 'jpg' | 'svg' | 'pdf' | 'json' | 'csv';
+  format: 'png' | 'jpg' | 'svg' | 'pdf' | 'json' | 'csv' | 'dxf' | 'glb' | 'obj';
   quality: number;
   scale: number;
   width?: number;
@@ -39,11 +43,16 @@ interface ExportOptions {
   includeFurniture: boolean;
   includeZones: boolean;
   includeDiagrams: boolean;
-  paperSize?: 'A4' | 'A3' | 'Letter' | 'Legal' | 'Custom';
+  paperSize?: 'A4' | 'A3' | 'Letter' | 'Legal';
   orientation?: 'portrait' | 'landscape';
   margins?: number;
+  drawingScale?: number;
+  includeSchedule?: boolean;
+  ceilingHeight?: number;
+  slabThickness?: number;
   title?: string;
   description?: string;
+  author?: string;
 }
 
 interface ExportModalProps {
@@ -85,9 +94,14 @@ export function ExportModal({
     includeDiagrams: true,
     paperSize: 'A4',
     orientation: 'landscape',
-    margins: 20,
+    margins: 10,
+    drawingScale: undefined,
+    includeSchedule: false,
+    ceilingHeight: DEFAULT_CEILING_HEIGHT,
+    slabThickness: DEFAULT_SLAB_THICKNESS,
     title: 'Floor Plan',
-    description: ''
+    description: '',
+    author: ''
   });
   
   const updateOption = <K extends keyof ExportOptions>(key: K, value: ExportOptions[K]) => {
@@ -101,18 +115,14 @@ export function ExportModal({
   // Calculate output dimensions
   const getOutputDimensions = () => {
     if (exportOptions.format === 'pdf') {
-      const paperSizes = {
-        A4: { width: 210, height: 297 }, // mm
-        A3: { width: 297, height: 420 },
-        Letter: { width: 216, height: 279 },
-        Legal: { width: 216, height: 356 },
-        Custom: { width: exportOptions.width || 210, height: exportOptions.height || 297 }
-      };
-      
-      const size = paperSizes[exportOptions.paperSize || 'A4'];
+      const size = PAPER_SIZES[exportOptions.paperSize || 'A4'];
       return exportOptions.orientation === 'portrait' 
-        ? { width: size.width, height: size.height }
-        : { width: size.height, height: size.width };
+        ? { width: Math.round(size.width), height: Math.round(size.height) }
+        : { width: Math.round(size.height), height: Math.round(size.width) };
+    }
+    
+    if (exportOptions.format === 'dxf' || exportOptions.format === 'glb' || exportOptions.format === 'obj') {
+      return { width: settings.apartmentWidth, height: settings.apartmentHeight };
     }
     
     return {
@@ -123,10 +133,15 @@ export function ExportModal({
   
   const outputDimensions = getOutputDimensions();
   
+  // Scale the plan will be drawn at on the chosen sheet
+  const sheetLayout = getSheetLayout(settings, exportOptions);
+  
   // Format-specific options
   const isImageFormat = ['png', 'jpg', 'svg'].includes(exportOptions.format);
   const isPDFFormat = exportOptions.format === 'pdf';
   const isDataFormat = ['json', 'csv'].includes(exportOptions.format);
+  const isCADFormat = exportOptions.format === 'dxf';
+  const is3DFormat = ['glb', 'obj'].includes(exportOptions.format);
   
   // Estimate file size
   const estimateFileSize = () => {
@@ -140,11 +155,17 @@ export function ExportModal({
       case 'svg':
         return `~${Math.round((zones.length + furniture.length + diagramShapes.length) * 0.5)} KB`;
       case 'pdf':
-        return `~${Math.round(pixels / 1024 / 1024 * 0.5)} MB`;
+        return `~${Math.round((zones.length + furniture.length) * 0.5 + 5)} KB`;
       case 'json':
         return `~${Math.round((JSON.stringify({ zones, furniture, settings }).length) / 1024)} KB`;
       case 'csv':
         return `~${Math.round((zones.length + furniture.length) * 0.1)} KB`;
+      case 'dxf':
+        return `~${Math.round((zones.length + furniture.length + diagramShapes.length) * 1.5)} KB`;
+      case 'glb':
+        return `~${Math.round((zones.length + furniture.length) * 2 + 2)} KB`;
+      case 'obj':
+        return `~${Math.round((zones.length + furniture.length) * 6 + 2)} KB`;
       default:
         return 'Unknown';
     }
@@ -188,7 +209,10 @@ export function ExportModal({
                 { value: 'svg', label: 'SVG', icon: FileImage, desc: 'Vector graphics' },
                 { value: 'pdf', label: 'PDF', icon: Printer, desc: 'Print ready' },
                 { value: 'json', label: 'JSON', icon: Database, desc: 'Data export' },
-                { value: 'csv', label: 'CSV', icon: FileText, desc: 'Spreadsheet data' }
+                { value: 'csv', label: 'CSV', icon: FileText, desc: 'Spreadsheet data' },
+                { value: 'dxf', label: 'DXF', icon: DraftingCompass, desc: 'CAD drawing (cm)' },
+                { value: 'glb', label: 'glTF', icon: Box, desc: '3D model (m)' },
+                { value: 'obj', label: 'OBJ', icon: Box, desc: '3D model + MTL (m)' }
               ].map(format => (
                 <Button
                   key={format.value}
@@ -285,7 +309,6 @@ export function ExportModal({
                       <SelectItem value="A3">A3 (297×420mm)</SelectItem>
                       <SelectItem value="Letter">Letter (8.5×11&quot;)</SelectItem>
                       <SelectItem value="Legal">Legal (8.5×14&quot;)</SelectItem>
-                      <SelectItem value="Custom">Custom Size</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -306,17 +329,43 @@ export function ExportModal({
                 </div>
               </div>
               
-              <div>
-                <Label className="text-xs font-medium">Margins (mm)</Label>
-                <Input
-                  type="number"
-                  value={exportOptions.margins}
-                  onChange={(e) => updateOption('margins', Number(e.target.value))}
-                  className="h-8 text-sm mt-1"
-                  min="0"
-                  max="50"
-                />
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-xs font-medium">Scale</Label>
+                  <Select 
+                    value={exportOptions.drawingScale ? String(exportOptions.drawingScale) : 'fit'} 
+                    onValueChange={(value) => updateOption('drawingScale', value === 'fit' ? undefined : Number(value))}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="fit">Fit to sheet</SelectItem>
+                      {DRAWING_SCALES.map(scale => (
+                        <SelectItem key={scale} value={String(scale)}>1:{scale}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs font-medium">Margins (mm)</Label>
+                  <Input
+                    type="number"
+                    value={exportOptions.margins}
+                    onChange={(e) => updateOption('margins', Number(e.target.value))}
+                    className="h-8 text-sm"
+                    min="0"
+                    max="50"
+                  />
+                </div>
               </div>
+              {sheetLayout.fits ? (
+                <p className="text-xs text-gray-500">The plan is drawn at 1:{sheetLayout.scale}.</p>
+              ) : (
+                <p className="text-xs text-amber-700">
+                  The plan does not fit on {exportOptions.paperSize} at 1:{sheetLayout.scale}; it will be cropped. Choose a smaller scale or a larger sheet.
+                </p>
+              )}
               
               <div className="space-y-2">
                 <div>
@@ -337,7 +386,60 @@ export function ExportModal({
                     placeholder="Optional description"
                   />
                 </div>
+                <div>
+                  <Label className="text-xs font-medium">Drawn by</Label>
+                  <Input
+                    value={exportOptions.author}
+                    onChange={(e) => updateOption('author', e.target.value)}
+                    className="h-8 text-sm mt-1"
+                    placeholder="Author shown in the title block"
+                  />
+                </div>
+              </div>
+              
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  checked={exportOptions.includeSchedule}
+                  onCheckedChange={(checked) => updateOption('includeSchedule', checked === true)}
+                />
+                <Label className="text-xs">
+                  Furniture schedule sheet
+                  <span className="text-gray-500 ml-1">({furniture.length} items)</span>
+                </Label>
+              </div>
+            </div>
+          )}
+          
+          {/* 3D Options */}
+          {is3DFormat && (
+            <div className="space-y-2">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label className="text-xs font-medium">Ceiling Height (cm)</Label>
+                  <Input
+                    type="number"
+                    value={exportOptions.ceilingHeight}
+                    onChange={(e) => updateOption('ceilingHeight', Number(e.target.value))}
+                    className="h-8 text-sm"
+                    min="100"
+                    max="1000"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs font-medium">Floor Slab (cm)</Label>
+                  <Input
+                    type="number"
+                    value={exportOptions.slabThickness}
+                    onChange={(e) => updateOption('slabThickness', Number(e.target.value))}
+                    className="h-8 text-sm"
+                    min="0"
+                    max="100"
+                  />
+                </div>
               </div>
+              <p className="text-xs text-gray-500">
+                Walls are raised to the ceiling height; without walls, room outlines are used. Furniture uses catalogue heights.
+              </p>
             </div>
           )}
           
@@ -353,7 +455,10 @@ export function ExportModal({
                   { key: 'includeGrid', label: 'Grid Lines', count: null },
                   { key: 'includeDimensions', label: 'Dimensions', count: null },
                   { key: 'includeLabels', label: 'Labels', count: null }
-                ].map(option => (
+                ].filter(option => is3DFormat
+                  ? ['includeZones', 'includeFurniture'].includes(option.key)
+                  : !(isCADFormat && option.key === 'includeGrid')
+                ).map(option => (
                   <div key={option.key} className="flex items-center space-x-2">
                     <Checkbox
                       checked={exportOptions[option.key as keyof ExportOptions] as boolean}
@@ -382,7 +487,7 @@ export function ExportModal({
                 <div className="text-gray-600">Output Size</div>
                 <div className="font-medium">
                   {outputDimensions.width} × {outputDimensions.height}
-                  {isPDFFormat ? 'mm' : 'px'}
+                  {isPDFFormat ? 'mm' : isCADFormat || is3DFormat ? 'cm' : 'px'}
                 </div>
               </div>
               <div>
@@ -395,7 +500,7 @@ export function ExportModal({
                   {[
                     exportOptions.includeZones && `${zones.length} zones`,
                     exportOptions.includeFurniture && `${furniture.length} furniture`,
-                    exportOptions.includeDiagrams && `${diagramShapes.length} diagrams`
+                    !is3DFormat && exportOptions.includeDiagrams && `${diagramShapes.length} diagrams`
                   ].filter(Boolean).join(', ') || 'None selected'}
                 </div>
               </div>
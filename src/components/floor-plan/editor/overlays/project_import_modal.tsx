@@ -0,0 +1,179 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { FileUp, X } from 'lucide-react';
+import type { SaveProjectData } from '@/types';
+import { parseProjectJson, remapProjectIds, type ParsedProjectJson } from '../../utils/project_json';
+import { createProject, saveProject } from '../../services/projects';
+
+interface ProjectImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Adds the imported layout to the open project, on the current level
+  onMerge: (data: SaveProjectData) => void;
+}
+
+type ImportTarget = 'new' | 'merge';
+
+/**
+ * Reads a project JSON file written by the JSON export, into a new project or
+ * merged into the open one
+ */
+export function ProjectImportModal({ isOpen, onClose, onMerge }: ProjectImportModalProps) {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedProjectJson | null>(null);
+  const [target, setTarget] = useState<ImportTarget>('new');
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [created, setCreated] = useState<{ id: string; name: string } | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileName(null);
+      setParsed(null);
+      setError(null);
+      setCreated(null);
+    }
+  }, [isOpen]);
+
+  const handleFile = async (file: File | null) => {
+    setParsed(null);
+    setError(null);
+    setCreated(null);
+    setFileName(file?.name ?? null);
+    if (!file) return;
+
+    try {
+      setParsed(parseProjectJson(await file.text()));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to read the file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsed || !fileName) return;
+    if (target === 'merge') {
+      onMerge(parsed.data);
+      onClose();
+      return;
+    }
+
+    setIsImporting(true);
+    setError(null);
+    try {
+      const name = parsed.metadata.title || fileName.replace(/\.[^.]+$/, '') || 'Imported project';
+      const project = await createProject({
+        name,
+        description: parsed.metadata.description || `Imported from ${fileName}`,
+        apartmentType: 'type_7',
+      });
+      // The file may come from a project that still exists, so nothing keeps its IDs
+      await saveProject(project.id, remapProjectIds(parsed.data, { takenIds: new Set(), takenZoneIds: new Set() }));
+      setCreated({ id: project.id, name });
+    } catch (e) {
+      console.error('Project import failed:', e);
+      setError(e instanceof Error ? e.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const data = parsed?.data;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
+      <Card className="w-[480px] mx-4">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg font-semibold flex items-center justify-between">
+            <div className="flex items-center">
+              <FileUp className="w-5 h-5 mr-2" />
+              Import Project JSON
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label className="text-sm">File</Label>
+            <input
+              type="file"
+              accept=".json,application/json"
+              disabled={isImporting}
+              onChange={(e) => handleFile(e.target.files?.[0] || null)}
+              className="block w-full text-sm"
+            />
+          </div>
+
+          {parsed && data && (
+            <div className="text-sm text-gray-700 bg-gray-50 border rounded px-3 py-2 space-y-1">
+              <div className="font-medium">{parsed.metadata.title || fileName}</div>
+              <div className="text-xs text-gray-600">
+                {data.zones.length} zones, {data.furniture.length} furniture, {data.walls.length} walls,{' '}
+                {data.openings.length} doors and windows, {data.diagrams.length} shapes
+                {data.levels.length > 1 && ` on ${data.levels.length} levels`}
+              </div>
+              {parsed.migratedFrom && (
+                <div className="text-xs text-amber-700">
+                  Upgraded from file version {parsed.migratedFrom}.
+                </div>
+              )}
+            </div>
+          )}
+
+          {parsed && (
+            <div className="space-y-2">
+              <Label className="text-sm">Import into</Label>
+              <label className="flex items-start gap-2 text-sm">
+                <input type="radio" checked={target === 'new'} onChange={() => setTarget('new')} className="mt-1" />
+                <span>
+                  A new project
+                  <span className="block text-xs text-gray-500">Keeps the file&apos;s settings and levels.</span>
+                </span>
+              </label>
+              <label className="flex items-start gap-2 text-sm">
+                <input type="radio" checked={target === 'merge'} onChange={() => setTarget('merge')} className="mt-1" />
+                <span>
+                  This project, on the current level
+                  <span className="block text-xs text-gray-500">
+                    Imported items get new IDs; this project&apos;s settings are kept.
+                  </span>
+                </span>
+              </label>
+            </div>
+          )}
+
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded px-3 py-2">
+              {error}
+            </div>
+          )}
+          {created && (
+            <p className="text-sm text-green-700">
+              Created {created.name}.{' '}
+              <Link href={`/editor/project/${created.id}`} className="underline font-medium">
+                Open project
+              </Link>
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              {created ? 'Close' : 'Cancel'}
+            </Button>
+            <Button onClick={handleImport} disabled={!parsed || isImporting || !!created}>
+              {isImporting ? 'Importing…' : target === 'merge' ? 'Merge into project' : 'Create project'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
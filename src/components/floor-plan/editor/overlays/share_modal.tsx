@@ -0,0 +1,194 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { X, Share2, Link, Copy, Ban } from 'lucide-react';
+import { ProjectShareSummary } from '@/types';
+import {
+  createShareLink,
+  fetchProjectSharing,
+  getShareUrl,
+  revokeShareLink,
+  setProjectVisibility,
+} from '../../services/shares';
+
+interface ShareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+}
+
+// Expiry choices in days; 'never' creates a link without expiry
+const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never expires' },
+  { value: '1', label: 'Expires in 1 day' },
+  { value: '7', label: 'Expires in 7 days' },
+  { value: '30', label: 'Expires in 30 days' },
+];
+
+const getLinkStatus = (share: ProjectShareSummary, isPublic: boolean) => {
+  if (share.revokedAt) return 'Revoked';
+  if (share.expiresAt && new Date(share.expiresAt) <= new Date()) return 'Expired';
+  if (!isPublic) return 'Paused while private';
+  return share.expiresAt ? `Active until ${new Date(share.expiresAt).toLocaleDateString()}` : 'Active';
+};
+
+export function ShareModal({
+  isOpen,
+  onClose,
+  projectId
+}: ShareModalProps) {
+  const [isPublic, setIsPublic] = useState(false);
+  const [shares, setShares] = useState<ProjectShareSummary[]>([]);
+  const [expiry, setExpiry] = useState('never');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  // Run an optional request, then reload visibility and links
+  const refresh = useCallback(async (action?: () => Promise<unknown>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await action?.();
+      const sharing = await fetchProjectSharing(projectId);
+      setIsPublic(sharing.isPublic);
+      setShares(sharing.shares);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update share links');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+    }
+  }, [isOpen, refresh]);
+
+  const handleCopy = async (share: ProjectShareSummary) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.token));
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch {
+      prompt('Copy this link:', getShareUrl(share.token));
+    }
+  };
+
+  const handleRevoke = (share: ProjectShareSummary) => {
+    if (!confirm('Revoke this link? Anyone using it will lose access.')) return;
+    refresh(() => revokeShareLink(projectId, share.id));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
+      <Card className="w-[520px] mx-4">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg font-semibold flex items-center justify-between">
+            <div className="flex items-center">
+              <Share2 className="w-5 h-5 mr-2" />
+              Share Floor Plan
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="share-public">Public</Label>
+              <p className="text-xs text-gray-500">
+                Anyone with a link can view the saved plan. Making it private pauses every link.
+              </p>
+            </div>
+            <Switch
+              id="share-public"
+              checked={isPublic}
+              disabled={isLoading}
+              onCheckedChange={(checked) => refresh(() => setProjectVisibility(projectId, checked))}
+            />
+          </div>
+
+          <div className="flex space-x-2">
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => refresh(() => createShareLink(projectId, expiry === 'never' ? undefined : Number(expiry)))}
+              disabled={isLoading}
+            >
+              <Link className="w-4 h-4 mr-1" />
+              Create Link
+            </Button>
+          </div>
+
+          <div className="max-h-[300px] overflow-y-auto border rounded divide-y">
+            {shares.length === 0 && (
+              <div className="text-sm text-gray-500 p-4 text-center">
+                {isLoading ? 'Loading links...' : 'No share links yet.'}
+              </div>
+            )}
+            {shares.map(share => {
+              const status = getLinkStatus(share, isPublic);
+              const usable = !share.revokedAt;
+              return (
+                <div key={share.id} className="flex items-center px-3 py-2 space-x-2">
+                  <div className="flex-1 min-w-0">
+                    <div className={`text-xs font-mono truncate ${usable ? '' : 'text-gray-400 line-through'}`}>
+                      {getShareUrl(share.token)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {status} · Created {new Date(share.createdAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  {usable && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => handleCopy(share)}>
+                        <Copy className="w-4 h-4 mr-1" />
+                        {copiedId === share.id ? 'Copied' : 'Copy'}
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleRevoke(share)} disabled={isLoading}>
+                        <Ban className="w-4 h-4 mr-1" />
+                        Revoke
+                      </Button>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
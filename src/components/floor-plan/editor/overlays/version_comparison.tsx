@@ -0,0 +1,200 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FloorPlanSettings, Level, SaveProjectData } from '@/types';
+import { GridLayer } from '../../canvas/layers/grid_layer';
+import { ZonesLayer } from '../../canvas/layers/zones_layer';
+import { FurnitureLayer } from '../../canvas/layers/furniture_layer';
+import { WallsLayer } from '../../canvas/layers/walls_layer';
+import { VersionDiffLayer, CHANGE_COLORS } from '../../canvas/layers/version_diff_layer';
+import { diffProjectData, getChangedIds, type VersionChangeType } from '../../utils/version_diff';
+import { DEFAULT_LEVEL, filterByLevel, filterOpeningsByHosts } from '../../utils/level_logic';
+
+interface ComparedVersion {
+  label: string;
+  data: SaveProjectData;
+}
+
+interface VersionComparisonProps {
+  before: ComparedVersion;
+  after: ComparedVersion;
+}
+
+// Size of each comparison pane in pixels
+const PANE_WIDTH = 460;
+const PANE_HEIGHT = 340;
+
+const CHANGE_LABELS: Record<VersionChangeType, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  modified: 'Modified',
+};
+
+interface VersionPaneProps {
+  version: ComparedVersion;
+  side: 'before' | 'after';
+  levelId: string;
+  changedIds: ReturnType<typeof getChangedIds>;
+  scale: number;
+}
+
+/**
+ * One read-only side of the comparison, drawn with the editor's own canvas layers
+ */
+function VersionPane({ version, side, levelId, changedIds, scale }: VersionPaneProps) {
+  const { data } = version;
+  const levels = data.levels.length > 0 ? data.levels : [DEFAULT_LEVEL];
+  const zones = filterByLevel(data.zones, levelId, levels);
+  const furniture = filterByLevel(data.furniture, levelId, levels);
+  const walls = filterByLevel(data.walls, levelId, levels);
+  const openings = filterOpeningsByHosts(data.openings, walls, zones);
+  const settings: FloorPlanSettings = { ...data.settings, scale, showGrid: true };
+  const noop = () => { };
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium text-gray-700">
+        {side === 'before' ? 'Before' : 'After'}: {version.label}
+      </div>
+      <div
+        className="relative overflow-hidden border rounded bg-white"
+        style={{ width: PANE_WIDTH, height: PANE_HEIGHT }}
+      >
+        <GridLayer settings={settings} width={PANE_WIDTH} height={PANE_HEIGHT} />
+        <FurnitureLayer
+          furniture={furniture}
+          settings={settings}
+          selectedFurnitureId={null}
+          onFurnitureSelect={noop}
+          onFurnitureUpdate={noop}
+          editorMode="furniture"
+          width={PANE_WIDTH}
+          height={PANE_HEIGHT}
+        />
+        <ZonesLayer
+          zones={zones}
+          settings={settings}
+          selectedZoneId={null}
+          onZoneSelect={noop}
+          editorMode="furniture"
+        />
+        <WallsLayer
+          walls={walls}
+          zones={zones}
+          openings={openings}
+          settings={settings}
+          width={PANE_WIDTH}
+          height={PANE_HEIGHT}
+          editorMode="furniture"
+          selectedWallId={null}
+          selectedOpeningId={null}
+          wallTool="select"
+          wallThickness={15}
+          wallHeight={250}
+          onWallSelect={noop}
+          onWallAdd={noop}
+          onWallJointMove={noop}
+          onOpeningSelect={noop}
+          onOpeningAdd={noop}
+          onOpeningUpdate={noop}
+        />
+        <VersionDiffLayer
+          zones={zones}
+          furniture={furniture}
+          walls={walls}
+          openings={openings}
+          changedIds={changedIds}
+          scale={scale}
+          width={PANE_WIDTH}
+          height={PANE_HEIGHT}
+        />
+        {/* Blocks pointer input so the layers stay read-only */}
+        <div className="absolute inset-0" style={{ zIndex: 10 }} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Side-by-side visual diff of two project versions with a list of the changes
+ */
+export function VersionComparison({ before, after }: VersionComparisonProps) {
+  const diff = useMemo(() => diffProjectData(before.data, after.data), [before.data, after.data]);
+
+  // Levels of both versions, lowest first; the newer version's names win
+  const levels = useMemo(() => {
+    const merged = new Map<string, Level>();
+    [...after.data.levels, ...before.data.levels].forEach(level => {
+      if (!merged.has(level.id)) merged.set(level.id, level);
+    });
+    return merged.size > 0 ? Array.from(merged.values()).sort((a, b) => a.elevation - b.elevation) : [DEFAULT_LEVEL];
+  }, [before.data.levels, after.data.levels]);
+  const [levelId, setLevelId] = useState(levels[0].id);
+
+  // Both panes share one scale so sizes compare directly
+  const scale = useMemo(() => {
+    const width = Math.max(before.data.settings.apartmentWidth, after.data.settings.apartmentWidth);
+    const height = Math.max(before.data.settings.apartmentHeight, after.data.settings.apartmentHeight);
+    return Math.min(PANE_WIDTH / width, PANE_HEIGHT / height);
+  }, [before.data.settings, after.data.settings]);
+
+  const beforeIds = useMemo(() => getChangedIds(diff, 'before'), [diff]);
+  const afterIds = useMemo(() => getChangedIds(diff, 'after'), [diff]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3 text-xs">
+          {(Object.keys(CHANGE_LABELS) as VersionChangeType[]).map(change => (
+            <span key={change} className="flex items-center">
+              <span className="w-3 h-3 rounded-sm mr-1" style={{ backgroundColor: CHANGE_COLORS[change] }} />
+              {CHANGE_LABELS[change]} ({diff.counts[change]})
+            </span>
+          ))}
+          {diff.settingsChanged && <span className="text-gray-500">Settings changed</span>}
+        </div>
+        {levels.length > 1 && (
+          <Select value={levelId} onValueChange={setLevelId}>
+            <SelectTrigger className="w-40 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {levels.map(level => (
+                <SelectItem key={level.id} value={level.id}>
+                  {level.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="flex space-x-4">
+        <VersionPane version={before} side="before" levelId={levelId} changedIds={beforeIds} scale={scale} />
+        <VersionPane version={after} side="after" levelId={levelId} changedIds={afterIds} scale={scale} />
+      </div>
+
+      {diff.changes.length === 0 ? (
+        <div className="text-xs text-gray-500">No differences between these versions.</div>
+      ) : (
+        <div className="max-h-40 overflow-y-auto space-y-1">
+          {diff.changes.map((change, index) => (
+            <div key={index} className="flex items-center text-xs">
+              <span className="w-2 h-2 rounded-full mr-2 shrink-0" style={{ backgroundColor: CHANGE_COLORS[change.change] }} />
+              <span className="font-medium mr-1">{CHANGE_LABELS[change.change]}</span>
+              <span className="text-gray-500 mr-1">{change.kind}:</span>
+              <span>{change.name}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { X, History, Flag, RotateCcw, GitCompare, ArrowLeft } from 'lucide-react';
+import { ProjectVersionSummary, SaveProjectData } from '@/types';
+import {
+  createCheckpoint,
+  fetchProjectVersion,
+  fetchProjectVersions,
+  restoreProjectVersion,
+  ProjectVersionDetail,
+} from '../../services/versions';
+import { VersionComparison } from './version_comparison';
+
+interface VersionHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  onRestored: (data: SaveProjectData) => void;
+  // The editor's current data, or null when it does not validate
+  getProjectData: () => SaveProjectData | null;
+}
+
+const getVersionLabel = (version: ProjectVersionSummary) =>
+  `v${version.version}${version.name ? ` · ${version.name}` : ''}`;
+
+export function VersionHistoryModal({
+  isOpen,
+  onClose,
+  projectId,
+  onRestored,
+  getProjectData
+}: VersionHistoryModalProps) {
+  const [versions, setVersions] = useState<ProjectVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [checkpointName, setCheckpointName] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<[ProjectVersionDetail, ProjectVersionDetail] | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setVersions(await fetchProjectVersions(projectId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch versions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadVersions();
+      setSelectedIds([]);
+      setComparison(null);
+    }
+  }, [isOpen, loadVersions]);
+
+  const handleCreateCheckpoint = async () => {
+    const name = checkpointName.trim();
+    if (!name) return;
+    const data = getProjectData();
+    if (!data) {
+      setError('The current plan has invalid data and cannot be saved');
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      await createCheckpoint(projectId, name, data);
+      setCheckpointName('');
+      await loadVersions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create checkpoint');
+      setIsLoading(false);
+    }
+  };
+
+  const handleRestore = async (version: ProjectVersionSummary) => {
+    if (!confirm(`Restore ${getVersionLabel(version)}? The current state stays in the history.`)) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await restoreProjectVersion(projectId, version.id);
+      onRestored(data);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Keep at most two versions selected, dropping the oldest pick
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev.filter(other => other !== id), id].slice(-2) : prev.filter(other => other !== id));
+  };
+
+  const handleCompare = async () => {
+    if (selectedIds.length !== 2) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const loaded = await Promise.all(selectedIds.map(id => fetchProjectVersion(projectId, id)));
+      // Older version on the left
+      loaded.sort((a, b) => a.version - b.version);
+      setComparison([loaded[0], loaded[1]]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch versions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center">
+      <Card className={comparison ? 'w-[980px] mx-4' : 'w-[560px] mx-4'}>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg font-semibold flex items-center justify-between">
+            <div className="flex items-center">
+              {comparison ? (
+                <Button variant="ghost" size="sm" onClick={() => setComparison(null)} className="mr-2">
+                  <ArrowLeft className="w-4 h-4" />
+                </Button>
+              ) : (
+                <History className="w-5 h-5 mr-2" />
+              )}
+              {comparison
+                ? `Compare ${getVersionLabel(comparison[0])} and ${getVersionLabel(comparison[1])}`
+                : 'Version History'}
+            </div>
+            <Button variant="ghost" size="sm" onClick={onClose}>
+              <X className="w-4 h-4" />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {error && (
+            <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded px-3 py-2">
+              {error}
+            </div>
+          )}
+
+          {comparison ? (
+            <VersionComparison
+              key={`${comparison[0].id}-${comparison[1].id}`}
+              before={{ label: getVersionLabel(comparison[0]), data: comparison[0].data }}
+              after={{ label: getVersionLabel(comparison[1]), data: comparison[1].data }}
+            />
+          ) : (
+            <>
+              <div className="flex space-x-2">
+                <Input
+                  value={checkpointName}
+                  onChange={(e) => setCheckpointName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleCreateCheckpoint()}
+                  placeholder="Checkpoint name, e.g. Client review"
+                  maxLength={100}
+                />
+                <Button onClick={handleCreateCheckpoint} disabled={isLoading || !checkpointName.trim()}>
+                  <Flag className="w-4 h-4 mr-1" />
+                  Checkpoint
+                </Button>
+              </div>
+
+              <div className="max-h-[400px] overflow-y-auto border rounded divide-y">
+                {versions.length === 0 && (
+                  <div className="text-sm text-gray-500 p-4 text-center">
+                    {isLoading ? 'Loading versions...' : 'No saved versions yet. Save the project to start its history.'}
+                  </div>
+                )}
+                {versions.map(version => (
+                  <div key={version.id} className="flex items-center px-3 py-2 space-x-3">
+                    <Checkbox
+                      checked={selectedIds.includes(version.id)}
+                      onCheckedChange={(checked) => toggleSelected(version.id, checked === true)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium flex items-center">
+                        v{version.version}
+                        {version.isCheckpoint && <Flag className="w-3 h-3 ml-2 text-blue-600" />}
+                        <span className="ml-2 truncate">{version.name || 'Saved'}</span>
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(version.createdAt).toLocaleString()}
+                        {version.restoredFrom !== null && ` · Restored from v${version.restoredFrom}`}
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleRestore(version)}
+                      disabled={isLoading}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restore
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-500">Select two versions to compare them side by side.</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleCompare}
+                  disabled={isLoading || selectedIds.length !== 2}
+                >
+                  <GitCompare className="w-4 h-4 mr-1" />
+                  Compare
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import React from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { CheckCircle2, Circle, Loader2, XCircle } from 'lucide-react';
+import type { AnalysisJobStatus } from '@/types';
+import { analyzeFloorPlan, AnalysisResponse } from '../../services/analysis';
+
+interface AIImportPanelProps {
+  onAnalysisComplete?: (analysis: AnalysisResponse) => void;
+}
+
+// Stages a job passes through, in order, with the label shown while it runs
+const STAGES: Array<{ status: AnalysisJobStatus; label: string }> = [
+  { status: 'queued', label: 'Waiting to start' },
+  { status: 'uploading', label: 'Uploading image' },
+  { status: 'detecting', label: 'Detecting rooms' },
+  { status: 'extracting', label: 'Extracting layout' },
+];
+
+function StageIcon({ state }: { state: 'pending' | 'active' | 'complete' | 'failed' }) {
+  if (state === 'complete') return <CheckCircle2 className="w-3 h-3 text-green-600" />;
+  if (state === 'active') return <Loader2 className="w-3 h-3 text-blue-600 animate-spin" />;
+  if (state === 'failed') return <XCircle className="w-3 h-3 text-red-600" />;
+  return <Circle className="w-3 h-3 text-gray-300" />;
+}
+
+/**
+ * Uploads a floor plan image for analysis, showing each stage of the
+ * background job and allowing it to be cancelled
+ */
+export function AIImportPanel({ onAnalysisComplete }: AIImportPanelProps) {
+  const [file, setFile] = React.useState<File | null>(null);
+  const [status, setStatus] = React.useState<AnalysisJobStatus | null>(null);
+  // Last stage reached before the job failed, so the list shows where it stopped
+  const [failedStage, setFailedStage] = React.useState<AnalysisJobStatus | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [result, setResult] = React.useState<AnalysisResponse | null>(null);
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  // Stop polling if the panel closes mid-analysis; the job itself keeps running
+  React.useEffect(() => () => abortRef.current?.abort(), []);
+
+  const isAnalyzing = status !== null && !['done', 'failed', 'cancelled'].includes(status);
+
+  const handleAnalyze = async () => {
+    if (!file) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('queued');
+    setFailedStage(null);
+    setError(null);
+    setResult(null);
+
+    let lastStage: AnalysisJobStatus = 'queued';
+    try {
+      const analysis = await analyzeFloorPlan({
+        file,
+        signal: controller.signal,
+        onProgress: (job) => {
+          if (job.status !== 'failed') lastStage = job.status;
+          setStatus(job.status);
+        },
+      });
+      setStatus('done');
+      setResult(analysis);
+      onAnalysisComplete?.(analysis);
+    } catch (e) {
+      if (controller.signal.aborted || (e instanceof DOMException && e.name === 'AbortError')) {
+        setStatus('cancelled');
+        return;
+      }
+      console.error('AI analysis failed:', e);
+      setStatus('failed');
+      setFailedStage(lastStage);
+      setError(e instanceof Error ? e.message : 'Analysis failed. Please try another image.');
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const activeStage = status === 'failed' ? failedStage : status;
+  const activeIndex = STAGES.findIndex(stage => stage.status === activeStage);
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm font-semibold">AI Import</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-xs text-gray-600">Upload a floor plan image. We will detect dimensions and zones.</p>
+          <div className="space-y-2">
+            <Label className="text-xs">Image</Label>
+            <input
+              type="file"
+              accept="image/*"
+              disabled={isAnalyzing}
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              className="block w-full text-xs"
+            />
+          </div>
+
+          {status && status !== 'cancelled' && (
+            <ul className="space-y-1">
+              {STAGES.map((stage, index) => {
+                const state = status === 'done' || index < activeIndex
+                  ? 'complete'
+                  : index === activeIndex
+                    ? (status === 'failed' ? 'failed' : 'active')
+                    : 'pending';
+                return (
+                  <li
+                    key={stage.status}
+                    className={`flex items-center gap-2 text-xs ${state === 'pending' ? 'text-gray-400' : 'text-gray-700'}`}
+                  >
+                    <StageIcon state={state} />
+                    {stage.label}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {status === 'cancelled' && <p className="text-xs text-gray-600">Analysis cancelled.</p>}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          {result?.shortId && (
+            <p className="text-xs text-green-700">
+              Found {result.zones?.length ?? 0} rooms.{' '}
+              {result.calibration?.method === 'dimensions' && (
+                <>
+                  Scaled from {result.calibration.labelCount} dimension {result.calibration.labelCount === 1 ? 'label' : 'labels'}
+                  {result.calibration.labelCount > 1 && result.calibration.rmsError !== undefined && ` (±${result.calibration.rmsError} cm)`}.{' '}
+                </>
+              )}
+              <Link href={`/editor/${result.shortId}`} className="underline font-medium">
+                Open imported plan
+              </Link>
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {isAnalyzing && (
+              <Button size="sm" variant="outline" onClick={handleCancel}>
+                Cancel
+              </Button>
+            )}
+            <Button size="sm" onClick={handleAnalyze} disabled={!file || isAnalyzing}>
+              {isAnalyzing ? 'Analyzing…' : 'Analyze'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
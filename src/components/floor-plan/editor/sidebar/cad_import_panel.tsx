@@ -0,0 +1,214 @@
+"use client";
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  CadDrawing,
+  CadLayerTarget,
+  CadUnit,
+  CAD_UNIT_CM,
+  buildProjectFromDrawing,
+  parseCadFile,
+  suggestLayerTarget,
+} from '../../utils/cad_import';
+import { createProject, saveProject } from '../../services/projects';
+
+interface CadImportPanelProps {
+  onImported?: (projectId: string) => void;
+}
+
+const TARGET_LABELS: Record<CadLayerTarget, string> = {
+  zones: 'Zones',
+  walls: 'Walls',
+  diagrams: 'Diagram shapes',
+  ignore: 'Ignore',
+};
+
+const UNIT_LABELS: Record<CadUnit, string> = {
+  mm: 'Millimetres',
+  cm: 'Centimetres',
+  m: 'Metres',
+  in: 'Inches',
+  ft: 'Feet',
+  px: 'Pixels (96 per inch)',
+};
+
+/**
+ * Imports a DXF or SVG plan as a new project, with each source layer mapped
+ * to zones, walls or diagram shapes
+ */
+export function CadImportPanel({ onImported }: CadImportPanelProps) {
+  const [fileName, setFileName] = React.useState<string | null>(null);
+  const [drawing, setDrawing] = React.useState<CadDrawing | null>(null);
+  const [unit, setUnit] = React.useState<CadUnit>('mm');
+  const [layers, setLayers] = React.useState<Record<string, CadLayerTarget>>({});
+  const [wallThickness, setWallThickness] = React.useState(15);
+  const [error, setError] = React.useState<string | null>(null);
+  const [isImporting, setIsImporting] = React.useState(false);
+  const [imported, setImported] = React.useState<{ projectId: string; version: number } | null>(null);
+
+  const handleFile = async (file: File | null) => {
+    setDrawing(null);
+    setError(null);
+    setImported(null);
+    setFileName(file?.name ?? null);
+    if (!file) return;
+
+    try {
+      const parsed = parseCadFile(file.name, await file.text());
+      setDrawing(parsed);
+      setUnit(parsed.unit ?? (parsed.format === 'svg' ? 'px' : 'mm'));
+      setLayers(Object.fromEntries(parsed.layers.map(layer => [layer.name, suggestLayerTarget(layer)])));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to read the file');
+    }
+  };
+
+  // Rebuilt whenever the mapping changes so the summary shows what will be created
+  const preview = React.useMemo(() => {
+    if (!drawing) return null;
+    try {
+      return { data: buildProjectFromDrawing(drawing, { unit, layers, wallThickness }), error: null };
+    } catch (e) {
+      return { data: null, error: e instanceof Error ? e.message : 'Failed to convert the drawing' };
+    }
+  }, [drawing, unit, layers, wallThickness]);
+
+  const handleImport = async () => {
+    if (!preview?.data || !fileName) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      const { id: projectId } = await createProject({
+        name: fileName.replace(/\.[^.]+$/, '') || 'Imported plan',
+        description: `Imported from ${fileName}`,
+        apartmentType: 'type_7',
+      });
+      const version = await saveProject(projectId, preview.data);
+      setImported({ projectId, version });
+      onImported?.(projectId);
+    } catch (e) {
+      console.error('CAD import failed:', e);
+      setError(e instanceof Error ? e.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const usesWalls = Object.values(layers).includes('walls');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm font-semibold">CAD Import</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-gray-600">
+          Import a DXF or SVG plan. Closed outlines become rooms, lines become wall centerlines or diagram shapes.
+        </p>
+        <div className="space-y-2">
+          <Label className="text-xs">File</Label>
+          <input
+            type="file"
+            accept=".dxf,.svg"
+            disabled={isImporting}
+            onChange={(e) => handleFile(e.target.files?.[0] || null)}
+            className="block w-full text-xs"
+          />
+        </div>
+
+        {drawing && (
+          <>
+            <div className="space-y-1">
+              <Label className="text-xs">Units</Label>
+              <select
+                value={unit}
+                onChange={(e) => setUnit(e.target.value as CadUnit)}
+                className="w-full px-3 py-2 border rounded text-sm"
+              >
+                {(Object.keys(CAD_UNIT_CM) as CadUnit[]).map(option => (
+                  <option key={option} value={option}>
+                    {UNIT_LABELS[option]}{option === drawing.unit ? ' (from file)' : ''}
+                  </option>
+                ))}
+              </select>
+              {!drawing.unit && (
+                <p className="text-xs text-amber-700">The file does not declare its units; check this before importing.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Layers</Label>
+              {drawing.layers.map(layer => (
+                <div key={layer.name} className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-xs font-medium truncate" title={layer.name}>{layer.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {[
+                        layer.closed > 0 && `${layer.closed} closed`,
+                        layer.open > 0 && `${layer.open} lines`,
+                        layer.labels > 0 && `${layer.labels} text`,
+                      ].filter(Boolean).join(' · ')}
+                    </div>
+                  </div>
+                  <select
+                    value={layers[layer.name] ?? 'ignore'}
+                    onChange={(e) => setLayers(prev => ({ ...prev, [layer.name]: e.target.value as CadLayerTarget }))}
+                    className="px-2 py-1 border rounded text-xs"
+                  >
+                    {(Object.keys(TARGET_LABELS) as CadLayerTarget[]).map(target => (
+                      <option key={target} value={target}>{TARGET_LABELS[target]}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              {drawing.skipped > 0 && (
+                <p className="text-xs text-gray-500">
+                  {drawing.skipped} other {drawing.skipped === 1 ? 'entity' : 'entities'} (circles, arcs, blocks) will not be imported.
+                </p>
+              )}
+            </div>
+
+            {usesWalls && (
+              <div className="space-y-1">
+                <Label className="text-xs">Wall thickness (cm)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={200}
+                  value={wallThickness}
+                  onChange={(e) => setWallThickness(Math.min(200, Math.max(1, Number(e.target.value) || 1)))}
+                  className="h-8 text-sm"
+                />
+              </div>
+            )}
+
+            {preview?.data && (
+              <p className="text-xs text-gray-700">
+                {preview.data.zones.length} zones, {preview.data.walls.length} walls, {preview.data.diagrams.length} shapes
+                on a {preview.data.settings.apartmentWidth} × {preview.data.settings.apartmentHeight} cm plan.
+              </p>
+            )}
+            {preview?.error && <p className="text-xs text-red-600">{preview.error}</p>}
+          </>
+        )}
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+        {imported && (
+          <p className="text-xs text-green-700">
+            Created project {imported.projectId} (version {imported.version}).
+          </p>
+        )}
+
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleImport} disabled={!preview?.data || isImporting}>
+            {isImporting ? 'Importing…' : 'Create project'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
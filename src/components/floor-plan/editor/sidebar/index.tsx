@@ -2,16 +2,18 @@
 
 import React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Button } from "@/components/ui/button";
-import { Label } from "@/components/ui/label";
 import { Layers } from "lucide-react";
-import { FloorPlanZone, FurnitureItemType, FloorPlanSettings } from "@/types";
+import { FloorPlanZone, FurnitureItemType, FloorPlanSettings, WallSegment, Opening } from "@/types";
 import { InspectorTab } from "./inspector_tab";
 import { LibraryTab } from "./library_tab";
 import { LayersTab } from "./layers_tab";
+import { PlacementIssues } from "./placement_issues";
+import { ScheduleTab } from "./schedule_tab";
+import { AIImportPanel } from "./ai_import_panel";
+import { CadImportPanel } from "./cad_import_panel";
 import { DiagramShape } from "../../canvas/tools/diagram_schemas";
 import { EditorMode } from "../../state/editor_store";
-import { analyzeFloorPlan as analyzeFloorPlanService } from "../../services/analysis";
+import type { PlacementViolation } from "../../utils/placement_validation";
 
 interface EditorSidebarProps {
     // State
@@ -21,9 +23,15 @@ interface EditorSidebarProps {
     zones: FloorPlanZone[];
     furniture: FurnitureItemType[];
     diagrams: DiagramShape[];
+    walls: WallSegment[];
+    openings: Opening[];
     selectedZoneId: string | null;
     selectedFurnitureId: string | null;
     selectedDiagramId: string | null;
+    selectedWallId: string | null;
+    selectedOpeningId: string | null;
+    // Length in cm of the wall or room edge hosting the selected door or window
+    selectedOpeningHostLength: number | null;
     selectedFurniture: FurnitureItemType | null;
     settings: FloorPlanSettings;
     currentDiagramTool: string;
@@ -45,55 +53,21 @@ interface EditorSidebarProps {
     onUpdateDiagramShape: (id: string, updates: Record<string, unknown>) => void;
     onDeleteDiagramShape: () => void;
     onDuplicateDiagramShape: () => void;
-}
 
-function AIImportPanel({ onAnalysisComplete }: { onAnalysisComplete: (analysis: { dimensions?: { width: number; height: number }; zones?: Array<{ zoneId?: string; name: string; x: number; y: number; w: number; h: number }> }) => void }) {
-    const [file, setFile] = React.useState<File | null>(null);
-    const [isAnalyzing, setIsAnalyzing] = React.useState(false);
-    const [error, setError] = React.useState<string | null>(null);
+    // Wall handlers
+    onUpdateWall: (id: string, updates: Partial<WallSegment>) => void;
+    onDeleteWall: () => void;
 
-    const handleAnalyze = async () => {
-        if (!file) return;
-        setIsAnalyzing(true);
-        setError(null);
-        try {
-            const result = await analyzeFloorPlanService({ file });
-            onAnalysisComplete(result);
-        } catch (e) {
-            console.error('AI analysis failed:', e);
-            setError('Analysis failed. Please try another image.');
-        } finally {
-            setIsAnalyzing(false);
-        }
-    };
+    // Door and window handlers
+    onUpdateOpening: (id: string, updates: Partial<Opening>) => void;
+    onDeleteOpening: () => void;
 
-    return (
-        <div className="space-y-4">
-            <Card>
-                <CardHeader>
-                    <CardTitle className="text-sm font-semibold">AI Import</CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                    <p className="text-xs text-gray-600">Upload a floor plan image. We will detect dimensions and zones.</p>
-                    <div className="space-y-2">
-                        <Label className="text-xs">Image</Label>
-                        <input
-                            type="file"
-                            accept="image/*"
-                            onChange={(e) => setFile(e.target.files?.[0] || null)}
-                            className="block w-full text-xs"
-                        />
-                    </div>
-                    {error && <p className="text-xs text-red-600">{error}</p>}
-                    <div className="flex justify-end">
-                        <Button size="sm" onClick={handleAnalyze} disabled={!file || isAnalyzing}>
-                            {isAnalyzing ? 'Analyzing…' : 'Analyze'}
-                        </Button>
-                    </div>
-                </CardContent>
-            </Card>
-        </div>
-    );
+    // Placement validation
+    placementViolations: PlacementViolation[];
+    onSelectFurniture: (id: string) => void;
+
+    // Opens a project created from a DXF or SVG import
+    onCadImported: (projectId: string) => void;
 }
 
 export function EditorSidebar(props: EditorSidebarProps) {
@@ -104,9 +78,14 @@ export function EditorSidebar(props: EditorSidebarProps) {
         zones,
         furniture,
         diagrams,
+        walls,
+        openings,
         selectedZoneId,
         selectedFurnitureId,
         selectedDiagramId,
+        selectedWallId,
+        selectedOpeningId,
+        selectedOpeningHostLength,
         selectedFurniture,
         settings,
         currentDiagramTool,
@@ -122,13 +101,23 @@ export function EditorSidebar(props: EditorSidebarProps) {
         onUpdateDiagramShape,
         onDeleteDiagramShape,
         onDuplicateDiagramShape,
+        onUpdateWall,
+        onDeleteWall,
+        onUpdateOpening,
+        onDeleteOpening,
+        placementViolations,
+        onSelectFurniture,
+        onCadImported,
     } = props;
 
     return (
         <div className={`${sidebarCollapsed ? 'w-12' : 'w-96'} bg-white overflow-y-auto transition-all duration-300`}>
             <div className="p-4">
                 {showAIImport ? (
-                    <AIImportPanel onAnalysisComplete={() => { }} />
+                    <div className="space-y-4">
+                        <AIImportPanel />
+                        <CadImportPanel onImported={onCadImported} />
+                    </div>
                 ) : (
                     <div className="space-y-4">
                         {/* Mode-specific helpful tips */}
@@ -145,6 +134,19 @@ export function EditorSidebar(props: EditorSidebarProps) {
                             </Card>
                         )}
 
+                        {editorMode === 'walls' && (
+                            <Card className="border-slate-200 bg-slate-50">
+                                <CardContent className="pt-4">
+                                    <div className="text-sm text-slate-800">
+                                        <strong>🧱 Wall Mode</strong>
+                                        <div className="text-xs mt-1 text-slate-600">
+                                            Click to place wall corners and double-click or press Esc to finish. Hold Shift for straight walls; ends snap to existing walls so corners join cleanly. Use the door and window tools to place openings on walls or room edges.
+                                        </div>
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        )}
+
                         {editorMode === 'furniture' && (
                             <Card className="border-green-200 bg-green-50">
                                 <CardContent className="pt-4">
@@ -196,6 +198,24 @@ export function EditorSidebar(props: EditorSidebarProps) {
                             </Card>
                         )}
 
+                        {/* Placement issues - only show in furniture mode */}
+                        {editorMode === 'furniture' && furniture.length > 0 && (
+                            <PlacementIssues
+                                violations={placementViolations}
+                                onSelectFurniture={onSelectFurniture}
+                            />
+                        )}
+
+                        {/* Furniture schedule - only show in furniture mode */}
+                        {editorMode === 'furniture' && furniture.length > 0 && (
+                            <ScheduleTab
+                                zones={zones}
+                                furniture={furniture}
+                                settings={settings}
+                                onSelectFurniture={onSelectFurniture}
+                            />
+                        )}
+
                         {/* Furniture Library - only show in furniture mode */}
                         {editorMode === 'furniture' && (
                             <LibraryTab
@@ -206,12 +226,16 @@ export function EditorSidebar(props: EditorSidebarProps) {
                         )}
 
                         {/* Inspector - show when there's a selection or when mode-specific content is available */}
-                        {(selectedZoneId || selectedFurnitureId || selectedDiagramId || editorMode === 'diagrams') && (
+                        {(selectedZoneId || selectedFurnitureId || selectedDiagramId || selectedWallId || selectedOpeningId || editorMode === 'diagrams') && (
                             <InspectorTab
                                 editorMode={editorMode}
                                 selectedZone={zones.find(z => z.id === selectedZoneId) || null}
                                 selectedFurniture={selectedFurniture}
                                 selectedDiagramShape={diagrams.find(d => d.id === selectedDiagramId) || null}
+                                selectedWall={walls.find(w => w.id === selectedWallId) || null}
+                                selectedOpening={openings.find(o => o.id === selectedOpeningId) || null}
+                                selectedOpeningHostLength={selectedOpeningHostLength}
+                                placementViolations={placementViolations}
                                 zones={zones}
                                 onUpdateZone={handleZoneUpdate}
                                 onDeleteZone={() => selectedZoneId && deleteZone(selectedZoneId)}
@@ -224,6 +248,10 @@ export function EditorSidebar(props: EditorSidebarProps) {
                                 onUpdateDiagramShape={onUpdateDiagramShape}
                                 onDeleteDiagramShape={onDeleteDiagramShape}
                                 onDuplicateDiagramShape={onDuplicateDiagramShape}
+                                onUpdateWall={onUpdateWall}
+                                onDeleteWall={onDeleteWall}
+                                onUpdateOpening={onUpdateOpening}
+                                onDeleteOpening={onDeleteOpening}
                             />
                         )}
 
@@ -1,20 +1,27 @@
 "use client";
 
 import React from 'react';
-import { FloorPlanZone, FurnitureItemType } from '@/types';
+import { FloorPlanZone, FurnitureItemType, WallSegment, Opening } from '@/types';
 import { ZoneInspector } from './inspectors/zone_inspector';
+import { WallInspector } from './inspectors/wall_inspector';
+import { OpeningInspector } from './inspectors/opening_inspector';
 import { FurnitureInspector } from './inspectors/furniture_inspector';
 import { DiagramInspector } from './inspectors/diagram_inspector';
 import { Search } from 'lucide-react';
 import { DiagramShape } from '../../canvas/tools/diagram_schemas';
+import { PlacementViolation, getViolationsForItem } from '../../utils/placement_validation';
 
-type EditorMode = 'zones' | 'furniture' | 'diagrams';
+type EditorMode = 'zones' | 'furniture' | 'diagrams' | 'walls';
 
 interface InspectorTabProps {
   editorMode: EditorMode;
   selectedZone: FloorPlanZone | null;
   selectedFurniture: FurnitureItemType | null;
   selectedDiagramShape: DiagramShape | null;
+  selectedWall?: WallSegment | null;
+  selectedOpening?: Opening | null;
+  selectedOpeningHostLength?: number | null;
+  placementViolations?: PlacementViolation[];
   zones: FloorPlanZone[];
 
   // Zone actions
@@ -33,6 +40,14 @@ interface InspectorTabProps {
   onUpdateDiagramShape: (id: string, updates: Record<string, unknown>) => void;
   onDeleteDiagramShape: () => void;
   onDuplicateDiagramShape: () => void;
+
+  // Wall actions
+  onUpdateWall?: (id: string, updates: Partial<WallSegment>) => void;
+  onDeleteWall?: () => void;
+
+  // Door and window actions
+  onUpdateOpening?: (id: string, updates: Partial<Opening>) => void;
+  onDeleteOpening?: () => void;
 }
 
 export function InspectorTab({
@@ -40,6 +55,10 @@ export function InspectorTab({
   selectedZone,
   selectedFurniture,
   selectedDiagramShape,
+  selectedWall = null,
+  selectedOpening = null,
+  selectedOpeningHostLength = null,
+  placementViolations = [],
   zones,
   onUpdateZone,
   onDeleteZone,
@@ -51,7 +70,11 @@ export function InspectorTab({
   onAssignToZone,
   onUpdateDiagramShape,
   onDeleteDiagramShape,
-  onDuplicateDiagramShape
+  onDuplicateDiagramShape,
+  onUpdateWall = () => { },
+  onDeleteWall = () => { },
+  onUpdateOpening = () => { },
+  onDeleteOpening = () => { }
 }: InspectorTabProps) {
 
   // Auto-determine which inspector to show based on selection
@@ -65,6 +88,12 @@ export function InspectorTab({
     if (selectedDiagramShape && editorMode === 'diagrams') {
       return 'diagram';
     }
+    if (selectedOpening && editorMode === 'walls') {
+      return 'opening';
+    }
+    if (selectedWall && editorMode === 'walls') {
+      return 'wall';
+    }
     return 'none';
   };
 
@@ -84,6 +113,7 @@ export function InspectorTab({
     return (
       <FurnitureInspector
         furniture={selectedFurniture}
+        violations={getViolationsForItem(placementViolations, selectedFurniture.id)}
         zones={zones}
         onUpdate={onUpdateFurniture}
         onDelete={onDeleteFurniture}
@@ -106,6 +136,27 @@ export function InspectorTab({
     );
   }
 
+  if (activeInspector === 'wall' && selectedWall) {
+    return (
+      <WallInspector
+        wall={selectedWall}
+        onUpdate={onUpdateWall}
+        onDelete={onDeleteWall}
+      />
+    );
+  }
+
+  if (activeInspector === 'opening' && selectedOpening) {
+    return (
+      <OpeningInspector
+        opening={selectedOpening}
+        hostLength={selectedOpeningHostLength}
+        onUpdate={onUpdateOpening}
+        onDelete={onDeleteOpening}
+      />
+    );
+  }
+
   // Default state - show selection prompt
   return (
     <div className="h-full flex flex-col items-center justify-center text-gray-500 px-4">
@@ -116,6 +167,7 @@ export function InspectorTab({
           {editorMode === 'zones' && "Click a zone to inspect its properties"}
           {editorMode === 'furniture' && "Click furniture to inspect its properties"}
           {editorMode === 'diagrams' && "Select diagram shapes to inspect their properties"}
+          {editorMode === 'walls' && "Use the select tool and click a wall, door or window to inspect its properties"}
         </p>
       </div>
     </div>
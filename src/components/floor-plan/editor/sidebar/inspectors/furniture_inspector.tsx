@@ -21,6 +21,8 @@ import {
 } from 'lucide-react';
 import { FloorPlanZone, FurnitureItemType } from '@/types';
 import { getAllFurnitureLegacy } from '@/components/floor-plan/furniture';
+import type { PlacementViolation } from '../../../utils/placement_validation';
+import { PlacementIssuesList } from '../placement_issues';
 
 interface FurnitureInspectorProps {
   furniture: FurnitureItemType;
@@ -31,6 +33,8 @@ interface FurnitureInspectorProps {
   onRotate: (degrees: number) => void;
   onReplace: (catalogName: string) => void;
   onAssignToZone: (zoneId: string) => void;
+  // Placement violations involving this item
+  violations?: PlacementViolation[];
 }
 
 export function FurnitureInspector({
@@ -41,7 +45,8 @@ export function FurnitureInspector({
   onDuplicate,
   onRotate,
   onReplace,
-  onAssignToZone
+  onAssignToZone,
+  violations = []
 }: FurnitureInspectorProps) {
 
   const updateFurniture = (updates: Partial<FurnitureItemType>) => {
@@ -265,6 +270,12 @@ export function FurnitureInspector({
             )}
           </div>
 
+          {/* Placement Validation */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium">Placement</Label>
+            <PlacementIssuesList violations={violations} />
+          </div>
+
           {/* Replace with Library Item */}
           <div className="space-y-3">
             <Label className="text-xs font-medium">Replace Furniture</Label>
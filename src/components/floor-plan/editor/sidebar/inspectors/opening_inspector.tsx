@@ -0,0 +1,191 @@
+"use client";
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2, DoorOpen, AppWindow, FlipHorizontal2 } from 'lucide-react';
+import { Opening } from '@/types';
+
+interface OpeningInspectorProps {
+  opening: Opening;
+  // Length of the host edge in cm, used to limit width and offset
+  hostLength: number | null;
+  onUpdate: (id: string, updates: Partial<Opening>) => void;
+  onDelete: () => void;
+}
+
+export function OpeningInspector({ opening, hostLength, onUpdate, onDelete }: OpeningInspectorProps) {
+  const updateOpening = (updates: Partial<Opening>) => {
+    onUpdate(opening.id, updates);
+  };
+
+  const isDoor = opening.type === 'door';
+  const maxWidth = hostLength ? Math.floor(hostLength) : 1000;
+
+  return (
+    <div className="h-full flex flex-col">
+      <Card className="h-full">
+        <CardHeader className="pb-4">
+          <CardTitle className="text-sm font-semibold flex items-center justify-between">
+            <div className="flex items-center">
+              {isDoor ? <DoorOpen className="w-4 h-4 mr-2" /> : <AppWindow className="w-4 h-4 mr-2" />}
+              {isDoor ? 'Door Inspector' : 'Window Inspector'}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDelete}
+              className="h-6 w-6 p-0 text-red-500 hover:text-red-600"
+              title={isDoor ? 'Delete Door' : 'Delete Window'}
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 pt-0">
+          {/* Type */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium">Type</Label>
+            <Select
+              value={opening.type}
+              onValueChange={(type) => updateOpening({ type: type as Opening['type'] })}
+            >
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="door">Door</SelectItem>
+                <SelectItem value="window">Window</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Placement */}
+          <div className="space-y-3">
+            <Label className="text-xs font-medium">Placement</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="text-xs text-gray-600">Width (cm)</Label>
+                <Input
+                  type="number"
+                  value={opening.width}
+                  onChange={(e) => updateOpening({ width: Math.min(maxWidth, Math.max(10, Number(e.target.value))) })}
+                  className="h-7 text-xs"
+                  min="10"
+                  max={maxWidth}
+                />
+              </div>
+              <div>
+                <Label className="text-xs text-gray-600">Offset (cm)</Label>
+                <Input
+                  type="number"
+                  value={opening.offset}
+                  onChange={(e) => updateOpening({ offset: Math.max(0, Number(e.target.value)) })}
+                  className="h-7 text-xs"
+                  min="0"
+                  max={hostLength ? Math.floor(hostLength) : undefined}
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Swing */}
+          {isDoor && (
+            <div className="space-y-3">
+              <Label className="text-xs font-medium">Swing</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label className="text-xs text-gray-600">Hinge</Label>
+                  <Select
+                    value={opening.hinge}
+                    onValueChange={(hinge) => updateOpening({ hinge: hinge as Opening['hinge'] })}
+                  >
+                    <SelectTrigger className="h-7 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="start">Start side</SelectItem>
+                      <SelectItem value="end">End side</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs text-gray-600">Opens to</Label>
+                  <Select
+                    value={opening.swing}
+                    onValueChange={(swing) => updateOpening({ swing: swing as Opening['swing'] })}
+                  >
+                    <SelectTrigger className="h-7 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="left">Left</SelectItem>
+                      <SelectItem value="right">Right</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateOpening({ swing: opening.swing === 'left' ? 'right' : 'left' })}
+                className="w-full h-7 text-xs"
+              >
+                <FlipHorizontal2 className="w-3 h-3 mr-1" />
+                Flip Swing
+              </Button>
+            </div>
+          )}
+
+          {/* Size */}
+          <div className="space-y-3">
+            <Label className="text-xs font-medium">Size</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="text-xs text-gray-600">Height (cm)</Label>
+                <Input
+                  type="number"
+                  value={opening.height ?? ''}
+                  onChange={(e) => updateOpening({ height: e.target.value ? Math.min(2000, Math.max(1, Number(e.target.value))) : undefined })}
+                  className="h-7 text-xs"
+                  min="1"
+                  max="2000"
+                />
+              </div>
+              {!isDoor && (
+                <div>
+                  <Label className="text-xs text-gray-600">Sill (cm)</Label>
+                  <Input
+                    type="number"
+                    value={opening.sillHeight ?? ''}
+                    onChange={(e) => updateOpening({ sillHeight: e.target.value ? Math.min(2000, Math.max(0, Number(e.target.value))) : undefined })}
+                    className="h-7 text-xs"
+                    min="0"
+                    max="2000"
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Opening Info */}
+          <div className="space-y-2 text-xs text-gray-500 bg-gray-50 p-3 rounded">
+            <div className="font-medium">{isDoor ? 'Door' : 'Window'} Information</div>
+            <div>Hosted on: {opening.hostType === 'wall' ? 'wall' : `room edge ${(opening.edgeIndex ?? 0) + 1}`}</div>
+            {hostLength !== null && <div>Host length: {Math.round(hostLength)} cm</div>}
+            <div>Clear width: {Math.round(opening.width)} cm</div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
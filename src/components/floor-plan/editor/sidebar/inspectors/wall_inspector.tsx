@@ -0,0 +1,180 @@
+"use client";
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Trash2, BrickWall } from 'lucide-react';
+import { WallSegment } from '@/types';
+import { getWallAngle, getWallLength } from '../../../utils/wall_logic';
+
+interface WallInspectorProps {
+  wall: WallSegment;
+  onUpdate: (id: string, updates: Partial<WallSegment>) => void;
+  onDelete: () => void;
+}
+
+export function WallInspector({ wall, onUpdate, onDelete }: WallInspectorProps) {
+  const updateWall = (updates: Partial<WallSegment>) => {
+    onUpdate(wall.id, updates);
+  };
+
+  const length = getWallLength(wall);
+  const angle = getWallAngle(wall);
+
+  // Change the length by moving the end point along the wall direction
+  const setLength = (newLength: number) => {
+    if (length === 0 || newLength < 1) return;
+    const factor = newLength / length;
+    updateWall({
+      x2: Math.round(wall.x1 + (wall.x2 - wall.x1) * factor),
+      y2: Math.round(wall.y1 + (wall.y2 - wall.y1) * factor),
+    });
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <Card className="h-full">
+        <CardHeader className="pb-4">
+          <CardTitle className="text-sm font-semibold flex items-center justify-between">
+            <div className="flex items-center">
+              <BrickWall className="w-4 h-4 mr-2" />
+              Wall Inspector
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDelete}
+              className="h-6 w-6 p-0 text-red-500 hover:text-red-600"
+              title="Delete Wall"
+            >
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4 pt-0">
+          {/* Centerline */}
+          <div className="space-y-3">
+            <Label className="text-xs font-medium">Centerline</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="text-xs text-gray-600">Start X (cm)</Label>
+                <Input
+                  type="number"
+                  value={wall.x1}
+                  onChange={(e) => updateWall({ x1: Number(e.target.value) })}
+                  className="h-7 text-xs"
+                />
+              </div>
+              <div>
+                <Label className="text-xs text-gray-600">Start Y (cm)</Label>
+                <Input
+                  type="number"
+                  value={wall.y1}
+                  onChange={(e) => updateWall({ y1: Number(e.target.value) })}
+                  className="h-7 text-xs"
+                />
+              </div>
+              <div>
+                <Label className="text-xs text-gray-600">End X (cm)</Label>
+                <Input
+                  type="number"
+                  value={wall.x2}
+                  onChange={(e) => updateWall({ x2: Number(e.target.value) })}
+                  className="h-7 text-xs"
+                />
+              </div>
+              <div>
+                <Label className="text-xs text-gray-600">End Y (cm)</Label>
+                <Input
+                  type="number"
+                  value={wall.y2}
+                  onChange={(e) => updateWall({ y2: Number(e.target.value) })}
+                  className="h-7 text-xs"
+                />
+              </div>
+            </div>
+            <div>
+              <Label className="text-xs text-gray-600">Length (cm)</Label>
+              <Input
+                type="number"
+                value={Math.round(length)}
+                onChange={(e) => setLength(Number(e.target.value))}
+                className="h-7 text-xs"
+                min="1"
+              />
+            </div>
+          </div>
+
+          {/* Size */}
+          <div className="space-y-3">
+            <Label className="text-xs font-medium">Size</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label className="text-xs text-gray-600">Thickness (cm)</Label>
+                <Input
+                  type="number"
+                  value={wall.thickness}
+                  onChange={(e) => updateWall({ thickness: Math.min(200, Math.max(1, Number(e.target.value))) })}
+                  className="h-7 text-xs"
+                  min="1"
+                  max="200"
+                />
+              </div>
+              <div>
+                <Label className="text-xs text-gray-600">Height (cm)</Label>
+                <Input
+                  type="number"
+                  value={wall.height}
+                  onChange={(e) => updateWall({ height: Math.min(2000, Math.max(1, Number(e.target.value))) })}
+                  className="h-7 text-xs"
+                  min="1"
+                  max="2000"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Appearance */}
+          <div className="space-y-3">
+            <Label className="text-xs font-medium">Appearance</Label>
+            <div>
+              <Label className="text-xs text-gray-600">Color</Label>
+              <div className="flex items-center space-x-2 mt-1">
+                <input
+                  type="color"
+                  value={wall.color || "#4b5563"}
+                  onChange={(e) => updateWall({ color: e.target.value })}
+                  className="w-8 h-8 border rounded cursor-pointer"
+                />
+                <Input
+                  value={wall.color || "#4b5563"}
+                  onChange={(e) => updateWall({ color: e.target.value })}
+                  className="h-8 text-xs flex-1"
+                  placeholder="#4b5563"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateWall({ color: undefined })}
+                  className="h-8 px-2 text-xs"
+                >
+                  Reset
+                </Button>
+              </div>
+            </div>
+          </div>
+
+          {/* Wall Info */}
+          <div className="space-y-2 text-xs text-gray-500 bg-gray-50 p-3 rounded">
+            <div className="font-medium">Wall Information</div>
+            <div>Length: {Math.round(length)} cm</div>
+            <div>Angle: {Math.round(angle)}°</div>
+            <div>Face area: {Math.round(length * wall.height / 10000 * 100) / 100} m²</div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
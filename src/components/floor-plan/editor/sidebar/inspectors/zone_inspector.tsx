@@ -5,8 +5,10 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Trash2, Settings } from 'lucide-react';
+import { Trash2, Settings, Hexagon, Square } from 'lucide-react';
 import { FloorPlanZone } from '@/types';
+import { getZoneArea, isPolygonZone, resizeZone, translateZone } from '../../../utils/zone_logic';
+import { rectToPolygon } from '../../../utils/geometry';
 
 interface ZoneInspectorProps {
   zone: FloorPlanZone;
@@ -19,6 +21,8 @@ export function ZoneInspector({ zone, onUpdate, onDelete }: ZoneInspectorProps)
     onUpdate(zone.id, updates);
   };
 
+  const polygonal = isPolygonZone(zone);
+
   return (
     <div className="h-full flex flex-col">
       <Card className="h-full">
@@ -74,7 +78,7 @@ export function ZoneInspector({ zone, onUpdate, onDelete }: ZoneInspectorProps)
                 <Input
                   type="number"
                   value={zone.x}
-                  onChange={(e) => updateZone({ x: Number(e.target.value) })}
+                  onChange={(e) => updateZone(translateZone(zone, Number(e.target.value) - zone.x, 0))}
                   className="h-7 text-xs"
                 />
               </div>
@@ -83,7 +87,7 @@ export function ZoneInspector({ zone, onUpdate, onDelete }: ZoneInspectorProps)
                 <Input
                   type="number"
                   value={zone.y}
-                  onChange={(e) => updateZone({ y: Number(e.target.value) })}
+                  onChange={(e) => updateZone(translateZone(zone, 0, Number(e.target.value) - zone.y))}
                   className="h-7 text-xs"
                 />
               </div>
@@ -92,7 +96,7 @@ export function ZoneInspector({ zone, onUpdate, onDelete }: ZoneInspectorProps)
                 <Input
                   type="number"
                   value={zone.w}
-                  onChange={(e) => updateZone({ w: Math.max(10, Number(e.target.value)) })}
+                  onChange={(e) => updateZone(resizeZone(zone, Math.max(10, Number(e.target.value)), zone.h))}
                   className="h-7 text-xs"
                   min="10"
                 />
@@ -102,7 +106,7 @@ export function ZoneInspector({ zone, onUpdate, onDelete }: ZoneInspectorProps)
                 <Input
                   type="number"
                   value={zone.h}
-                  onChange={(e) => updateZone({ h: Math.max(10, Number(e.target.value)) })}
+                  onChange={(e) => updateZone(resizeZone(zone, zone.w, Math.max(10, Number(e.target.value))))}
                   className="h-7 text-xs"
                   min="10"
                 />
@@ -110,6 +114,37 @@ export function ZoneInspector({ zone, onUpdate, onDelete }: ZoneInspectorProps)
             </div>
           </div>
 
+          {/* Shape */}
+          <div className="space-y-2">
+            <Label className="text-xs font-medium">Shape</Label>
+            {polygonal ? (
+              <>
+                <p className="text-xs text-gray-500">
+                  {zone.points!.length} vertices. Drag vertices on the canvas, click an edge handle to add one, double-click a vertex to remove it.
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => updateZone({ points: undefined })}
+                  className="h-8 w-full text-xs"
+                >
+                  <Square className="w-3 h-3 mr-1" />
+                  Reset to Rectangle
+                </Button>
+              </>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateZone({ points: rectToPolygon(zone) })}
+                className="h-8 w-full text-xs"
+              >
+                <Hexagon className="w-3 h-3 mr-1" />
+                Convert to Polygon
+              </Button>
+            )}
+          </div>
+
           {/* Appearance */}
           <div className="space-y-3">
             <Label className="text-xs font-medium">Appearance</Label>
@@ -143,8 +178,8 @@ export function ZoneInspector({ zone, onUpdate, onDelete }: ZoneInspectorProps)
           {/* Zone Info */}
           <div className="space-y-2 text-xs text-gray-500 bg-gray-50 p-3 rounded">
             <div className="font-medium">Zone Information</div>
-            <div>Area: {Math.round((zone.w * zone.h) / 10000 * 100) / 100} m²</div>
-            <div>Dimensions: {zone.w} × {zone.h} cm</div>
+            <div>Area: {Math.round(getZoneArea(zone) / 10000 * 100) / 100} m²</div>
+            <div>{polygonal ? 'Bounding box' : 'Dimensions'}: {zone.w} × {zone.h} cm</div>
             <div>Position: ({zone.x}, {zone.y})</div>
           </div>
 
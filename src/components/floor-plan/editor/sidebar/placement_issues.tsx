@@ -0,0 +1,86 @@
+"use client";
+
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import type { PlacementViolation, PlacementViolationType } from '../../utils/placement_validation';
+
+interface PlacementIssuesListProps {
+  violations: PlacementViolation[];
+  onSelectFurniture?: (id: string) => void;
+}
+
+const TYPE_LABELS: Record<PlacementViolationType, string> = {
+  overlap: 'Overlap',
+  clearance: 'Clearance',
+  wall_distance: 'Wall distance',
+  zone: 'Wrong room',
+};
+
+/**
+ * Compact list of placement violations; clicking an entry selects the item it belongs to
+ */
+export function PlacementIssuesList({ violations, onSelectFurniture }: PlacementIssuesListProps) {
+  if (violations.length === 0) {
+    return (
+      <div className="flex items-center text-xs text-green-700">
+        <CheckCircle2 className="w-3 h-3 mr-1" />
+        No placement issues
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {violations.map(v => (
+        <button
+          key={v.id}
+          type="button"
+          onClick={() => onSelectFurniture?.(v.furnitureId)}
+          disabled={!onSelectFurniture}
+          className={`w-full flex items-start text-left text-xs p-2 rounded border ${v.severity === 'error'
+            ? 'bg-red-50 border-red-200 text-red-700'
+            : 'bg-amber-50 border-amber-200 text-amber-800'
+            } ${onSelectFurniture ? 'hover:brightness-95 cursor-pointer' : 'cursor-default'}`}
+        >
+          {v.severity === 'error'
+            ? <XCircle className="w-3 h-3 mr-2 mt-0.5 shrink-0" />
+            : <AlertTriangle className="w-3 h-3 mr-2 mt-0.5 shrink-0" />}
+          <span>
+            <span className="font-medium">{TYPE_LABELS[v.type]}:</span> {v.message}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+interface PlacementIssuesProps {
+  violations: PlacementViolation[];
+  onSelectFurniture: (id: string) => void;
+}
+
+export function PlacementIssues({ violations, onSelectFurniture }: PlacementIssuesProps) {
+  const errorCount = violations.filter(v => v.severity === 'error').length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-semibold flex items-center justify-between">
+          <div className="flex items-center">
+            <AlertTriangle className="w-4 h-4 mr-2" />
+            Placement Issues
+          </div>
+          {violations.length > 0 && (
+            <span className={`text-xs font-normal ${errorCount > 0 ? 'text-red-600' : 'text-amber-700'}`}>
+              {violations.length}
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 max-h-64 overflow-y-auto">
+        <PlacementIssuesList violations={violations} onSelectFurniture={onSelectFurniture} />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ClipboardList, Download } from 'lucide-react';
+import { FloorPlanSettings, FloorPlanZone, FurnitureItemType } from '@/types';
+import { buildFurnitureSchedule, utilizationPercent, type ScheduleLine } from '../../utils/furniture_schedule';
+import { exportFurnitureSchedule, type ScheduleExportFormat } from '../../utils/export_utils';
+import { format_area, format_dimension } from '../../utils/units';
+
+interface ScheduleTabProps {
+  zones: FloorPlanZone[];
+  furniture: FurnitureItemType[];
+  settings: FloorPlanSettings;
+  onSelectFurniture?: (id: string) => void;
+}
+
+type ScheduleView = 'items' | 'zones';
+
+const EXPORT_LABELS: Record<ScheduleExportFormat, string> = {
+  csv: 'CSV',
+  excel: 'Excel CSV',
+  pdf: 'PDF',
+};
+
+/**
+ * Furniture schedule (bill of materials) grouped by catalog item or by zone,
+ * with zone utilization and CSV/PDF export
+ */
+export function ScheduleTab({ zones, furniture, settings, onSelectFurniture }: ScheduleTabProps) {
+  const [view, setView] = useState<ScheduleView>('items');
+  const schedule = useMemo(() => buildFurnitureSchedule(zones, furniture), [zones, furniture]);
+  const unitSystem = settings.unitSystem ?? 'cm';
+  // Areas read better in m² at schedule scale, whatever the dimension units
+  const area = (cm2: number) => format_area(cm2, 'm');
+
+  const handleExport = (format: ScheduleExportFormat) => {
+    try {
+      exportFurnitureSchedule({ zones, furniture, settings }, format);
+    } catch (error) {
+      console.error('Schedule export failed:', error);
+    }
+  };
+
+  const renderLine = (line: ScheduleLine, key: string) => (
+    <button
+      key={key}
+      type="button"
+      onClick={() => onSelectFurniture?.(line.furnitureIds[0])}
+      disabled={!onSelectFurniture}
+      className="w-full flex items-center gap-2 text-left text-xs py-1 px-1 rounded hover:bg-gray-50"
+    >
+      <span className="w-3 h-3 rounded-sm border shrink-0" style={{ backgroundColor: line.color }} />
+      <span className="flex-1 min-w-0">
+        <span className="block truncate font-medium">{line.quantity} × {line.name}</span>
+        <span className="block text-gray-500">
+          {format_dimension(line.w, unitSystem)} × {format_dimension(line.h, unitSystem)}
+          {view === 'items' && line.zones.length > 0 && ` · ${line.zones.join(', ')}`}
+        </span>
+      </span>
+      <span className="text-gray-600 shrink-0">{area(line.footprint)}</span>
+    </button>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-semibold flex items-center justify-between">
+          <div className="flex items-center">
+            <ClipboardList className="w-4 h-4 mr-2" />
+            Furniture Schedule
+          </div>
+          <span className="text-xs font-normal text-gray-500">
+            {schedule.totals.quantity} items · {area(schedule.totals.footprint)}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-3">
+        <div className="flex gap-1">
+          {(['items', 'zones'] as ScheduleView[]).map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={view === option ? 'default' : 'outline'}
+              className="h-7 text-xs flex-1"
+              onClick={() => setView(option)}
+            >
+              {option === 'items' ? 'By item' : 'By zone'}
+            </Button>
+          ))}
+        </div>
+
+        <div className="max-h-80 overflow-y-auto space-y-3">
+          {view === 'items' && schedule.items.map((line, i) => renderLine(line, `item-${i}`))}
+
+          {view === 'zones' && (
+            <>
+              {schedule.zones.map(({ zone, lines, utilization }) => {
+                const percent = utilizationPercent(utilization);
+                return (
+                  <div key={zone.id} className="space-y-1">
+                    <div className="flex items-center justify-between text-xs">
+                      <span className="font-semibold truncate">{zone.name}</span>
+                      <span className="text-gray-500 shrink-0">
+                        {area(utilization.occupiedArea)} of {area(utilization.totalArea)}
+                      </span>
+                    </div>
+                    <div className="h-1.5 bg-gray-100 rounded">
+                      <div
+                        className={`h-1.5 rounded ${percent > 60 ? 'bg-amber-500' : 'bg-blue-500'}`}
+                        style={{ width: `${Math.min(100, percent)}%` }}
+                      />
+                    </div>
+                    <div className="text-xs text-gray-500">{percent.toFixed(0)}% used</div>
+                    {lines.map((line, i) => renderLine(line, `${zone.id}-${i}`))}
+                  </div>
+                );
+              })}
+              {schedule.unassigned.length > 0 && (
+                <div className="space-y-1">
+                  <div className="text-xs font-semibold text-gray-600">Unassigned</div>
+                  {schedule.unassigned.map((line, i) => renderLine(line, `unassigned-${i}`))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Download className="w-3 h-3 text-gray-500 mr-1" />
+          {(Object.keys(EXPORT_LABELS) as ScheduleExportFormat[]).map(format => (
+            <Button
+              key={format}
+              size="sm"
+              variant="outline"
+              className="h-7 text-xs flex-1"
+              onClick={() => handleExport(format)}
+            >
+              {EXPORT_LABELS[format]}
+            </Button>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
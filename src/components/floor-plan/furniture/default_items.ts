@@ -168,7 +168,7 @@ export const DEFAULT_FURNITURE_ITEMS: Record<string, FurnitureRegistryEntry> = {
     dimensions: {
       width: 121,
       height: 245,
-      depth: 90,
+      depth: 75,
     },
     appearance: {
       color: "#b98a2b",
@@ -243,7 +243,7 @@ export const DEFAULT_FURNITURE_ITEMS: Record<string, FurnitureRegistryEntry> = {
     dimensions: {
       width: 213,
       height: 158,
-      depth: 200,
+      depth: 55,
     },
     appearance: {
       color: "#b92b2b",
@@ -291,7 +291,7 @@ export const DEFAULT_FURNITURE_ITEMS: Record<string, FurnitureRegistryEntry> = {
     dimensions: {
       width: 90,
       height: 190,
-      depth: 200,
+      depth: 50,
     },
     appearance: {
       color: "#c53030",
@@ -321,7 +321,7 @@ export const DEFAULT_FURNITURE_ITEMS: Record<string, FurnitureRegistryEntry> = {
     dimensions: {
       width: 112,
       height: 45,
-      depth: 50,
+      depth: 80,
     },
     appearance: {
       color: "#5a5a5a",
@@ -355,7 +355,7 @@ export const DEFAULT_FURNITURE_ITEMS: Record<string, FurnitureRegistryEntry> = {
     dimensions: {
       width: 60,
       height: 70,
-      depth: 65,
+      depth: 180,
     },
     appearance: {
       color: "#e6e6e6",
@@ -400,7 +400,7 @@ export const DEFAULT_FURNITURE_ITEMS: Record<string, FurnitureRegistryEntry> = {
     dimensions: {
       width: 123,
       height: 7,
-      depth: 25,
+      depth: 72,
     },
     appearance: {
       color: "#1a1a1a",
@@ -57,6 +57,31 @@ export function searchFurniture(query: string) {
   return furnitureRegistry.search(query);
 }
 
+// Find the registry entry a placed item was created from, by catalog ID or by name
+export function getFurnitureForItem(item: { catalogId?: string; name: string }): FurnitureRegistryEntry | undefined {
+  return (item.catalogId ? furnitureRegistry.get(item.catalogId) : undefined)
+    ?? Object.values(furnitureRegistry.getAll()).find(e => e.name.toLowerCase() === item.name.toLowerCase());
+}
+
+// Typical heights in cm by category, for entries without a depth
+const CATEGORY_HEIGHTS: Record<string, number> = {
+  sofa: 85,
+  chair: 85,
+  table: 75,
+  bed: 55,
+  storage: 90,
+  appliance: 180,
+  electronics: 70,
+  decor: 100,
+};
+const DEFAULT_FURNITURE_HEIGHT = 75;
+
+// Height of a placed item in cm, from its registry entry's depth or its category
+export function getFurnitureHeight(item: { catalogId?: string; name: string }): number {
+  const entry = getFurnitureForItem(item);
+  return entry?.dimensions.depth ?? CATEGORY_HEIGHTS[entry?.category ?? ''] ?? DEFAULT_FURNITURE_HEIGHT;
+}
+
 // Convert registry entry to legacy FurnitureSpec format for compatibility
 export function toLegacyFurnitureSpec(entry: FurnitureRegistryEntry) {
   return {
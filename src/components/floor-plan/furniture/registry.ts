@@ -14,6 +14,7 @@ export const furnitureMetadataSchema = z.object({
   dimensions: z.object({
     width: z.number().positive("Width must be positive"),
     height: z.number().positive("Height must be positive"),
+    // Vertical size, for 3D and elevation views
     depth: z.number().positive("Depth must be positive").optional(),
   }),
 
@@ -0,0 +1,144 @@
+/**
+ * Collaboration Hook
+ * Broadcasts command manager edits and presence, and applies remote edits
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useUser } from '@stackframe/stack';
+import { CommandManager } from '../state/command_manager';
+import { useEditorStore } from '../state/editor_store';
+import { useSelectionStore } from '../state/selection_store';
+import { applyEntityOperations } from '../utils/entity_operations';
+import {
+  CollaborationSession,
+  CollaborationStatus,
+  CollaborationConflict,
+} from '../services/collaboration';
+
+// Set to the collaboration server, e.g. ws://localhost:3001; collaboration is off when unset
+const COLLABORATION_URL = process.env.NEXT_PUBLIC_COLLABORATION_URL;
+
+const PEER_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#65a30d'];
+
+// Cursor positions are sent at most this often (ms)
+const CURSOR_THROTTLE = 50;
+
+interface UseCollaborationProps {
+  projectId?: string;
+  commandManager: CommandManager;
+}
+
+export function useCollaboration({ projectId, commandManager }: UseCollaborationProps) {
+  const user = useUser();
+  const userName = user?.displayName || user?.primaryEmail || 'Guest';
+
+  const [status, setStatus] = useState<CollaborationStatus>('disconnected');
+  const [conflict, setConflict] = useState<CollaborationConflict | null>(null);
+  const sessionRef = useRef<CollaborationSession | null>(null);
+  const cursorRef = useRef<{ x: number; y: number } | null>(null);
+  const cursorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const enabled = !!COLLABORATION_URL && !!projectId;
+
+  // Connect to the project's room
+  useEffect(() => {
+    if (!COLLABORATION_URL || !projectId) return;
+
+    const { setRemotePeer, updateRemotePeer, removeRemotePeer, clearRemotePeers } = useSelectionStore.getState();
+    const session = new CollaborationSession({
+      url: COLLABORATION_URL,
+      projectId,
+      peer: {
+        name: userName,
+        color: PEER_COLORS[Math.floor(Math.random() * PEER_COLORS.length)],
+      },
+      callbacks: {
+        onStatusChange: setStatus,
+        onPeersReset: (peers) => {
+          clearRemotePeers();
+          peers.forEach(({ peer, presence }) => setRemotePeer({ ...peer, ...presence }));
+        },
+        onPeerJoined: (peer) => setRemotePeer({ ...peer, cursor: null, selection: [] }),
+        onPeerLeft: removeRemotePeer,
+        onPresence: (peerId, presence) => updateRemotePeer(peerId, presence),
+        onRemoteOperations: (operations) => {
+          useEditorStore.setState(state => applyEntityOperations(state, operations));
+        },
+        onConflict: setConflict,
+      },
+    });
+    sessionRef.current = session;
+    session.connect();
+
+    return () => {
+      session.disconnect();
+      sessionRef.current = null;
+      clearRemotePeers();
+    };
+  }, [projectId, userName]);
+
+  // Broadcast every executed, undone or redone command
+  useEffect(() => {
+    if (!enabled) return;
+    return commandManager.subscribe((command, direction) => {
+      const operations = command.getOperations?.(direction) ?? [];
+      if (operations.length > 0) {
+        sessionRef.current?.sendOperations(operations);
+      }
+    });
+  }, [enabled, commandManager]);
+
+  const sendPresence = useCallback(() => {
+    const { selectedItems } = useSelectionStore.getState();
+    sessionRef.current?.updatePresence({
+      cursor: cursorRef.current,
+      selection: selectedItems.slice(0, 100),
+      levelId: useEditorStore.getState().currentLevelId,
+    });
+  }, []);
+
+  // Broadcast selection and level changes
+  useEffect(() => {
+    if (!enabled) return;
+    sendPresence();
+    const unsubscribeSelection = useSelectionStore.subscribe((state, prev) => {
+      if (state.selectedItems !== prev.selectedItems) sendPresence();
+    });
+    const unsubscribeLevel = useEditorStore.subscribe((state, prev) => {
+      if (state.currentLevelId !== prev.currentLevelId) sendPresence();
+    });
+    return () => {
+      unsubscribeSelection();
+      unsubscribeLevel();
+    };
+  }, [enabled, sendPresence]);
+
+  // Cursor position in cm, or null when the pointer leaves the canvas
+  const updateCursor = useCallback((point: { x: number; y: number } | null) => {
+    if (!enabled) return;
+    cursorRef.current = point;
+    if (!point) {
+      if (cursorTimerRef.current) clearTimeout(cursorTimerRef.current);
+      cursorTimerRef.current = null;
+      sendPresence();
+      return;
+    }
+    if (cursorTimerRef.current) return;
+    cursorTimerRef.current = setTimeout(() => {
+      cursorTimerRef.current = null;
+      sendPresence();
+    }, CURSOR_THROTTLE);
+  }, [enabled, sendPresence]);
+
+  useEffect(() => () => {
+    if (cursorTimerRef.current) clearTimeout(cursorTimerRef.current);
+  }, []);
+
+  return {
+    enabled,
+    status,
+    conflict,
+    dismissConflict: () => setConflict(null),
+    updateCursor,
+  };
+}
@@ -1,5 +1,6 @@
 import { useState, useCallback, useMemo } from 'react';
 import { FloorPlanZone, FurnitureItemType } from '@/types';
+import { isPointInZone } from '../utils/zone_logic';
 
 interface DragState {
   isDragging: boolean;
@@ -34,12 +35,7 @@ export function useZoneAssignment({
   
   // Find zone containing a point (in cm coordinates)
   const findZoneAtPosition = useCallback((x: number, y: number) => {
-    return zones.find(zone => {
-      return x >= zone.x && 
-             x <= zone.x + zone.w &&
-             y >= zone.y && 
-             y <= zone.y + zone.h;
-    });
+    return zones.find(zone => isPointInZone({ x, y }, zone));
   }, [zones]);
   
   // Get zone containing furniture center (in screen coordinates)
@@ -1,7 +1,10 @@
 import { z } from 'zod';
+import { AnalysisJobSummary } from '@/types';
+import { readErrorMessage } from './response';
 
 // Schema for AI analysis response
 const analysisResponseSchema = z.object({
+  shortId: z.string().optional(),
   dimensions: z.object({
     width: z.number(),
     height: z.number(),
@@ -14,42 +17,115 @@ const analysisResponseSchema = z.object({
     w: z.number(),
     h: z.number(),
   })).optional(),
+  // Whether the plan was sized from dimension labels or the total area, and how well labels agreed (cm)
+  calibration: z.object({
+    method: z.enum(['dimensions', 'area']),
+    labelCount: z.number(),
+    rmsError: z.number().optional(),
+  }).optional(),
 });
 
 export type AnalysisResponse = z.infer<typeof analysisResponseSchema>;
 
+// How often a running job is polled, in ms
+const POLL_INTERVAL = 1000;
+
 interface AnalyzeFloorPlanOptions {
   file: File;
+  totalArea?: number;
   signal?: AbortSignal;
+  onProgress?: (job: AnalysisJobSummary) => void;
 }
 
 /**
- * Analyzes a floor plan image using AI to extract dimensions and zones
+ * Uploads a floor plan image and queues it for analysis
  */
-export async function analyzeFloorPlan({ file, signal }: AnalyzeFloorPlanOptions): Promise<AnalysisResponse> {
+export async function startAnalysisJob(file: File, totalArea?: number, signal?: AbortSignal): Promise<AnalysisJobSummary> {
   const formData = new FormData();
   formData.append('file', file);
+  if (totalArea) {
+    formData.append('totalArea', String(totalArea));
+  }
 
   const response = await fetch('/api/analyze-floorplan', {
     method: 'POST',
     body: formData,
     signal,
   });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to start floor plan analysis'));
+  }
+  return response.json();
+}
 
+/**
+ * Loads the current stage of an analysis job
+ */
+export async function fetchAnalysisJob(jobId: string, signal?: AbortSignal): Promise<AnalysisJobSummary> {
+  const response = await fetch(`/api/analyze-floorplan/jobs/${jobId}`, { signal });
   if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Floor plan analysis failed: ${error}`);
+    throw new Error(await readErrorMessage(response, 'Failed to fetch analysis progress'));
   }
+  return response.json();
+}
 
-  const data = await response.json();
+/**
+ * Cancels a running analysis job; nothing is saved for it afterwards
+ */
+export async function cancelAnalysisJob(jobId: string): Promise<void> {
+  const response = await fetch(`/api/analyze-floorplan/jobs/${jobId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to cancel analysis'));
+  }
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Analysis cancelled', 'AbortError'));
+    }, { once: true });
+  });
+}
+
+/**
+ * Analyzes a floor plan image using AI to extract dimensions and zones.
+ * Reports each stage through onProgress; aborting the signal cancels the job.
+ */
+export async function analyzeFloorPlan({ file, totalArea, signal, onProgress }: AnalyzeFloorPlanOptions): Promise<AnalysisResponse> {
+  let job = await startAnalysisJob(file, totalArea, signal);
+  onProgress?.(job);
+
+  try {
+    while (job.status !== 'done') {
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Floor plan analysis failed');
+      }
+      if (job.status === 'cancelled') {
+        throw new DOMException('Analysis cancelled', 'AbortError');
+      }
+      await wait(POLL_INTERVAL, signal);
+      job = await fetchAnalysisJob(job.id, signal);
+      onProgress?.(job);
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      const jobId = job.id;
+      cancelAnalysisJob(jobId).catch(cancelError => {
+        console.warn(`Failed to cancel analysis job ${jobId}:`, cancelError);
+      });
+    }
+    throw error;
+  }
 
   // Validate response data
-  const result = analysisResponseSchema.safeParse(data);
+  const result = analysisResponseSchema.safeParse(job.result);
   if (!result.success) {
     console.warn('Invalid analysis response format:', result.error);
     // Return raw data if validation fails but log warning
-    return data as AnalysisResponse;
+    return job.result as AnalysisResponse;
   }
 
   return result.data;
-}
\ No newline at end of file
+}
@@ -0,0 +1,221 @@
+import {
+  serverMessageSchema,
+  getEntityKey,
+  ClientMessage,
+  CollaborationPeer,
+  EntityOperation,
+  Presence,
+} from '@/lib/collaboration/protocol';
+
+export type CollaborationStatus = 'connecting' | 'connected' | 'disconnected';
+
+// A remote edit that touched an entity we had unconfirmed edits on
+export interface CollaborationConflict {
+  kind: EntityOperation['kind'];
+  id: string;
+  peerId: string;
+  // kept-local: our edit was sequenced after theirs; removed: they deleted the entity
+  resolution: 'kept-local' | 'removed';
+}
+
+export interface CollaborationCallbacks {
+  onStatusChange?: (status: CollaborationStatus) => void;
+  onPeersReset?: (peers: { peer: CollaborationPeer; presence: Presence }[]) => void;
+  onPeerJoined?: (peer: CollaborationPeer) => void;
+  onPeerLeft?: (peerId: string) => void;
+  onPresence?: (peerId: string, presence: Presence) => void;
+  // Operations to apply to the local entities, outside the undo history
+  onRemoteOperations?: (operations: EntityOperation[]) => void;
+  onConflict?: (conflict: CollaborationConflict) => void;
+}
+
+export interface CollaborationSessionOptions {
+  url: string;
+  projectId: string;
+  peer: Omit<CollaborationPeer, 'id'>;
+  callbacks: CollaborationCallbacks;
+  // Lets tests and scripts pass in another WebSocket implementation
+  createSocket?: (url: string) => WebSocket;
+}
+
+interface PendingBatch {
+  batchId: string;
+  operations: EntityOperation[];
+}
+
+const MAX_BATCH_SIZE = 500;
+const MAX_RECONNECT_DELAY = 10000;
+
+/**
+ * One editor's connection to a project's collaboration room.
+ *
+ * Local operations are already applied when they are sent, and stay pending
+ * until the server acknowledges them. Remote operations that arrive before
+ * the ack were ordered before ours by the server, so the pending operations
+ * for the same entities are re-applied on top to match the server's outcome.
+ * Operations missed while disconnected are not replayed; pending batches are
+ * resent after reconnecting.
+ */
+export class CollaborationSession {
+  private socket: WebSocket | null = null;
+  private pending: PendingBatch[] = [];
+  private presence: Presence = { cursor: null, selection: [] };
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private nextBatch = 0;
+  public peerId: string | null = null;
+
+  constructor(private options: CollaborationSessionOptions) {}
+
+  connect(): void {
+    this.closed = false;
+    this.open();
+  }
+
+  disconnect(): void {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+    this.peerId = null;
+    this.options.callbacks.onStatusChange?.('disconnected');
+  }
+
+  // Queue operations that have been applied locally
+  sendOperations(operations: EntityOperation[]): void {
+    for (let start = 0; start < operations.length; start += MAX_BATCH_SIZE) {
+      const batch: PendingBatch = {
+        batchId: `${Date.now().toString(36)}-${this.nextBatch++}`,
+        operations: operations.slice(start, start + MAX_BATCH_SIZE),
+      };
+      this.pending.push(batch);
+      if (this.peerId) {
+        this.send({ type: 'operations', ...batch });
+      }
+    }
+  }
+
+  updatePresence(presence: Presence): void {
+    this.presence = presence;
+    if (this.peerId) {
+      this.send({ type: 'presence', presence });
+    }
+  }
+
+  private open() {
+    const { url, createSocket } = this.options;
+    this.options.callbacks.onStatusChange?.('connecting');
+
+    const socket = createSocket ? createSocket(url) : new WebSocket(url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.send({ type: 'join', projectId: this.options.projectId, peer: this.options.peer });
+    };
+    socket.onmessage = (event) => this.handleMessage(event.data);
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.peerId = null;
+      this.options.callbacks.onStatusChange?.('disconnected');
+      this.options.callbacks.onPeersReset?.([]);
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (this.closed) return;
+    const delay = Math.min(MAX_RECONNECT_DELAY, 500 * 2 ** this.reconnectAttempts);
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private send(message: ClientMessage) {
+    if (this.socket && this.socket.readyState === this.socket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private handleMessage(data: unknown) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(String(data));
+    } catch {
+      console.warn('Ignoring malformed collaboration message');
+      return;
+    }
+    const result = serverMessageSchema.safeParse(parsed);
+    if (!result.success) {
+      console.warn('Ignoring invalid collaboration message:', result.error.issues);
+      return;
+    }
+
+    const { callbacks } = this.options;
+    const message = result.data;
+    switch (message.type) {
+      case 'welcome':
+        this.peerId = message.peerId;
+        this.reconnectAttempts = 0;
+        callbacks.onStatusChange?.('connected');
+        callbacks.onPeersReset?.(message.peers);
+        this.send({ type: 'presence', presence: this.presence });
+        this.pending.forEach(batch => this.send({ type: 'operations', ...batch }));
+        break;
+      case 'peer-joined':
+        callbacks.onPeerJoined?.(message.peer);
+        break;
+      case 'peer-left':
+        callbacks.onPeerLeft?.(message.peerId);
+        break;
+      case 'presence':
+        callbacks.onPresence?.(message.peerId, message.presence);
+        break;
+      case 'operations':
+        this.applyRemote(message.peerId, message.operations);
+        break;
+      case 'ack':
+        this.pending = this.pending.filter(batch => batch.batchId !== message.batchId);
+        break;
+      case 'error':
+        console.warn('Collaboration server error:', message.message);
+        break;
+    }
+  }
+
+  private applyRemote(peerId: string, operations: EntityOperation[]) {
+    const pendingByKey = new Map<string, EntityOperation[]>();
+    this.pending.forEach(batch => batch.operations.forEach(operation => {
+      const key = getEntityKey(operation);
+      pendingByKey.set(key, [...(pendingByKey.get(key) ?? []), operation]);
+    }));
+
+    // Re-apply our unconfirmed operations on entities the remote batch touched
+    const conflicts = new Map<string, CollaborationConflict>();
+    const reapplied: EntityOperation[] = [];
+    operations.forEach(operation => {
+      const key = getEntityKey(operation);
+      const local = pendingByKey.get(key);
+      if (!local || conflicts.has(key)) return;
+
+      // The server drops our patches to a deleted entity but keeps a re-add
+      const removed = operation.type === 'delete' && !local.some(op => op.type === 'upsert');
+      conflicts.set(key, {
+        kind: operation.kind,
+        id: operation.id,
+        peerId,
+        resolution: removed ? 'removed' : 'kept-local',
+      });
+      reapplied.push(...local);
+    });
+
+    this.options.callbacks.onRemoteOperations?.([...operations, ...reapplied]);
+    conflicts.forEach(conflict => this.options.callbacks.onConflict?.(conflict));
+  }
+}
@@ -0,0 +1,18 @@
+import { ImportedFloorPlanData, ZoneCorrection } from '@/types';
+import { readErrorMessage } from './response';
+
+/**
+ * Stores the review of an imported plan's detected zones
+ * @returns The imported plan with its reviewed zones and openings
+ */
+export async function saveImportReview(shortId: string, corrections: ZoneCorrection[]): Promise<ImportedFloorPlanData> {
+  const response = await fetch(`/api/import/${shortId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ corrections }),
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to save the review'));
+  }
+  return response.json();
+}
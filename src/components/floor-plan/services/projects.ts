@@ -0,0 +1,52 @@
+import { CreateProjectInput, FloorPlanSettings, ProjectData, SaveProjectData } from '@/types';
+import { readErrorMessage } from './response';
+
+// A saved project as the project route returns it; settings are null when none were saved
+export type SavedProject = Omit<ProjectData, 'settings' | 'createdAt' | 'updatedAt'> & {
+  settings: FloorPlanSettings | null;
+};
+
+/**
+ * Creates an empty project owned by the current user
+ * @returns The new project's ID, which opens it at /editor/project/[id]
+ */
+export async function createProject(input: CreateProjectInput): Promise<{ id: string }> {
+  const response = await fetch('/api/projects', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to create project'));
+  }
+  const { id } = await response.json();
+  return { id };
+}
+
+/**
+ * Loads a project the current user owns, with its contents
+ */
+export async function fetchProject(projectId: string): Promise<SavedProject> {
+  const response = await fetch(`/api/projects/${projectId}`);
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to load project'));
+  }
+  return response.json();
+}
+
+/**
+ * Saves a project's contents, recorded as a new version
+ * @returns The new version number
+ */
+export async function saveProject(projectId: string, data: SaveProjectData): Promise<number> {
+  const response = await fetch(`/api/projects/${projectId}/save`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(data),
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to save project'));
+  }
+  const { version } = await response.json();
+  return version;
+}
@@ -0,0 +1,11 @@
+/**
+ * Error message from a failed API response, or the fallback when the body has none
+ */
+export async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const body = await response.json();
+    return body.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
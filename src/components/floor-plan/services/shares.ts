@@ -0,0 +1,67 @@
+import { ProjectShareSummary } from '@/types';
+import { readErrorMessage } from './response';
+
+export interface ProjectSharing {
+  isPublic: boolean;
+  shares: ProjectShareSummary[];
+}
+
+/**
+ * URL of the read-only viewer for a share token
+ */
+export function getShareUrl(token: string): string {
+  return `${window.location.origin}/share/${token}`;
+}
+
+/**
+ * Loads a project's visibility and share links
+ */
+export async function fetchProjectSharing(projectId: string): Promise<ProjectSharing> {
+  const response = await fetch(`/api/projects/${projectId}/share`);
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to fetch share links'));
+  }
+  return response.json();
+}
+
+/**
+ * Creates a share link, which also makes the project public
+ */
+export async function createShareLink(projectId: string, expiresInDays?: number): Promise<ProjectShareSummary> {
+  const response = await fetch(`/api/projects/${projectId}/share`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ expiresInDays }),
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to create share link'));
+  }
+  const { share } = await response.json();
+  return share;
+}
+
+/**
+ * Makes a project public or private; private projects disable every share link
+ */
+export async function setProjectVisibility(projectId: string, isPublic: boolean): Promise<void> {
+  const response = await fetch(`/api/projects/${projectId}/share`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ isPublic }),
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to update visibility'));
+  }
+}
+
+/**
+ * Permanently disables a share link
+ */
+export async function revokeShareLink(projectId: string, shareId: string): Promise<void> {
+  const response = await fetch(`/api/projects/${projectId}/share/${shareId}`, {
+    method: 'DELETE',
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to revoke share link'));
+  }
+}
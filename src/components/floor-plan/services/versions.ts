@@ -0,0 +1,60 @@
+import { ProjectVersionSummary, SaveProjectData } from '@/types';
+import { readErrorMessage } from './response';
+
+export interface ProjectVersionDetail extends ProjectVersionSummary {
+  data: SaveProjectData;
+}
+
+/**
+ * Lists a project's saved versions, newest first
+ */
+export async function fetchProjectVersions(projectId: string): Promise<ProjectVersionSummary[]> {
+  const response = await fetch(`/api/projects/${projectId}/versions`);
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to fetch versions'));
+  }
+  const { versions } = await response.json();
+  return versions;
+}
+
+/**
+ * Loads one version including its snapshot data
+ */
+export async function fetchProjectVersion(projectId: string, versionId: string): Promise<ProjectVersionDetail> {
+  const response = await fetch(`/api/projects/${projectId}/versions/${versionId}`);
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to fetch version'));
+  }
+  return response.json();
+}
+
+/**
+ * Saves the editor's current data as a named checkpoint
+ * @returns The checkpoint's version number
+ */
+export async function createCheckpoint(projectId: string, name: string, data: SaveProjectData): Promise<number> {
+  const response = await fetch(`/api/projects/${projectId}/versions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ name, data }),
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to create checkpoint'));
+  }
+  const { version } = await response.json();
+  return version;
+}
+
+/**
+ * Restores a version as the project's current data, recorded as a new version
+ */
+export async function restoreProjectVersion(projectId: string, versionId: string): Promise<SaveProjectData> {
+  const response = await fetch(`/api/projects/${projectId}/versions/${versionId}/restore`, {
+    method: 'POST',
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'Failed to restore version'));
+  }
+  const { data } = await response.json();
+  return data;
+}
@@ -3,14 +3,22 @@
  * Implements the Command pattern for reversible operations
  */
 
-import { FloorPlanZone, FurnitureItemType, FloorPlanSettings } from '@/types';
-import { DiagramShape } from '../editor/schemas';
+import { FloorPlanZone, FurnitureItemType, FloorPlanSettings, WallSegment, Opening, Level, Measurement, Dimension, DimensionAnchor } from '@/types';
+import { DiagramShape } from '../canvas/tools/diagram_schemas';
+import type { EntityKind, EntityOperation } from '@/lib/collaboration/protocol';
+import { EntityChange, SETTINGS_ID, applyEntityOperations, toWireValues } from '../utils/entity_operations';
+import { isDimensionAttachedTo } from '../utils/dimension_logic';
 
 export interface EditorState {
   zones: FloorPlanZone[];
   furniture: FurnitureItemType[];
   settings: FloorPlanSettings;
-  diagramShapes?: DiagramShape[];
+  diagrams?: DiagramShape[];
+  walls?: WallSegment[];
+  openings?: Opening[];
+  levels?: Level[];
+  measurements?: Measurement[];
+  dimensions?: Dimension[];
 }
 
 export interface Command {
@@ -21,8 +29,35 @@ export interface Command {
   undo(state: EditorState): EditorState;
   canMergeWith?(other: Command): boolean;
   mergeWith?(other: Command): Command;
+  // Per-entity effect of executing or undoing, broadcast to collaborators
+  getOperations?(direction: CommandDirection): EntityOperation[];
 }
 
+export type CommandDirection = 'execute' | 'undo';
+
+// Called after a command is executed, undone or redone
+export type CommandListener = (command: Command, direction: CommandDirection) => void;
+
+// Operation helpers shared by the add/remove/update commands
+const upsertOperation = (kind: EntityKind, entity: { id: string }): EntityOperation =>
+  ({ type: 'upsert', kind, id: entity.id, value: { ...entity } });
+
+const deleteOperation = (kind: EntityKind, id: string): EntityOperation =>
+  ({ type: 'delete', kind, id });
+
+const patchOperation = (kind: EntityKind, id: string, values: object): EntityOperation =>
+  ({ type: 'patch', kind, id, values: toWireValues(values) });
+
+// Split the dimensions into those attached to an entity and the rest; removing the
+// entity removes its dimensions and undoing brings them back
+const partitionDimensions = (state: EditorState, type: DimensionAnchor['type'], id: string) => {
+  const dimensions = state.dimensions ?? [];
+  return {
+    attached: dimensions.filter(dimension => isDimensionAttachedTo(dimension, type, id)),
+    kept: dimensions.filter(dimension => !isDimensionAttachedTo(dimension, type, id)),
+  };
+};
+
 // Base command implementations
 export abstract class BaseCommand implements Command {
   public id: string;
@@ -68,9 +103,15 @@ export class AddZoneCommand extends BaseCommand {
       zones: state.zones.filter(z => z.id !== this.zone.id)
     };
   }
+
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    return [direction === 'execute' ? upsertOperation('zone', this.zone) : deleteOperation('zone', this.zone.id)];
+  }
 }
 
 export class RemoveZoneCommand extends BaseCommand {
+  private dimensions: Dimension[] = [];
+
   constructor(
     private zone: FloorPlanZone
   ) {
@@ -78,8 +119,11 @@ export class RemoveZoneCommand extends BaseCommand {
   }
 
   execute(state: EditorState): EditorState {
+    const { attached, kept } = partitionDimensions(state, 'zone', this.zone.id);
+    this.dimensions = attached;
     return {
       ...state,
+      dimensions: kept,
       zones: state.zones.filter(z => z.id !== this.zone.id)
     };
   }
@@ -87,9 +131,16 @@ export class RemoveZoneCommand extends BaseCommand {
   undo(state: EditorState): EditorState {
     return {
       ...state,
-      zones: [...state.zones, this.zone]
+      zones: [...state.zones, this.zone],
+      dimensions: [...(state.dimensions ?? []), ...this.dimensions]
     };
   }
+
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    return direction === 'execute'
+      ? [deleteOperation('zone', this.zone.id), ...this.dimensions.map(dimension => deleteOperation('dimension', dimension.id))]
+      : [upsertOperation('zone', this.zone), ...this.dimensions.map(dimension => upsertOperation('dimension', dimension))];
+  }
 }
 
 // Update Zone Command
@@ -120,6 +171,10 @@ export class UpdateZoneCommand extends BaseCommand {
     };
   }
 
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    return [patchOperation('zone', this.zoneId, direction === 'execute' ? this.newValues : this.oldValues)];
+  }
+
   canMergeWith(other: Command): boolean {
     return other instanceof UpdateZoneCommand &&
       other.zoneId === this.zoneId &&
@@ -156,9 +211,15 @@ export class AddFurnitureCommand extends BaseCommand {
       furniture: state.furniture.filter(f => f.id !== this.furniture.id)
     };
   }
+
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    return [direction === 'execute' ? upsertOperation('furniture', this.furniture) : deleteOperation('furniture', this.furniture.id)];
+  }
 }
 
 export class RemoveFurnitureCommand extends BaseCommand {
+  private dimensions: Dimension[] = [];
+
   constructor(
     private furniture: FurnitureItemType
   ) {
@@ -166,8 +227,11 @@ export class RemoveFurnitureCommand extends BaseCommand {
   }
 
   execute(state: EditorState): EditorState {
+    const { attached, kept } = partitionDimensions(state, 'furniture', this.furniture.id);
+    this.dimensions = attached;
     return {
       ...state,
+      dimensions: kept,
       furniture: state.furniture.filter(f => f.id !== this.furniture.id)
     };
   }
@@ -175,9 +239,16 @@ export class RemoveFurnitureCommand extends BaseCommand {
   undo(state: EditorState): EditorState {
     return {
       ...state,
-      furniture: [...state.furniture, this.furniture]
+      furniture: [...state.furniture, this.furniture],
+      dimensions: [...(state.dimensions ?? []), ...this.dimensions]
     };
   }
+
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    return direction === 'execute'
+      ? [deleteOperation('furniture', this.furniture.id), ...this.dimensions.map(dimension => deleteOperation('dimension', dimension.id))]
+      : [upsertOperation('furniture', this.furniture), ...this.dimensions.map(dimension => upsertOperation('dimension', dimension))];
+  }
 }
 
 // Update Furniture Command
@@ -208,6 +279,10 @@ export class UpdateFurnitureCommand extends BaseCommand {
     };
   }
 
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    return [patchOperation('furniture', this.furnitureId, direction === 'execute' ? this.newValues : this.oldValues)];
+  }
+
   canMergeWith(other: Command): boolean {
     return other instanceof UpdateFurnitureCommand &&
       other.furnitureId === this.furnitureId &&
@@ -223,6 +298,282 @@ export class UpdateFurnitureCommand extends BaseCommand {
   }
 }
 
+// Add/Remove Wall Commands
+export class AddWallCommand extends BaseCommand {
+  constructor(
+    private wall: WallSegment
+  ) {
+    super('Add Wall');
+  }
+
+  execute(state: EditorState): EditorState {
+    return {
+      ...state,
+      walls: [...(state.walls ?? []), this.wall]
+    };
+  }
+
+  undo(state: EditorState): EditorState {
+    return {
+      ...state,
+      walls: (state.walls ?? []).filter(w => w.id !== this.wall.id)
+    };
+  }
+
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    return [direction === 'execute' ? upsertOperation('wall', this.wall) : deleteOperation('wall', this.wall.id)];
+  }
+}
+
+export class RemoveWallCommand extends BaseCommand {
+  private dimensions: Dimension[] = [];
+
+  constructor(
+    private wall: WallSegment
+  ) {
+    super('Remove Wall');
+  }
+
+  execute(state: EditorState): EditorState {
+    const { attached, kept } = partitionDimensions(state, 'wall', this.wall.id);
+    this.dimensions = attached;
+    return {
+      ...state,
+      dimensions: kept,
+      walls: (state.walls ?? []).filter(w => w.id !== this.wall.id)
+    };
+  }
+
+  undo(state: EditorState): EditorState {
+    return {
+      ...state,
+      walls: [...(state.walls ?? []), this.wall],
+      dimensions: [...(state.dimensions ?? []), ...this.dimensions]
+    };
+  }
+
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    return direction === 'execute'
+      ? [deleteOperation('wall', this.wall.id), ...this.dimensions.map(dimension => deleteOperation('dimension', dimension.id))]
+      : [upsertOperation('wall', this.wall), ...this.dimensions.map(dimension => upsertOperation('dimension', dimension))];
+  }
+}
+
+// Update Wall Command
+export class UpdateWallCommand extends BaseCommand {
+  constructor(
+    private wallId: string,
+    private oldValues: Partial<WallSegment>,
+    private newValues: Partial<WallSegment>
+  ) {
+    super('Update Wall');
+  }
+
+  execute(state: EditorState): EditorState {
+    return {
+      ...state,
+      walls: (state.walls ?? []).map(wall =>
+        wall.id === this.wallId ? { ...wall, ...this.newValues } : wall
+      )
+    };
+  }
+
+  undo(state: EditorState): EditorState {
+    return {
+      ...state,
+      walls: (state.walls ?? []).map(wall =>
+        wall.id === this.wallId ? { ...wall, ...this.oldValues } : wall
+      )
+    };
+  }
+
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    return [patchOperation('wall', this.wallId, direction === 'execute' ? this.newValues : this.oldValues)];
+  }
+
+  canMergeWith(other: Command): boolean {
+    return other instanceof UpdateWallCommand &&
+      other.wallId === this.wallId &&
+      Date.now() - other.timestamp < 1000;
+  }
+
+  mergeWith(other: UpdateWallCommand): Command {
+    return new UpdateWallCommand(
+      this.wallId,
+      this.oldValues,
+      other.newValues
+    );
+  }
+}
+
+// Add/Remove Opening Commands
+export class AddOpeningCommand extends BaseCommand {
+  constructor(
+    private opening: Opening
+  ) {
+    super(opening.type === 'door' ? 'Add Door' : 'Add Window');
+  }
+
+  execute(state: EditorState): EditorState {
+    return {
+      ...state,
+      openings: [...(state.openings ?? []), this.opening]
+    };
+  }
+
+  undo(state: EditorState): EditorState {
+    return {
+      ...state,
+      openings: (state.openings ?? []).filter(o => o.id !== this.opening.id)
+    };
+  }
+
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    return [direction === 'execute' ? upsertOperation('opening', this.opening) : deleteOperation('opening', this.opening.id)];
+  }
+}
+
+export class RemoveOpeningCommand extends BaseCommand {
+  constructor(
+    private opening: Opening
+  ) {
+    super(opening.type === 'door' ? 'Remove Door' : 'Remove Window');
+  }
+
+  execute(state: EditorState): EditorState {
+    return {
+      ...state,
+      openings: (state.openings ?? []).filter(o => o.id !== this.opening.id)
+    };
+  }
+
+  undo(state: EditorState): EditorState {
+    return {
+      ...state,
+      openings: [...(state.openings ?? []), this.opening]
+    };
+  }
+
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    return [direction === 'execute' ? deleteOperation('opening', this.opening.id) : upsertOperation('opening', this.opening)];
+  }
+}
+
+// Update Opening Command
+export class UpdateOpeningCommand extends BaseCommand {
+  constructor(
+    private openingId: string,
+    private oldValues: Partial<Opening>,
+    private newValues: Partial<Opening>
+  ) {
+    super('Update Opening');
+  }
+
+  execute(state: EditorState): EditorState {
+    return {
+      ...state,
+      openings: (state.openings ?? []).map(opening =>
+        opening.id === this.openingId ? { ...opening, ...this.newValues } : opening
+      )
+    };
+  }
+
+  undo(state: EditorState): EditorState {
+    return {
+      ...state,
+      openings: (state.openings ?? []).map(opening =>
+        opening.id === this.openingId ? { ...opening, ...this.oldValues } : opening
+      )
+    };
+  }
+
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    return [patchOperation('opening', this.openingId, direction === 'execute' ? this.newValues : this.oldValues)];
+  }
+
+  canMergeWith(other: Command): boolean {
+    return other instanceof UpdateOpeningCommand &&
+      other.openingId === this.openingId &&
+      Date.now() - other.timestamp < 1000;
+  }
+
+  mergeWith(other: UpdateOpeningCommand): Command {
+    return new UpdateOpeningCommand(
+      this.openingId,
+      this.oldValues,
+      other.newValues
+    );
+  }
+}
+
+// Update Settings Command, for the plan settings shared with collaborators
+export class UpdateSettingsCommand extends BaseCommand {
+  constructor(
+    private oldValues: Partial<FloorPlanSettings>,
+    private newValues: Partial<FloorPlanSettings>
+  ) {
+    super('Update Settings');
+  }
+
+  execute(state: EditorState): EditorState {
+    return {
+      ...state,
+      settings: { ...state.settings, ...this.newValues }
+    };
+  }
+
+  undo(state: EditorState): EditorState {
+    return {
+      ...state,
+      settings: { ...state.settings, ...this.oldValues }
+    };
+  }
+
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    return [patchOperation('settings', SETTINGS_ID, direction === 'execute' ? this.newValues : this.oldValues)];
+  }
+
+  canMergeWith(other: Command): boolean {
+    return other instanceof UpdateSettingsCommand &&
+      Object.keys(other.newValues).every(key => key in this.newValues) &&
+      Date.now() - other.timestamp < 1000;
+  }
+
+  mergeWith(other: UpdateSettingsCommand): Command {
+    return new UpdateSettingsCommand(
+      this.oldValues,
+      { ...this.newValues, ...other.newValues }
+    );
+  }
+}
+
+// Replace Entities Command, for edits given as whole entities such as diagram changes
+// or adding and deleting a level with everything on it
+export class ReplaceEntitiesCommand extends BaseCommand {
+  constructor(
+    name: string,
+    private changes: EntityChange[]
+  ) {
+    super(name);
+  }
+
+  execute(state: EditorState): EditorState {
+    return applyEntityOperations(state, this.getOperations('execute'));
+  }
+
+  undo(state: EditorState): EditorState {
+    return applyEntityOperations(state, this.getOperations('undo'));
+  }
+
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    const changes = direction === 'execute' ? this.changes : [...this.changes].reverse();
+    return changes.map(({ kind, before, after }) => {
+      const value = direction === 'execute' ? after : before;
+      return value ? upsertOperation(kind, value) : deleteOperation(kind, (before ?? after)!.id);
+    });
+  }
+}
+
 // Batch Command for multiple operations
 export class BatchCommand extends BaseCommand {
   constructor(
@@ -240,6 +591,11 @@ export class BatchCommand extends BaseCommand {
     // Undo in reverse order
     return [...this.commands].reverse().reduce((currentState, cmd) => cmd.undo(currentState), state);
   }
+
+  getOperations(direction: CommandDirection): EntityOperation[] {
+    const commands = direction === 'execute' ? this.commands : [...this.commands].reverse();
+    return commands.flatMap(cmd => cmd.getOperations?.(direction) ?? []);
+  }
 }
 
 // Command Manager
@@ -248,6 +604,7 @@ export class CommandManager {
   private currentIndex: number = -1;
   private maxHistorySize: number = 50;
   private store: { getState: () => EditorState; setState: (state: EditorState) => void } | null = null;
+  private listeners = new Set<CommandListener>();
 
   constructor(store?: { getState: () => EditorState; setState: (state: EditorState) => void }) {
     this.store = store || null;
@@ -273,6 +630,7 @@ export class CommandManager {
         this.history[this.currentIndex] = mergedCommand;
         const newState = mergedCommand.execute(this.store.getState());
         this.store.setState(newState);
+        this.notify(command, 'execute');
         return;
       }
     }
@@ -288,6 +646,7 @@ export class CommandManager {
     // Add command to history
     this.history.push(command);
     this.currentIndex++;
+    this.notify(command, 'execute');
 
     // Limit history size
     if (this.history.length > this.maxHistorySize) {
@@ -305,6 +664,7 @@ export class CommandManager {
     const newState = command.undo(currentState);
     this.store.setState(newState);
     this.currentIndex--;
+    this.notify(command, 'undo');
     return true;
   }
 
@@ -317,9 +677,22 @@ export class CommandManager {
     const currentState = this.store.getState();
     const newState = command.execute(currentState);
     this.store.setState(newState);
+    this.notify(command, 'execute');
     return true;
   }
 
+  // Listen for executed, undone and redone commands; returns an unsubscribe function
+  subscribe(listener: CommandListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(command: Command, direction: CommandDirection): void {
+    this.listeners.forEach(listener => listener(command, direction));
+  }
+
   // Check if undo is possible
   canUndo(): boolean {
     return this.currentIndex >= 0;
@@ -1,9 +1,20 @@
 import { create } from 'zustand';
-import { FloorPlanZone, FurnitureItemType, FloorPlanSettings, saveProjectDataSchema, zoneSchema, furnitureItemSchema } from '@/types';
+import { FloorPlanZone, FurnitureItemType, FloorPlanSettings, WallSegment, Opening, Level, Measurement, Dimension, saveProjectDataSchema, zoneSchema, furnitureItemSchema, wallSchema, openingSchema, levelSchema, measurementSchema, dimensionSchema } from '@/types';
 import { DiagramShape, DrawingTool, validateShapes } from '../canvas/tools/diagram_schemas';
+import { DEFAULT_LEVEL } from '../utils/level_logic';
+import { DimensionKind, DimensionStyle } from '../utils/dimension_logic';
 
 // Editor mode type
-export type EditorMode = 'zones' | 'furniture' | 'diagrams';
+export type EditorMode = 'zones' | 'furniture' | 'diagrams' | 'walls';
+
+// Wall tool type - door and window place openings on walls and zone edges
+export type WallTool = 'select' | 'draw' | 'door' | 'window';
+
+// Measure tool type - works on top of every editor mode while active
+export type MeasureTool = Measurement['kind'];
+
+// Dimension tool type - attaches dimension lines to zones, walls and furniture
+export type DimensionTool = DimensionKind;
 
 // Store state interface
 export interface EditorState {
@@ -12,6 +23,11 @@ export interface EditorState {
   furniture: FurnitureItemType[];
   settings: FloorPlanSettings;
   diagrams: DiagramShape[];
+  walls: WallSegment[];
+  openings: Opening[];
+  levels: Level[];
+  measurements: Measurement[];
+  dimensions: Dimension[];
 
   // Diagram selection
   selectedDiagramId: string | null;
@@ -26,10 +42,17 @@ export interface EditorState {
   editorMode: EditorMode;
   selectedZoneId: string | null;
   selectedFurnitureId: string | null;
+  selectedWallId: string | null;
+  selectedOpeningId: string | null;
   showAIImport: boolean;
   showKeyboardShortcuts: boolean;
   sidebarCollapsed: boolean;
 
+  // Level state - the level below the current one can show as a faded underlay
+  currentLevelId: string;
+  showLevelUnderlay: boolean;
+  levelUnderlayOpacity: number;
+
   // Drawing state
   currentDiagramTool: DrawingTool;
   diagramStrokeColor: string;
@@ -42,18 +65,48 @@ export interface EditorState {
   setDiagramFillColor: (color: string) => void;
   setDiagramStrokeWidth: (width: number) => void;
 
+  // Wall drawing state
+  currentWallTool: WallTool;
+  wallThickness: number;
+  wallHeight: number;
+
+  // Actions for wall drawing state
+  setCurrentWallTool: (tool: WallTool) => void;
+  setWallThickness: (thickness: number) => void;
+  setWallHeight: (height: number) => void;
+
+  // Measure tool state - null when no measurement is being taken
+  currentMeasureTool: MeasureTool | null;
+  setCurrentMeasureTool: (tool: MeasureTool | null) => void;
+
+  // Dimension tool state - null when no dimension is being placed
+  currentDimensionTool: DimensionTool | null;
+  dimensionStyle: DimensionStyle;
+  setCurrentDimensionTool: (tool: DimensionTool | null) => void;
+  setDimensionStyle: (style: DimensionStyle) => void;
+
   // Actions
   setZones: (zones: FloorPlanZone[] | ((prev: FloorPlanZone[]) => FloorPlanZone[])) => void;
   setFurniture: (furniture: FurnitureItemType[] | ((prev: FurnitureItemType[]) => FurnitureItemType[])) => void;
   setSettings: (settings: FloorPlanSettings | ((prev: FloorPlanSettings) => FloorPlanSettings)) => void;
   setDiagrams: (diagrams: DiagramShape[] | ((prev: DiagramShape[]) => DiagramShape[])) => void;
+  setWalls: (walls: WallSegment[] | ((prev: WallSegment[]) => WallSegment[])) => void;
+  setOpenings: (openings: Opening[] | ((prev: Opening[]) => Opening[])) => void;
+  setLevels: (levels: Level[] | ((prev: Level[]) => Level[])) => void;
+  setMeasurements: (measurements: Measurement[] | ((prev: Measurement[]) => Measurement[])) => void;
+  setDimensions: (dimensions: Dimension[] | ((prev: Dimension[]) => Dimension[])) => void;
 
   setEditorMode: (mode: EditorMode) => void;
   setSelectedZoneId: (id: string | null) => void;
   setSelectedFurnitureId: (id: string | null) => void;
+  setSelectedWallId: (id: string | null) => void;
+  setSelectedOpeningId: (id: string | null) => void;
   setShowAIImport: (show: boolean) => void;
   setShowKeyboardShortcuts: (show: boolean) => void;
   setSidebarCollapsed: (collapsed: boolean) => void;
+  setCurrentLevelId: (id: string) => void;
+  setShowLevelUnderlay: (show: boolean) => void;
+  setLevelUnderlayOpacity: (opacity: number) => void;
 
   // Composite actions
   updateZone: (id: string, updates: Partial<FloorPlanZone>) => void;
@@ -64,6 +117,14 @@ export interface EditorState {
   deleteFurniture: (id: string) => void;
   addFurniture: (furniture: Omit<FurnitureItemType, 'id'>) => void;
 
+  updateWall: (id: string, updates: Partial<WallSegment>) => void;
+  deleteWall: (id: string) => void;
+  addWall: (wall: Omit<WallSegment, 'id'>) => void;
+
+  updateOpening: (id: string, updates: Partial<Opening>) => void;
+  deleteOpening: (id: string) => void;
+  addOpening: (opening: Omit<Opening, 'id'>) => void;
+
   updateSettings: (updates: Partial<FloorPlanSettings>) => void;
 
   // Bulk operations with validation
@@ -72,6 +133,11 @@ export interface EditorState {
     furniture?: FurnitureItemType[];
     settings?: Partial<FloorPlanSettings>;
     diagrams?: unknown[];
+    walls?: unknown[];
+    openings?: unknown[];
+    levels?: unknown[];
+    measurements?: unknown[];
+    dimensions?: unknown[];
   }) => void;
 
   resetToDefaults: () => void;
@@ -82,6 +148,11 @@ export interface EditorState {
     furniture: FurnitureItemType[];
     settings: FloorPlanSettings;
     diagrams: DiagramShape[];
+    walls: WallSegment[];
+    openings: Opening[];
+    levels: Level[];
+    measurements: Measurement[];
+    dimensions: Dimension[];
   } | null;
 }
 
@@ -89,7 +160,7 @@ export interface EditorState {
 const generateId = () => Math.random().toString(36).slice(2, 9);
 
 // Default settings
-const DEFAULT_SETTINGS: FloorPlanSettings = {
+export const DEFAULT_SETTINGS: FloorPlanSettings = {
   scale: 0.9,
   snap: 5,
   showGrid: true,
@@ -112,21 +183,45 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   furniture: [],
   settings: DEFAULT_SETTINGS,
   diagrams: [],
+  walls: [],
+  openings: [],
+  levels: [DEFAULT_LEVEL],
+  measurements: [],
+  dimensions: [],
 
   editorMode: 'zones',
   selectedZoneId: null,
   selectedFurnitureId: null,
+  selectedWallId: null,
+  selectedOpeningId: null,
   selectedDiagramId: null,
   showAIImport: false,
   showKeyboardShortcuts: false,
   sidebarCollapsed: false,
 
+  // Level state
+  currentLevelId: DEFAULT_LEVEL.id,
+  showLevelUnderlay: true,
+  levelUnderlayOpacity: 0.3,
+
   // Drawing state
   currentDiagramTool: 'select' as DrawingTool,
   diagramStrokeColor: '#000000',
   diagramFillColor: 'transparent',
   diagramStrokeWidth: 2,
 
+  // Wall drawing state
+  currentWallTool: 'draw' as WallTool,
+  wallThickness: 15,
+  wallHeight: 250,
+
+  // Measure tool state
+  currentMeasureTool: null,
+
+  // Dimension tool state
+  currentDimensionTool: null,
+  dimensionStyle: 'tick',
+
   // Computed values
   get selectedDiagramShape() {
     const { diagrams, selectedDiagramId } = get();
@@ -150,14 +245,39 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     diagrams: typeof diagrams === 'function' ? diagrams(state.diagrams) : diagrams
   })),
 
+  setWalls: (walls) => set((state) => ({
+    walls: typeof walls === 'function' ? walls(state.walls) : walls
+  })),
+
+  setOpenings: (openings) => set((state) => ({
+    openings: typeof openings === 'function' ? openings(state.openings) : openings
+  })),
+
+  setLevels: (levels) => set((state) => ({
+    levels: typeof levels === 'function' ? levels(state.levels) : levels
+  })),
+
+  setMeasurements: (measurements) => set((state) => ({
+    measurements: typeof measurements === 'function' ? measurements(state.measurements) : measurements
+  })),
+
+  setDimensions: (dimensions) => set((state) => ({
+    dimensions: typeof dimensions === 'function' ? dimensions(state.dimensions) : dimensions
+  })),
+
   // UI state setters
   setEditorMode: (editorMode) => set({ editorMode }),
   setSelectedZoneId: (selectedZoneId) => set({ selectedZoneId }),
   setSelectedFurnitureId: (selectedFurnitureId) => set({ selectedFurnitureId }),
+  setSelectedWallId: (selectedWallId) => set({ selectedWallId }),
+  setSelectedOpeningId: (selectedOpeningId) => set({ selectedOpeningId }),
   setSelectedDiagramId: (selectedDiagramId) => set({ selectedDiagramId }),
   setShowAIImport: (showAIImport) => set({ showAIImport }),
   setShowKeyboardShortcuts: (showKeyboardShortcuts) => set({ showKeyboardShortcuts }),
   setSidebarCollapsed: (sidebarCollapsed) => set({ sidebarCollapsed }),
+  setCurrentLevelId: (currentLevelId) => set({ currentLevelId }),
+  setShowLevelUnderlay: (showLevelUnderlay) => set({ showLevelUnderlay }),
+  setLevelUnderlayOpacity: (levelUnderlayOpacity) => set({ levelUnderlayOpacity }),
 
   // Drawing state setters
   setCurrentDiagramTool: (tool) => set({ currentDiagramTool: tool }),
@@ -165,13 +285,32 @@ export const useEditorStore = create<EditorState>((set, get) => ({
   setDiagramFillColor: (color) => set({ diagramFillColor: color }),
   setDiagramStrokeWidth: (width) => set({ diagramStrokeWidth: width }),
 
+  // Wall drawing state setters
+  setCurrentWallTool: (tool) => set({ currentWallTool: tool }),
+  setWallThickness: (thickness) => set({ wallThickness: thickness }),
+  setWallHeight: (height) => set({ wallHeight: height }),
+
+  // Measure and dimension tools share the pointer, so picking one turns the other off
+  setCurrentMeasureTool: (tool) => set((state) => ({
+    currentMeasureTool: tool,
+    currentDimensionTool: tool ? null : state.currentDimensionTool
+  })),
+
+  setCurrentDimensionTool: (tool) => set((state) => ({
+    currentDimensionTool: tool,
+    currentMeasureTool: tool ? null : state.currentMeasureTool
+  })),
+
+  setDimensionStyle: (style) => set({ dimensionStyle: style }),
+
   // Zone operations
   updateZone: (id, updates) => set((state) => ({
     zones: state.zones.map(zone => zone.id === id ? { ...zone, ...updates } : zone)
   })),
 
   deleteZone: (id) => set((state) => ({
-    zones: state.zones.filter(zone => zone.id !== id)
+    zones: state.zones.filter(zone => zone.id !== id),
+    openings: state.openings.filter(opening => !(opening.hostType === 'zone' && opening.hostId === id))
   })),
 
   addZone: (zone) => set((state) => ({
@@ -191,6 +330,33 @@ export const useEditorStore = create<EditorState>((set, get) => ({
     furniture: [...state.furniture, { ...furniture, id: generateId() }]
   })),
 
+  // Wall operations
+  updateWall: (id, updates) => set((state) => ({
+    walls: state.walls.map(wall => wall.id === id ? { ...wall, ...updates } : wall)
+  })),
+
+  deleteWall: (id) => set((state) => ({
+    walls: state.walls.filter(wall => wall.id !== id),
+    openings: state.openings.filter(opening => !(opening.hostType === 'wall' && opening.hostId === id))
+  })),
+
+  addWall: (wall) => set((state) => ({
+    walls: [...state.walls, { ...wall, id: generateId() }]
+  })),
+
+  // Opening operations
+  updateOpening: (id, updates) => set((state) => ({
+    openings: state.openings.map(opening => opening.id === id ? { ...opening, ...updates } : opening)
+  })),
+
+  deleteOpening: (id) => set((state) => ({
+    openings: state.openings.filter(opening => opening.id !== id)
+  })),
+
+  addOpening: (opening) => set((state) => ({
+    openings: [...state.openings, { ...opening, id: generateId() }]
+  })),
+
   // Settings operations
   updateSettings: (updates) => set((state) => ({
     settings: { ...state.settings, ...updates }
@@ -242,6 +408,59 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       }
     }
 
+    // Validate and load walls
+    if (data.walls && Array.isArray(data.walls)) {
+      try {
+        const validatedWalls = data.walls.map(wall => wallSchema.parse(wall));
+        updates.walls = validatedWalls;
+      } catch (error) {
+        console.warn('Invalid walls data, keeping current walls:', error);
+      }
+    }
+
+    // Validate and load openings
+    if (data.openings && Array.isArray(data.openings)) {
+      try {
+        const validatedOpenings = data.openings.map(opening => openingSchema.parse(opening));
+        updates.openings = validatedOpenings;
+      } catch (error) {
+        console.warn('Invalid openings data, keeping current openings:', error);
+      }
+    }
+
+    // Validate and load levels, falling back to a single ground floor
+    if (data.levels && Array.isArray(data.levels)) {
+      try {
+        const validatedLevels = data.levels.map(level => levelSchema.parse(level));
+        updates.levels = validatedLevels.length > 0 ? validatedLevels : [DEFAULT_LEVEL];
+        if (!updates.levels.some(level => level.id === state.currentLevelId)) {
+          updates.currentLevelId = updates.levels[0].id;
+        }
+      } catch (error) {
+        console.warn('Invalid levels data, keeping current levels:', error);
+      }
+    }
+
+    // Validate and load measurements
+    if (data.measurements && Array.isArray(data.measurements)) {
+      try {
+        const validatedMeasurements = data.measurements.map(measurement => measurementSchema.parse(measurement));
+        updates.measurements = validatedMeasurements;
+      } catch (error) {
+        console.warn('Invalid measurements data, keeping current measurements:', error);
+      }
+    }
+
+    // Validate and load dimensions
+    if (data.dimensions && Array.isArray(data.dimensions)) {
+      try {
+        const validatedDimensions = data.dimensions.map(dimension => dimensionSchema.parse(dimension));
+        updates.dimensions = validatedDimensions;
+      } catch (error) {
+        console.warn('Invalid dimensions data, keeping current dimensions:', error);
+      }
+    }
+
     // Apply updates
     set(updates);
   },
@@ -253,6 +472,14 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       furniture: [],
       settings: DEFAULT_SETTINGS,
       diagrams: [],
+      walls: [],
+      openings: [],
+      levels: [DEFAULT_LEVEL],
+      measurements: [],
+      dimensions: [],
+      currentMeasureTool: null,
+      currentDimensionTool: null,
+      currentLevelId: DEFAULT_LEVEL.id,
       editorMode: 'zones',
     });
   },
@@ -266,7 +493,13 @@ export const useEditorStore = create<EditorState>((set, get) => ({
       const validationResult = saveProjectDataSchema.safeParse({
         zones: state.zones,
         furniture: state.furniture,
-        settings: state.settings
+        settings: state.settings,
+        diagrams: state.diagrams,
+        walls: state.walls,
+        openings: state.openings,
+        levels: state.levels,
+        measurements: state.measurements,
+        dimensions: state.dimensions
       });
 
       if (validationResult.success) {
@@ -275,6 +508,11 @@ export const useEditorStore = create<EditorState>((set, get) => ({
           furniture: state.furniture,
           settings: state.settings,
           diagrams: state.diagrams,
+          walls: state.walls,
+          openings: state.openings,
+          levels: state.levels,
+          measurements: state.measurements,
+          dimensions: state.dimensions,
         };
       } else {
         console.warn('Data validation failed:', validationResult.error);
@@ -1,13 +1,24 @@
 import { create } from 'zustand';
 
 // Selection item types
-export type SelectionType = 'zone' | 'furniture' | 'diagram';
+export type SelectionType = 'zone' | 'furniture' | 'diagram' | 'wall' | 'opening';
 
 export interface SelectionItem {
   id: string;
   type: SelectionType;
 }
 
+// Another user editing the same project
+export interface RemotePeer {
+  id: string;
+  name: string;
+  color: string;
+  // Pointer position in cm, null when off the canvas
+  cursor: { x: number; y: number } | null;
+  selection: SelectionItem[];
+  levelId?: string;
+}
+
 // Selection state interface
 export interface SelectionState {
   // Current selection
@@ -17,6 +28,9 @@ export interface SelectionState {
   // Multi-selection support
   isMultiSelectMode: boolean;
 
+  // Collaborators' cursors and selections, by peer ID
+  remotePeers: Record<string, RemotePeer>;
+
   // Actions
   selectItem: (item: SelectionItem) => void;
   addToSelection: (item: SelectionItem) => void;
@@ -24,6 +38,12 @@ export interface SelectionState {
   clearSelection: () => void;
   selectMultiple: (items: SelectionItem[]) => void;
 
+  // Remote peer actions
+  setRemotePeer: (peer: RemotePeer) => void;
+  updateRemotePeer: (id: string, updates: Partial<Omit<RemotePeer, 'id'>>) => void;
+  removeRemotePeer: (id: string) => void;
+  clearRemotePeers: () => void;
+
   // Convenience getters
   getSelectedItemsByType: (type: SelectionType) => SelectionItem[];
   hasSelection: () => boolean;
@@ -37,6 +57,7 @@ export const useSelectionStore = create<SelectionState>((set, get) => ({
   selectedItems: [],
   activeSelection: null,
   isMultiSelectMode: false,
+  remotePeers: {},
 
   // Select a single item (replaces current selection)
   selectItem: (item: SelectionItem) => set((state) => {
@@ -99,6 +120,30 @@ export const useSelectionStore = create<SelectionState>((set, get) => ({
     isMultiSelectMode: items.length > 1,
   }),
 
+  // Add or replace a remote peer
+  setRemotePeer: (peer: RemotePeer) => set((state) => ({
+    remotePeers: { ...state.remotePeers, [peer.id]: peer },
+  })),
+
+  // Update a remote peer's cursor or selection; ignored for unknown peers
+  updateRemotePeer: (id: string, updates: Partial<Omit<RemotePeer, 'id'>>) => set((state) => {
+    const peer = state.remotePeers[id];
+    if (!peer) return state;
+    return {
+      remotePeers: { ...state.remotePeers, [id]: { ...peer, ...updates } },
+    };
+  }),
+
+  // Remove a peer that left
+  removeRemotePeer: (id: string) => set((state) => {
+    const remotePeers = { ...state.remotePeers };
+    delete remotePeers[id];
+    return { remotePeers };
+  }),
+
+  // Forget all peers, e.g. after disconnecting
+  clearRemotePeers: () => set({ remotePeers: {} }),
+
   // Get selected items by type
   getSelectedItemsByType: (type: SelectionType) => {
     const state = get();
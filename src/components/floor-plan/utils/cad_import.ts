@@ -0,0 +1,652 @@
+/**
+ * CAD import utilities: reading lines, polylines and text from DXF and SVG
+ * drawings and turning the layers the user picked into zones, walls and diagram shapes
+ */
+
+import type { SaveProjectData, FloorPlanZone, WallSegment } from '@/types';
+import type { DiagramShape } from '../canvas/tools/diagram_schemas';
+import { Point, getPolygonBounds, pointInPolygon, polygonArea } from './geometry';
+
+export type CadUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft' | 'px';
+
+// What a source layer becomes in the project
+export type CadLayerTarget = 'zones' | 'walls' | 'diagrams' | 'ignore';
+
+// Centimetres per drawing unit; SVG pixels are CSS pixels at 96 per inch
+export const CAD_UNIT_CM: Record<CadUnit, number> = {
+  mm: 0.1,
+  cm: 1,
+  m: 100,
+  in: 2.54,
+  ft: 30.48,
+  px: 2.54 / 96,
+};
+
+export interface CadPath {
+  layer: string;
+  points: Point[];
+  closed: boolean;
+}
+
+export interface CadLabel {
+  layer: string;
+  text: string;
+  at: Point;
+}
+
+export interface CadLayerSummary {
+  name: string;
+  closed: number;
+  open: number;
+  labels: number;
+}
+
+export interface CadDrawing {
+  format: 'dxf' | 'svg';
+  paths: CadPath[];
+  labels: CadLabel[];
+  layers: CadLayerSummary[];
+  // Unit declared by the file, if any
+  unit: CadUnit | null;
+  // DXF drawings have the Y axis pointing up
+  yUp: boolean;
+  // Entities that were not lines, polylines or text (circles, arcs, blocks, ...)
+  skipped: number;
+}
+
+export interface CadImportOptions {
+  unit: CadUnit;
+  layers: Record<string, CadLayerTarget>;
+  // Thickness in cm of walls built from lines
+  wallThickness: number;
+}
+
+/**
+ * Raised when a file cannot be read or produces a plan the editor cannot hold
+ */
+export class CadImportError extends Error {}
+
+// Free space in cm left around the imported drawing
+const MARGIN = 50;
+
+// Endpoints closer than this (in cm) close an open polyline
+const CLOSE_TOLERANCE = 1;
+
+// Zones smaller than this (in cm²) are drawing noise such as hatch fragments
+const MIN_ZONE_AREA = 100;
+
+// Largest plan the editor settings accept, in cm
+const MAX_PLAN_SIZE = 5000;
+
+// $INSUNITS codes for the units we understand
+const DXF_UNITS: Record<number, CadUnit> = {
+  1: 'in',
+  2: 'ft',
+  4: 'mm',
+  5: 'cm',
+  6: 'm',
+};
+
+function summarizeLayers(paths: CadPath[], labels: CadLabel[]): CadLayerSummary[] {
+  const layers = new Map<string, CadLayerSummary>();
+  const layer = (name: string) => {
+    if (!layers.has(name)) layers.set(name, { name, closed: 0, open: 0, labels: 0 });
+    return layers.get(name)!;
+  };
+  paths.forEach(path => {
+    layer(path.layer)[path.closed ? 'closed' : 'open']++;
+  });
+  labels.forEach(label => {
+    layer(label.layer).labels++;
+  });
+  return Array.from(layers.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// MTEXT formatting codes such as \P (new paragraph), \fArial|b0; and {braces}
+function cleanDxfText(text: string): string {
+  return text
+    .replace(/\\U\+([0-9a-fA-F]{4})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/\\P/g, ' ')
+    .replace(/\\[A-Za-z][^;\\{}]*;/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/%%[cdp]/gi, '')
+    .trim();
+}
+
+/**
+ * Read LINE, LWPOLYLINE, POLYLINE, TEXT and MTEXT entities from an ASCII DXF file.
+ * Polyline arcs (bulges) are read as straight segments.
+ */
+export function parseDxf(text: string): CadDrawing {
+  const raw = text.split(/\r?\n/);
+  const pairs: Array<[number, string]> = [];
+  for (let i = 0; i + 1 < raw.length; i += 2) {
+    const code = Number(raw[i].trim());
+    if (!Number.isInteger(code)) {
+      throw new CadImportError('Not a valid ASCII DXF file');
+    }
+    pairs.push([code, raw[i + 1].trim()]);
+  }
+  if (!pairs.some(([code, value]) => code === 0 && value === 'SECTION')) {
+    throw new CadImportError('Not a valid ASCII DXF file');
+  }
+
+  const paths: CadPath[] = [];
+  const labels: CadLabel[] = [];
+  let unit: CadUnit | null = null;
+  let skipped = 0;
+
+  // Group the pairs into entities, each starting with a code 0 pair
+  let section = '';
+  const entities: Array<{ type: string; pairs: Array<[number, string]> }> = [];
+  for (let i = 0; i < pairs.length; i++) {
+    const [code, value] = pairs[i];
+    if (code === 0 && value === 'SECTION') {
+      section = pairs[i + 1]?.[0] === 2 ? pairs[i + 1][1] : '';
+      continue;
+    }
+    if (code === 0 && value === 'ENDSEC') {
+      section = '';
+      continue;
+    }
+    if (section === 'HEADER' && code === 9 && value === '$INSUNITS') {
+      unit = DXF_UNITS[Number(pairs[i + 1]?.[1])] ?? null;
+      continue;
+    }
+    if (section !== 'ENTITIES') continue;
+    if (code === 0) {
+      entities.push({ type: value, pairs: [] });
+    } else if (entities.length > 0) {
+      entities[entities.length - 1].pairs.push([code, value]);
+    }
+  }
+
+  const numberOf = (entityPairs: Array<[number, string]>, code: number, fallback = 0) => {
+    const pair = entityPairs.find(([c]) => c === code);
+    return pair ? Number(pair[1]) : fallback;
+  };
+  const stringOf = (entityPairs: Array<[number, string]>, code: number) =>
+    entityPairs.find(([c]) => c === code)?.[1] ?? '';
+  const layerOf = (entityPairs: Array<[number, string]>) => stringOf(entityPairs, 8) || '0';
+
+  for (let i = 0; i < entities.length; i++) {
+    const { type, pairs: entityPairs } = entities[i];
+    switch (type) {
+      case 'LINE':
+        paths.push({
+          layer: layerOf(entityPairs),
+          points: [
+            { x: numberOf(entityPairs, 10), y: numberOf(entityPairs, 20) },
+            { x: numberOf(entityPairs, 11), y: numberOf(entityPairs, 21) },
+          ],
+          closed: false,
+        });
+        break;
+      case 'LWPOLYLINE': {
+        const points: Point[] = [];
+        entityPairs.forEach(([code, value]) => {
+          if (code === 10) points.push({ x: Number(value), y: 0 });
+          if (code === 20 && points.length > 0) points[points.length - 1].y = Number(value);
+        });
+        paths.push({ layer: layerOf(entityPairs), points, closed: (numberOf(entityPairs, 70) & 1) === 1 });
+        break;
+      }
+      case 'POLYLINE': {
+        const points: Point[] = [];
+        while (entities[i + 1]?.type === 'VERTEX') {
+          i++;
+          points.push({ x: numberOf(entities[i].pairs, 10), y: numberOf(entities[i].pairs, 20) });
+        }
+        if (entities[i + 1]?.type === 'SEQEND') i++;
+        paths.push({ layer: layerOf(entityPairs), points, closed: (numberOf(entityPairs, 70) & 1) === 1 });
+        break;
+      }
+      case 'TEXT':
+      case 'MTEXT': {
+        // MTEXT splits long strings into 3-coded chunks followed by the final 1-coded one
+        const value = entityPairs.filter(([code]) => code === 3).map(([, v]) => v).join('') + stringOf(entityPairs, 1);
+        const cleaned = cleanDxfText(value);
+        if (cleaned) {
+          labels.push({
+            layer: layerOf(entityPairs),
+            text: cleaned,
+            at: { x: numberOf(entityPairs, 10), y: numberOf(entityPairs, 20) },
+          });
+        }
+        break;
+      }
+      default:
+        skipped++;
+    }
+  }
+
+  const validPaths = paths.filter(path => path.points.length >= 2 && path.points.every(p => Number.isFinite(p.x) && Number.isFinite(p.y)));
+  return {
+    format: 'dxf',
+    paths: validPaths,
+    labels,
+    layers: summarizeLayers(validPaths, labels),
+    unit,
+    yUp: true,
+    skipped,
+  };
+}
+
+// Affine transform [a, b, c, d, e, f] as in SVG's matrix()
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
+
+function applyMatrix(m: Matrix, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] };
+}
+
+function parseNumbers(value: string | null): number[] {
+  return (value ?? '').match(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi)?.map(Number) ?? [];
+}
+
+function parseTransform(value: string | null): Matrix {
+  let matrix = IDENTITY;
+  for (const match of (value ?? '').matchAll(/(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g)) {
+    const args = parseNumbers(match[2]);
+    let next: Matrix = IDENTITY;
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length === 6) next = args as Matrix;
+        break;
+      case 'translate':
+        next = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+        break;
+      case 'scale':
+        next = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const rad = ((args[0] ?? 0) * Math.PI) / 180;
+        const [cx, cy] = [args[1] ?? 0, args[2] ?? 0];
+        next = multiply(multiply([1, 0, 0, 1, cx, cy], [Math.cos(rad), Math.sin(rad), -Math.sin(rad), Math.cos(rad), 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case 'skewX':
+        next = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        next = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+    matrix = multiply(matrix, next);
+  }
+  return matrix;
+}
+
+/**
+ * Split path data into subpaths. Only straight segments are followed; curves and
+ * arcs are replaced by the chord to their end point.
+ */
+function parsePathData(d: string): Array<{ points: Point[]; closed: boolean }> {
+  const subpaths: Array<{ points: Point[]; closed: boolean }> = [];
+  const tokens = d.match(/[a-df-z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+  // Number of arguments per command, up to its end point
+  const arity: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+
+  let current: { points: Point[]; closed: boolean } | null = null;
+  let position = { x: 0, y: 0 };
+  let start = { x: 0, y: 0 };
+  let command = '';
+  let i = 0;
+
+  while (i < tokens.length) {
+    if (/^[a-z]$/i.test(tokens[i])) {
+      command = tokens[i++];
+    } else if (!command) {
+      break;
+    }
+    const lower = command.toLowerCase();
+    const relative = command === lower;
+
+    if (lower === 'z') {
+      if (current) current.closed = true;
+      position = start;
+      current = null;
+      command = '';
+      continue;
+    }
+
+    const count = arity[lower];
+    if (count === undefined || i + count > tokens.length) break;
+    const args = tokens.slice(i, i + count).map(Number);
+    i += count;
+
+    let next: Point;
+    if (lower === 'h') {
+      next = { x: relative ? position.x + args[0] : args[0], y: position.y };
+    } else if (lower === 'v') {
+      next = { x: position.x, y: relative ? position.y + args[0] : args[0] };
+    } else {
+      const [x, y] = args.slice(-2);
+      next = relative ? { x: position.x + x, y: position.y + y } : { x, y };
+    }
+
+    if (lower === 'm') {
+      current = { points: [next], closed: false };
+      subpaths.push(current);
+      start = next;
+      // Further coordinate pairs after a moveto are implicit linetos
+      command = relative ? 'l' : 'L';
+    } else {
+      if (!current) {
+        current = { points: [position], closed: false };
+        subpaths.push(current);
+      }
+      current.points.push(next);
+    }
+    position = next;
+  }
+
+  return subpaths;
+}
+
+// Physical size of an SVG length such as "210mm", in mm; null for unitless or percentage lengths
+function svgLengthMm(value: string | null): number | null {
+  const match = value?.trim().match(/^([\d.]+)\s*(mm|cm|in|pt|pc)$/);
+  if (!match) return null;
+  const factor = { mm: 1, cm: 10, in: 25.4, pt: 25.4 / 72, pc: 25.4 / 6 }[match[2] as 'mm' | 'cm' | 'in' | 'pt' | 'pc'];
+  return Number(match[1]) * factor;
+}
+
+const SVG_SKIPPED_CONTAINERS = new Set(['defs', 'clippath', 'mask', 'pattern', 'symbol', 'marker', 'metadata', 'style', 'title', 'desc']);
+
+/**
+ * Read rect, line, polyline, polygon, path and text elements from an SVG file.
+ * Top-level groups (Inkscape or Illustrator layers) become the drawing's layers.
+ */
+export function parseSvg(text: string): CadDrawing {
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || root.nodeName.toLowerCase() !== 'svg') {
+    throw new CadImportError('Not a valid SVG file');
+  }
+
+  // With a physical width and a viewBox, user units can be converted to millimetres
+  let unit: CadUnit | null = null;
+  let rootMatrix = IDENTITY;
+  const widthMm = svgLengthMm(root.getAttribute('width'));
+  const viewBox = parseNumbers(root.getAttribute('viewBox'));
+  if (widthMm !== null) {
+    unit = 'mm';
+    const userWidth = viewBox.length === 4 ? viewBox[2] : null;
+    const mmPerUnit = userWidth ? widthMm / userWidth : CAD_UNIT_CM.px * 10;
+    rootMatrix = [mmPerUnit, 0, 0, mmPerUnit, 0, 0];
+  }
+
+  const paths: CadPath[] = [];
+  const labels: CadLabel[] = [];
+  let skipped = 0;
+
+  const walk = (element: Element, matrix: Matrix, layer: string | null) => {
+    const tag = element.nodeName.toLowerCase().replace(/^svg:/, '');
+    if (SVG_SKIPPED_CONTAINERS.has(tag)) return;
+
+    const local = multiply(matrix, parseTransform(element.getAttribute('transform')));
+    const layerName = layer ?? 'default';
+    const number = (name: string) => parseNumbers(element.getAttribute(name))[0] ?? 0;
+    const addPath = (points: Point[], closed: boolean) => {
+      if (points.length >= 2) paths.push({ layer: layerName, points: points.map(p => applyMatrix(local, p)), closed });
+    };
+
+    switch (tag) {
+      case 'svg':
+      case 'g':
+      case 'a': {
+        // The outermost labelled group is the layer
+        const label = element.getAttribute('inkscape:label') || element.getAttribute('id');
+        const childLayer = layer ?? (tag === 'g' && label ? label : null);
+        Array.from(element.children).forEach(child => walk(child, local, childLayer));
+        return;
+      }
+      case 'rect': {
+        const [x, y, w, h] = [number('x'), number('y'), number('width'), number('height')];
+        addPath([{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }], true);
+        return;
+      }
+      case 'line':
+        addPath([{ x: number('x1'), y: number('y1') }, { x: number('x2'), y: number('y2') }], false);
+        return;
+      case 'polyline':
+      case 'polygon': {
+        const values = parseNumbers(element.getAttribute('points'));
+        const points: Point[] = [];
+        for (let i = 0; i + 1 < values.length; i += 2) points.push({ x: values[i], y: values[i + 1] });
+        addPath(points, tag === 'polygon');
+        return;
+      }
+      case 'path':
+        parsePathData(element.getAttribute('d') ?? '').forEach(subpath => addPath(subpath.points, subpath.closed));
+        return;
+      case 'text': {
+        const content = element.textContent?.replace(/\s+/g, ' ').trim();
+        const tspan = element.querySelector('tspan[x]');
+        const at = element.hasAttribute('x') || !tspan
+          ? { x: number('x'), y: number('y') }
+          : { x: parseNumbers(tspan.getAttribute('x'))[0] ?? 0, y: parseNumbers(tspan.getAttribute('y'))[0] ?? 0 };
+        if (content) labels.push({ layer: layerName, text: content, at: applyMatrix(local, at) });
+        return;
+      }
+      default:
+        skipped++;
+    }
+  };
+
+  walk(root, rootMatrix, null);
+
+  return {
+    format: 'svg',
+    paths,
+    labels,
+    layers: summarizeLayers(paths, labels),
+    unit,
+    yUp: false,
+    skipped,
+  };
+}
+
+/**
+ * Read a DXF or SVG file, chosen by its extension
+ */
+export function parseCadFile(name: string, text: string): CadDrawing {
+  const extension = name.split('.').pop()?.toLowerCase();
+  if (extension === 'dxf') return parseDxf(text);
+  if (extension === 'svg') return parseSvg(text);
+  throw new CadImportError('Only .dxf and .svg files can be imported');
+}
+
+/**
+ * Guess what a layer holds from its name, falling back to its contents:
+ * only closed outlines become zones, other geometry becomes diagram shapes
+ */
+export function suggestLayerTarget(layer: CadLayerSummary): CadLayerTarget {
+  const name = layer.name.toLowerCase();
+  if (/dim|hatch|grid|axis|anno|furn|defpoints/.test(name)) return 'ignore';
+  if (/wall|wand|mauer|mur/.test(name)) return 'walls';
+  if (/room|zone|space|area|raum/.test(name)) return 'zones';
+  if (layer.closed > 0 && layer.open === 0) return 'zones';
+  if (layer.closed + layer.open === 0) return 'ignore';
+  return 'diagrams';
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function isAxisAlignedRectangle(points: Point[]): boolean {
+  if (points.length !== 4) return false;
+  return points.every((p, i) => {
+    const next = points[(i + 1) % 4];
+    return Math.abs(p.x - next.x) < 0.01 || Math.abs(p.y - next.y) < 0.01;
+  });
+}
+
+/**
+ * Build project data from a parsed drawing. Coordinates are converted to cm,
+ * flipped to the editor's Y-down axis and moved so the drawing starts at a small margin.
+ * @throws CadImportError when nothing is mapped or the drawing is larger than the editor allows
+ */
+export function buildProjectFromDrawing(drawing: CadDrawing, options: CadImportOptions): SaveProjectData {
+  const factor = CAD_UNIT_CM[options.unit];
+  const targetOf = (layer: string) => options.layers[layer] ?? 'ignore';
+  const toCm = (p: Point): Point => ({ x: p.x * factor, y: (drawing.yUp ? -p.y : p.y) * factor });
+
+  const paths = drawing.paths
+    .filter(path => targetOf(path.layer) !== 'ignore')
+    .map(path => {
+      const points = path.points.map(toCm);
+      const first = points[0];
+      const last = points[points.length - 1];
+      const endsMeet = points.length > 2 && Math.hypot(first.x - last.x, first.y - last.y) < CLOSE_TOLERANCE;
+      // Drop a repeated closing vertex; it is implied by closed
+      return {
+        layer: path.layer,
+        points: endsMeet ? points.slice(0, -1) : points,
+        closed: path.closed || endsMeet,
+      };
+    });
+  if (paths.length === 0) {
+    throw new CadImportError('Map at least one layer with lines or polylines to zones, walls or diagrams');
+  }
+
+  const bounds = getPolygonBounds(paths.flatMap(path => path.points));
+  const width = Math.ceil(bounds.width + MARGIN * 2);
+  const height = Math.ceil(bounds.height + MARGIN * 2);
+  if (width > MAX_PLAN_SIZE || height > MAX_PLAN_SIZE) {
+    throw new CadImportError(
+      `The drawing is ${round(bounds.width / 100)} × ${round(bounds.height / 100)} m; plans can be at most ${MAX_PLAN_SIZE / 100} m across. Check the units.`
+    );
+  }
+  const place = (p: Point): Point => ({ x: round(p.x - bounds.minX + MARGIN), y: round(p.y - bounds.minY + MARGIN) });
+
+  const scale = Math.max(0.1, Math.min(5, Math.round(Math.min(1200 / width, 800 / height) * 100) / 100));
+  const labels = drawing.labels.map(label => ({ ...label, at: place(toCm(label.at)) }));
+  const usedLabels = new Set<number>();
+
+  const zones: FloorPlanZone[] = [];
+  const walls: WallSegment[] = [];
+  const diagrams: DiagramShape[] = [];
+
+  paths.forEach((path, pathIndex) => {
+    const points = path.points.map(place);
+    const target = targetOf(path.layer);
+
+    if (target === 'zones') {
+      if (!path.closed || points.length < 3 || polygonArea(points) < MIN_ZONE_AREA) return;
+      const box = getPolygonBounds(points);
+      // Name the zone after the first unused text placed inside it
+      const labelIndex = labels.findIndex((label, index) => !usedLabels.has(index) && pointInPolygon(label.at, points));
+      if (labelIndex >= 0) usedLabels.add(labelIndex);
+      const number = zones.length + 1;
+      zones.push({
+        id: `zone_${number}`,
+        zoneId: `zone_${number}`,
+        name: labelIndex >= 0 ? labels[labelIndex].text.slice(0, 100) : `${path.layer} ${number}`,
+        x: box.minX,
+        y: box.minY,
+        w: Math.max(1, round(box.width)),
+        h: Math.max(1, round(box.height)),
+        points: isAxisAlignedRectangle(points) ? undefined : points,
+      });
+      return;
+    }
+
+    if (target === 'walls') {
+      const segments = path.closed ? points.length : points.length - 1;
+      for (let i = 0; i < segments; i++) {
+        const a = points[i];
+        const b = points[(i + 1) % points.length];
+        if (Math.hypot(b.x - a.x, b.y - a.y) < CLOSE_TOLERANCE) continue;
+        walls.push({
+          id: `wall_${walls.length + 1}`,
+          x1: a.x,
+          y1: a.y,
+          x2: b.x,
+          y2: b.y,
+          thickness: options.wallThickness,
+          height: 250,
+        });
+      }
+      return;
+    }
+
+    // Diagram shapes are stored in canvas pixels
+    const outline = path.closed ? [...points, points[0]] : points;
+    diagrams.push({
+      id: `cad_${pathIndex + 1}`,
+      type: 'line',
+      x: 0,
+      y: 0,
+      points: outline.flatMap(p => [round(p.x * scale), round(p.y * scale)]),
+      fill: 'transparent',
+      stroke: '#000000',
+      strokeWidth: 1,
+      rotation: 0,
+      scaleX: 1,
+      scaleY: 1,
+    });
+  });
+
+  // Text on diagram layers is kept as diagram text
+  labels.forEach((label, index) => {
+    if (targetOf(label.layer) !== 'diagrams' || usedLabels.has(index)) return;
+    diagrams.push({
+      id: `cad_text_${index + 1}`,
+      type: 'text',
+      x: round(label.at.x * scale),
+      y: round(label.at.y * scale),
+      text: label.text,
+      fill: '#000000',
+      stroke: 'transparent',
+      strokeWidth: 0,
+      rotation: 0,
+      scaleX: 1,
+      scaleY: 1,
+    });
+  });
+
+  if (zones.length === 0 && walls.length === 0 && diagrams.length === 0) {
+    throw new CadImportError('No closed outlines or lines were found on the mapped layers');
+  }
+
+  return {
+    zones,
+    furniture: [],
+    settings: {
+      apartmentWidth: Math.max(50, width),
+      apartmentHeight: Math.max(50, height),
+      scale,
+      snap: 5,
+      showGrid: true,
+      showDimensions: true,
+      unitSystem: 'cm',
+      canvasMode: 'fit-to-screen',
+      maxCanvasWidth: 1200,
+      maxCanvasHeight: 800,
+      showZones: true,
+      showFurniture: true,
+      showDiagrams: true,
+    },
+    diagrams,
+    walls,
+    openings: [],
+    levels: [],
+    measurements: [],
+    dimensions: [],
+  };
+}
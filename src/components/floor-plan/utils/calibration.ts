@@ -0,0 +1,118 @@
+/**
+ * Scale calibration utilities: reading dimension strings written on plans
+ * ("3.45 m", "345 cm", "11' 4\"") and fitting one scale to several known lengths
+ */
+
+export interface DimensionMatch {
+  // Matched text as written on the plan
+  text: string;
+  // Length in cm
+  cm: number;
+  // Position of the match in the searched text
+  index: number;
+}
+
+export interface CalibrationSegment {
+  // Length as measured, in image or screen pixels (or any other consistent unit)
+  measured: number;
+  // Known real length in cm
+  actual: number;
+}
+
+export interface CalibrationFit {
+  // Real cm per measured unit
+  cmPerUnit: number;
+  // Root mean square and largest difference between fitted and known lengths, in cm
+  rmsError: number;
+  maxError: number;
+  // Fitted minus known length per segment in cm, in input order; null for unusable segments
+  errors: (number | null)[];
+  // Number of segments used
+  count: number;
+}
+
+const NUMBER = String.raw`\d+(?:[.,]\d+)?`;
+const INCH_MARK = String.raw`(?:"|”|in\.?(?![a-z])|inch(?:es)?)`;
+
+// Feet with optional inches, inches alone, or a metric length; areas (m², m2) are skipped
+const DIMENSION_PATTERN = new RegExp(
+  [
+    String.raw`(?<feet>${NUMBER})\s*(?:'|’|ft\.?(?![a-z])|feet|foot)(?:\s*-?\s*(?<feetInches>${NUMBER})\s*${INCH_MARK})?`,
+    String.raw`(?<inches>${NUMBER})\s*${INCH_MARK}`,
+    String.raw`(?<metric>${NUMBER})\s*(?<unit>mm|cm|m)(?![a-z²2])`,
+  ].join('|'),
+  'gi'
+);
+
+const BARE_NUMBER = new RegExp(String.raw`^${NUMBER}$`);
+
+// "3,45" is a decimal comma; "1,200" a thousands separator
+function toNumber(text: string): number {
+  return /^\d+,\d{3}$/.test(text) ? Number(text.replace(',', '')) : Number(text.replace(',', '.'));
+}
+
+/**
+ * Find every length written in a piece of text, e.g. the OCR output of a plan
+ */
+export function extractDimensions(text: string): DimensionMatch[] {
+  const matches: DimensionMatch[] = [];
+  for (const match of text.matchAll(DIMENSION_PATTERN)) {
+    const groups = match.groups ?? {};
+    let cm: number;
+    if (groups.feet !== undefined) {
+      cm = toNumber(groups.feet) * 30.48 + (groups.feetInches !== undefined ? toNumber(groups.feetInches) * 2.54 : 0);
+    } else if (groups.inches !== undefined) {
+      cm = toNumber(groups.inches) * 2.54;
+    } else {
+      const unit = groups.unit.toLowerCase();
+      cm = toNumber(groups.metric) * (unit === 'mm' ? 0.1 : unit === 'm' ? 100 : 1);
+    }
+    if (cm > 0) {
+      matches.push({ text: match[0], cm, index: match.index ?? 0 });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Read a single length such as "3.45 m", "3,45m", "3450 mm" or "11' 4\""
+ * @param defaultUnit - Unit of a bare number such as "345"
+ * @returns The length in cm, or null when the text is not exactly one length
+ */
+export function parseDimensionString(text: string, defaultUnit: 'cm' | 'm' = 'cm'): number | null {
+  const trimmed = text.trim();
+  if (BARE_NUMBER.test(trimmed)) {
+    const value = toNumber(trimmed);
+    return value > 0 ? value * (defaultUnit === 'm' ? 100 : 1) : null;
+  }
+
+  const matches = extractDimensions(trimmed);
+  if (matches.length !== 1 || matches[0].text.trim() !== trimmed) return null;
+  return matches[0].cm;
+}
+
+/**
+ * Least-squares scale through the origin across several known lengths, so a
+ * single misplaced click or misread label is averaged out and shows up in the error
+ * @returns The fit, or null when no segment has both lengths
+ */
+export function fitCalibration(segments: CalibrationSegment[]): CalibrationFit | null {
+  const usable = (segment: CalibrationSegment) => segment.measured > 0 && segment.actual > 0;
+  const valid = segments.filter(usable);
+  if (valid.length === 0) return null;
+
+  // Minimizes the squared error in cm: sum((k * measured - actual)²)
+  const cmPerUnit = valid.reduce((sum, s) => sum + s.measured * s.actual, 0) /
+    valid.reduce((sum, s) => sum + s.measured * s.measured, 0);
+
+  const errors = segments.map(s => usable(s) ? cmPerUnit * s.measured - s.actual : null);
+  const validErrors = errors.filter((error): error is number => error !== null);
+
+  return {
+    cmPerUnit,
+    rmsError: Math.sqrt(validErrors.reduce((sum, e) => sum + e * e, 0) / validErrors.length),
+    maxError: Math.max(...validErrors.map(Math.abs)),
+    errors,
+    count: valid.length,
+  };
+}
@@ -0,0 +1,244 @@
+/**
+ * Associative dimension lines: resolving a dimension's anchors against the current
+ * zones, walls and furniture, and laying out the extension lines, end marks and label
+ * shared by the canvas and the SVG, PDF and DXF exports
+ */
+
+import { Dimension, DimensionAnchor, FloorPlanZone, FurnitureItemType, WallSegment } from '@/types';
+import { Point, distance, getRotatedCorners } from './geometry';
+import { getZonePolygon } from './zone_logic';
+import { format_dimension } from './units';
+
+export type DimensionKind = Dimension['kind'];
+export type DimensionStyle = Dimension['style'];
+
+export interface DimensionEntities {
+  zones: Pick<FloorPlanZone, 'id' | 'x' | 'y' | 'w' | 'h' | 'points'>[];
+  walls: WallSegment[];
+  furniture: FurnitureItemType[];
+}
+
+export interface ResolvedDimension {
+  // Measured points in cm
+  start: Point;
+  end: Point;
+  length: number;
+  // Unit vector the line is offset along; outward for zone edges
+  normal: Point;
+}
+
+export interface DimensionLayout {
+  // Dimension line, extension lines and end marks in cm
+  lines: Array<[Point, Point]>;
+  label: {
+    at: Point;
+    // Clockwise rotation in degrees, kept within ±90° so the text reads upright
+    angle: number;
+    text: string;
+  };
+}
+
+// Default distance in cm between a zone edge and its dimension line
+export const DEFAULT_ZONE_DIMENSION_OFFSET = 30;
+
+type Segment = [Point, Point];
+
+function segmentsOf(outline: Point[]): Segment[] {
+  return outline.map((point, i) => [point, outline[(i + 1) % outline.length]]);
+}
+
+// Closest point to `point` on the segment from a to b
+function projectOnSegment(point: Point, a: Point, b: Point): Point {
+  const lengthSquared = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  if (lengthSquared === 0) return a;
+  const t = Math.min(1, Math.max(0, ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / lengthSquared));
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+/**
+ * Closest pair of points between two sets of segments, from a vertex of one set
+ * to the nearest point on the other
+ */
+function closestPoints(from: Segment[], to: Segment[]): [Point, Point] | null {
+  let best: [Point, Point] | null = null;
+  let bestDistance = Infinity;
+
+  const consider = (a: Point, b: Point) => {
+    const d = distance(a, b);
+    if (d < bestDistance) {
+      best = [a, b];
+      bestDistance = d;
+    }
+  };
+
+  from.forEach(([a]) => to.forEach(([p, q]) => consider(a, projectOnSegment(a, p, q))));
+  to.forEach(([p]) => from.forEach(([a, b]) => consider(projectOnSegment(p, a, b), p)));
+  // Open segment sets (a single wall face or zone edge) also need their last vertex
+  if (to.length === 1) from.forEach(([a, b]) => consider(projectOnSegment(to[0][1], a, b), to[0][1]));
+
+  return best;
+}
+
+function getFurnitureOutline(id: string, entities: DimensionEntities): Point[] | null {
+  const item = entities.furniture.find(f => f.id === id);
+  return item ? getRotatedCorners({ x: item.x, y: item.y, w: item.w, h: item.h, r: item.r || 0 }) : null;
+}
+
+/**
+ * One edge of a zone outline with its outward normal
+ */
+export function getZoneEdge(
+  zone: Pick<FloorPlanZone, 'x' | 'y' | 'w' | 'h' | 'points'>,
+  edgeIndex: number
+): { start: Point; end: Point; normal: Point } | null {
+  const outline = getZonePolygon(zone);
+  if (edgeIndex < 0 || edgeIndex >= outline.length) return null;
+  const start = outline[edgeIndex];
+  const end = outline[(edgeIndex + 1) % outline.length];
+  const length = distance(start, end);
+  if (length < 1e-6) return null;
+
+  let signedArea = 0;
+  outline.forEach((p, i) => {
+    const q = outline[(i + 1) % outline.length];
+    signedArea += p.x * q.y - q.x * p.y;
+  });
+  const orientation = signedArea >= 0 ? 1 : -1;
+  const normal = {
+    x: ((end.y - start.y) / length) * orientation,
+    y: (-(end.x - start.x) / length) * orientation,
+  };
+  return { start, end, normal };
+}
+
+/**
+ * Segments a furniture item is measured against: the wall face towards the item,
+ * or the zone edge itself
+ */
+function getTargetSegments(anchor: DimensionAnchor, entities: DimensionEntities, towards: Point[]): Segment[] | null {
+  if (anchor.type === 'furniture') {
+    const outline = getFurnitureOutline(anchor.id, entities);
+    return outline ? segmentsOf(outline) : null;
+  }
+  if (anchor.type === 'zone') {
+    const zone = entities.zones.find(z => z.id === anchor.id);
+    const edge = zone ? getZoneEdge(zone, anchor.edgeIndex ?? 0) : null;
+    return edge ? [[edge.start, edge.end]] : null;
+  }
+
+  const wall = entities.walls.find(w => w.id === anchor.id);
+  if (!wall) return null;
+  const length = Math.hypot(wall.x2 - wall.x1, wall.y2 - wall.y1);
+  if (length === 0) return null;
+  const half = wall.thickness / 2;
+  const n = { x: -(wall.y2 - wall.y1) / length, y: (wall.x2 - wall.x1) / length };
+  const faces: Segment[] = [half, -half].map(d => [
+    { x: wall.x1 + n.x * d, y: wall.y1 + n.y * d },
+    { x: wall.x2 + n.x * d, y: wall.y2 + n.y * d },
+  ]);
+  const faceDistance = (face: Segment) => Math.min(...towards.map(p => distance(p, projectOnSegment(p, face[0], face[1]))));
+  return [faceDistance(faces[0]) <= faceDistance(faces[1]) ? faces[0] : faces[1]];
+}
+
+/**
+ * Work out where a dimension currently sits from the entities it is attached to
+ * @returns The measured points, or null when an anchor no longer exists or the
+ * entities touch so there is nothing to dimension
+ */
+export function resolveDimension(
+  dimension: Pick<Dimension, 'kind' | 'from' | 'to'>,
+  entities: DimensionEntities
+): ResolvedDimension | null {
+  if (dimension.kind === 'zone-edge') {
+    const zone = dimension.from.type === 'zone' ? entities.zones.find(z => z.id === dimension.from.id) : undefined;
+    const edge = zone ? getZoneEdge(zone, dimension.from.edgeIndex ?? 0) : null;
+    return edge ? { ...edge, length: distance(edge.start, edge.end) } : null;
+  }
+
+  if (!dimension.to || dimension.from.type !== 'furniture') return null;
+  const outline = getFurnitureOutline(dimension.from.id, entities);
+  const targets = outline ? getTargetSegments(dimension.to, entities, outline) : null;
+  const pair = outline && targets ? closestPoints(segmentsOf(outline), targets) : null;
+  if (!pair) return null;
+
+  const [start, end] = pair;
+  const length = distance(start, end);
+  if (length < 0.5) return null;
+  return { start, end, length, normal: { x: -(end.y - start.y) / length, y: (end.x - start.x) / length } };
+}
+
+/**
+ * Lay out a resolved dimension as architectural linework
+ * @param options.markSize - Tick or arrowhead size, in the same units as the dimension (cm)
+ * @param options.textGap - Distance between the dimension line and the middle of the label
+ */
+export function layoutDimension(
+  resolved: ResolvedDimension,
+  dimension: Pick<Dimension, 'offset' | 'style'>,
+  options: { unitSystem: 'cm' | 'm'; markSize: number; textGap: number }
+): DimensionLayout {
+  const { start, end, length, normal: n } = resolved;
+  const { markSize } = options;
+  const offset = dimension.offset;
+  const side = offset < 0 ? -1 : 1;
+  const shift = (p: Point, d: number): Point => ({ x: p.x + n.x * d, y: p.y + n.y * d });
+
+  const a = shift(start, offset);
+  const b = shift(end, offset);
+  const dir = { x: (end.x - start.x) / length, y: (end.y - start.y) / length };
+  const lines: Array<[Point, Point]> = [[a, b]];
+
+  // Extension lines leave a small gap at the measured points and run just past the dimension line
+  const gap = markSize / 2;
+  if (Math.abs(offset) > gap) {
+    lines.push([shift(start, gap * side), shift(a, gap * side)]);
+    lines.push([shift(end, gap * side), shift(b, gap * side)]);
+  }
+
+  if (dimension.style === 'tick') {
+    // 45° slashes through both ends
+    const h = markSize / 2 / Math.SQRT2;
+    const t = { x: (dir.x + n.x) * h, y: (dir.y + n.y) * h };
+    [a, b].forEach(p => lines.push([{ x: p.x - t.x, y: p.y - t.y }, { x: p.x + t.x, y: p.y + t.y }]));
+  } else {
+    // Open arrowheads pointing out to both ends
+    const spread = markSize * 0.35;
+    ([[a, 1], [b, -1]] as const).forEach(([p, sign]) => {
+      const base = { x: p.x + dir.x * markSize * sign, y: p.y + dir.y * markSize * sign };
+      lines.push([p, shift(base, spread)]);
+      lines.push([p, shift(base, -spread)]);
+    });
+  }
+
+  let angle = Math.atan2(dir.y, dir.x) * 180 / Math.PI;
+  if (angle > 90) angle -= 180;
+  if (angle <= -90) angle += 180;
+  const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+
+  return {
+    lines,
+    label: {
+      at: shift(mid, options.textGap * side),
+      angle,
+      text: format_dimension(Math.round(length), options.unitSystem),
+    },
+  };
+}
+
+/**
+ * Whether two dimensions measure the same thing, so the tool does not add duplicates
+ */
+export function isSameDimension(a: Pick<Dimension, 'kind' | 'from' | 'to'>, b: Pick<Dimension, 'kind' | 'from' | 'to'>): boolean {
+  const sameAnchor = (x?: DimensionAnchor, y?: DimensionAnchor) =>
+    x?.type === y?.type && x?.id === y?.id && x?.edgeIndex === y?.edgeIndex;
+  if (a.kind !== b.kind) return false;
+  if (sameAnchor(a.from, b.from) && sameAnchor(a.to, b.to)) return true;
+  return a.kind === 'item-item' && sameAnchor(a.from, b.to) && sameAnchor(a.to, b.from);
+}
+
+/**
+ * Whether either end of a dimension is attached to the given entity
+ */
+export function isDimensionAttachedTo(dimension: Pick<Dimension, 'from' | 'to'>, type: DimensionAnchor['type'], id: string): boolean {
+  return [dimension.from, dimension.to].some(anchor => anchor?.type === type && anchor.id === id);
+}
@@ -0,0 +1,313 @@
+/**
+ * DXF (AutoCAD R12 ASCII) writer for floor plans
+ * Geometry is written in real-world centimetres with the Y axis pointing up,
+ * one named layer per kind of content so CAD users can toggle them independently
+ */
+
+import type { DiagramShape } from '../editor/schemas';
+import type { ExportData, ExportOptions } from './export_utils';
+import { Point, getRotatedCorners, polygonCentroid, rotatePoint } from './geometry';
+import { getZonePolygon, getZoneArea, isPolygonZone } from './zone_logic';
+import { computeWallOutlines } from './wall_logic';
+import { getOpeningCutout, getOpeningGeometry, getOpeningHostEdge } from './opening_logic';
+import { layoutDimension, resolveDimension } from './dimension_logic';
+import { cm2_to_m2 } from './units';
+
+export interface DxfLayer {
+  name: string;
+  // AutoCAD Color Index
+  color: number;
+}
+
+export const DXF_LAYERS = {
+  zones: { name: 'ZONES', color: 5 },
+  walls: { name: 'WALLS', color: 7 },
+  openings: { name: 'OPENINGS', color: 4 },
+  furniture: { name: 'FURNITURE', color: 3 },
+  diagrams: { name: 'DIAGRAMS', color: 6 },
+  labels: { name: 'LABELS', color: 7 },
+  dimensions: { name: 'DIMENSIONS', color: 1 },
+} satisfies Record<string, DxfLayer>;
+
+// $INSUNITS value for centimetres
+const UNITS_CM = 5;
+
+// Text heights in cm
+const LABEL_HEIGHT = 12;
+const DIMENSION_HEIGHT = 8;
+
+// Konva's default font size for diagram text, in canvas px
+const DIAGRAM_FONT_SIZE = 16;
+
+const CIRCLE_SEGMENTS = 32;
+
+/**
+ * Accumulates group code / value pairs into an ASCII DXF document
+ */
+class DxfWriter {
+  private entities: string[] = [];
+
+  // Editor coordinates are y-down; DXF is y-up, so flip around the plan height
+  constructor(private height: number) {}
+
+  private pair(target: string[], code: number, value: string | number) {
+    target.push(String(code), typeof value === 'number' ? formatNumber(value) : value);
+  }
+
+  private entity(type: string, layer: DxfLayer, fields: Array<[number, string | number]>) {
+    this.pair(this.entities, 0, type);
+    this.pair(this.entities, 8, layer.name);
+    fields.forEach(([code, value]) => this.pair(this.entities, code, value));
+  }
+
+  private y(value: number) {
+    return this.height - value;
+  }
+
+  polyline(layer: DxfLayer, points: Point[], closed: boolean) {
+    if (points.length < 2) return;
+    this.entity('POLYLINE', layer, [[66, 1], [10, 0], [20, 0], [30, 0], [70, closed ? 1 : 0]]);
+    points.forEach(point => {
+      this.entity('VERTEX', layer, [[10, point.x], [20, this.y(point.y)], [30, 0]]);
+    });
+    this.entity('SEQEND', layer, []);
+  }
+
+  circle(layer: DxfLayer, center: Point, radius: number) {
+    this.entity('CIRCLE', layer, [[10, center.x], [20, this.y(center.y)], [30, 0], [40, radius]]);
+  }
+
+  /**
+   * @param align - 'center' places the middle of the text on the point, 'start' its baseline start
+   * @param rotation - Clockwise rotation in degrees, as used by the editor
+   */
+  text(layer: DxfLayer, at: Point, value: string, height: number, align: 'center' | 'start' = 'center', rotation = 0) {
+    const fields: Array<[number, string | number]> = [
+      [10, at.x], [20, this.y(at.y)], [30, 0],
+      [40, height],
+      [1, encodeText(value)],
+    ];
+    if (rotation) fields.push([50, -rotation]);
+    if (align === 'center') {
+      fields.push([72, 1], [11, at.x], [21, this.y(at.y)], [31, 0], [73, 2]);
+    }
+    this.entity('TEXT', layer, fields);
+  }
+
+  toString(layers: DxfLayer[], extents: { width: number; height: number }): string {
+    const out: string[] = [];
+
+    this.pair(out, 0, 'SECTION');
+    this.pair(out, 2, 'HEADER');
+    this.pair(out, 9, '$ACADVER');
+    this.pair(out, 1, 'AC1009');
+    this.pair(out, 9, '$INSUNITS');
+    this.pair(out, 70, UNITS_CM);
+    this.pair(out, 9, '$MEASUREMENT');
+    this.pair(out, 70, 1);
+    this.pair(out, 9, '$EXTMIN');
+    this.pair(out, 10, 0);
+    this.pair(out, 20, 0);
+    this.pair(out, 30, 0);
+    this.pair(out, 9, '$EXTMAX');
+    this.pair(out, 10, extents.width);
+    this.pair(out, 20, extents.height);
+    this.pair(out, 30, 0);
+    this.pair(out, 0, 'ENDSEC');
+
+    this.pair(out, 0, 'SECTION');
+    this.pair(out, 2, 'TABLES');
+    this.pair(out, 0, 'TABLE');
+    this.pair(out, 2, 'LAYER');
+    this.pair(out, 70, layers.length);
+    layers.forEach(layer => {
+      this.pair(out, 0, 'LAYER');
+      this.pair(out, 2, layer.name);
+      this.pair(out, 70, 0);
+      this.pair(out, 62, layer.color);
+      this.pair(out, 6, 'CONTINUOUS');
+    });
+    this.pair(out, 0, 'ENDTAB');
+    this.pair(out, 0, 'ENDSEC');
+
+    this.pair(out, 0, 'SECTION');
+    this.pair(out, 2, 'ENTITIES');
+    out.push(...this.entities);
+    this.pair(out, 0, 'ENDSEC');
+    this.pair(out, 0, 'EOF');
+
+    return out.join('\r\n') + '\r\n';
+  }
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : String(Math.round(value * 1e4) / 1e4);
+}
+
+// R12 text is single-byte; anything outside ASCII is written as a \U+XXXX escape
+function encodeText(value: string): string {
+  return Array.from(value.replace(/[\r\n]+/g, ' '))
+    .map(char => {
+      const code = char.codePointAt(0) ?? 0;
+      return code < 128 ? char : `\\U+${code.toString(16).toUpperCase().padStart(4, '0')}`;
+    })
+    .join('');
+}
+
+function formatCm(value: number): string {
+  return formatNumber(Math.round(value * 10) / 10);
+}
+
+// Diagram shapes are stored in canvas pixels, relative to their own origin and transform
+function diagramPoint(shape: DiagramShape, local: Point, px2cm: (px: number) => number): Point {
+  const scaled = { x: local.x * (shape.scaleX ?? 1), y: local.y * (shape.scaleY ?? 1) };
+  const rotated = shape.rotation ? rotatePoint(scaled, { x: 0, y: 0 }, shape.rotation) : scaled;
+  return { x: px2cm(shape.x + rotated.x), y: px2cm(shape.y + rotated.y) };
+}
+
+function writeDiagramShape(writer: DxfWriter, shape: DiagramShape, px2cm: (px: number) => number) {
+  const layer = DXF_LAYERS.diagrams;
+  const toCm = (local: Point) => diagramPoint(shape, local, px2cm);
+
+  switch (shape.type) {
+    case 'rectangle': {
+      const w = shape.width ?? 0;
+      const h = shape.height ?? 0;
+      writer.polyline(layer, [{ x: 0, y: 0 }, { x: w, y: 0 }, { x: w, y: h }, { x: 0, y: h }].map(toCm), true);
+      break;
+    }
+    case 'circle': {
+      const radius = shape.radius ?? 0;
+      if ((shape.scaleX ?? 1) === (shape.scaleY ?? 1)) {
+        writer.circle(layer, toCm({ x: 0, y: 0 }), px2cm(radius * (shape.scaleX ?? 1)));
+      } else {
+        // Unevenly scaled circles are ellipses; approximate them with a polyline
+        const points = Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+          const angle = (i / CIRCLE_SEGMENTS) * Math.PI * 2;
+          return toCm({ x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+        });
+        writer.polyline(layer, points, true);
+      }
+      break;
+    }
+    case 'line':
+    case 'freehand': {
+      const flat = shape.points ?? [];
+      const points: Point[] = [];
+      for (let i = 0; i + 1 < flat.length; i += 2) {
+        points.push(toCm({ x: flat[i], y: flat[i + 1] }));
+      }
+      writer.polyline(layer, points, false);
+      break;
+    }
+    case 'text': {
+      if (!shape.text) break;
+      const height = px2cm(DIAGRAM_FONT_SIZE * (shape.scaleY ?? 1));
+      // Konva positions text by its top-left corner; DXF by the baseline start
+      writer.text(layer, toCm({ x: 0, y: DIAGRAM_FONT_SIZE }), shape.text, height, 'start', shape.rotation ?? 0);
+      break;
+    }
+  }
+}
+
+/**
+ * Build a DXF document for a floor plan
+ * @returns The DXF file contents
+ */
+export function floorPlanToDxf(data: ExportData, options: ExportOptions): string {
+  const writer = new DxfWriter(data.settings.apartmentHeight);
+  const px2cm = (px: number) => px / data.settings.scale;
+
+  if (options.includeZones) {
+    data.zones.forEach(zone => {
+      const polygon = getZonePolygon(zone);
+      writer.polyline(DXF_LAYERS.zones, polygon, true);
+
+      const center = isPolygonZone(zone) ? polygonCentroid(polygon) : { x: zone.x + zone.w / 2, y: zone.y + zone.h / 2 };
+      if (options.includeLabels) {
+        writer.text(DXF_LAYERS.labels, center, zone.name, LABEL_HEIGHT);
+      }
+      if (options.includeDimensions) {
+        const label = isPolygonZone(zone)
+          ? `${cm2_to_m2(getZoneArea(zone)).toFixed(1)} m²`
+          : `${formatCm(zone.w)} x ${formatCm(zone.h)} cm`;
+        writer.text(DXF_LAYERS.dimensions, { x: center.x, y: center.y + LABEL_HEIGHT * 1.5 }, label, DIMENSION_HEIGHT);
+      }
+    });
+  }
+
+  const walls = data.walls ?? [];
+  if (walls.length > 0) {
+    const outlines = computeWallOutlines(walls);
+    walls.forEach(wall => {
+      const outline = outlines.get(wall.id);
+      if (outline) writer.polyline(DXF_LAYERS.walls, outline, true);
+    });
+  }
+
+  (data.openings ?? []).forEach(opening => {
+    const edge = getOpeningHostEdge(opening, walls, data.zones);
+    if (!edge) return;
+    const geometry = getOpeningGeometry(opening, edge);
+    writer.polyline(DXF_LAYERS.openings, getOpeningCutout(geometry), true);
+
+    if (opening.type === 'window') {
+      const n = { x: -geometry.dir.y, y: geometry.dir.x };
+      const inset = geometry.thickness / 4;
+      [inset, -inset].forEach(d => {
+        writer.polyline(DXF_LAYERS.openings, geometry.jambs.map(j => ({ x: j.x + n.x * d, y: j.y + n.y * d })), false);
+      });
+      return;
+    }
+    writer.polyline(DXF_LAYERS.openings, [geometry.hinge, geometry.leafEnd], false);
+    writer.polyline(DXF_LAYERS.openings, geometry.arc, false);
+  });
+
+  if (options.includeFurniture) {
+    data.furniture.forEach(item => {
+      const corners = getRotatedCorners(item);
+      writer.polyline(DXF_LAYERS.furniture, corners, true);
+
+      const center = polygonCentroid(corners);
+      if (options.includeLabels) {
+        writer.text(DXF_LAYERS.labels, center, item.name, Math.min(LABEL_HEIGHT, item.h / 3), 'center', item.r);
+      }
+      if (options.includeDimensions) {
+        const offset = rotatePoint({ x: 0, y: Math.min(LABEL_HEIGHT, item.h / 3) * 1.5 }, { x: 0, y: 0 }, item.r);
+        writer.text(
+          DXF_LAYERS.dimensions,
+          { x: center.x + offset.x, y: center.y + offset.y },
+          `${formatCm(item.w)} x ${formatCm(item.h)} cm`,
+          Math.min(DIMENSION_HEIGHT, item.h / 4),
+          'center',
+          item.r
+        );
+      }
+    });
+  }
+
+  // Dimension lines are drawn as plain linework so every CAD reader shows them the same way
+  if (options.includeDimensions) {
+    const entities = { zones: data.zones, walls, furniture: data.furniture };
+    (data.dimensions ?? []).forEach(dimension => {
+      const resolved = resolveDimension(dimension, entities);
+      if (!resolved) return;
+      const { lines, label } = layoutDimension(resolved, dimension, {
+        unitSystem: data.settings.unitSystem,
+        markSize: DIMENSION_HEIGHT,
+        textGap: DIMENSION_HEIGHT,
+      });
+      lines.forEach(line => writer.polyline(DXF_LAYERS.dimensions, line, false));
+      writer.text(DXF_LAYERS.dimensions, label.at, label.text, DIMENSION_HEIGHT, 'center', label.angle);
+    });
+  }
+
+  if (options.includeDiagrams) {
+    (data.diagramShapes ?? []).forEach(shape => writeDiagramShape(writer, shape, px2cm));
+  }
+
+  return writer.toString(Object.values(DXF_LAYERS), {
+    width: data.settings.apartmentWidth,
+    height: data.settings.apartmentHeight,
+  });
+}
@@ -0,0 +1,281 @@
+/**
+ * Wall elevations: a zone edge seen head-on from inside the room, with the
+ * furniture standing near it drawn at registry height and dimensioned
+ */
+
+import { FloorPlanZone, FurnitureItemType } from '@/types';
+import { getFurnitureHeight } from '@/components/floor-plan/furniture';
+import { Point, getRotatedCorners } from './geometry';
+import { getZonePolygon } from './zone_logic';
+import { format_dimension } from './units';
+import { DEFAULT_CEILING_HEIGHT } from './mesh_export';
+
+// How far into the room (cm) furniture still counts as standing against the wall
+export const DEFAULT_ELEVATION_DEPTH = 60;
+
+export interface ElevationItem {
+  id: string;
+  name: string;
+  color: string;
+  // Extent along the wall in cm, from its left end as seen from the room
+  left: number;
+  right: number;
+  height: number;
+  // Distance of the item's nearest point from the wall, in cm
+  distance: number;
+}
+
+export interface WallElevation {
+  zoneId: string;
+  zoneName: string;
+  edgeIndex: number;
+  length: number;
+  height: number;
+  depth: number;
+  // Back to front: items against the wall first
+  items: ElevationItem[];
+}
+
+export interface ElevationOptions {
+  depth?: number;
+  wallHeight?: number;
+}
+
+export type ElevationShape =
+  | { type: 'rect'; x: number; y: number; w: number; h: number; fill: string; stroke: string }
+  | { type: 'line'; points: number[]; stroke: string; strokeWidth: number }
+  | {
+    type: 'text';
+    x: number;
+    y: number;
+    text: string;
+    fontSize: number;
+    fill: string;
+    align: 'left' | 'center' | 'right';
+    // Degrees, about (x, y)
+    rotation?: number;
+  };
+
+// Elevation laid out in px, ready for Konva, SVG or a 2D canvas
+export interface ElevationDrawing {
+  width: number;
+  height: number;
+  shapes: ElevationShape[];
+}
+
+const LINE_COLOR = '#374151';
+const DIMENSION_COLOR = '#6b7280';
+const WALL_FILL = '#f9fafb';
+const WALL_STROKE = '#9ca3af';
+const MARGIN = { left: 70, right: 30, top: 40, bottom: 80 };
+const DIMENSION_OFFSET = 25;
+const TICK = 4;
+
+// Edges of a zone outline, numbered like the outline's vertices
+export function getZoneEdges(zone: FloorPlanZone): Array<{ a: Point; b: Point; length: number }> {
+  const outline = getZonePolygon(zone);
+  return outline.map((a, i) => {
+    const b = outline[(i + 1) % outline.length];
+    return { a, b, length: Math.hypot(b.x - a.x, b.y - a.y) };
+  });
+}
+
+/**
+ * Project the furniture within `depth` of a zone edge onto that wall, as seen
+ * by someone standing in the zone and facing the wall
+ * @returns Null when the edge does not exist
+ */
+export function buildWallElevation(
+  zone: FloorPlanZone,
+  edgeIndex: number,
+  furniture: FurnitureItemType[],
+  options: ElevationOptions = {}
+): WallElevation | null {
+  const outline = getZonePolygon(zone);
+  if (edgeIndex < 0 || edgeIndex >= outline.length) return null;
+  const a = outline[edgeIndex];
+  const b = outline[(edgeIndex + 1) % outline.length];
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length < 1e-6) return null;
+  const depth = options.depth ?? DEFAULT_ELEVATION_DEPTH;
+
+  let signedArea = 0;
+  outline.forEach((p, i) => {
+    const q = outline[(i + 1) % outline.length];
+    signedArea += p.x * q.y - q.x * p.y;
+  });
+  const orientation = signedArea >= 0 ? 1 : -1;
+  const ux = (b.x - a.x) / length;
+  const uy = (b.y - a.y) / length;
+  // Facing the wall means looking along its outward normal; right is 90° clockwise of that
+  const facing = { x: uy * orientation, y: -ux * orientation };
+  const right = { x: -facing.y, y: facing.x };
+  const origin = ux * right.x + uy * right.y > 0 ? a : b;
+
+  const items: ElevationItem[] = [];
+  furniture.forEach(item => {
+    const corners = getRotatedCorners({ x: item.x, y: item.y, w: item.w, h: item.h, r: item.r || 0 });
+    const along = corners.map(c => (c.x - origin.x) * right.x + (c.y - origin.y) * right.y);
+    const inward = corners.map(c => -((c.x - a.x) * facing.x + (c.y - a.y) * facing.y));
+    const left = Math.max(0, Math.min(...along));
+    const rightEdge = Math.min(length, Math.max(...along));
+    const nearest = Math.min(...inward);
+    if (rightEdge - left < 1e-6 || Math.max(...inward) <= 0 || nearest > depth) return;
+
+    items.push({
+      id: item.id,
+      name: item.name,
+      color: item.color,
+      left,
+      right: rightEdge,
+      height: getFurnitureHeight(item),
+      distance: Math.max(0, nearest),
+    });
+  });
+  items.sort((p, q) => p.distance - q.distance);
+
+  return {
+    zoneId: zone.id,
+    zoneName: zone.name,
+    edgeIndex,
+    length,
+    height: options.wallHeight ?? DEFAULT_CEILING_HEIGHT,
+    depth,
+    items,
+  };
+}
+
+// Dimension line with architectural ticks and extension lines back to the measured points
+function dimensionShapes(
+  from: Point,
+  to: Point,
+  offset: Point,
+  label: string,
+  fontSize: number
+): ElevationShape[] {
+  const p1 = { x: from.x + offset.x, y: from.y + offset.y };
+  const p2 = { x: to.x + offset.x, y: to.y + offset.y };
+  const vertical = Math.abs(to.x - from.x) < Math.abs(to.y - from.y);
+  const mid = { x: (p1.x + p2.x) / 2, y: (p1.y + p2.y) / 2 };
+  const line = (points: number[], strokeWidth = 1): ElevationShape => ({ type: 'line', points, stroke: DIMENSION_COLOR, strokeWidth });
+
+  return [
+    line([from.x, from.y, p1.x + Math.sign(offset.x) * TICK, p1.y + Math.sign(offset.y) * TICK], 0.5),
+    line([to.x, to.y, p2.x + Math.sign(offset.x) * TICK, p2.y + Math.sign(offset.y) * TICK], 0.5),
+    line([p1.x, p1.y, p2.x, p2.y]),
+    line([p1.x - TICK, p1.y + TICK, p1.x + TICK, p1.y - TICK], 1.5),
+    line([p2.x - TICK, p2.y + TICK, p2.x + TICK, p2.y - TICK], 1.5),
+    vertical
+      ? { type: 'text', x: mid.x - 4, y: mid.y, text: label, fontSize, fill: DIMENSION_COLOR, align: 'center', rotation: -90 }
+      : { type: 'text', x: mid.x, y: mid.y - 4, text: label, fontSize, fill: DIMENSION_COLOR, align: 'center' },
+  ];
+}
+
+/**
+ * Lay the elevation out at `scale` px per cm: the wall, the items with their
+ * heights, a chain of widths and gaps along the floor and the overall length
+ */
+export function layoutWallElevation(
+  view: WallElevation,
+  options: { scale: number; unitSystem: 'cm' | 'm' }
+): ElevationDrawing {
+  const { scale, unitSystem } = options;
+  const label = (cm: number) => format_dimension(Math.round(cm), unitSystem);
+  const wallWidth = view.length * scale;
+  const wallHeight = view.height * scale;
+  const floorY = MARGIN.top + wallHeight;
+  const x = (cm: number) => MARGIN.left + cm * scale;
+  const shapes: ElevationShape[] = [];
+
+  shapes.push({
+    type: 'text',
+    x: MARGIN.left,
+    y: MARGIN.top - 20,
+    text: `${view.zoneName}, wall ${view.edgeIndex + 1}`,
+    fontSize: 14,
+    fill: LINE_COLOR,
+    align: 'left',
+  });
+  shapes.push({ type: 'rect', x: MARGIN.left, y: MARGIN.top, w: wallWidth, h: wallHeight, fill: WALL_FILL, stroke: WALL_STROKE });
+
+  view.items.forEach(item => {
+    const left = x(item.left);
+    const width = (item.right - item.left) * scale;
+    const top = floorY - item.height * scale;
+    shapes.push({ type: 'rect', x: left, y: top, w: width, h: item.height * scale, fill: item.color, stroke: LINE_COLOR });
+    if (width > 30) {
+      shapes.push({ type: 'text', x: left + width / 2, y: top - 6, text: item.name, fontSize: 10, fill: LINE_COLOR, align: 'center' });
+    }
+    shapes.push(...dimensionShapes(
+      { x: left + width, y: floorY },
+      { x: left + width, y: top },
+      { x: -Math.min(12, width / 3), y: 0 },
+      label(item.height),
+      9
+    ));
+  });
+
+  shapes.push({ type: 'line', points: [MARGIN.left - 10, floorY, MARGIN.left + wallWidth + 10, floorY], stroke: LINE_COLOR, strokeWidth: 2 });
+
+  // Wall height on the left
+  shapes.push(...dimensionShapes(
+    { x: MARGIN.left, y: floorY },
+    { x: MARGIN.left, y: MARGIN.top },
+    { x: -DIMENSION_OFFSET - 10, y: 0 },
+    label(view.height),
+    10
+  ));
+
+  // Chain of item widths and the gaps between them
+  const breaks = Array.from(new Set([0, view.length, ...view.items.flatMap(i => [i.left, i.right])].map(v => Math.round(v * 10) / 10)))
+    .sort((p, q) => p - q);
+  if (breaks.length > 2) {
+    breaks.slice(1).forEach((end, i) => {
+      const start = breaks[i];
+      if (end - start < 0.5) return;
+      const text = (end - start) * scale >= 28 ? label(end - start) : '';
+      shapes.push(...dimensionShapes({ x: x(start), y: floorY }, { x: x(end), y: floorY }, { x: 0, y: DIMENSION_OFFSET }, text, 9));
+    });
+  }
+
+  shapes.push(...dimensionShapes(
+    { x: x(0), y: floorY },
+    { x: x(view.length), y: floorY },
+    { x: 0, y: DIMENSION_OFFSET * (breaks.length > 2 ? 2 : 1) },
+    label(view.length),
+    10
+  ));
+
+  return {
+    width: MARGIN.left + wallWidth + MARGIN.right,
+    height: floorY + MARGIN.bottom,
+    shapes,
+  };
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Serialize a laid-out elevation as a standalone SVG document
+export function elevationToSvg(drawing: ElevationDrawing): string {
+  const anchors = { left: 'start', center: 'middle', right: 'end' };
+  const body = drawing.shapes.map(shape => {
+    switch (shape.type) {
+      case 'rect':
+        return `  <rect x="${shape.x}" y="${shape.y}" width="${shape.w}" height="${shape.h}" fill="${shape.fill}" stroke="${shape.stroke}" />`;
+      case 'line':
+        return `  <polyline points="${shape.points.join(' ')}" fill="none" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}" />`;
+      case 'text': {
+        const transform = shape.rotation ? ` transform="rotate(${shape.rotation} ${shape.x} ${shape.y})"` : '';
+        return `  <text x="${shape.x}" y="${shape.y}" font-size="${shape.fontSize}" fill="${shape.fill}" text-anchor="${anchors[shape.align]}"${transform}>${escapeXml(shape.text)}</text>`;
+      }
+    }
+  });
+
+  return [
+    `<svg width="${drawing.width}" height="${drawing.height}" xmlns="http://www.w3.org/2000/svg" font-family="Arial, sans-serif">`,
+    `  <rect width="100%" height="100%" fill="white" />`,
+    ...body,
+    '</svg>',
+  ].join('\n');
+}
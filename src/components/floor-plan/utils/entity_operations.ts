@@ -0,0 +1,179 @@
+/**
+ * Apply collaboration operations to the editor's entities
+ */
+
+import { z } from 'zod';
+import {
+  FloorPlanZone,
+  FurnitureItemType,
+  FloorPlanSettings,
+  WallSegment,
+  Opening,
+  Level,
+  Measurement,
+  Dimension,
+  zoneSchema,
+  furnitureItemSchema,
+  floorPlanSettingsSchema,
+  wallSchema,
+  openingSchema,
+  levelSchema,
+  measurementSchema,
+  dimensionSchema,
+} from '@/types';
+import { DiagramShape, diagram_shape_schema } from '../canvas/tools/diagram_schemas';
+import type { EntityKind, EntityOperation } from '@/lib/collaboration/protocol';
+
+export interface OperationTarget {
+  zones: FloorPlanZone[];
+  furniture: FurnitureItemType[];
+  walls: WallSegment[];
+  openings: Opening[];
+  diagrams: DiagramShape[];
+  levels: Level[];
+  measurements: Measurement[];
+  dimensions: Dimension[];
+  settings: FloorPlanSettings;
+}
+
+// Kinds kept as lists of entities with IDs; settings are a single object
+export type ListEntityKind = Exclude<EntityKind, 'settings'>;
+type ListField = Exclude<keyof OperationTarget, 'settings'>;
+
+// ID of the one settings entity
+export const SETTINGS_ID = 'settings';
+
+// Settings shared with collaborators; zoom, snap, the grid and layer visibility stay with each editor
+export const SHARED_SETTINGS = ['apartmentWidth', 'apartmentHeight', 'unitSystem', 'background'] as const;
+
+const ENTITY_FIELDS: Record<ListEntityKind, ListField> = {
+  zone: 'zones',
+  furniture: 'furniture',
+  wall: 'walls',
+  opening: 'openings',
+  diagram: 'diagrams',
+  level: 'levels',
+  measurement: 'measurements',
+  dimension: 'dimensions',
+};
+
+// Diagram shapes are a union of shape types, so they can be replaced but not patched
+const ENTITY_SCHEMAS: Record<ListEntityKind, z.ZodTypeAny> = {
+  zone: zoneSchema,
+  furniture: furnitureItemSchema,
+  wall: wallSchema,
+  opening: openingSchema,
+  diagram: diagram_shape_schema,
+  level: levelSchema,
+  measurement: measurementSchema,
+  dimension: dimensionSchema,
+};
+
+// A whole entity of any kind
+type EntityValue = { id: string; [key: string]: unknown };
+
+// One entity before and after an edit; a missing value means the entity did not exist
+export interface EntityChange {
+  kind: ListEntityKind;
+  before?: EntityValue;
+  after?: EntityValue;
+}
+
+function applyOperation<T extends { id: string }>(items: T[], operation: EntityOperation): T[] {
+  const schema = ENTITY_SCHEMAS[operation.kind as ListEntityKind];
+
+  switch (operation.type) {
+    case 'upsert': {
+      const result = schema.safeParse({ ...operation.value, id: operation.id });
+      if (!result.success) {
+        console.warn('Ignoring invalid remote entity:', operation.kind, operation.id, result.error.issues);
+        return items;
+      }
+      const value = result.data as T;
+      return items.some(item => item.id === operation.id)
+        ? items.map(item => item.id === operation.id ? value : item)
+        : [...items, value];
+    }
+    case 'patch': {
+      if (!(schema instanceof z.ZodObject)) {
+        console.warn('Ignoring remote update to an entity that can only be replaced:', operation.kind, operation.id);
+        return items;
+      }
+      // Keys sent as undefined are dropped by JSON, so cleared fields arrive as null
+      const keys = Object.keys(operation.values).filter(key => key !== 'id' && key in schema.shape);
+      const raw = Object.fromEntries(keys.map(key => [key, operation.values[key] ?? undefined]));
+      const result = schema.partial().safeParse(raw);
+      if (!result.success) {
+        console.warn('Ignoring invalid remote update:', operation.kind, operation.id, result.error.issues);
+        return items;
+      }
+      const values = Object.fromEntries(keys.map(key => [key, result.data[key]]));
+      return items.map(item => item.id === operation.id ? { ...item, ...values } : item);
+    }
+    case 'delete':
+      return items.filter(item => item.id !== operation.id);
+  }
+}
+
+// Settings are only ever patched; unshared keys are ignored
+function applySettingsOperation(settings: FloorPlanSettings, operation: EntityOperation): FloorPlanSettings {
+  if (operation.type === 'delete') return settings;
+  const values = operation.type === 'upsert' ? operation.value : operation.values;
+  const keys = Object.keys(values).filter(key => (SHARED_SETTINGS as readonly string[]).includes(key));
+  const raw = Object.fromEntries(keys.map(key => [key, values[key] ?? undefined]));
+  const result = floorPlanSettingsSchema.partial().safeParse(raw);
+  if (!result.success) {
+    console.warn('Ignoring invalid remote settings:', result.error.issues);
+    return settings;
+  }
+  return { ...settings, ...Object.fromEntries(keys.map(key => [key, result.data[key as keyof typeof result.data]])) };
+}
+
+/**
+ * Apply operations in order; patches to entities that no longer exist are ignored
+ */
+export function applyEntityOperations<S extends Partial<OperationTarget>>(state: S, operations: EntityOperation[]): S {
+  const next = { ...state };
+  operations.forEach(operation => {
+    if (operation.kind === 'settings') {
+      if (next.settings) next.settings = applySettingsOperation(next.settings, operation);
+      return;
+    }
+    const field = ENTITY_FIELDS[operation.kind];
+    (next[field] as { id: string }[]) = applyOperation((next[field] ?? []) as { id: string }[], operation);
+    // Levels stay ordered from the lowest up, wherever a re-added level lands
+    if (operation.kind === 'level') {
+      next.levels = [...(next.levels ?? [])].sort((a, b) => a.elevation - b.elevation);
+    }
+  });
+  return next;
+}
+
+/**
+ * Entities added, replaced or removed between two versions of the editor's lists;
+ * unchanged entities keep their object, so only those are compared
+ */
+export function diffEntities(before: Partial<OperationTarget>, after: Partial<OperationTarget>): EntityChange[] {
+  return (Object.keys(ENTITY_FIELDS) as ListEntityKind[]).flatMap(kind => {
+    const field = ENTITY_FIELDS[kind];
+    const previous = before[field] as { id: string }[] | undefined;
+    const next = after[field] as { id: string }[] | undefined;
+    if (!previous || !next || previous === next) return [];
+
+    const previousById = new Map(previous.map(item => [item.id, item]));
+    const nextIds = new Set(next.map(item => item.id));
+    return [
+      ...next.flatMap(item => previousById.get(item.id) === item ? [] : [{ kind, before: previousById.get(item.id), after: item }]),
+      ...previous.flatMap(item => nextIds.has(item.id) ? [] : [{ kind, before: item }]),
+    ];
+  });
+}
+
+/**
+ * Make values safe to send: undefined becomes null so clearing a field survives JSON
+ */
+export function toWireValues(values: object): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, value === undefined ? null : value])
+  );
+}
@@ -3,14 +3,32 @@
  * Handles various export formats and options
  */
 
-import { FloorPlanZone, FurnitureItemType, FloorPlanSettings } from '@/types';
+import { FloorPlanZone, FurnitureItemType, FloorPlanSettings, WallSegment, Opening, Measurement, Dimension, Level } from '@/types';
 import { DiagramShape } from '../editor/schemas';
+import { getZonePolygon, getZoneArea, isPolygonZone } from './zone_logic';
+import { polygonCentroid } from './geometry';
+import { computeWallOutlines } from './wall_logic';
+import { getOpeningCutout, getOpeningGeometry, getOpeningHostEdge } from './opening_logic';
+import { layoutDimension, resolveDimension } from './dimension_logic';
+import { format_area } from './units';
+import { floorPlanToDxf } from './dxf_export';
+import { floorPlanToPdf, furnitureScheduleToPdf, PaperSize } from './pdf_export';
+import { buildFurnitureSchedule, scheduleToCsv } from './furniture_schedule';
+import { toProjectJson } from './project_json';
+import { buildPlanMesh, planMeshToGlb, planMeshToObj } from './mesh_export';
+import { ElevationDrawing, elevationToSvg } from './elevation';
 
 export interface ExportData {
   zones: FloorPlanZone[];
   furniture: FurnitureItemType[];
   settings: FloorPlanSettings;
   diagramShapes?: DiagramShape[];
+  walls?: WallSegment[];
+  openings?: Opening[];
+  measurements?: Measurement[];
+  dimensions?: Dimension[];
+  // Every level of the project; only the JSON export carries levels
+  levels?: Level[];
   metadata?: {
     title?: string;
     description?: string;
@@ -20,7 +38,7 @@ export interface ExportData {
 }
 
 export interface ExportOptions {
-  format: 'png' | 'jpg' | 'svg' | 'pdf' | 'json' | 'csv';
+  format: 'png' | 'jpg' | 'svg' | 'pdf' | 'json' | 'csv' | 'dxf' | 'glb' | 'obj';
   quality: number;
   scale: number;
   width?: number;
@@ -32,11 +50,19 @@ export interface ExportOptions {
   includeFurniture: boolean;
   includeZones: boolean;
   includeDiagrams: boolean;
-  paperSize?: 'A4' | 'A3' | 'Letter' | 'Legal' | 'Custom';
+  paperSize?: PaperSize;
   orientation?: 'portrait' | 'landscape';
   margins?: number;
+  // Architectural scale denominator for PDF sheets (100 for 1:100); fits the page when omitted
+  drawingScale?: number;
+  includeSchedule?: boolean;
+  // Height in cm that walls are extruded to in 3D exports
+  ceilingHeight?: number;
+  // Floor slab thickness in cm for 3D exports
+  slabThickness?: number;
   title?: string;
   description?: string;
+  author?: string;
 }
 
 // Download file helper
@@ -52,6 +78,95 @@ function downloadFile(content: string | Blob, filename: string, mimeType: string
   URL.revokeObjectURL(url);
 }
 
+// Trace a zone outline (rectangle or polygon) as the current canvas path
+function traceZonePath(ctx: CanvasRenderingContext2D, zone: FloorPlanZone, cm2px: (cm: number) => number) {
+  const points = getZonePolygon(zone);
+  ctx.beginPath();
+  points.forEach((point, index) => {
+    if (index === 0) {
+      ctx.moveTo(cm2px(point.x), cm2px(point.y));
+    } else {
+      ctx.lineTo(cm2px(point.x), cm2px(point.y));
+    }
+  });
+  ctx.closePath();
+}
+
+// Fill the mitered outline of every wall
+function drawWalls(ctx: CanvasRenderingContext2D, walls: WallSegment[], cm2px: (cm: number) => number) {
+  const outlines = computeWallOutlines(walls);
+  walls.forEach(wall => {
+    const outline = outlines.get(wall.id);
+    if (!outline) return;
+    ctx.beginPath();
+    outline.forEach((point, index) => {
+      if (index === 0) {
+        ctx.moveTo(cm2px(point.x), cm2px(point.y));
+      } else {
+        ctx.lineTo(cm2px(point.x), cm2px(point.y));
+      }
+    });
+    ctx.closePath();
+    ctx.fillStyle = wall.color || '#4b5563';
+    ctx.fill();
+    ctx.strokeStyle = '#1f2937';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+  });
+}
+
+// Cut door and window gaps into their hosts, then draw leaves, swing arcs and panes
+function drawOpenings(ctx: CanvasRenderingContext2D, data: ExportData, cm2px: (cm: number) => number) {
+  const tracePath = (points: { x: number; y: number }[], close: boolean) => {
+    ctx.beginPath();
+    points.forEach((point, index) => {
+      if (index === 0) {
+        ctx.moveTo(cm2px(point.x), cm2px(point.y));
+      } else {
+        ctx.lineTo(cm2px(point.x), cm2px(point.y));
+      }
+    });
+    if (close) ctx.closePath();
+  };
+
+  (data.openings ?? []).forEach(opening => {
+    const edge = getOpeningHostEdge(opening, data.walls ?? [], data.zones);
+    if (!edge) return;
+    const geometry = getOpeningGeometry(opening, edge);
+
+    tracePath(getOpeningCutout(geometry), true);
+    ctx.fillStyle = opening.type === 'window' ? '#e0f2fe' : '#ffffff';
+    ctx.fill();
+
+    ctx.strokeStyle = '#1f2937';
+    ctx.setLineDash([]);
+    if (opening.type === 'window') {
+      const n = { x: -geometry.dir.y, y: geometry.dir.x };
+      const inset = geometry.thickness / 4;
+      ctx.lineWidth = 1.5;
+      [inset, -inset].forEach(d => {
+        tracePath(geometry.jambs.map(j => ({ x: j.x + n.x * d, y: j.y + n.y * d })), false);
+        ctx.stroke();
+      });
+      return;
+    }
+
+    ctx.lineWidth = 2;
+    tracePath([geometry.hinge, geometry.leafEnd], false);
+    ctx.stroke();
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 3]);
+    tracePath(geometry.arc, false);
+    ctx.stroke();
+    ctx.setLineDash([]);
+  });
+}
+
+// Dimension label for a zone: bounding size for rectangles, floor area for polygons
+function zoneDimensionLabel(zone: FloorPlanZone): string {
+  return isPolygonZone(zone) ? format_area(getZoneArea(zone), 'm') : `${zone.w}×${zone.h} cm`;
+}
+
 // Generate filename with timestamp
 function generateFilename(title: string, format: string): string {
   const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
@@ -59,42 +174,9 @@ function generateFilename(title: string, format: string): string {
   return `${safeName}_${timestamp}.${format}`;
 }
 
-// Export as JSON
+// Export as a versioned project JSON file that the project importer reads back
 export function exportAsJSON(data: ExportData, options: ExportOptions): void {
-  const exportData = {
-    ...data,
-    metadata: {
-      title: options.title || 'Floor Plan',
-      description: options.description || '',
-      exportedAt: new Date().toISOString(),
-      version: '1.0',
-      exportOptions: {
-        includeFurniture: options.includeFurniture,
-        includeZones: options.includeZones,
-        includeDiagrams: options.includeDiagrams
-      }
-    }
-  };
-
-  // Filter data based on options
-  const filteredData = { ...exportData };
-  if (!options.includeFurniture) {
-    const { furniture, ...rest } = filteredData;
-    Object.assign(filteredData, rest);
-  }
-  if (!options.includeZones) {
-    const { zones, ...rest } = filteredData;
-    Object.assign(filteredData, rest);
-  }
-  if (!options.includeDiagrams) {
-    const { diagramShapes, ...rest } = filteredData;
-    Object.assign(filteredData, rest);
-  }
-
-  // Use filtered data for the rest of the function
-  const finalExportData = filteredData;
-
-  const json = JSON.stringify(finalExportData, null, 2);
+  const json = JSON.stringify(toProjectJson(data, options), null, 2);
   const filename = generateFilename(options.title || 'floor_plan', 'json');
   downloadFile(json, filename, 'application/json');
 }
@@ -145,6 +227,30 @@ export function exportAsCSV(data: ExportData, options: ExportOptions): void {
   downloadFile(csv, filename, 'text/csv');
 }
 
+// Export as DXF in centimetres, one layer per kind of content
+export function exportAsDXF(data: ExportData, options: ExportOptions): void {
+  const dxf = floorPlanToDxf(data, options);
+  const filename = generateFilename(options.title || 'floor_plan', 'dxf');
+  downloadFile(dxf, filename, 'application/dxf');
+}
+
+// Export the extruded plan as a glTF binary, in metres
+export function exportAsGLB(data: ExportData, options: ExportOptions): void {
+  const title = options.title || 'Floor Plan';
+  const glb = planMeshToGlb(buildPlanMesh(data, options), title);
+  const filename = generateFilename(options.title || 'floor_plan', 'glb');
+  downloadFile(new Blob([glb], { type: 'model/gltf-binary' }), filename, 'model/gltf-binary');
+}
+
+// Export the extruded plan as OBJ with its MTL material file, in metres
+export function exportAsOBJ(data: ExportData, options: ExportOptions): void {
+  const filename = generateFilename(options.title || 'floor_plan', 'obj');
+  const mtlFilename = filename.replace(/\.obj$/, '.mtl');
+  const { obj, mtl } = planMeshToObj(buildPlanMesh(data, options), mtlFilename, options.title || 'Floor Plan');
+  downloadFile(obj, filename, 'model/obj');
+  downloadFile(mtl, mtlFilename, 'model/mtl');
+}
+
 // Export as SVG
 export function exportAsSVG(
   data: ExportData,
@@ -162,9 +268,11 @@ export function exportAsSVG(
   <defs>
     <style>
       .zone { fill-opacity: 0.3; stroke-width: 2; }
+      .wall { stroke: #1f2937; stroke-width: 1; }
       .furniture { stroke-width: 1; stroke: #333; }
       .label { font-family: Arial, sans-serif; font-size: 12px; text-anchor: middle; }
       .dimension { font-family: Arial, sans-serif; font-size: 10px; fill: #666; }
+      .dimension-line { fill: none; stroke: #666; stroke-width: 1; }
     </style>
   </defs>
 `;
@@ -196,19 +304,58 @@ export function exportAsSVG(
       const w = cm2px(zone.w);
       const h = cm2px(zone.h);
       const color = zone.color || '#e3f2fd';
-
-      svg += `  <rect class="zone" x="${x}" y="${y}" width="${w}" height="${h}" fill="${color}" stroke="${color}"/>\n`;
+      const center = isPolygonZone(zone) ? polygonCentroid(getZonePolygon(zone)) : null;
+      const cx = center ? cm2px(center.x) : x + w / 2;
+      const cy = center ? cm2px(center.y) : y + h / 2;
+
+      if (isPolygonZone(zone)) {
+        const points = getZonePolygon(zone).map(p => `${cm2px(p.x)},${cm2px(p.y)}`).join(' ');
+        svg += `  <polygon class="zone" points="${points}" fill="${color}" stroke="${color}"/>\n`;
+      } else {
+        svg += `  <rect class="zone" x="${x}" y="${y}" width="${w}" height="${h}" fill="${color}" stroke="${color}"/>\n`;
+      }
 
       if (options.includeLabels) {
-        svg += `  <text class="label" x="${x + w / 2}" y="${y + h / 2}" dominant-baseline="middle">${zone.name}</text>\n`;
+        svg += `  <text class="label" x="${cx}" y="${cy}" dominant-baseline="middle">${zone.name}</text>\n`;
 
         if (options.includeDimensions) {
-          svg += `  <text class="dimension" x="${x + w / 2}" y="${y + h / 2 + 15}" text-anchor="middle">${zone.w}×${zone.h} cm</text>\n`;
+          svg += `  <text class="dimension" x="${cx}" y="${cy + 15}" text-anchor="middle">${zoneDimensionLabel(zone)}</text>\n`;
         }
       }
     });
   }
 
+  // Add walls
+  if (data.walls && data.walls.length > 0) {
+    const outlines = computeWallOutlines(data.walls);
+    data.walls.forEach(wall => {
+      const outline = outlines.get(wall.id);
+      if (!outline) return;
+      const points = outline.map(p => `${cm2px(p.x)},${cm2px(p.y)}`).join(' ');
+      svg += `  <polygon class="wall" points="${points}" fill="${wall.color || '#4b5563'}"/>\n`;
+    });
+  }
+
+  // Add doors and windows
+  (data.openings ?? []).forEach(opening => {
+    const edge = getOpeningHostEdge(opening, data.walls ?? [], data.zones);
+    if (!edge) return;
+    const geometry = getOpeningGeometry(opening, edge);
+    const toPoints = (points: { x: number; y: number }[]) => points.map(p => `${cm2px(p.x)},${cm2px(p.y)}`).join(' ');
+
+    svg += `  <polygon class="opening" points="${toPoints(getOpeningCutout(geometry))}" fill="${opening.type === 'window' ? '#e0f2fe' : '#ffffff'}"/>\n`;
+    if (opening.type === 'window') {
+      const n = { x: -geometry.dir.y, y: geometry.dir.x };
+      const inset = geometry.thickness / 4;
+      [inset, -inset].forEach(d => {
+        svg += `  <polyline points="${toPoints(geometry.jambs.map(j => ({ x: j.x + n.x * d, y: j.y + n.y * d })))}" fill="none" stroke="#1f2937" stroke-width="1.5"/>\n`;
+      });
+    } else {
+      svg += `  <polyline points="${toPoints([geometry.hinge, geometry.leafEnd])}" fill="none" stroke="#1f2937" stroke-width="2"/>\n`;
+      svg += `  <polyline points="${toPoints(geometry.arc)}" fill="none" stroke="#1f2937" stroke-width="1" stroke-dasharray="4 3"/>\n`;
+    }
+  });
+
   // Add furniture if included
   if (options.includeFurniture) {
     data.furniture.forEach(item => {
@@ -231,6 +378,25 @@ export function exportAsSVG(
     });
   }
 
+  // Add dimension lines attached to zones, walls and furniture
+  if (options.includeDimensions) {
+    const entities = { zones: data.zones, walls: data.walls ?? [], furniture: data.furniture };
+    (data.dimensions ?? []).forEach(dimension => {
+      const resolved = resolveDimension(dimension, entities);
+      if (!resolved) return;
+      const layout = layoutDimension(resolved, dimension, {
+        unitSystem: data.settings.unitSystem,
+        markSize: 8 / scale,
+        textGap: 8 / scale,
+      });
+      const path = layout.lines.map(([a, b]) => `M ${cm2px(a.x)} ${cm2px(a.y)} L ${cm2px(b.x)} ${cm2px(b.y)}`).join(' ');
+      const x = cm2px(layout.label.at.x);
+      const y = cm2px(layout.label.at.y);
+      svg += `  <path class="dimension-line" d="${path}"/>\n`;
+      svg += `  <text class="dimension" x="${x}" y="${y}" text-anchor="middle" dominant-baseline="middle" transform="rotate(${layout.label.angle} ${x} ${y})">${layout.label.text}</text>\n`;
+    });
+  }
+
   svg += '</svg>';
 
   const filename = generateFilename(options.title || 'floor_plan', 'svg');
@@ -286,30 +452,43 @@ export function exportAsImage(
       const w = cm2px(zone.w);
       const h = cm2px(zone.h);
 
+      const center = isPolygonZone(zone) ? polygonCentroid(getZonePolygon(zone)) : null;
+      const cx = center ? cm2px(center.x) : x + w / 2;
+      const cy = center ? cm2px(center.y) : y + h / 2;
+
+      traceZonePath(ctx, zone, cm2px);
       ctx.fillStyle = zone.color || '#e3f2fd';
       ctx.globalAlpha = 0.3;
-      ctx.fillRect(x, y, w, h);
+      ctx.fill();
 
       ctx.globalAlpha = 1;
       ctx.strokeStyle = zone.color || '#e3f2fd';
       ctx.lineWidth = 2;
-      ctx.strokeRect(x, y, w, h);
+      ctx.stroke();
 
       if (options.includeLabels) {
         ctx.fillStyle = '#333';
         ctx.font = '12px Arial';
         ctx.textAlign = 'center';
-        ctx.fillText(zone.name, x + w / 2, y + h / 2);
+        ctx.fillText(zone.name, cx, cy);
 
         if (options.includeDimensions) {
           ctx.font = '10px Arial';
           ctx.fillStyle = '#666';
-          ctx.fillText(`${zone.w}×${zone.h} cm`, x + w / 2, y + h / 2 + 15);
+          ctx.fillText(zoneDimensionLabel(zone), cx, cy + 15);
         }
       }
     });
   }
 
+  // Draw walls
+  if (data.walls && data.walls.length > 0) {
+    drawWalls(ctx, data.walls, cm2px);
+  }
+
+  // Draw doors and windows
+  drawOpenings(ctx, data, cm2px);
+
   // Draw furniture
   if (options.includeFurniture) {
     data.furniture.forEach(item => {
@@ -357,131 +536,98 @@ export function exportAsImage(
   }, mimeType, options.quality);
 }
 
-// Export as PDF
+// Export as a vector PDF sheet at an architectural scale
 export function exportAsPDF(
   data: ExportData,
   options: ExportOptions
 ): void {
-  // Create a temporary canvas for PDF generation
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d');
-  if (!ctx) throw new Error('Could not get canvas context');
-
-  // Set PDF dimensions (A4 at 300 DPI)
-  const pdfWidth = 595; // A4 width in points at 72 DPI
-  const pdfHeight = 842; // A4 height in points at 72 DPI
-
-  canvas.width = pdfWidth * 4; // Higher resolution for better quality
-  canvas.height = pdfHeight * 4;
-
-  // Scale down when drawing to fit PDF size
-  ctx.scale(4, 4);
-
-  // Fill background
-  ctx.fillStyle = 'white';
-  ctx.fillRect(0, 0, pdfWidth, pdfHeight);
-
-  // Draw grid if enabled
-  if (options.includeGrid) {
-    const gridSize = 25 * data.settings.scale * options.scale;
-    ctx.strokeStyle = '#e2e8f0';
-    ctx.lineWidth = 1;
-
-    for (let x = 0; x <= pdfWidth; x += gridSize) {
-      ctx.beginPath();
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, pdfHeight);
-      ctx.stroke();
-    }
-
-    for (let y = 0; y <= pdfHeight; y += gridSize) {
-      ctx.beginPath();
-      ctx.moveTo(0, y);
-      ctx.lineTo(pdfWidth, y);
-      ctx.stroke();
-    }
-  }
-
-  const scale = data.settings.scale * options.scale;
-  const cm2px = (cm: number) => cm * scale;
-
-  // Draw zones
-  if (options.includeZones) {
-    data.zones.forEach(zone => {
-      const x = cm2px(zone.x);
-      const y = cm2px(zone.y);
-      const w = cm2px(zone.w);
-      const h = cm2px(zone.h);
-
-      ctx.fillStyle = zone.color || '#e3f2fd';
-      ctx.globalAlpha = 0.3;
-      ctx.fillRect(x, y, w, h);
-
-      ctx.globalAlpha = 1;
-      ctx.strokeStyle = zone.color || '#e3f2fd';
-      ctx.lineWidth = 2;
-      ctx.strokeRect(x, y, w, h);
+  const pdf = floorPlanToPdf(data, options);
+  const filename = generateFilename(options.title || 'floor_plan', 'pdf');
+  downloadFile(pdf.toBlob(), filename, 'application/pdf');
+}
 
-      if (options.includeLabels) {
-        ctx.fillStyle = '#333';
-        ctx.font = '12px Arial';
-        ctx.textAlign = 'center';
-        ctx.fillText(zone.name, x + w / 2, y + h / 2);
+// Export an image rendered elsewhere, such as a Konva stage snapshot
+export function exportImageDataUrl(dataUrl: string, title: string, format: 'png' | 'jpg' = 'png'): void {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] ?? `image/${format === 'jpg' ? 'jpeg' : 'png'}`;
+  const bytes = Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+  downloadFile(new Blob([bytes], { type: mimeType }), generateFilename(title, format), mimeType);
+}
 
-        if (options.includeDimensions) {
-          ctx.font = '10px Arial';
-          ctx.fillStyle = '#666';
-          ctx.fillText(`${zone.w}×${zone.h} cm`, x + w / 2, y + h / 2 + 15);
-        }
-      }
-    });
+// Export a laid-out wall elevation as SVG, or as PNG at twice its size
+export function exportWallElevation(drawing: ElevationDrawing, format: 'png' | 'svg', title = 'wall_elevation'): void {
+  if (format === 'svg') {
+    downloadFile(elevationToSvg(drawing), generateFilename(title, 'svg'), 'image/svg+xml');
+    return;
   }
 
-  // Draw furniture
-  if (options.includeFurniture) {
-    data.furniture.forEach(item => {
-      const x = cm2px(item.x);
-      const y = cm2px(item.y);
-      const w = cm2px(item.w);
-      const h = cm2px(item.h);
-
-      ctx.save();
-      ctx.translate(x + w / 2, y + h / 2);
-      ctx.rotate(item.r * Math.PI / 180);
-      ctx.translate(-w / 2, -h / 2);
-
-      ctx.fillStyle = item.color;
-      ctx.fillRect(0, 0, w, h);
-
-      ctx.strokeStyle = '#333';
-      ctx.lineWidth = 1;
-      ctx.strokeRect(0, 0, w, h);
-
-      if (options.includeLabels) {
-        ctx.fillStyle = 'white';
-        ctx.font = '12px Arial';
-        ctx.textAlign = 'center';
-        ctx.fillText(item.name, w / 2, h / 2);
+  const pixelRatio = 2;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(drawing.width * pixelRatio);
+  canvas.height = Math.ceil(drawing.height * pixelRatio);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
 
-        if (options.includeDimensions) {
-          ctx.font = '10px Arial';
-          ctx.fillText(`${item.w}×${item.h} cm`, w / 2, h / 2 + 15);
+  ctx.scale(pixelRatio, pixelRatio);
+  ctx.fillStyle = 'white';
+  ctx.fillRect(0, 0, drawing.width, drawing.height);
+  drawing.shapes.forEach(shape => {
+    switch (shape.type) {
+      case 'rect':
+        ctx.fillStyle = shape.fill;
+        ctx.fillRect(shape.x, shape.y, shape.w, shape.h);
+        ctx.strokeStyle = shape.stroke;
+        ctx.lineWidth = 1;
+        ctx.strokeRect(shape.x, shape.y, shape.w, shape.h);
+        break;
+      case 'line':
+        ctx.strokeStyle = shape.stroke;
+        ctx.lineWidth = shape.strokeWidth;
+        ctx.beginPath();
+        ctx.moveTo(shape.points[0], shape.points[1]);
+        for (let i = 2; i < shape.points.length; i += 2) {
+          ctx.lineTo(shape.points[i], shape.points[i + 1]);
         }
-      }
-
-      ctx.restore();
-    });
-  }
+        ctx.stroke();
+        break;
+      case 'text':
+        ctx.save();
+        ctx.translate(shape.x, shape.y);
+        if (shape.rotation) ctx.rotate((shape.rotation * Math.PI) / 180);
+        ctx.fillStyle = shape.fill;
+        ctx.font = `${shape.fontSize}px Arial`;
+        ctx.textAlign = shape.align;
+        ctx.fillText(shape.text, 0, 0);
+        ctx.restore();
+        break;
+    }
+  });
 
-  // Convert canvas to image and download as PDF
-  const filename = generateFilename(options.title || 'floor_plan', 'pdf');
+  const filename = generateFilename(title, 'png');
   canvas.toBlob((blob) => {
     if (blob) {
-      // For now, download as PNG with PDF filename - in production you'd use jsPDF
       downloadFile(blob, filename, 'image/png');
-      console.warn('PDF export downloaded as PNG - implement jsPDF for true PDF support');
     }
-  }, 'image/png', 1.0);
+  }, 'image/png');
+}
+
+export type ScheduleExportFormat = 'csv' | 'excel' | 'pdf';
+
+// Export the furniture schedule on its own: plain CSV, CSV for Excel, or a PDF sheet
+export function exportFurnitureSchedule(
+  data: ExportData,
+  format: ScheduleExportFormat,
+  options: Pick<ExportOptions, 'title' | 'author' | 'paperSize'> = {}
+): void {
+  const title = options.title || 'Furniture Schedule';
+  if (format === 'pdf') {
+    const pdf = furnitureScheduleToPdf(data, { ...options, title });
+    downloadFile(pdf.toBlob(), generateFilename(title, 'pdf'), 'application/pdf');
+    return;
+  }
+  const schedule = buildFurnitureSchedule(data.zones, data.furniture);
+  const csv = scheduleToCsv(schedule, { title, excel: format === 'excel' });
+  downloadFile(csv, generateFilename(title, 'csv'), 'text/csv;charset=utf-8');
 }
 
 // Main export function
@@ -498,6 +644,15 @@ export function exportFloorPlan(
       case 'csv':
         exportAsCSV(data, options);
         break;
+      case 'dxf':
+        exportAsDXF(data, options);
+        break;
+      case 'glb':
+        exportAsGLB(data, options);
+        break;
+      case 'obj':
+        exportAsOBJ(data, options);
+        break;
       case 'svg':
         exportAsSVG(data, options, canvasElement);
         break;
@@ -0,0 +1,159 @@
+/**
+ * Furniture schedule (bill of materials): placed furniture grouped by catalog
+ * item and by zone, with footprint areas and zone utilization
+ */
+
+import { FloorPlanZone, FurnitureItemType } from '@/types';
+import { getFurnitureForItem } from '@/components/floor-plan/furniture';
+import { calculateZoneUtilization } from './zone_logic';
+import { cm2_to_m2 } from './units';
+
+export interface ScheduleLine {
+  name: string;
+  category: string;
+  quantity: number;
+  // Footprint size of one item in cm
+  w: number;
+  h: number;
+  color: string;
+  // Total footprint of all items on the line in cm²
+  footprint: number;
+  // Names of the zones holding at least one of the items
+  zones: string[];
+  furnitureIds: string[];
+}
+
+export type ZoneUtilization = ReturnType<typeof calculateZoneUtilization>;
+
+export interface ZoneSchedule {
+  zone: FloorPlanZone;
+  lines: ScheduleLine[];
+  utilization: ZoneUtilization;
+}
+
+export interface FurnitureSchedule {
+  // Every placed item, grouped by catalog item, size and colour
+  items: ScheduleLine[];
+  zones: ZoneSchedule[];
+  // Items not assigned to any zone
+  unassigned: ScheduleLine[];
+  totals: { quantity: number; footprint: number };
+}
+
+export interface ScheduleCsvOptions {
+  // Spreadsheet flavour: byte order mark and CRLF line endings so Excel reads UTF-8,
+  // and text cells guarded against formula evaluation
+  excel?: boolean;
+  title?: string;
+}
+
+/**
+ * Resolve the zone an item is assigned to. The editor stores the zone's `id`;
+ * imported and seeded layouts may use its `zoneId` slug instead.
+ */
+function findItemZone(item: FurnitureItemType, zones: FloorPlanZone[]): FloorPlanZone | undefined {
+  if (!item.zoneId) return undefined;
+  return zones.find(z => z.id === item.zoneId) ?? zones.find(z => z.zoneId === item.zoneId);
+}
+
+function groupLines(furniture: FurnitureItemType[], zoneOf: (item: FurnitureItemType) => FloorPlanZone | undefined): ScheduleLine[] {
+  const lines = new Map<string, ScheduleLine>();
+  furniture.forEach(item => {
+    const entry = getFurnitureForItem(item);
+    const key = `${entry?.id ?? item.name.toLowerCase()}|${item.w}|${item.h}|${item.color.toLowerCase()}`;
+    const line = lines.get(key) ?? {
+      name: item.name,
+      category: entry?.category ?? 'other',
+      quantity: 0,
+      w: item.w,
+      h: item.h,
+      color: item.color,
+      footprint: 0,
+      zones: [],
+      furnitureIds: [],
+    };
+    line.quantity++;
+    line.footprint += item.w * item.h;
+    line.furnitureIds.push(item.id);
+    const zone = zoneOf(item);
+    if (zone && !line.zones.includes(zone.name)) line.zones.push(zone.name);
+    lines.set(key, line);
+  });
+  return Array.from(lines.values()).sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Build the furniture schedule for a set of zones and the furniture placed among them
+ */
+export function buildFurnitureSchedule(zones: FloorPlanZone[], furniture: FurnitureItemType[]): FurnitureSchedule {
+  const zoneOf = (item: FurnitureItemType) => findItemZone(item, zones);
+  // calculateZoneUtilization matches on the zone's id, so normalise slug assignments first
+  const assigned = furniture.map(item => ({ ...item, zoneId: zoneOf(item)?.id }));
+
+  return {
+    items: groupLines(furniture, zoneOf),
+    zones: zones.map(zone => {
+      const inZone = furniture.filter(item => zoneOf(item) === zone);
+      return {
+        zone,
+        lines: groupLines(inZone, zoneOf),
+        utilization: calculateZoneUtilization(zone, assigned),
+      };
+    }),
+    unassigned: groupLines(furniture.filter(item => !zoneOf(item)), zoneOf),
+    totals: {
+      quantity: furniture.length,
+      footprint: furniture.reduce((sum, item) => sum + item.w * item.h, 0),
+    },
+  };
+}
+
+// Zones with no area report NaN utilization; treat them as empty
+export function utilizationPercent(utilization: ZoneUtilization): number {
+  return Number.isFinite(utilization.utilizationPercentage) ? utilization.utilizationPercentage : 0;
+}
+
+function csvCell(value: string | number, excel: boolean): string {
+  if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+  const guarded = excel && /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(guarded) ? `"${guarded.replace(/"/g, '""')}"` : guarded;
+}
+
+/**
+ * Serialise a schedule as CSV: one section per table, areas in m²
+ */
+export function scheduleToCsv(schedule: FurnitureSchedule, options: ScheduleCsvOptions = {}): string {
+  const excel = !!options.excel;
+  const rows: Array<Array<string | number>> = [];
+  const m2 = (cm2: number) => cm2_to_m2(cm2);
+
+  rows.push(['Title', options.title || 'Furniture Schedule']);
+  rows.push(['Exported At', new Date().toISOString()]);
+  rows.push([]);
+
+  rows.push(['ITEMS']);
+  rows.push(['Category', 'Item', 'Quantity', 'Width (cm)', 'Length (cm)', 'Footprint each (m²)', 'Total footprint (m²)', 'Colour', 'Zones']);
+  schedule.items.forEach(line => {
+    rows.push([line.category, line.name, line.quantity, line.w, line.h, m2(line.w * line.h), m2(line.footprint), line.color, line.zones.join('; ')]);
+  });
+  rows.push(['Total', '', schedule.totals.quantity, '', '', '', m2(schedule.totals.footprint), '', '']);
+  rows.push([]);
+
+  rows.push(['BY ZONE']);
+  rows.push(['Zone', 'Category', 'Item', 'Quantity', 'Width (cm)', 'Length (cm)', 'Total footprint (m²)', 'Colour']);
+  const zoneRows = (zoneName: string, lines: ScheduleLine[]) => lines.forEach(line => {
+    rows.push([zoneName, line.category, line.name, line.quantity, line.w, line.h, m2(line.footprint), line.color]);
+  });
+  schedule.zones.forEach(({ zone, lines }) => zoneRows(zone.name, lines));
+  zoneRows('Unassigned', schedule.unassigned);
+  rows.push([]);
+
+  rows.push(['ZONE UTILIZATION']);
+  rows.push(['Zone', 'Area (m²)', 'Occupied (m²)', 'Utilization (%)', 'Items']);
+  schedule.zones.forEach(({ zone, utilization }) => {
+    rows.push([zone.name, m2(utilization.totalArea), m2(utilization.occupiedArea), utilizationPercent(utilization), utilization.furnitureCount]);
+  });
+
+  const csv = rows.map(row => row.map(cell => csvCell(cell, excel)).join(',')).join(excel ? '\r\n' : '\n');
+  return excel ? `\uFEFF${csv}` : csv;
+}
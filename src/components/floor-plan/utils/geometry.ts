@@ -266,4 +266,241 @@ export function scaleRectAspectRatio(
     w: newWidth,
     h: newHeight,
   };
-}
\ No newline at end of file
+}
+/**
+ * Get the corners of a rotated rectangle
+ * Rotation pivots around the top-left corner (x, y), matching Konva nodes
+ * @param rect - Rotated rectangle
+ * @returns Corners in clockwise order, starting at the top-left
+ */
+export function getRotatedCorners(rect: RotatedRectangle): Point[] {
+  const origin = { x: rect.x, y: rect.y };
+  return [
+    { x: rect.x, y: rect.y },
+    { x: rect.x + rect.w, y: rect.y },
+    { x: rect.x + rect.w, y: rect.y + rect.h },
+    { x: rect.x, y: rect.y + rect.h },
+  ].map(corner => (rect.r ? rotatePoint(corner, origin, rect.r) : corner));
+}
+
+/**
+ * Convert an axis-aligned rectangle to a polygon
+ * @param rect - Rectangle
+ * @returns Corners in clockwise order, starting at the top-left
+ */
+export function rectToPolygon(rect: Rectangle): Point[] {
+  return getRotatedCorners({ ...rect, r: 0 });
+}
+
+/**
+ * Calculate the area of a simple polygon (shoelace formula)
+ * @param points - Polygon vertices
+ * @returns Area (always positive)
+ */
+export function polygonArea(points: Point[]): number {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+/**
+ * Calculate bounding box for a polygon
+ * @param points - Polygon vertices
+ * @returns Bounding box
+ */
+export function getPolygonBounds(points: Point[]): Bounds {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const maxX = Math.max(...xs);
+  const maxY = Math.max(...ys);
+
+  return {
+    minX,
+    minY,
+    maxX,
+    maxY,
+    width: maxX - minX,
+    height: maxY - minY,
+  };
+}
+
+/**
+ * Calculate the centroid of a simple polygon
+ * Falls back to the vertex average for degenerate polygons
+ * @param points - Polygon vertices
+ * @returns Centroid
+ */
+export function polygonCentroid(points: Point[]): Point {
+  let area = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const cross = a.x * b.y - b.x * a.y;
+    area += cross;
+    cx += (a.x + b.x) * cross;
+    cy += (a.y + b.y) * cross;
+  }
+
+  if (Math.abs(area) < 1e-9) {
+    return {
+      x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+      y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+    };
+  }
+
+  return { x: cx / (3 * area), y: cy / (3 * area) };
+}
+
+/**
+ * Check if a point is inside a polygon (ray casting)
+ * @param point - Point to check
+ * @param points - Polygon vertices
+ * @returns True if point is inside polygon
+ */
+export function pointInPolygon(point: Point, points: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    const intersects = (a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x;
+    if (intersects) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Clip a polygon against a convex polygon (Sutherland–Hodgman)
+ * The subject may be concave; the clip polygon must be convex
+ * @param subject - Polygon to clip
+ * @param clip - Convex clipping polygon
+ * @returns Clipped polygon (empty when there is no intersection)
+ */
+export function clipPolygon(subject: Point[], clip: Point[]): Point[] {
+  // Orientation of the clip polygon decides which side of each edge is "inside"
+  let signedArea = 0;
+  for (let i = 0; i < clip.length; i++) {
+    const a = clip[i];
+    const b = clip[(i + 1) % clip.length];
+    signedArea += a.x * b.y - b.x * a.y;
+  }
+  const orientation = signedArea >= 0 ? 1 : -1;
+
+  const isInside = (p: Point, a: Point, b: Point) =>
+    orientation * ((b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x)) >= 0;
+
+  const intersect = (p1: Point, p2: Point, a: Point, b: Point): Point => {
+    const dx = p2.x - p1.x;
+    const dy = p2.y - p1.y;
+    const ex = b.x - a.x;
+    const ey = b.y - a.y;
+    const denominator = dx * ey - dy * ex;
+    if (denominator === 0) return p1;
+    const t = ((a.x - p1.x) * ey - (a.y - p1.y) * ex) / denominator;
+    return { x: p1.x + t * dx, y: p1.y + t * dy };
+  };
+
+  let output = subject;
+  for (let i = 0; i < clip.length && output.length > 0; i++) {
+    const a = clip[i];
+    const b = clip[(i + 1) % clip.length];
+    const input = output;
+    output = [];
+
+    for (let j = 0; j < input.length; j++) {
+      const current = input[j];
+      const previous = input[(j + input.length - 1) % input.length];
+      const currentInside = isInside(current, a, b);
+      const previousInside = isInside(previous, a, b);
+
+      if (currentInside) {
+        if (!previousInside) {
+          output.push(intersect(previous, current, a, b));
+        }
+        output.push(current);
+      } else if (previousInside) {
+        output.push(intersect(previous, current, a, b));
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Calculate the intersection area between a polygon and a convex polygon
+ * @param subject - Polygon (may be concave)
+ * @param convex - Convex polygon
+ * @returns Intersection area
+ */
+export function polygonIntersectionArea(subject: Point[], convex: Point[]): number {
+  const clipped = clipPolygon(subject, convex);
+  return clipped.length >= 3 ? polygonArea(clipped) : 0;
+}
+
+/**
+ * Split a simple polygon into triangles (ear clipping)
+ * Works for concave polygons of either winding
+ * @param points - Polygon vertices
+ * @returns Triangles as index triples into points, in the polygon's winding
+ */
+export function triangulatePolygon(points: Point[]): Array<[number, number, number]> {
+  const triangles: Array<[number, number, number]> = [];
+  let signedArea = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    signedArea += a.x * b.y - b.x * a.y;
+  }
+  const orientation = signedArea >= 0 ? 1 : -1;
+
+  const cross = (a: Point, b: Point, c: Point) =>
+    orientation * ((b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x));
+
+  const remaining = points.map((_, i) => i);
+  while (remaining.length > 3) {
+    let clipped = false;
+    for (let i = 0; i < remaining.length; i++) {
+      const prev = remaining[(i + remaining.length - 1) % remaining.length];
+      const current = remaining[i];
+      const next = remaining[(i + 1) % remaining.length];
+      const [a, b, c] = [points[prev], points[current], points[next]];
+      if (cross(a, b, c) <= 1e-9) continue;
+
+      // An ear holds no other remaining vertex
+      const blocked = remaining.some(index => {
+        if (index === prev || index === current || index === next) return false;
+        const p = points[index];
+        return cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+      });
+      if (blocked) continue;
+
+      triangles.push([prev, current, next]);
+      remaining.splice(i, 1);
+      clipped = true;
+      break;
+    }
+    // Degenerate or self-intersecting outline: fan out what is left
+    if (!clipped) {
+      for (let i = 1; i < remaining.length - 1; i++) {
+        triangles.push([remaining[0], remaining[i], remaining[i + 1]]);
+      }
+      return triangles;
+    }
+  }
+
+  if (remaining.length === 3) {
+    triangles.push([remaining[0], remaining[1], remaining[2]]);
+  }
+  return triangles;
+}
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ImportedZone } from '@/types';
+import { applyZoneCorrection } from './import_review';
+
+// An L-shaped room: a 100×100 square missing its bottom-right quarter
+const lShaped: ImportedZone = {
+  zoneId: 'living',
+  name: 'Living',
+  x: 0,
+  y: 0,
+  w: 100,
+  h: 100,
+  points: [
+    { x: 0, y: 0 },
+    { x: 100, y: 0 },
+    { x: 100, y: 50 },
+    { x: 50, y: 50 },
+    { x: 50, y: 100 },
+    { x: 0, y: 100 },
+  ],
+};
+
+describe('applyZoneCorrection split', () => {
+  it('splits a concave zone into the parts on each side of the cut', () => {
+    const [left, right] = applyZoneCorrection([lShaped], {
+      action: 'split',
+      zoneId: 'living',
+      axis: 'vertical',
+      ratio: 0.5,
+      into: ['living', 'living_2'],
+    });
+
+    assert.deepEqual(
+      { x: left.x, y: left.y, w: left.w, h: left.h, points: left.points },
+      { x: 0, y: 0, w: 50, h: 100, points: undefined }
+    );
+    // Clipping traces a zero-width spike down the cut below the notch; it must not widen the bounds
+    assert.deepEqual(
+      { x: right.x, y: right.y, w: right.w, h: right.h, points: right.points },
+      { x: 50, y: 0, w: 50, h: 50, points: undefined }
+    );
+    assert.equal(right.zoneId, 'living_2');
+  });
+
+  it('keeps an outline on a part that is still concave', () => {
+    const [top, bottom] = applyZoneCorrection([lShaped], {
+      action: 'split',
+      zoneId: 'living',
+      axis: 'horizontal',
+      ratio: 0.25,
+      into: ['living', 'living_2'],
+    });
+
+    assert.deepEqual({ x: top.x, y: top.y, w: top.w, h: top.h, points: top.points }, { x: 0, y: 0, w: 100, h: 25, points: undefined });
+    assert.deepEqual({ x: bottom.x, y: bottom.y, w: bottom.w, h: bottom.h }, { x: 0, y: 25, w: 100, h: 75 });
+    assert.equal(bottom.points?.length, 6);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Import review utilities: replaying the user's corrections on the zones
+ * detected in an imported plan and moving detected doors and windows onto the result
+ */
+
+import { ImportedZone, Opening, ZoneCorrection } from '@/types';
+import { getFurnitureForType } from '@/lib/analysis/room_types';
+import {
+  clampOpeningOffset,
+  findNearestHostEdge,
+  getHostEdges,
+  getOpeningGeometry,
+  getOpeningHostEdge,
+} from './opening_logic';
+import { Point, Rectangle, clipPolygon, pointInPolygon, rectToPolygon } from './geometry';
+import { getZoneArea, getZonePolygon, isPolygonZone, zoneUpdatesFromPoints } from './zone_logic';
+
+// Room types offered when relabelling a zone
+export const IMPORT_ROOM_TYPES = [
+  'living',
+  'bedroom',
+  'kitchen',
+  'bathroom',
+  'dining',
+  'office',
+  'hallway',
+  'entrance',
+  'utility',
+  'storage',
+  'room',
+];
+
+// Zones detected with less confidence than this are flagged for review
+export const LOW_CONFIDENCE = 0.6;
+
+// Openings further than this (cm) from every corrected zone edge are dropped
+const REHOST_DISTANCE = 30;
+
+/**
+ * Raised when a correction refers to a zone that does not exist, reuses a taken zoneId
+ * or would leave a zone without a single outline
+ */
+export class ZoneCorrectionError extends Error {}
+
+function findZone(zones: ImportedZone[], zoneId: string): ImportedZone {
+  const zone = zones.find(z => z.zoneId === zoneId);
+  if (!zone) {
+    throw new ZoneCorrectionError(`Zone "${zoneId}" does not exist`);
+  }
+  return zone;
+}
+
+function assertFreeZoneIds(zones: ImportedZone[], zoneIds: string[]) {
+  if (new Set(zoneIds).size !== zoneIds.length) {
+    throw new ZoneCorrectionError(`Zone IDs must be unique: ${zoneIds.join(', ')}`);
+  }
+  const taken = zoneIds.find(id => zones.some(z => z.zoneId === id));
+  if (taken) {
+    throw new ZoneCorrectionError(`Zone "${taken}" already exists`);
+  }
+}
+
+/**
+ * Position and size of a zone with the given outline: a plain rectangle when it has
+ * four square corners, otherwise a polygon zone
+ */
+function zoneFromOutline(outline: Point[]): Pick<ImportedZone, 'x' | 'y' | 'w' | 'h' | 'points'> {
+  const { points = [] } = zoneUpdatesFromPoints(outline);
+  // Clipping and rounding can repeat points, leave them in the middle of an edge or
+  // trace a zero-width spike along the cut, so the bounds come from the corners left
+  const distinct = points.filter((p, i) => {
+    const next = points[(i + 1) % points.length];
+    return p.x !== next.x || p.y !== next.y;
+  });
+  const corners = distinct.filter((p, i) => {
+    const prev = distinct[(i + distinct.length - 1) % distinct.length];
+    const next = distinct[(i + 1) % distinct.length];
+    return (p.x - prev.x) * (next.y - p.y) - (p.y - prev.y) * (next.x - p.x) !== 0;
+  });
+  if (corners.length < 3) {
+    throw new ZoneCorrectionError('The zone would have no area');
+  }
+  const bounds = zoneUpdatesFromPoints(corners);
+  const square = corners.every((p, i) => {
+    const next = corners[(i + 1) % corners.length];
+    return p.x === next.x || p.y === next.y;
+  });
+  return { ...bounds, points: corners.length === 4 && square ? undefined : corners };
+}
+
+/**
+ * Outline of the area covered by square-cornered outlines, traced clockwise from its
+ * top-left corner over a grid through every vertex
+ * @throws ZoneCorrectionError when the outlines do not form one area joined along
+ * edges, or the area has a hole
+ */
+function mergeOutlines(outlines: Point[][]): Point[] {
+  const square = outlines.every(outline => outline.every((p, i) => {
+    const next = outline[(i + 1) % outline.length];
+    return p.x === next.x || p.y === next.y;
+  }));
+  if (!square) {
+    throw new ZoneCorrectionError('Only zones with square corners can be merged');
+  }
+
+  const xs = [...new Set(outlines.flatMap(outline => outline.map(p => p.x)))].sort((a, b) => a - b);
+  const ys = [...new Set(outlines.flatMap(outline => outline.map(p => p.y)))].sort((a, b) => a - b);
+  const covered = xs.slice(1).map((x, i) => ys.slice(1).map((y, j) => {
+    const center = { x: (xs[i] + x) / 2, y: (ys[j] + y) / 2 };
+    return outlines.some(outline => pointInPolygon(center, outline));
+  }));
+  const isCovered = (i: number, j: number) => !!covered[i]?.[j];
+
+  // Every covered cell must be reachable from the first through shared cell edges
+  const cells = covered.flatMap((column, i) => column.flatMap((inside, j) => inside ? [[i, j]] : []));
+  const reached = new Set([`${cells[0][0]},${cells[0][1]}`]);
+  const queue = [cells[0]];
+  while (queue.length > 0) {
+    const [i, j] = queue.pop()!;
+    [[i + 1, j], [i - 1, j], [i, j + 1], [i, j - 1]].forEach(([a, b]) => {
+      if (isCovered(a, b) && !reached.has(`${a},${b}`)) {
+        reached.add(`${a},${b}`);
+        queue.push([a, b]);
+      }
+    });
+  }
+  if (reached.size !== cells.length) {
+    throw new ZoneCorrectionError('Only zones that share an edge can be merged');
+  }
+
+  // Clockwise cell sides facing an uncovered cell, keyed by their start point
+  const sides = new Map<string, Point>();
+  const addSide = (from: Point, to: Point) => {
+    const key = `${from.x},${from.y}`;
+    if (sides.has(key)) {
+      throw new ZoneCorrectionError('The merged outline would pinch at a corner');
+    }
+    sides.set(key, to);
+  };
+  cells.forEach(([i, j]) => {
+    const tl = { x: xs[i], y: ys[j] };
+    const tr = { x: xs[i + 1], y: ys[j] };
+    const br = { x: xs[i + 1], y: ys[j + 1] };
+    const bl = { x: xs[i], y: ys[j + 1] };
+    if (!isCovered(i, j - 1)) addSide(tl, tr);
+    if (!isCovered(i + 1, j)) addSide(tr, br);
+    if (!isCovered(i, j + 1)) addSide(br, bl);
+    if (!isCovered(i - 1, j)) addSide(bl, tl);
+  });
+
+  // Cells are listed column by column, so the first one holds the top-left corner
+  const start = { x: xs[cells[0][0]], y: ys[cells[0][1]] };
+  const outline: Point[] = [];
+  let point = start;
+  do {
+    outline.push(point);
+    point = sides.get(`${point.x},${point.y}`)!;
+  } while (point.x !== start.x || point.y !== start.y);
+  if (outline.length !== sides.size) {
+    throw new ZoneCorrectionError('Merged zones cannot enclose a hole');
+  }
+  return outline;
+}
+
+/**
+ * Apply one correction
+ * @returns The corrected zones, in their original order with merged or split zones in place
+ */
+export function applyZoneCorrection(zones: ImportedZone[], correction: ZoneCorrection): ImportedZone[] {
+  switch (correction.action) {
+    case 'drop': {
+      findZone(zones, correction.zoneId);
+      return zones.filter(z => z.zoneId !== correction.zoneId);
+    }
+
+    case 'relabel': {
+      const zone = findZone(zones, correction.zoneId);
+      const type = correction.type ?? zone.type;
+      const relabelled: ImportedZone = {
+        ...zone,
+        name: correction.name,
+        type,
+        // Suggestions follow the room type
+        suggestedFurniture: type && type !== zone.type ? getFurnitureForType(type) : zone.suggestedFurniture,
+      };
+      return zones.map(z => z.zoneId === zone.zoneId ? relabelled : z);
+    }
+
+    case 'merge': {
+      const merged = correction.zoneIds.map(id => findZone(zones, id));
+      if (new Set(correction.zoneIds).size !== merged.length) {
+        throw new ZoneCorrectionError('A zone cannot be merged with itself');
+      }
+      const rest = zones.filter(z => !correction.zoneIds.includes(z.zoneId));
+      assertFreeZoneIds(rest, [correction.into]);
+
+      // The merged zone covers all parts and keeps the name and type of the largest
+      const largest = merged.reduce((a, b) => getZoneArea(b) > getZoneArea(a) ? b : a);
+      const outline = mergeOutlines(merged.map(z => getZonePolygon(z)));
+      const confidences = merged.flatMap(z => z.confidence === undefined ? [] : [z.confidence]);
+
+      const result = [...rest];
+      result.splice(zones.findIndex(z => correction.zoneIds.includes(z.zoneId)), 0, {
+        ...largest,
+        ...zoneFromOutline(outline),
+        zoneId: correction.into,
+        confidence: confidences.length === merged.length ? Math.min(...confidences) : undefined,
+      });
+      return result;
+    }
+
+    case 'split': {
+      const zone = findZone(zones, correction.zoneId);
+      const rest = zones.filter(z => z.zoneId !== zone.zoneId);
+      assertFreeZoneIds(rest, correction.into);
+
+      const [firstId, secondId] = correction.into;
+      let halves: [Rectangle, Rectangle];
+      if (correction.axis === 'vertical') {
+        const cut = Math.round(zone.w * correction.ratio);
+        halves = [
+          { x: zone.x, y: zone.y, w: cut, h: zone.h },
+          { x: zone.x + cut, y: zone.y, w: zone.w - cut, h: zone.h },
+        ];
+      } else {
+        const cut = Math.round(zone.h * correction.ratio);
+        halves = [
+          { x: zone.x, y: zone.y, w: zone.w, h: cut },
+          { x: zone.x, y: zone.y + cut, w: zone.w, h: zone.h - cut },
+        ];
+      }
+
+      // Polygon zones keep the part of their outline on each side of the cut
+      const shape = (half: Rectangle) => isPolygonZone(zone)
+        ? zoneFromOutline(clipPolygon(getZonePolygon(zone), rectToPolygon(half)))
+        : half;
+      const parts: [ImportedZone, ImportedZone] = [
+        { ...zone, ...shape(halves[0]), zoneId: firstId },
+        { ...zone, ...shape(halves[1]), zoneId: secondId, name: `${zone.name} 2` },
+      ];
+
+      return zones.flatMap(z => z.zoneId === zone.zoneId ? parts : [z]);
+    }
+  }
+}
+
+/**
+ * Replay corrections, in order, on the detected zones
+ * @throws ZoneCorrectionError when a correction does not fit the zones at that point
+ */
+export function applyZoneCorrections(zones: ImportedZone[], corrections: ZoneCorrection[]): ImportedZone[] {
+  return corrections.reduce(applyZoneCorrection, zones);
+}
+
+/**
+ * Move detected doors and windows from the detected zones onto the nearest
+ * parallel edge of the corrected zones, dropping those no edge runs along
+ * (e.g. doors between rooms that were merged)
+ */
+export function rehostOpenings(
+  openings: Opening[],
+  detectedZones: ImportedZone[],
+  reviewedZones: ImportedZone[]
+): Opening[] {
+  const before = detectedZones.map(zone => ({ ...zone, id: zone.zoneId }));
+  const edges = getHostEdges([], reviewedZones.map(zone => ({ ...zone, id: zone.zoneId })));
+
+  return openings.flatMap(opening => {
+    const hostEdge = getOpeningHostEdge(opening, [], before);
+    if (!hostEdge) return [];
+    const { center, dir } = getOpeningGeometry(opening, hostEdge);
+
+    const alignment = (edge: typeof edges[number]) =>
+      ((edge.end.x - edge.start.x) * dir.x + (edge.end.y - edge.start.y) * dir.y) / edge.length;
+    const nearest = findNearestHostEdge(center, edges.filter(edge => Math.abs(alignment(edge)) > 0.9), REHOST_DISTANCE);
+    if (!nearest) return [];
+
+    // Neighbouring zones run their shared edge the other way; flip so the door still opens the same way
+    const reversed = alignment(nearest.edge) < 0;
+    const width = Math.min(opening.width, nearest.edge.length);
+    return [{
+      ...opening,
+      hostId: nearest.edge.hostId,
+      edgeIndex: nearest.edge.edgeIndex,
+      offset: Math.round(clampOpeningOffset(nearest.offset, width, nearest.edge.length)),
+      width,
+      hinge: reversed ? (opening.hinge === 'start' ? 'end' : 'start') : opening.hinge,
+      swing: reversed ? (opening.swing === 'left' ? 'right' : 'left') : opening.swing,
+    }];
+  });
+}
@@ -0,0 +1,145 @@
+/**
+ * Isometric projection of the extruded plan model into flat, shaded polygons
+ * drawn back to front, so the 2.5D view needs nothing beyond Konva lines
+ */
+
+import { Point, polygonCentroid } from './geometry';
+import type { Prism } from './plan_model';
+
+// Camera turns in 90° steps around the plan
+export type IsoRotation = 0 | 90 | 180 | 270;
+
+export interface IsoFace {
+  // Flat [x1, y1, x2, y2, ...] screen coordinates, in cm at 1:1
+  points: number[];
+  fill: string;
+  stroke: string;
+  // Source entity, for hit testing
+  id: string;
+}
+
+export interface IsoScene {
+  faces: IsoFace[];
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+}
+
+const COS30 = Math.cos(Math.PI / 6);
+const SIN30 = 0.5;
+
+// Brightness of side faces, by the axis their normal points along on screen
+const RIGHT_SHADE = 0.7;
+const LEFT_SHADE = 0.85;
+
+function parseHex(hex: string): [number, number, number] | null {
+  const match = hex.trim().match(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i);
+  if (!match) return null;
+  const digits = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+// Darken a hex colour by a factor between 0 and 1
+export function shade(hex: string, factor: number): string {
+  const rgb = parseHex(hex) ?? [200, 200, 200];
+  return '#' + rgb.map(c => Math.round(c * factor).toString(16).padStart(2, '0')).join('');
+}
+
+// Turn a plan point around the plan center; the camera looks from the +x +y corner
+function rotator(rotation: IsoRotation, width: number, height: number): (p: Point) => Point {
+  switch (rotation) {
+    case 90:
+      return p => ({ x: height - p.y, y: p.x });
+    case 180:
+      return p => ({ x: width - p.x, y: height - p.y });
+    case 270:
+      return p => ({ x: p.y, y: width - p.x });
+    default:
+      return p => p;
+  }
+}
+
+function project(p: Point, z: number): [number, number] {
+  return [(p.x - p.y) * COS30, (p.x + p.y) * SIN30 - z];
+}
+
+// Twice the signed area; positive when the outline runs clockwise on screen (y down)
+function signedArea(points: Point[]): number {
+  return points.reduce((sum, p, i) => {
+    const q = points[(i + 1) % points.length];
+    return sum + p.x * q.y - q.x * p.y;
+  }, 0);
+}
+
+function prismFaces(prism: Prism, base: Point[]): IsoFace[] {
+  const faces: IsoFace[] = [];
+  const stroke = shade(prism.color, 0.55);
+  const orientation = Math.sign(signedArea(base)) || 1;
+
+  if (prism.z1 > prism.z0) {
+    // Side faces whose outward normal points towards the camera, far ones first
+    const sides = base
+      .map((a, i) => {
+        const b = base[(i + 1) % base.length];
+        const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+        const nx = ((b.y - a.y) / length) * orientation;
+        const ny = (-(b.x - a.x) / length) * orientation;
+        return { a, b, nx, ny, depth: a.x + a.y + b.x + b.y };
+      })
+      .filter(side => side.nx + side.ny > 1e-6)
+      .sort((s, t) => s.depth - t.depth);
+
+    sides.forEach(({ a, b, nx, ny }) => {
+      const factor = RIGHT_SHADE * nx * nx + LEFT_SHADE * ny * ny;
+      faces.push({
+        id: prism.id,
+        points: [...project(a, prism.z0), ...project(b, prism.z0), ...project(b, prism.z1), ...project(a, prism.z1)],
+        fill: shade(prism.color, factor),
+        stroke,
+      });
+    });
+  }
+
+  if (prism.top) {
+    faces.push({
+      id: prism.id,
+      points: base.flatMap(p => project(p, prism.z1)),
+      fill: prism.color,
+      stroke: prism.kind === 'floor' ? shade(prism.color, 0.8) : stroke,
+    });
+  }
+  return faces;
+}
+
+/**
+ * Project prisms into isometric faces in painter's order: floors first, then
+ * every other prism by the distance of its footprint center from the camera
+ */
+export function buildIsoScene(
+  prisms: Prism[],
+  options: { rotation: IsoRotation; width: number; height: number }
+): IsoScene {
+  const turn = rotator(options.rotation, options.width, options.height);
+  const placed = prisms.map(prism => {
+    const base = prism.base.map(turn);
+    const center = polygonCentroid(base);
+    return { prism, base, depth: center.x + center.y };
+  });
+
+  placed.sort((p, q) => {
+    const floor = Number(q.prism.kind === 'floor') - Number(p.prism.kind === 'floor');
+    return floor || p.depth - q.depth || p.prism.z0 - q.prism.z0;
+  });
+
+  const faces = placed.flatMap(({ prism, base }) => prismFaces(prism, base));
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  faces.forEach(face => {
+    for (let i = 0; i < face.points.length; i += 2) {
+      bounds.minX = Math.min(bounds.minX, face.points[i]);
+      bounds.maxX = Math.max(bounds.maxX, face.points[i]);
+      bounds.minY = Math.min(bounds.minY, face.points[i + 1]);
+      bounds.maxY = Math.max(bounds.maxY, face.points[i + 1]);
+    }
+  });
+  if (faces.length === 0) Object.assign(bounds, { minX: 0, minY: 0, maxX: 0, maxY: 0 });
+
+  return { faces, bounds };
+}
@@ -0,0 +1,122 @@
+/**
+ * Level (floor) helpers for multi-storey projects
+ */
+
+import { Dimension, FloorPlanZone, FurnitureItemType, Level, Measurement, Opening, WallSegment } from '@/types';
+import { DiagramShape } from '../canvas/tools/diagram_schemas';
+
+// Floor-to-floor height (cm) used to place new levels
+export const DEFAULT_LEVEL_HEIGHT = 300;
+
+export const DEFAULT_LEVEL: Level = {
+  id: 'ground',
+  name: 'Ground Floor',
+  elevation: 0,
+};
+
+/**
+ * Resolve the level an item belongs to; items without a levelId belong to the lowest level
+ */
+export function getItemLevelId(item: { levelId?: string }, levels: Level[]): string {
+  return item.levelId ?? levels[0]?.id ?? DEFAULT_LEVEL.id;
+}
+
+/**
+ * Filter zones, furniture, walls or diagrams down to the ones on a level
+ */
+export function filterByLevel<T extends { levelId?: string }>(items: T[], levelId: string, levels: Level[]): T[] {
+  return items.filter(item => getItemLevelId(item, levels) === levelId);
+}
+
+/**
+ * Openings have no level of their own; keep the ones whose host wall or zone is in the given lists
+ */
+export function filterOpeningsByHosts(openings: Opening[], walls: WallSegment[], zones: FloorPlanZone[]): Opening[] {
+  const wallIds = new Set(walls.map(wall => wall.id));
+  const zoneIds = new Set(zones.map(zone => zone.id));
+  return openings.filter(opening => (opening.hostType === 'wall' ? wallIds : zoneIds).has(opening.hostId));
+}
+
+/**
+ * Get the level directly below a level, or null for the lowest one
+ */
+export function getLevelBelow(levels: Level[], levelId: string): Level | null {
+  const index = levels.findIndex(level => level.id === levelId);
+  return index > 0 ? levels[index - 1] : null;
+}
+
+/**
+ * Default name for a level added above the top level or below the lowest one
+ */
+export function getDefaultLevelName(levels: Level[], position: 'above' | 'below'): string {
+  if (position === 'below') {
+    const basements = levels.filter(level => level.elevation < 0).length;
+    return basements === 0 ? 'Basement' : `Basement ${basements + 1}`;
+  }
+  return `Floor ${levels.filter(level => level.elevation > 0).length + 1}`;
+}
+
+// Everything in a project that lives on a level
+export interface LevelContent {
+  levels: Level[];
+  zones: FloorPlanZone[];
+  furniture: FurnitureItemType[];
+  walls: WallSegment[];
+  openings: Opening[];
+  diagrams: DiagramShape[];
+  measurements: Measurement[];
+  dimensions: Dimension[];
+}
+
+/**
+ * Add a level above the top level or below the lowest one
+ * @returns The new level and the content with it added
+ */
+export function addLevel(content: LevelContent, position: 'above' | 'below', id: string): { level: Level; content: LevelContent } {
+  const edge = position === 'above' ? content.levels[content.levels.length - 1] : content.levels[0];
+  const level: Level = {
+    id,
+    name: getDefaultLevelName(content.levels, position),
+    elevation: (edge?.elevation ?? 0) + (position === 'above' ? DEFAULT_LEVEL_HEIGHT : -DEFAULT_LEVEL_HEIGHT),
+  };
+
+  if (position === 'above') {
+    return { level, content: { ...content, levels: [...content.levels, level] } };
+  }
+
+  // Items without a levelId belong to the lowest level, so pin them before a new one goes under it
+  const lowestId = getItemLevelId({}, content.levels);
+  const pin = <T extends { levelId?: string }>(items: T[]) => items.map(item => item.levelId ? item : { ...item, levelId: lowestId });
+  return {
+    level,
+    content: {
+      ...content,
+      levels: [level, ...content.levels],
+      zones: pin(content.zones),
+      furniture: pin(content.furniture),
+      walls: pin(content.walls),
+      diagrams: pin(content.diagrams),
+      measurements: pin(content.measurements),
+      dimensions: pin(content.dimensions),
+    },
+  };
+}
+
+/**
+ * Remove a level with everything on it, including doors and windows on its walls and zones
+ */
+export function removeLevel(content: LevelContent, id: string): LevelContent {
+  const keep = <T extends { levelId?: string }>(items: T[]) => items.filter(item => getItemLevelId(item, content.levels) !== id);
+  const zones = keep(content.zones);
+  const walls = keep(content.walls);
+  return {
+    levels: content.levels.filter(level => level.id !== id),
+    zones,
+    walls,
+    furniture: keep(content.furniture),
+    diagrams: keep(content.diagrams),
+    measurements: keep(content.measurements),
+    dimensions: keep(content.dimensions),
+    openings: filterOpeningsByHosts(content.openings, walls, zones),
+  };
+}
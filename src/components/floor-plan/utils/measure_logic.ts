@@ -0,0 +1,116 @@
+/**
+ * Measure tool: snapping measured points to zone corners and furniture outlines,
+ * and the lengths and areas shown while measuring and on pinned measurements
+ */
+
+import { FloorPlanZone, FurnitureItemType, Measurement } from '@/types';
+import { Point, distance, getRotatedCorners, polygonArea, polygonCentroid } from './geometry';
+import { getZonePolygon } from './zone_logic';
+import { format_area, format_dimension } from './units';
+
+export interface MeasureSnapTargets {
+  // Zone and furniture corners, preferred over edges
+  corners: Point[];
+  // Furniture outline edges
+  edges: Array<[Point, Point]>;
+}
+
+export interface MeasureSnap {
+  point: Point;
+  kind: 'corner' | 'edge';
+}
+
+/**
+ * Collect the points and edges a measurement can snap to
+ */
+export function getMeasureSnapTargets(zones: FloorPlanZone[], furniture: FurnitureItemType[]): MeasureSnapTargets {
+  const corners: Point[] = zones.flatMap(zone => getZonePolygon(zone));
+  const edges: Array<[Point, Point]> = [];
+
+  furniture.forEach(item => {
+    const outline = getRotatedCorners({ x: item.x, y: item.y, w: item.w, h: item.h, r: item.r || 0 });
+    corners.push(...outline);
+    outline.forEach((a, i) => edges.push([a, outline[(i + 1) % outline.length]]));
+  });
+
+  return { corners, edges };
+}
+
+// Closest point to `point` on the segment from a to b
+function projectOnSegment(point: Point, a: Point, b: Point): Point {
+  const lengthSquared = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  if (lengthSquared === 0) return a;
+  const t = Math.min(1, Math.max(0, ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / lengthSquared));
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+}
+
+/**
+ * Snap a point to the nearest corner, or failing that the nearest furniture edge
+ * @param point - Point in cm
+ * @param targets - See getMeasureSnapTargets
+ * @param threshold - Maximum snap distance in cm
+ * @returns The snapped point or null when nothing is within range
+ */
+export function snapMeasurePoint(point: Point, targets: MeasureSnapTargets, threshold: number): MeasureSnap | null {
+  let best: MeasureSnap | null = null;
+  let bestDistance = threshold;
+
+  targets.corners.forEach(corner => {
+    const d = distance(corner, point);
+    if (d <= bestDistance) {
+      best = { point: corner, kind: 'corner' };
+      bestDistance = d;
+    }
+  });
+  if (best) return best;
+
+  targets.edges.forEach(([a, b]) => {
+    const projected = projectOnSegment(point, a, b);
+    const d = distance(projected, point);
+    if (d <= bestDistance) {
+      best = { point: projected, kind: 'edge' };
+      bestDistance = d;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Total length through the points in cm; areas include the closing segment
+ */
+export function getMeasurementLength(points: Point[], closed = false): number {
+  let total = 0;
+  const count = closed && points.length > 2 ? points.length : points.length - 1;
+  for (let i = 0; i < count; i++) {
+    total += distance(points[i], points[(i + 1) % points.length]);
+  }
+  return total;
+}
+
+/**
+ * Main label of a measurement in the project's units: the length of a distance
+ * or path, or the area and perimeter of an area
+ */
+export function formatMeasurement(measurement: Pick<Measurement, 'kind' | 'points'>, unitSystem: 'cm' | 'm'): string {
+  const { kind, points } = measurement;
+  if (kind === 'area') {
+    if (points.length < 3) return format_area(0, unitSystem);
+    const perimeter = format_dimension(Math.round(getMeasurementLength(points, true)), unitSystem);
+    return `${format_area(Math.round(polygonArea(points)), unitSystem)} (perimeter ${perimeter})`;
+  }
+  return format_dimension(Math.round(getMeasurementLength(points)), unitSystem);
+}
+
+/**
+ * Where a measurement's main label goes: the middle of a distance, the last
+ * point of a path or the center of an area
+ */
+export function getMeasurementLabelPoint(measurement: Pick<Measurement, 'kind' | 'points'>): Point {
+  const { kind, points } = measurement;
+  if (kind === 'area' && points.length > 2) return polygonCentroid(points);
+  if (kind === 'distance' && points.length > 1) {
+    return { x: (points[0].x + points[1].x) / 2, y: (points[0].y + points[1].y) / 2 };
+  }
+  return points[points.length - 1];
+}
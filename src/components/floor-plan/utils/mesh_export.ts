@@ -0,0 +1,318 @@
+/**
+ * 3D mesh export of the extruded plan, as glTF binary (.glb) and OBJ + MTL
+ * Geometry is written in metres with Y up: plan x runs along +X, plan y along +Z
+ * and heights along +Y, which Blender's importers read without extra settings
+ */
+
+import type { ExportData, ExportOptions } from './export_utils';
+import { Point, triangulatePolygon } from './geometry';
+import { buildPlanModel, Prism } from './plan_model';
+
+export const DEFAULT_CEILING_HEIGHT = 250;
+export const DEFAULT_SLAB_THICKNESS = 10;
+
+export interface MeshMaterial {
+  name: string;
+  // sRGB components between 0 and 1
+  color: [number, number, number];
+}
+
+export interface MeshPart {
+  material: number;
+  // Unindexed triangles: xyz per vertex, in metres
+  positions: number[];
+  normals: number[];
+}
+
+export interface MeshObject {
+  name: string;
+  parts: MeshPart[];
+}
+
+export interface PlanMesh {
+  objects: MeshObject[];
+  materials: MeshMaterial[];
+}
+
+type Vec3 = [number, number, number];
+
+const CM_PER_M = 100;
+const FALLBACK_COLOR: [number, number, number] = [0.8, 0.8, 0.8];
+
+function parseColor(color: string): [number, number, number] {
+  const match = color.trim().match(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i);
+  if (!match) return FALLBACK_COLOR;
+  const digits = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16) / 255) as [number, number, number];
+}
+
+// glTF base colours are linear
+function srgbToLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function toMetres(p: Point, z: number): Vec3 {
+  return [p.x / CM_PER_M, z / CM_PER_M, p.y / CM_PER_M];
+}
+
+// Add a triangle wound counter-clockwise when seen from the side its normal points to
+function pushTriangle(part: MeshPart, a: Vec3, b: Vec3, c: Vec3, normal: Vec3): void {
+  const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+  const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+  const facing = (u[1] * v[2] - u[2] * v[1]) * normal[0]
+    + (u[2] * v[0] - u[0] * v[2]) * normal[1]
+    + (u[0] * v[1] - u[1] * v[0]) * normal[2];
+  const vertices = facing < 0 ? [a, c, b] : [a, b, c];
+  vertices.forEach(vertex => {
+    part.positions.push(...vertex);
+    part.normals.push(...normal);
+  });
+}
+
+// Closed solid for a prism: sides, top and (when it has height) bottom
+function prismTriangles(prism: Prism, part: MeshPart): void {
+  const { base, z0, z1 } = prism;
+  if (base.length < 3) return;
+
+  let signedArea = 0;
+  base.forEach((a, i) => {
+    const b = base[(i + 1) % base.length];
+    signedArea += a.x * b.y - b.x * a.y;
+  });
+  const orientation = signedArea >= 0 ? 1 : -1;
+  const solid = z1 > z0;
+
+  if (solid) {
+    base.forEach((a, i) => {
+      const b = base[(i + 1) % base.length];
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      if (length < 1e-6) return;
+      const normal: Vec3 = [((b.y - a.y) / length) * orientation, 0, (-(b.x - a.x) / length) * orientation];
+      const [a0, b0, b1, a1] = [toMetres(a, z0), toMetres(b, z0), toMetres(b, z1), toMetres(a, z1)];
+      pushTriangle(part, a0, b0, b1, normal);
+      pushTriangle(part, a0, b1, a1, normal);
+    });
+  }
+
+  const triangles = triangulatePolygon(base);
+  if (prism.top) {
+    triangles.forEach(([i, j, k]) =>
+      pushTriangle(part, toMetres(base[i], z1), toMetres(base[j], z1), toMetres(base[k], z1), [0, 1, 0]));
+  }
+  if (solid) {
+    triangles.forEach(([i, j, k]) =>
+      pushTriangle(part, toMetres(base[i], z0), toMetres(base[j], z0), toMetres(base[k], z0), [0, -1, 0]));
+  }
+}
+
+/**
+ * Extrude the plan into named objects: a floor slab per zone in the zone colour,
+ * walls up to the ceiling height (zone outlines stand in when no walls are drawn)
+ * and furniture footprints up to their registry heights
+ */
+export function buildPlanMesh(
+  data: ExportData,
+  options: Pick<ExportOptions, 'includeZones' | 'includeFurniture' | 'ceilingHeight' | 'slabThickness'>
+): PlanMesh {
+  const walls = data.walls ?? [];
+  const ceilingHeight = options.ceilingHeight || DEFAULT_CEILING_HEIGHT;
+  const zones = options.includeZones ? data.zones : [];
+  const furniture = options.includeFurniture ? data.furniture : [];
+
+  const prisms = buildPlanModel({ zones, furniture, walls }, {
+    zoneWallHeight: walls.length === 0 ? ceilingHeight : undefined,
+    wallHeight: ceilingHeight,
+    floorThickness: options.slabThickness ?? DEFAULT_SLAB_THICKNESS,
+    furnitureModels: false,
+  });
+
+  const names = new Map<string, string>();
+  zones.forEach(zone => names.set(zone.id, zone.name));
+  walls.forEach((wall, index) => names.set(wall.id, `Wall ${index + 1}`));
+  furniture.forEach(item => names.set(item.id, item.name));
+
+  const materials: MeshMaterial[] = [];
+  const materialIndex = new Map<string, number>();
+  const objects = new Map<string, MeshObject>();
+  const usedNames = new Set<string>();
+
+  prisms.forEach(prism => {
+    // Zone outlines raised into walls belong to the walls, not the zone's floor
+    const key = `${prism.kind}:${prism.id}`;
+    let object = objects.get(key);
+    if (!object) {
+      const base = prism.kind === 'wall' && zones.some(z => z.id === prism.id)
+        ? `${names.get(prism.id)} walls`
+        : names.get(prism.id) || prism.kind;
+      let name = base;
+      for (let n = 2; usedNames.has(name); n++) name = `${base} ${n}`;
+      usedNames.add(name);
+      object = { name, parts: [] };
+      objects.set(key, object);
+    }
+
+    const color = prism.color.toLowerCase();
+    let material = materialIndex.get(color);
+    if (material === undefined) {
+      material = materials.length;
+      materials.push({ name: `color_${color.replace(/[^0-9a-z]/g, '')}`, color: parseColor(color) });
+      materialIndex.set(color, material);
+    }
+
+    let part = object.parts.find(p => p.material === material);
+    if (!part) {
+      part = { material, positions: [], normals: [] };
+      object.parts.push(part);
+    }
+    prismTriangles(prism, part);
+  });
+
+  return {
+    objects: Array.from(objects.values()).filter(o => o.parts.some(p => p.positions.length > 0)),
+    materials,
+  };
+}
+
+// glTF binary container and chunk markers
+const GLB_MAGIC = 0x46546c67;
+const GLB_CHUNK_JSON = 0x4e4f534a;
+const GLB_CHUNK_BIN = 0x004e4942;
+const GL_FLOAT = 5126;
+const GL_ARRAY_BUFFER = 34962;
+
+/**
+ * Write the mesh as a single-file glTF 2.0 binary, one node per object
+ */
+export function planMeshToGlb(mesh: PlanMesh, title = 'Floor Plan'): ArrayBuffer {
+  const chunks: Float32Array[] = [];
+  const bufferViews: object[] = [];
+  const accessors: object[] = [];
+  let byteOffset = 0;
+
+  const addAccessor = (values: number[], bounds: boolean): number => {
+    const array = new Float32Array(values);
+    chunks.push(array);
+    bufferViews.push({ buffer: 0, byteOffset, byteLength: array.byteLength, target: GL_ARRAY_BUFFER });
+    byteOffset += array.byteLength;
+
+    const accessor: Record<string, unknown> = {
+      bufferView: bufferViews.length - 1,
+      componentType: GL_FLOAT,
+      count: values.length / 3,
+      type: 'VEC3',
+    };
+    if (bounds) {
+      const min = [Infinity, Infinity, Infinity];
+      const max = [-Infinity, -Infinity, -Infinity];
+      // Bounds must match the stored 32-bit values exactly
+      for (let i = 0; i < array.length; i++) {
+        min[i % 3] = Math.min(min[i % 3], array[i]);
+        max[i % 3] = Math.max(max[i % 3], array[i]);
+      }
+      accessor.min = min;
+      accessor.max = max;
+    }
+    accessors.push(accessor);
+    return accessors.length - 1;
+  };
+
+  const meshes = mesh.objects.map(object => ({
+    name: object.name,
+    primitives: object.parts
+      .filter(part => part.positions.length > 0)
+      .map(part => ({
+        attributes: {
+          POSITION: addAccessor(part.positions, true),
+          NORMAL: addAccessor(part.normals, false),
+        },
+        material: part.material,
+      })),
+  }));
+
+  const gltf = {
+    asset: { version: '2.0', generator: 'Floor Plan Editor' },
+    scene: 0,
+    scenes: [{ name: title, nodes: meshes.map((_, i) => i) }],
+    nodes: meshes.map((m, i) => ({ name: m.name, mesh: i })),
+    meshes,
+    materials: mesh.materials.map(material => ({
+      name: material.name,
+      pbrMetallicRoughness: {
+        baseColorFactor: [...material.color.map(srgbToLinear), 1],
+        metallicFactor: 0,
+        roughnessFactor: 0.9,
+      },
+    })),
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength: byteOffset }],
+  };
+
+  // Chunks are 4-byte aligned: JSON padded with spaces, binary with zeros
+  const json = new TextEncoder().encode(JSON.stringify(gltf));
+  const jsonLength = Math.ceil(json.length / 4) * 4;
+  const binLength = Math.ceil(byteOffset / 4) * 4;
+  const total = 12 + 8 + jsonLength + 8 + binLength;
+
+  const buffer = new ArrayBuffer(total);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, total, true);
+
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, GLB_CHUNK_JSON, true);
+  bytes.set(json, 20);
+  bytes.fill(0x20, 20 + json.length, 20 + jsonLength);
+
+  const binStart = 20 + jsonLength;
+  view.setUint32(binStart, binLength, true);
+  view.setUint32(binStart + 4, GLB_CHUNK_BIN, true);
+  let offset = binStart + 8;
+  chunks.forEach(chunk => {
+    bytes.set(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength), offset);
+    offset += chunk.byteLength;
+  });
+
+  return buffer;
+}
+
+// Trim float noise, to a hundredth of a millimetre
+const formatNumber = (value: number) => String(Math.round(value * 1e5) / 1e5);
+
+/**
+ * Write the mesh as Wavefront OBJ with a companion MTL file
+ * @param mtlFileName - File name the OBJ refers to for its materials
+ */
+export function planMeshToObj(mesh: PlanMesh, mtlFileName: string, title = 'Floor Plan'): { obj: string; mtl: string } {
+  const obj: string[] = [`# ${title}`, '# Units: metres, Y up', `mtllib ${mtlFileName}`];
+  let vertexCount = 0;
+  let normalCount = 0;
+
+  mesh.objects.forEach(object => {
+    obj.push(`o ${object.name.replace(/\s+/g, '_')}`);
+    object.parts.forEach(part => {
+      obj.push(`usemtl ${mesh.materials[part.material].name}`);
+      const { positions, normals } = part;
+      for (let i = 0; i < positions.length; i += 9) {
+        for (let v = 0; v < 9; v += 3) {
+          obj.push(`v ${formatNumber(positions[i + v])} ${formatNumber(positions[i + v + 1])} ${formatNumber(positions[i + v + 2])}`);
+        }
+        // Flat shading: one normal per triangle
+        obj.push(`vn ${formatNumber(normals[i])} ${formatNumber(normals[i + 1])} ${formatNumber(normals[i + 2])}`);
+        normalCount += 1;
+        obj.push(`f ${vertexCount + 1}//${normalCount} ${vertexCount + 2}//${normalCount} ${vertexCount + 3}//${normalCount}`);
+        vertexCount += 3;
+      }
+    });
+  });
+
+  const mtl: string[] = [`# ${title}`];
+  mesh.materials.forEach(material => {
+    const [r, g, b] = material.color.map(formatNumber);
+    mtl.push('', `newmtl ${material.name}`, 'Ka 0 0 0', `Kd ${r} ${g} ${b}`, 'Ks 0 0 0', 'd 1', 'illum 1');
+  });
+
+  return { obj: obj.join('\n') + '\n', mtl: mtl.join('\n') + '\n' };
+}
@@ -0,0 +1,200 @@
+/**
+ * Opening logic utilities for doors and windows hosted on wall centerlines
+ * or zone outline edges: host lookup, placement along an edge and swing geometry
+ */
+
+import { FloorPlanZone, Opening, WallSegment } from '@/types';
+import { Point } from './geometry';
+import { getZonePolygon } from './zone_logic';
+import { getWallLength } from './wall_logic';
+
+export interface HostEdge {
+  hostType: Opening['hostType'];
+  hostId: string;
+  edgeIndex?: number;
+  start: Point;
+  end: Point;
+  length: number;
+  thickness: number;
+}
+
+export interface OpeningGeometry {
+  center: Point;
+  // Unit vector along the host edge and the normal towards the swing side
+  dir: Point;
+  normal: Point;
+  jambs: [Point, Point];
+  hinge: Point;
+  // Free end of the leaf in the fully open position
+  leafEnd: Point;
+  // Swing arc from the open leaf back to the closing jamb
+  arc: Point[];
+  thickness: number;
+}
+
+// Zone outlines have no thickness of their own; openings cut a band this wide (cm)
+export const ZONE_EDGE_THICKNESS = 10;
+
+export const DEFAULT_DOOR_WIDTH = 90;
+export const DEFAULT_WINDOW_WIDTH = 120;
+
+const ARC_SEGMENTS = 16;
+
+/**
+ * List every edge an opening can be hosted on
+ */
+export function getHostEdges(
+  walls: WallSegment[],
+  zones: Pick<FloorPlanZone, 'id' | 'x' | 'y' | 'w' | 'h' | 'points'>[]
+): HostEdge[] {
+  const edges: HostEdge[] = [];
+
+  walls.forEach(wall => {
+    const length = getWallLength(wall);
+    if (length === 0) return;
+    edges.push({
+      hostType: 'wall',
+      hostId: wall.id,
+      start: { x: wall.x1, y: wall.y1 },
+      end: { x: wall.x2, y: wall.y2 },
+      length,
+      thickness: wall.thickness,
+    });
+  });
+
+  zones.forEach(zone => {
+    const polygon = getZonePolygon(zone);
+    polygon.forEach((start, edgeIndex) => {
+      const end = polygon[(edgeIndex + 1) % polygon.length];
+      const length = Math.hypot(end.x - start.x, end.y - start.y);
+      if (length === 0) return;
+      edges.push({
+        hostType: 'zone',
+        hostId: zone.id,
+        edgeIndex,
+        start,
+        end,
+        length,
+        thickness: ZONE_EDGE_THICKNESS,
+      });
+    });
+  });
+
+  return edges;
+}
+
+/**
+ * Find the edge an opening is hosted on
+ * @returns The host edge, or null when the host no longer exists
+ */
+export function getOpeningHostEdge(
+  opening: Pick<Opening, 'hostType' | 'hostId' | 'edgeIndex'>,
+  walls: WallSegment[],
+  zones: Pick<FloorPlanZone, 'id' | 'x' | 'y' | 'w' | 'h' | 'points'>[]
+): HostEdge | null {
+  if (opening.hostType === 'wall') {
+    const wall = walls.find(w => w.id === opening.hostId);
+    return wall ? getHostEdges([wall], [])[0] ?? null : null;
+  }
+  const zone = zones.find(z => z.id === opening.hostId);
+  if (!zone) return null;
+  return getHostEdges([], [zone]).find(edge => edge.edgeIndex === (opening.edgeIndex ?? 0)) ?? null;
+}
+
+/**
+ * Keep an opening fully on its host edge
+ * @param offset - Distance in cm from the edge start to the opening center
+ * @param width - Opening width in cm
+ * @param edgeLength - Host edge length in cm
+ */
+export function clampOpeningOffset(offset: number, width: number, edgeLength: number): number {
+  const half = Math.min(width, edgeLength) / 2;
+  return Math.min(edgeLength - half, Math.max(half, offset));
+}
+
+/**
+ * Compute the jambs, leaf and swing arc of an opening on its host edge
+ */
+export function getOpeningGeometry(
+  opening: Pick<Opening, 'offset' | 'width' | 'hinge' | 'swing'>,
+  edge: HostEdge
+): OpeningGeometry {
+  const dir = {
+    x: (edge.end.x - edge.start.x) / edge.length,
+    y: (edge.end.y - edge.start.y) / edge.length,
+  };
+  const side = opening.swing === 'left' ? 1 : -1;
+  const normal = { x: -dir.y * side, y: dir.x * side };
+
+  const width = Math.min(opening.width, edge.length);
+  const offset = clampOpeningOffset(opening.offset, width, edge.length);
+  const center = { x: edge.start.x + dir.x * offset, y: edge.start.y + dir.y * offset };
+  const jambs: [Point, Point] = [
+    { x: center.x - dir.x * width / 2, y: center.y - dir.y * width / 2 },
+    { x: center.x + dir.x * width / 2, y: center.y + dir.y * width / 2 },
+  ];
+
+  const hinge = opening.hinge === 'start' ? jambs[0] : jambs[1];
+  const closing = opening.hinge === 'start' ? jambs[1] : jambs[0];
+  const leafEnd = { x: hinge.x + normal.x * width, y: hinge.y + normal.y * width };
+
+  // Sweep a quarter circle around the hinge from the open leaf to the closing jamb
+  const startAngle = Math.atan2(leafEnd.y - hinge.y, leafEnd.x - hinge.x);
+  const endAngle = Math.atan2(closing.y - hinge.y, closing.x - hinge.x);
+  let sweep = endAngle - startAngle;
+  if (sweep > Math.PI) sweep -= 2 * Math.PI;
+  if (sweep < -Math.PI) sweep += 2 * Math.PI;
+  const arc: Point[] = [];
+  for (let i = 0; i <= ARC_SEGMENTS; i++) {
+    const angle = startAngle + (sweep * i) / ARC_SEGMENTS;
+    arc.push({ x: hinge.x + Math.cos(angle) * width, y: hinge.y + Math.sin(angle) * width });
+  }
+
+  return { center, dir, normal, jambs, hinge, leafEnd, arc, thickness: edge.thickness };
+}
+
+/**
+ * Outline of the gap an opening cuts into its host, as a polygon in cm
+ */
+export function getOpeningCutout(geometry: OpeningGeometry): Point[] {
+  const { jambs, dir } = geometry;
+  const half = geometry.thickness / 2 + 1;
+  const n = { x: -dir.y, y: dir.x };
+  return [
+    { x: jambs[0].x + n.x * half, y: jambs[0].y + n.y * half },
+    { x: jambs[1].x + n.x * half, y: jambs[1].y + n.y * half },
+    { x: jambs[1].x - n.x * half, y: jambs[1].y - n.y * half },
+    { x: jambs[0].x - n.x * half, y: jambs[0].y - n.y * half },
+  ];
+}
+
+/**
+ * Find the host edge closest to a point
+ * @param point - Point in cm
+ * @param edges - Candidate edges, see getHostEdges
+ * @param maxDistance - Maximum distance in cm from the edge
+ * @returns The edge, the offset of the projected point along it and its distance, or null
+ */
+export function findNearestHostEdge(
+  point: Point,
+  edges: HostEdge[],
+  maxDistance: number
+): { edge: HostEdge; offset: number; distance: number } | null {
+  let best: { edge: HostEdge; offset: number; distance: number } | null = null;
+
+  edges.forEach(edge => {
+    const dx = (edge.end.x - edge.start.x) / edge.length;
+    const dy = (edge.end.y - edge.start.y) / edge.length;
+    const along = (point.x - edge.start.x) * dx + (point.y - edge.start.y) * dy;
+    const offset = Math.min(edge.length, Math.max(0, along));
+    const projected = { x: edge.start.x + dx * offset, y: edge.start.y + dy * offset };
+    const d = Math.hypot(point.x - projected.x, point.y - projected.y);
+    // Walls win ties over the zone outlines they usually coincide with
+    const adjusted = edge.hostType === 'wall' ? d - 0.5 : d;
+    if (d <= maxDistance && (!best || adjusted < best.distance)) {
+      best = { edge, offset, distance: adjusted };
+    }
+  });
+
+  return best;
+}
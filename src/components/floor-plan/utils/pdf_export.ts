@@ -0,0 +1,474 @@
+/**
+ * Vector PDF sheets for floor plans: the plan drawn at an architectural scale
+ * with a title block, scale bar and north arrow, and an optional furniture schedule
+ */
+
+import type { FloorPlanSettings } from '@/types';
+import type { ExportData, ExportOptions } from './export_utils';
+import { Point, getRotatedCorners, polygonCentroid } from './geometry';
+import { getZonePolygon, getZoneArea, isPolygonZone } from './zone_logic';
+import { computeWallOutlines } from './wall_logic';
+import { getOpeningCutout, getOpeningGeometry, getOpeningHostEdge } from './opening_logic';
+import { layoutDimension, resolveDimension } from './dimension_logic';
+import { cm2_to_m2, format_area } from './units';
+import { buildFurnitureSchedule, utilizationPercent } from './furniture_schedule';
+import { PdfDocument, PdfPage, textWidth, tint } from './pdf_writer';
+
+export type PaperSize = 'A4' | 'A3' | 'Letter' | 'Legal';
+
+// Portrait sheet sizes in mm
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+  Letter: { width: 215.9, height: 279.4 },
+  Legal: { width: 215.9, height: 355.6 },
+};
+
+// Scale denominators offered for plans, largest drawing first
+export const DRAWING_SCALES = [20, 25, 50, 100, 200];
+
+const TITLE_BLOCK_HEIGHT = 24;
+const GAP = 4;
+const DEFAULT_MARGIN = 10;
+
+// Candidate scale bar lengths in cm
+const SCALE_BAR_LENGTHS = [50, 100, 200, 500, 1000, 2000];
+const SCALE_BAR_MAX = 50;
+
+const LINE = '#1f2937';
+
+export interface SheetLayout {
+  paper: { width: number; height: number };
+  // Drawing area in mm from the top-left of the sheet
+  area: { x: number; y: number; width: number; height: number };
+  // Scale denominator actually used (1:scale)
+  scale: number;
+  // Whether the plan fits at the requested scale
+  fits: boolean;
+}
+
+/**
+ * Work out the sheet size, drawing area and scale for a plan.
+ * Without a requested scale the largest standard scale that fits is used,
+ * falling back to the exact fit for plans too big for any of them.
+ */
+export function getSheetLayout(
+  settings: Pick<FloorPlanSettings, 'apartmentWidth' | 'apartmentHeight'>,
+  options: Pick<ExportOptions, 'paperSize' | 'orientation' | 'margins' | 'drawingScale'>
+): SheetLayout {
+  const size = PAPER_SIZES[options.paperSize ?? 'A4'];
+  const paper = options.orientation === 'portrait'
+    ? { width: size.width, height: size.height }
+    : { width: size.height, height: size.width };
+  const margin = options.margins ?? DEFAULT_MARGIN;
+  const area = {
+    x: margin,
+    y: margin,
+    width: paper.width - margin * 2,
+    height: paper.height - margin * 2 - TITLE_BLOCK_HEIGHT - GAP,
+  };
+
+  // Plan size in mm at 1:n is cm * 10 / n
+  const fitsAt = (n: number) => settings.apartmentWidth * 10 / n <= area.width && settings.apartmentHeight * 10 / n <= area.height;
+  const exactFit = Math.ceil(Math.max(settings.apartmentWidth * 10 / area.width, settings.apartmentHeight * 10 / area.height));
+
+  if (options.drawingScale) {
+    return { paper, area, scale: options.drawingScale, fits: fitsAt(options.drawingScale) };
+  }
+  return { paper, area, scale: DRAWING_SCALES.find(fitsAt) ?? exactFit, fits: true };
+}
+
+function drawPlan(page: PdfPage, data: ExportData, options: ExportOptions, layout: SheetLayout) {
+  const k = 10 / layout.scale;
+  const { area } = layout;
+  const origin = {
+    x: area.x + (area.width - data.settings.apartmentWidth * k) / 2,
+    y: area.y + (area.height - data.settings.apartmentHeight * k) / 2,
+  };
+  const toPage = (p: Point): Point => ({ x: origin.x + p.x * k, y: origin.y + p.y * k });
+
+  page.save();
+  page.clipRect(area.x, area.y, area.width, area.height);
+
+  if (options.includeGrid) {
+    page.setStrokeColor('#e2e8f0');
+    page.setLineWidth(0.1);
+    for (let x = 0; x <= data.settings.apartmentWidth; x += 50) {
+      page.line(origin.x + x * k, origin.y, origin.x + x * k, origin.y + data.settings.apartmentHeight * k);
+    }
+    for (let y = 0; y <= data.settings.apartmentHeight; y += 50) {
+      page.line(origin.x, origin.y + y * k, origin.x + data.settings.apartmentWidth * k, origin.y + y * k);
+    }
+  }
+
+  if (options.includeZones) {
+    data.zones.forEach(zone => {
+      const color = zone.color || '#93c5fd';
+      page.setFillColor(tint(color, 0.3));
+      page.setStrokeColor(color);
+      page.setLineWidth(0.35);
+      page.path(getZonePolygon(zone).map(toPage), true, 'fillStroke');
+    });
+  }
+
+  const walls = data.walls ?? [];
+  if (walls.length > 0) {
+    const outlines = computeWallOutlines(walls);
+    page.setStrokeColor(LINE);
+    page.setLineWidth(0.2);
+    walls.forEach(wall => {
+      const outline = outlines.get(wall.id);
+      if (!outline) return;
+      page.setFillColor(wall.color || '#4b5563');
+      page.path(outline.map(toPage), true, 'fillStroke');
+    });
+  }
+
+  (data.openings ?? []).forEach(opening => {
+    const edge = getOpeningHostEdge(opening, walls, data.zones);
+    if (!edge) return;
+    const geometry = getOpeningGeometry(opening, edge);
+
+    page.setFillColor(opening.type === 'window' ? '#e0f2fe' : '#ffffff');
+    page.path(getOpeningCutout(geometry).map(toPage), true, 'fill');
+    page.setStrokeColor(LINE);
+    if (opening.type === 'window') {
+      const n = { x: -geometry.dir.y, y: geometry.dir.x };
+      const inset = geometry.thickness / 4;
+      page.setLineWidth(0.3);
+      [inset, -inset].forEach(d => {
+        page.path(geometry.jambs.map(j => toPage({ x: j.x + n.x * d, y: j.y + n.y * d })), false);
+      });
+      return;
+    }
+    page.setLineWidth(0.4);
+    page.path([geometry.hinge, geometry.leafEnd].map(toPage), false);
+    page.setLineWidth(0.2);
+    page.setDash([1, 0.75]);
+    page.path(geometry.arc.map(toPage), false);
+    page.setDash([]);
+  });
+
+  if (options.includeFurniture) {
+    data.furniture.forEach(item => {
+      const corners = getRotatedCorners(item).map(toPage);
+      page.setFillColor(tint(item.color, 0.45));
+      page.setStrokeColor(LINE);
+      page.setLineWidth(0.2);
+      page.path(corners, true, 'fillStroke');
+
+      // Labels only where they fit inside the footprint
+      if (options.includeLabels) {
+        const center = polygonCentroid(corners);
+        const size = 6;
+        if (textWidth(item.name, size) < item.w * k * 0.9) {
+          page.text(item.name, center.x, center.y + 0.7, { size, align: 'center', color: LINE, rotation: item.r });
+        }
+      }
+    });
+  }
+
+  // Dimension lines with 1.5 mm ticks or arrowheads, text 2 mm off the line
+  if (options.includeDimensions) {
+    const entities = { zones: data.zones, walls, furniture: data.furniture };
+    const size = 6;
+    page.setStrokeColor('#4b5563');
+    page.setLineWidth(0.15);
+    (data.dimensions ?? []).forEach(dimension => {
+      const resolved = resolveDimension(dimension, entities);
+      if (!resolved) return;
+      const { lines, label } = layoutDimension(resolved, dimension, {
+        unitSystem: data.settings.unitSystem,
+        markSize: 1.5 / k,
+        textGap: 2 / k,
+      });
+      lines.forEach(([a, b]) => page.path([toPage(a), toPage(b)], false));
+      // Drop the baseline so the text is centred on the label point, as for furniture labels
+      const angle = label.angle * Math.PI / 180;
+      const at = toPage(label.at);
+      page.text(label.text, at.x - Math.sin(angle) * 0.7, at.y + Math.cos(angle) * 0.7, {
+        size,
+        align: 'center',
+        color: '#4b5563',
+        rotation: label.angle,
+      });
+    });
+  }
+
+  // Zone labels go last so furniture does not cover them
+  if (options.includeZones && options.includeLabels) {
+    data.zones.forEach(zone => {
+      const center = toPage(isPolygonZone(zone)
+        ? polygonCentroid(getZonePolygon(zone))
+        : { x: zone.x + zone.w / 2, y: zone.y + zone.h / 2 });
+      page.text(zone.name, center.x, center.y, { size: 9, bold: true, align: 'center', color: LINE });
+      if (options.includeDimensions) {
+        const label = isPolygonZone(zone) ? format_area(getZoneArea(zone), 'm') : `${zone.w} × ${zone.h} cm`;
+        page.text(label, center.x, center.y + 3.5, { size: 7, align: 'center', color: '#4b5563' });
+      }
+    });
+  }
+
+  page.restore();
+}
+
+function drawScaleBar(page: PdfPage, layout: SheetLayout) {
+  const k = 10 / layout.scale;
+  const length = [...SCALE_BAR_LENGTHS].reverse().find(cm => cm * k <= SCALE_BAR_MAX) ?? SCALE_BAR_LENGTHS[0];
+  const x = layout.area.x + 4;
+  const y = layout.area.y + layout.area.height - 8;
+  const divisions = 4;
+  const step = (length * k) / divisions;
+
+  page.setFillColor('#ffffff');
+  page.rect(x - 2, y - 4, length * k + 14, 10, 'fill');
+  page.setStrokeColor(LINE);
+  page.setLineWidth(0.2);
+  for (let i = 0; i < divisions; i++) {
+    page.setFillColor(i % 2 === 0 ? LINE : '#ffffff');
+    page.rect(x + i * step, y, step, 1.5, 'fillStroke');
+  }
+  page.text('0', x, y - 1, { size: 6, align: 'center' });
+  page.text(length >= 100 ? `${length / 100} m` : `${length} cm`, x + length * k, y - 1, { size: 6, align: 'center' });
+  page.text(`1:${layout.scale}`, x + length * k + 3, y + 1.5, { size: 6 });
+}
+
+function drawNorthArrow(page: PdfPage, layout: SheetLayout) {
+  const cx = layout.area.x + layout.area.width - 8;
+  const top = layout.area.y + 4;
+
+  page.setStrokeColor(LINE);
+  page.setLineWidth(0.2);
+  page.setFillColor(LINE);
+  page.path([{ x: cx, y: top + 3 }, { x: cx + 2.5, y: top + 12 }, { x: cx, y: top + 10 }], true, 'fillStroke');
+  page.setFillColor('#ffffff');
+  page.path([{ x: cx, y: top + 3 }, { x: cx - 2.5, y: top + 12 }, { x: cx, y: top + 10 }], true, 'fillStroke');
+  page.text('N', cx, top + 2, { size: 8, bold: true, align: 'center' });
+}
+
+type TitleBlockOptions = Pick<ExportOptions, 'title' | 'description' | 'author' | 'paperSize' | 'margins'>;
+
+interface Sheet {
+  page: PdfPage;
+  name: string;
+  // Plan sheets show the drawing scale in the title block
+  plan: boolean;
+}
+
+function drawTitleBlock(
+  page: PdfPage,
+  layout: SheetLayout,
+  options: TitleBlockOptions,
+  sheet: { number: number; count: number; name: string; plan: boolean }
+) {
+  const margin = options.margins ?? DEFAULT_MARGIN;
+  const x = margin;
+  const y = layout.paper.height - margin - TITLE_BLOCK_HEIGHT;
+  const width = layout.paper.width - margin * 2;
+  const columns = [width * 0.5, width * 0.25, width * 0.25];
+
+  page.setStrokeColor(LINE);
+  page.setLineWidth(0.35);
+  page.rect(x, y, width, TITLE_BLOCK_HEIGHT);
+  page.setLineWidth(0.2);
+  page.line(x + columns[0], y, x + columns[0], y + TITLE_BLOCK_HEIGHT);
+  page.line(x + columns[0] + columns[1], y, x + columns[0] + columns[1], y + TITLE_BLOCK_HEIGHT);
+
+  const field = (column: number, row: number, label: string, value: string) => {
+    const left = x + columns.slice(0, column).reduce((a, b) => a + b, 0) + 3;
+    page.text(label.toUpperCase(), left, y + 5 + row * 9, { size: 5, color: '#6b7280' });
+    page.text(value, left, y + 9 + row * 9, { size: 8 });
+  };
+
+  page.text(options.title || 'Floor Plan', x + 3, y + 9, { size: 14, bold: true });
+  if (options.description) page.text(options.description, x + 3, y + 15, { size: 8, color: '#4b5563' });
+  page.text(sheet.name, x + 3, y + TITLE_BLOCK_HEIGHT - 3, { size: 7, color: '#6b7280' });
+
+  field(1, 0, 'Date', new Date().toLocaleDateString());
+  field(1, 1, 'Drawn by', options.author || '—');
+  field(2, 0, 'Scale', sheet.plan ? `1:${layout.scale} @ ${options.paperSize ?? 'A4'}` : '—');
+  field(2, 1, 'Sheet', `${sheet.number} of ${sheet.count}`);
+}
+
+interface TableColumn {
+  label: string;
+  // Width in mm; 0 takes the remaining width
+  width: number;
+  align?: 'right';
+  // Draw the row colour as a swatch instead of text
+  swatch?: boolean;
+}
+
+interface TableRow {
+  cells: string[];
+  color?: string;
+}
+
+interface Table {
+  title: string;
+  columns: TableColumn[];
+  rows: TableRow[];
+  // Rows carried over from the previous page
+  continued?: boolean;
+}
+
+function scheduleTables(data: ExportData, area: SheetLayout['area']): Table[] {
+  const schedule = buildFurnitureSchedule(data.zones, data.furniture);
+  const tables: Table[] = [
+    {
+      title: 'Furniture schedule',
+      columns: [
+        { label: 'Qty', width: 12, align: 'right' },
+        { label: 'Item', width: area.width * 0.3 },
+        { label: 'Size (cm)', width: 28 },
+        { label: 'Footprint', width: 22, align: 'right' },
+        { label: 'Colour', width: 16, swatch: true },
+        { label: 'Zones', width: 0 },
+      ],
+      rows: schedule.items.map(line => ({
+        cells: [
+          String(line.quantity),
+          line.name,
+          `${line.w} × ${line.h}`,
+          `${cm2_to_m2(line.footprint).toFixed(2)} m²`,
+          '',
+          line.zones.join(', ') || '—',
+        ],
+        color: line.color,
+      })),
+    },
+    {
+      title: 'Zone utilization',
+      columns: [
+        { label: 'Zone', width: area.width * 0.35 },
+        { label: 'Area', width: 30, align: 'right' },
+        { label: 'Occupied', width: 30, align: 'right' },
+        { label: 'Used', width: 20, align: 'right' },
+        { label: 'Items', width: 16, align: 'right' },
+      ],
+      rows: schedule.zones.map(({ zone, utilization }) => ({
+        cells: [
+          zone.name,
+          format_area(utilization.totalArea, 'm'),
+          format_area(utilization.occupiedArea, 'm'),
+          `${utilizationPercent(utilization).toFixed(0)}%`,
+          String(utilization.furnitureCount),
+        ],
+      })),
+    },
+  ];
+  return tables.filter(table => table.rows.length > 0);
+}
+
+/**
+ * Draw tables from the top of the drawing area, continuing each on the next
+ * page when it runs out of room
+ * @returns The tables, or parts of tables, that did not fit
+ */
+function drawTablePage(page: PdfPage, layout: SheetLayout, tables: Table[]): Table[] {
+  const { area } = layout;
+  const rowHeight = 6;
+  const bottom = area.y + area.height;
+  let y = area.y;
+
+  for (let t = 0; t < tables.length; t++) {
+    const table = tables[t];
+    // Title, header and at least one row, unless the page is still empty
+    if (y > area.y && y + 12 + rowHeight * 2 > bottom) return tables.slice(t);
+
+    const fixed = table.columns.reduce((sum, c) => sum + c.width, 0);
+    const widths = table.columns.map(c => c.width || Math.max(0, area.width - fixed));
+    const columnX = widths.map((_, i) => area.x + widths.slice(0, i).reduce((sum, w) => sum + w, 0));
+    const textX = (i: number) => (table.columns[i].align === 'right' ? columnX[i] + widths[i] - 2 : columnX[i]);
+
+    y += 6;
+    page.text(table.continued ? `${table.title} (continued)` : table.title, area.x, y, { size: 12, bold: true });
+    y += 6;
+
+    page.setStrokeColor(LINE);
+    page.setLineWidth(0.3);
+    table.columns.forEach((column, i) => {
+      page.text(column.label, textX(i), y + 4, { size: 7, bold: true, align: column.align });
+    });
+    y += rowHeight;
+    page.line(area.x, y, area.x + area.width, y);
+
+    const capacity = Math.max(1, Math.floor((bottom - y) / rowHeight));
+    table.rows.slice(0, capacity).forEach(row => {
+      table.columns.forEach((column, i) => {
+        if (column.swatch && row.color) {
+          page.setFillColor(row.color);
+          page.setStrokeColor(LINE);
+          page.setLineWidth(0.1);
+          page.rect(columnX[i], y + 1.5, 8, 3, 'fillStroke');
+        } else if (row.cells[i]) {
+          page.text(row.cells[i], textX(i), y + 4, { size: 7, align: column.align });
+        }
+      });
+      y += rowHeight;
+      page.setStrokeColor('#e5e7eb');
+      page.setLineWidth(0.3);
+      page.line(area.x, y, area.x + area.width, y);
+    });
+
+    if (capacity < table.rows.length) {
+      return [{ ...table, rows: table.rows.slice(capacity), continued: true }, ...tables.slice(t + 1)];
+    }
+    y += GAP;
+  }
+  return [];
+}
+
+// Add schedule sheets to a document, as many as the tables need
+function addScheduleSheets(pdf: PdfDocument, data: ExportData, layout: SheetLayout, sheets: Sheet[]) {
+  let remaining = scheduleTables(data, layout.area);
+  while (remaining.length > 0) {
+    const page = pdf.addPage(layout.paper.width, layout.paper.height);
+    remaining = drawTablePage(page, layout, remaining);
+    sheets.push({ page, name: 'Furniture schedule', plan: false });
+  }
+}
+
+function finishSheets(layout: SheetLayout, options: TitleBlockOptions, sheets: Sheet[]) {
+  sheets.forEach(({ page, name, plan }, index) => {
+    drawTitleBlock(page, layout, options, { number: index + 1, count: sheets.length, name, plan });
+  });
+}
+
+/**
+ * Build a vector PDF of a floor plan: one plan sheet, followed by furniture
+ * schedule sheets when requested
+ */
+export function floorPlanToPdf(data: ExportData, options: ExportOptions): PdfDocument {
+  const layout = getSheetLayout(data.settings, options);
+  const pdf = new PdfDocument({ title: options.title, author: options.author });
+  const sheets: Sheet[] = [];
+
+  const planPage = pdf.addPage(layout.paper.width, layout.paper.height);
+  drawPlan(planPage, data, options, layout);
+  drawScaleBar(planPage, layout);
+  drawNorthArrow(planPage, layout);
+  sheets.push({ page: planPage, name: 'Floor plan', plan: true });
+
+  if (options.includeSchedule && data.furniture.length > 0) {
+    addScheduleSheets(pdf, data, layout, sheets);
+  }
+
+  finishSheets(layout, options, sheets);
+  return pdf;
+}
+
+/**
+ * Build a PDF holding only the furniture schedule and zone utilization tables
+ */
+export function furnitureScheduleToPdf(data: ExportData, options: TitleBlockOptions): PdfDocument {
+  const layout = getSheetLayout(data.settings, { ...options, orientation: 'portrait' });
+  const pdf = new PdfDocument({ title: options.title, author: options.author });
+  const sheets: Sheet[] = [];
+  addScheduleSheets(pdf, data, layout, sheets);
+  if (sheets.length === 0) {
+    sheets.push({ page: pdf.addPage(layout.paper.width, layout.paper.height), name: 'Furniture schedule', plan: false });
+  }
+  finishSheets(layout, options, sheets);
+  return pdf;
+}
@@ -0,0 +1,221 @@
+/**
+ * Minimal vector PDF 1.4 writer: pages of paths, rectangles and text in the
+ * standard Helvetica fonts. Coordinates are in millimetres from the top-left corner.
+ */
+
+import { Point } from './geometry';
+
+export type PaintMode = 'stroke' | 'fill' | 'fillStroke';
+
+export interface TextOptions {
+  // Font size in points
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'center' | 'right';
+  color?: string;
+  // Clockwise rotation in degrees around the anchor
+  rotation?: number;
+}
+
+const PT_PER_MM = 72 / 25.4;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard AFM metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const match = hex.trim().match(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i);
+  if (!match) return [0, 0, 0];
+  const digits = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16) / 255) as [number, number, number];
+}
+
+/**
+ * Blend a colour towards white; PDF 1.4 fill opacity needs extra graphics states,
+ * and a tint prints the same on a white page
+ */
+export function tint(hex: string, amount: number): string {
+  const [r, g, b] = hexToRgb(hex).map(c => c * amount + (1 - amount));
+  return '#' + [r, g, b].map(c => Math.round(c * 255).toString(16).padStart(2, '0')).join('');
+}
+
+// WinAnsi codes for the punctuation it adds on top of Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+// Text is written in WinAnsi encoding; anything it cannot represent becomes '?'
+function encodeText(text: string): string {
+  return Array.from(text)
+    .map(char => {
+      const code = WIN_ANSI_EXTRAS[char] ?? char.codePointAt(0) ?? 63;
+      if (char === '(' || char === ')' || char === '\\') return `\\${char}`;
+      if (code >= 32 && code < 127) return char;
+      if ((code >= 160 && code <= 255) || char in WIN_ANSI_EXTRAS) return `\\${code.toString(8).padStart(3, '0')}`;
+      return '?';
+    })
+    .join('');
+}
+
+/**
+ * Width of a string in millimetres. Bold text is measured with the regular
+ * metrics, which is close enough for centring labels.
+ */
+export function textWidth(text: string, size: number): number {
+  const units = Array.from(text).reduce((sum, char) => {
+    const code = char.codePointAt(0) ?? 0;
+    return sum + (code >= 32 && code < 127 ? HELVETICA_WIDTHS[code - 32] : 556);
+  }, 0);
+  return (units / 1000) * size / PT_PER_MM;
+}
+
+export class PdfPage {
+  private ops: string[] = [];
+
+  constructor(readonly width: number, readonly height: number) {}
+
+  private x(mm: number) {
+    return num(mm * PT_PER_MM);
+  }
+
+  private y(mm: number) {
+    return num((this.height - mm) * PT_PER_MM);
+  }
+
+  private paint(mode: PaintMode) {
+    this.ops.push(mode === 'stroke' ? 'S' : mode === 'fill' ? 'f' : 'B');
+  }
+
+  setStrokeColor(hex: string) {
+    this.ops.push(`${hexToRgb(hex).map(num).join(' ')} RG`);
+  }
+
+  setFillColor(hex: string) {
+    this.ops.push(`${hexToRgb(hex).map(num).join(' ')} rg`);
+  }
+
+  // Line width in millimetres
+  setLineWidth(mm: number) {
+    this.ops.push(`${num(mm * PT_PER_MM)} w`);
+  }
+
+  // Dash and gap lengths in millimetres; an empty pattern draws solid lines
+  setDash(pattern: number[]) {
+    this.ops.push(`[${pattern.map(mm => num(mm * PT_PER_MM)).join(' ')}] 0 d`);
+  }
+
+  save() {
+    this.ops.push('q');
+  }
+
+  restore() {
+    this.ops.push('Q');
+  }
+
+  // Clip everything drawn until the next restore() to a rectangle
+  clipRect(x: number, y: number, w: number, h: number) {
+    this.ops.push(`${this.x(x)} ${this.y(y + h)} ${num(w * PT_PER_MM)} ${num(h * PT_PER_MM)} re W n`);
+  }
+
+  rect(x: number, y: number, w: number, h: number, mode: PaintMode = 'stroke') {
+    this.ops.push(`${this.x(x)} ${this.y(y + h)} ${num(w * PT_PER_MM)} ${num(h * PT_PER_MM)} re`);
+    this.paint(mode);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number) {
+    this.ops.push(`${this.x(x1)} ${this.y(y1)} m ${this.x(x2)} ${this.y(y2)} l S`);
+  }
+
+  path(points: Point[], closed: boolean, mode: PaintMode = 'stroke') {
+    if (points.length < 2) return;
+    this.ops.push(points.map((p, i) => `${this.x(p.x)} ${this.y(p.y)} ${i === 0 ? 'm' : 'l'}`).join(' ') + (closed ? ' h' : ''));
+    this.paint(mode);
+  }
+
+  text(value: string, x: number, y: number, options: TextOptions = {}) {
+    const size = options.size ?? 10;
+    const width = textWidth(value, size);
+    const shift = options.align === 'center' ? -width / 2 : options.align === 'right' ? -width : 0;
+    const rad = (-(options.rotation ?? 0) * Math.PI) / 180;
+    const [cos, sin] = [Math.cos(rad), Math.sin(rad)];
+    // Anchor at (x, y) on the baseline, shifted along the text direction for alignment
+    const ox = x * PT_PER_MM + shift * PT_PER_MM * cos;
+    const oy = (this.height - y) * PT_PER_MM + shift * PT_PER_MM * sin;
+    this.ops.push(
+      `BT ${hexToRgb(options.color ?? '#000000').map(num).join(' ')} rg /${options.bold ? 'F2' : 'F1'} ${num(size)} Tf ` +
+      `${num(cos)} ${num(sin)} ${num(-sin)} ${num(cos)} ${num(ox)} ${num(oy)} Tm (${encodeText(value)}) Tj ET`
+    );
+  }
+
+  toString(): string {
+    return this.ops.join('\n');
+  }
+}
+
+export class PdfDocument {
+  private pages: PdfPage[] = [];
+
+  constructor(private info: { title?: string; author?: string } = {}) {}
+
+  // Page size in millimetres
+  addPage(width: number, height: number): PdfPage {
+    const page = new PdfPage(width, height);
+    this.pages.push(page);
+    return page;
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  toString(): string {
+    const objects: string[] = [];
+    const fontIds = [3, 4];
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+    const infoId = 5 + this.pages.length * 2;
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[fontIds[0]] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[fontIds[1]] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    this.pages.forEach((page, i) => {
+      const content = page.toString();
+      objects[pageIds[i]] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width * PT_PER_MM)} ${num(page.height * PT_PER_MM)}] ` +
+        `/Resources << /Font << /F1 ${fontIds[0]} 0 R /F2 ${fontIds[1]} 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+      objects[pageIds[i] + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+    const date = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    objects[infoId] =
+      `<< /Title (${encodeText(this.info.title ?? '')}) /Author (${encodeText(this.info.author ?? '')}) /CreationDate (D:${date}Z) >>`;
+
+    // Every character written is ASCII, so string length equals byte offset
+    let out = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = out.length;
+      out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xref = out.length;
+    out += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      out += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    out += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return out;
+  }
+
+  toBlob(): Blob {
+    return new Blob([this.toString()], { type: 'application/pdf' });
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Placement validation for furniture: overlaps, clearance envelopes, wall
+ * distances and allowed zones, driven by the registry placement rules
+ */
+
+import { FloorPlanZone, FurnitureItemType, WallSegment } from '@/types';
+import { getFurnitureForItem, type FurnitureRegistryEntry } from '@/components/floor-plan/furniture';
+import { Point, clipPolygon, getRotatedCorners, polygonIntersectionArea, rotatePoint } from './geometry';
+import { computeWallOutlines } from './wall_logic';
+import { detectFurnitureZone } from './zone_logic';
+
+export type PlacementViolationType = 'overlap' | 'clearance' | 'wall_distance' | 'zone';
+
+export interface PlacementViolation {
+  id: string;
+  type: PlacementViolationType;
+  severity: 'error' | 'warning';
+  furnitureId: string;
+  // The other furniture item or wall involved, if any
+  otherId?: string;
+  message: string;
+  // Offending region in cm, for canvas highlights
+  region?: Point[];
+}
+
+export type PlacementRules = NonNullable<FurnitureRegistryEntry['placement']>;
+
+type Clearance = NonNullable<PlacementRules['requiredClearance']>;
+
+// Intersections smaller than this (cm²) are rounding noise, e.g. items placed edge to edge
+const MIN_INTERSECTION_AREA = 1;
+
+/**
+ * Look up the registry placement rules for a furniture item, by catalog ID or by name
+ */
+export function getPlacementRules(item: Pick<FurnitureItemType, 'catalogId' | 'name'>): PlacementRules | null {
+  return getFurnitureForItem(item)?.placement ?? null;
+}
+
+/**
+ * Get the clearance envelope of a rotated item: its footprint grown by the
+ * required clearance on each side. At r = 0 the front is the bottom edge
+ * (+y), the back the top edge, and left/right are the item's own sides when facing front.
+ * @returns Envelope corners in cm, rotated around the item's top-left like the item itself
+ */
+export function getClearanceEnvelope(
+  item: Pick<FurnitureItemType, 'x' | 'y' | 'w' | 'h' | 'r'>,
+  clearance: Clearance
+): Point[] {
+  const origin = { x: item.x, y: item.y };
+  return [
+    { x: item.x - clearance.right, y: item.y - clearance.back },
+    { x: item.x + item.w + clearance.left, y: item.y - clearance.back },
+    { x: item.x + item.w + clearance.left, y: item.y + item.h + clearance.front },
+    { x: item.x - clearance.right, y: item.y + item.h + clearance.front },
+  ].map(corner => (item.r ? rotatePoint(corner, origin, item.r) : corner));
+}
+
+function hasClearance(clearance: Clearance | undefined): clearance is Clearance {
+  return !!clearance && (clearance.front > 0 || clearance.back > 0 || clearance.left > 0 || clearance.right > 0);
+}
+
+// Distance from a point to a segment
+function pointSegmentDistance(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/**
+ * Smallest gap between two polygons in cm (0 when they touch or overlap)
+ */
+export function polygonDistance(a: Point[], b: Point[]): number {
+  if (polygonIntersectionArea(a, b) > 0) return 0;
+  let best = Infinity;
+  [[a, b], [b, a]].forEach(([from, to]) => {
+    from.forEach(p => {
+      to.forEach((q, i) => {
+        best = Math.min(best, pointSegmentDistance(p, q, to[(i + 1) % to.length]));
+      });
+    });
+  });
+  return best;
+}
+
+/**
+ * Check whether a zone satisfies an allowedZones entry. Registry zone IDs are
+ * generic ("living", "bedroom2"), so a zone matches when its zoneId or name
+ * equals the entry or starts with it as a whole word ("living_room").
+ */
+export function zoneMatchesAllowed(zone: Pick<FloorPlanZone, 'zoneId' | 'name'>, allowed: string): boolean {
+  const normalize = (value: string) => value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_');
+  const target = normalize(allowed);
+  return [zone.zoneId, zone.name].map(normalize).some(value =>
+    value === target || value.startsWith(`${target}_`) || value.split('_').includes(target)
+  );
+}
+
+/**
+ * Validate the placement of every furniture item
+ * @param furniture - Furniture items to check
+ * @param zones - Zones, used for allowedZones rules
+ * @param walls - Walls, used for clearance and wallDistance rules
+ * @returns Violations, one per item and problem
+ */
+export function validatePlacement(
+  furniture: FurnitureItemType[],
+  zones: FloorPlanZone[],
+  walls: WallSegment[] = []
+): PlacementViolation[] {
+  const violations: PlacementViolation[] = [];
+  const footprints = new Map(furniture.map(item => [item.id, getRotatedCorners(item)]));
+  const wallOutlines = computeWallOutlines(walls);
+
+  // Furniture-to-furniture overlaps, reported once per pair
+  furniture.forEach((item, i) => {
+    const footprint = footprints.get(item.id)!;
+    furniture.slice(i + 1).forEach(other => {
+      const otherFootprint = footprints.get(other.id)!;
+      if (polygonIntersectionArea(footprint, otherFootprint) <= MIN_INTERSECTION_AREA) return;
+      const region = clipPolygon(footprint, otherFootprint);
+      violations.push({
+        id: `overlap:${item.id}:${other.id}`,
+        type: 'overlap',
+        severity: 'error',
+        furnitureId: item.id,
+        otherId: other.id,
+        message: `${item.name} overlaps ${other.name}`,
+        region,
+      });
+    });
+  });
+
+  furniture.forEach(item => {
+    const rules = getPlacementRules(item);
+    if (!rules) return;
+    const footprint = footprints.get(item.id)!;
+
+    // Clearance envelope must be free of other furniture and walls
+    if (hasClearance(rules.requiredClearance)) {
+      const envelope = getClearanceEnvelope(item, rules.requiredClearance);
+
+      furniture.forEach(other => {
+        if (other.id === item.id) return;
+        const otherFootprint = footprints.get(other.id)!;
+        // Overlapping items are already reported as an overlap
+        if (polygonIntersectionArea(footprint, otherFootprint) > MIN_INTERSECTION_AREA) return;
+        if (polygonIntersectionArea(otherFootprint, envelope) <= MIN_INTERSECTION_AREA) return;
+        violations.push({
+          id: `clearance:${item.id}:${other.id}`,
+          type: 'clearance',
+          severity: 'warning',
+          furnitureId: item.id,
+          otherId: other.id,
+          message: `${other.name} blocks the clearance around ${item.name}`,
+          region: clipPolygon(otherFootprint, envelope),
+        });
+      });
+
+      walls.forEach(wall => {
+        const outline = wallOutlines.get(wall.id);
+        if (!outline || polygonIntersectionArea(outline, envelope) <= MIN_INTERSECTION_AREA) return;
+        violations.push({
+          id: `clearance:${item.id}:${wall.id}`,
+          type: 'clearance',
+          severity: 'warning',
+          furnitureId: item.id,
+          otherId: wall.id,
+          message: `A wall blocks the clearance around ${item.name}`,
+          region: clipPolygon(outline, envelope),
+        });
+      });
+    }
+
+    // Distance to the nearest wall face
+    if (rules.wallDistance && wallOutlines.size > 0) {
+      const nearest = Math.min(...Array.from(wallOutlines.values()).map(outline => polygonDistance(footprint, outline)));
+      const { min, max } = rules.wallDistance;
+      if (min > 0 && nearest < min) {
+        violations.push({
+          id: `wall_distance:${item.id}`,
+          type: 'wall_distance',
+          severity: 'warning',
+          furnitureId: item.id,
+          message: `${item.name} is ${Math.round(nearest)} cm from a wall (minimum ${min} cm)`,
+          region: footprint,
+        });
+      } else if (max !== undefined && nearest > max) {
+        violations.push({
+          id: `wall_distance:${item.id}`,
+          type: 'wall_distance',
+          severity: 'warning',
+          furnitureId: item.id,
+          message: `${item.name} is ${Math.round(nearest)} cm from the nearest wall (maximum ${max} cm)`,
+          region: footprint,
+        });
+      }
+    }
+
+    // Zone the item mostly sits in must be one of the allowed zones
+    if (rules.allowedZones && rules.allowedZones.length > 0 && zones.length > 0) {
+      const assignment = detectFurnitureZone(item, zones);
+      const zone = zones.find(z => z.id === assignment.zoneId);
+      if (zone && !rules.allowedZones.some(allowed => zoneMatchesAllowed(zone, allowed))) {
+        violations.push({
+          id: `zone:${item.id}`,
+          type: 'zone',
+          severity: 'warning',
+          furnitureId: item.id,
+          message: `${item.name} does not belong in ${zone.name} (allowed: ${rules.allowedZones.join(', ')})`,
+          region: footprint,
+        });
+      }
+    }
+  });
+
+  return violations;
+}
+
+/**
+ * Get the violations that involve a furniture item, on either side
+ */
+export function getViolationsForItem(violations: PlacementViolation[], furnitureId: string): PlacementViolation[] {
+  return violations.filter(v => v.furnitureId === furnitureId || v.otherId === furnitureId);
+}
@@ -0,0 +1,222 @@
+/**
+ * Extruded model of a floor plan: zone floors, walls and furniture as vertical
+ * prisms in plan centimetres, for the 2.5D and 3D views
+ */
+
+import { FloorPlanZone, FurnitureItemType, WallSegment } from '@/types';
+import { getFurnitureForItem, getFurnitureHeight } from '@/components/floor-plan/furniture';
+import { Point, rotatePoint } from './geometry';
+import { getZonePolygon } from './zone_logic';
+
+export interface Prism {
+  // Source entity
+  id: string;
+  kind: 'floor' | 'wall' | 'furniture';
+  // Base outline in plan cm
+  base: Point[];
+  // Bottom and top heights in cm
+  z0: number;
+  z1: number;
+  color: string;
+  // False for parts whose top is covered by another part, like table legs
+  top: boolean;
+}
+
+export interface PlanModelOptions {
+  // Raise zone outlines into walls of this height (cm); off when omitted
+  zoneWallHeight?: number;
+  zoneWallThickness?: number;
+  // Extrude every wall to this height (cm) instead of its own, like a ceiling height
+  wallHeight?: number;
+  // Walls taller than this are cut down, for a cutaway view into the rooms
+  maxWallHeight?: number;
+  // Zone floors become slabs this thick (cm) below floor level; flat when omitted
+  floorThickness?: number;
+  // Simple per-category shapes instead of plain boxes
+  furnitureModels?: boolean;
+  // Split walls into pieces no longer than this (cm)
+  segmentLength?: number;
+}
+
+export const WALL_COLOR = '#e5e7eb';
+const DEFAULT_ZONE_COLOR = '#f3f4f6';
+const DEFAULT_ZONE_WALL_THICKNESS = 10;
+
+// A rectangle in an item's local frame, before rotation and placement
+interface LocalBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  z0: number;
+  z1: number;
+  color?: string;
+  top?: boolean;
+}
+
+// Wall-like box along a centerline, optionally split into short pieces
+function wallPrisms(
+  id: string,
+  a: Point,
+  b: Point,
+  thickness: number,
+  height: number,
+  color: string,
+  segmentLength?: number
+): Prism[] {
+  const length = Math.hypot(b.x - a.x, b.y - a.y);
+  if (length < 1e-6) return [];
+  const ux = (b.x - a.x) / length;
+  const uy = (b.y - a.y) / length;
+  const nx = -uy * thickness / 2;
+  const ny = ux * thickness / 2;
+  const count = segmentLength ? Math.max(1, Math.ceil(length / segmentLength)) : 1;
+
+  return Array.from({ length: count }, (_, i) => {
+    const s = { x: a.x + ux * length * i / count, y: a.y + uy * length * i / count };
+    const e = { x: a.x + ux * length * (i + 1) / count, y: a.y + uy * length * (i + 1) / count };
+    return {
+      id,
+      kind: 'wall' as const,
+      base: [
+        { x: s.x + nx, y: s.y + ny },
+        { x: e.x + nx, y: e.y + ny },
+        { x: e.x - nx, y: e.y - ny },
+        { x: s.x - nx, y: s.y - ny },
+      ],
+      z0: 0,
+      z1: height,
+      color,
+      top: true,
+    };
+  });
+}
+
+// Octagon inscribed in a local rectangle, for round items
+function octagon(box: LocalBox): Point[] {
+  const cx = box.x + box.w / 2;
+  const cy = box.y + box.h / 2;
+  return Array.from({ length: 8 }, (_, i) => {
+    const angle = (Math.PI / 4) * i + Math.PI / 8;
+    return { x: cx + Math.cos(angle) * box.w / 2, y: cy + Math.sin(angle) * box.h / 2 };
+  });
+}
+
+/**
+ * Parts of a furniture item in its local frame: the back is the top edge (y = 0),
+ * as for clearances. Categories follow the smart figure renderers.
+ */
+function furnitureParts(category: string, name: string, w: number, h: number, height: number): Array<LocalBox & { round?: boolean }> {
+  switch (category) {
+    case 'sofa':
+    case 'chair': {
+      const back = Math.min(h * 0.25, 25);
+      const arm = Math.min(w * 0.12, 20);
+      return [
+        { x: 0, y: 0, w, h: back, z0: 0, z1: height },
+        { x: 0, y: back, w: arm, h: h - back, z0: 0, z1: height * 0.65 },
+        { x: w - arm, y: back, w: arm, h: h - back, z0: 0, z1: height * 0.65 },
+        { x: arm, y: back, w: w - arm * 2, h: h - back, z0: 0, z1: height * 0.5 },
+      ];
+    }
+    case 'bed': {
+      const board = Math.min(h * 0.06, 8);
+      return [
+        { x: 0, y: 0, w, h: board, z0: 0, z1: height * 1.8 },
+        { x: 0, y: board, w, h: h - board, z0: 0, z1: height },
+      ];
+    }
+    case 'table': {
+      const leg = Math.min(6, w / 4, h / 4);
+      const inset = Math.min(3, w / 8, h / 8);
+      const slab = Math.min(4, height / 4);
+      const legs: LocalBox[] = [
+        [inset, inset], [w - inset - leg, inset], [inset, h - inset - leg], [w - inset - leg, h - inset - leg],
+      ].map(([x, y]) => ({ x, y, w: leg, h: leg, z0: 0, z1: height - slab, top: false }));
+      const round = name.toLowerCase().includes('round');
+      return [...legs, { x: 0, y: 0, w, h, z0: height - slab, z1: height, round }];
+    }
+    case 'decor':
+      return [
+        { x: w * 0.25, y: h * 0.25, w: w * 0.5, h: h * 0.5, z0: 0, z1: height * 0.3, color: '#8d6e63', round: true },
+        { x: 0, y: 0, w, h, z0: height * 0.3, z1: height, round: true },
+      ];
+    default:
+      return [{ x: 0, y: 0, w, h, z0: 0, z1: height }];
+  }
+}
+
+function furniturePrisms(item: FurnitureItemType, models: boolean): Prism[] {
+  const height = getFurnitureHeight(item);
+  const category = models ? getFurnitureForItem(item)?.category ?? '' : '';
+  const origin = { x: item.x, y: item.y };
+  // Items rotate about their top-left corner, like on the canvas
+  const place = (p: Point) => rotatePoint({ x: item.x + p.x, y: item.y + p.y }, origin, item.r || 0);
+
+  return furnitureParts(category, item.name, item.w, item.h, height).map(part => ({
+    id: item.id,
+    kind: 'furniture' as const,
+    base: (part.round
+      ? octagon(part)
+      : [
+        { x: part.x, y: part.y },
+        { x: part.x + part.w, y: part.y },
+        { x: part.x + part.w, y: part.y + part.h },
+        { x: part.x, y: part.y + part.h },
+      ]).map(place),
+    z0: part.z0,
+    z1: part.z1,
+    color: part.color ?? item.color,
+    top: part.top ?? true,
+  }));
+}
+
+/**
+ * Build the prisms for a level: a flat floor per zone, walls (and zone outlines
+ * raised into walls when asked) and the furniture
+ */
+export function buildPlanModel(
+  data: { zones: FloorPlanZone[]; furniture: FurnitureItemType[]; walls?: WallSegment[] },
+  options: PlanModelOptions = {}
+): Prism[] {
+  const prisms: Prism[] = [];
+  const cap = (height: number) => Math.min(height, options.maxWallHeight ?? Infinity);
+
+  data.zones.forEach(zone => {
+    const outline = getZonePolygon(zone);
+    prisms.push({
+      id: zone.id,
+      kind: 'floor',
+      base: outline,
+      z0: -(options.floorThickness ?? 0),
+      z1: 0,
+      color: zone.color || DEFAULT_ZONE_COLOR,
+      top: true,
+    });
+    if (options.zoneWallHeight) {
+      const thickness = options.zoneWallThickness ?? DEFAULT_ZONE_WALL_THICKNESS;
+      outline.forEach((a, i) => {
+        const b = outline[(i + 1) % outline.length];
+        prisms.push(...wallPrisms(zone.id, a, b, thickness, cap(options.zoneWallHeight!), WALL_COLOR, options.segmentLength));
+      });
+    }
+  });
+
+  (data.walls ?? []).forEach(wall => {
+    prisms.push(...wallPrisms(
+      wall.id,
+      { x: wall.x1, y: wall.y1 },
+      { x: wall.x2, y: wall.y2 },
+      wall.thickness,
+      cap(options.wallHeight ?? wall.height),
+      wall.color || WALL_COLOR,
+      options.segmentLength
+    ));
+  });
+
+  data.furniture.forEach(item => {
+    prisms.push(...furniturePrisms(item, options.furnitureModels ?? true));
+  });
+
+  return prisms;
+}
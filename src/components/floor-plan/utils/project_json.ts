@@ -0,0 +1,259 @@
+/**
+ * Project JSON files: the versioned layout written by the JSON export, migration of
+ * older files, and ID remapping for merging an imported file into an open project
+ */
+
+import { z } from 'zod';
+import { saveProjectDataSchema, type SaveProjectData } from '@/types';
+import type { DiagramShape } from '../canvas/tools/diagram_schemas';
+import type { ExportData, ExportOptions } from './export_utils';
+
+export const PROJECT_JSON_VERSION = '2.0';
+
+export class ProjectJsonError extends Error {}
+
+const metadataSchema = z.object({
+  version: z.literal(PROJECT_JSON_VERSION),
+  title: z.string().optional(),
+  description: z.string().optional(),
+  exportedAt: z.string().optional(),
+}).passthrough();
+
+export const projectJsonSchema = saveProjectDataSchema.extend({
+  zones: saveProjectDataSchema.shape.zones.default([]),
+  furniture: saveProjectDataSchema.shape.furniture.default([]),
+  metadata: metadataSchema,
+});
+
+export type ProjectJsonFile = z.infer<typeof projectJsonSchema>;
+export type ProjectJsonMetadata = z.infer<typeof metadataSchema>;
+
+export interface ParsedProjectJson {
+  data: SaveProjectData;
+  metadata: ProjectJsonMetadata;
+  // Version the file was written in, when it had to be migrated
+  migratedFrom?: string;
+}
+
+type RawFile = Record<string, unknown>;
+
+// Each migration lifts a file from its key version to the next
+const MIGRATIONS: Record<string, { to: string; migrate: (file: RawFile) => RawFile }> = {
+  // 1.0 wrote diagrams as diagramShapes and could leave out zones or furniture
+  '1.0': {
+    to: '2.0',
+    migrate: ({ diagramShapes, ...file }) => ({
+      ...file,
+      zones: file.zones ?? [],
+      furniture: file.furniture ?? [],
+      diagrams: file.diagrams ?? diagramShapes ?? [],
+    }),
+  },
+};
+
+// Files written before versioning carry no version; they share the 1.0 layout
+function fileVersion(file: RawFile): string {
+  const metadata = file.metadata as { version?: unknown } | undefined;
+  const version = metadata?.version;
+  if (typeof version === 'number') return Number.isInteger(version) ? `${version}.0` : String(version);
+  return typeof version === 'string' && version ? version : '1.0';
+}
+
+function migrate(file: RawFile): { file: RawFile; from?: string } {
+  const from = fileVersion(file);
+  let version = from;
+  let current = file;
+  while (version !== PROJECT_JSON_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      throw new ProjectJsonError(`Unsupported project file version ${version}; this editor reads up to ${PROJECT_JSON_VERSION}`);
+    }
+    current = step.migrate(current);
+    version = step.to;
+    current = { ...current, metadata: { ...(current.metadata as RawFile | undefined), version } };
+  }
+  return { file: current, from: from === PROJECT_JSON_VERSION ? undefined : from };
+}
+
+// Drop level references the file cannot resolve, so those items land on the lowest level
+function dropUnknownLevels(data: SaveProjectData): SaveProjectData {
+  const known = new Set(data.levels.map(level => level.id));
+  const fix = <T extends { levelId?: string }>(item: T): T =>
+    item.levelId && !known.has(item.levelId) ? { ...item, levelId: undefined } : item;
+  return {
+    ...data,
+    zones: data.zones.map(fix),
+    furniture: data.furniture.map(fix),
+    walls: data.walls.map(fix),
+    diagrams: data.diagrams.map(fix),
+    measurements: data.measurements.map(fix),
+    dimensions: data.dimensions.map(fix),
+  };
+}
+
+/**
+ * Parse and validate a project JSON file, migrating older versions forward
+ */
+export function parseProjectJson(text: string): ParsedProjectJson {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectJsonError('Not a valid JSON file');
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw) || !('settings' in raw)) {
+    throw new ProjectJsonError('Not a floor plan project file');
+  }
+
+  const { file, from } = migrate(raw as RawFile);
+  const result = projectJsonSchema.safeParse(file);
+  if (!result.success) {
+    const issues = result.error.issues.slice(0, 3).map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`);
+    throw new ProjectJsonError(`Invalid project file (${issues.join('; ')})`);
+  }
+
+  const { metadata, ...data } = result.data;
+  return { data: dropUnknownLevels(data), metadata, migratedFrom: from };
+}
+
+/**
+ * Build the JSON document written by the JSON export, honouring the include options
+ */
+export function toProjectJson(data: ExportData, options: ExportOptions): z.input<typeof projectJsonSchema> {
+  return {
+    metadata: {
+      version: PROJECT_JSON_VERSION,
+      title: options.title || 'Floor Plan',
+      description: options.description || '',
+      exportedAt: new Date().toISOString(),
+    },
+    zones: options.includeZones ? data.zones : [],
+    furniture: options.includeFurniture ? data.furniture : [],
+    settings: data.settings,
+    // The export's loosely typed shapes are the editor's diagram shapes
+    diagrams: options.includeDiagrams ? (data.diagramShapes ?? []) as DiagramShape[] : [],
+    walls: data.walls ?? [],
+    // Openings hosted on zone edges go with their zones
+    openings: (data.openings ?? []).filter(opening => options.includeZones || opening.hostType === 'wall'),
+    levels: data.levels ?? [],
+    measurements: data.measurements ?? [],
+    dimensions: data.dimensions ?? [],
+  };
+}
+
+const generateId = () => Math.random().toString(36).slice(2, 9);
+
+export interface RemapOptions {
+  // IDs already in use in the target project
+  takenIds: Set<string>;
+  // Zone slugs (zoneId) already in use in the target project
+  takenZoneIds: Set<string>;
+  // Level every imported item is placed on; when omitted items keep their levels
+  levelId?: string;
+}
+
+/**
+ * Give every entity in a project fresh IDs that do not clash with the target
+ * project, rewriting the references between them: furniture to zones, openings
+ * to their host walls or zones, dimensions to the entities they are attached to.
+ * Given a level, everything is moved onto it; otherwise the file's levels are kept.
+ */
+export function remapProjectIds(data: SaveProjectData, options: RemapOptions): SaveProjectData {
+  const taken = new Set(options.takenIds);
+  const ids = new Map<string, string>();
+  const freshId = (oldId: string) => {
+    let id = generateId();
+    while (taken.has(id)) id = generateId();
+    taken.add(id);
+    ids.set(oldId, id);
+    return id;
+  };
+
+  const slugs = new Map<string, string>();
+  const takenSlugs = new Set(options.takenZoneIds);
+  const freshSlug = (slug: string) => {
+    let next = slug;
+    for (let n = 2; takenSlugs.has(next); n++) next = `${slug}_${n}`;
+    takenSlugs.add(next);
+    slugs.set(slug, next);
+    return next;
+  };
+
+  const levelId = (item: { levelId?: string }) => options.levelId ?? item.levelId;
+  const zones = data.zones.map(zone => ({ ...zone, id: freshId(zone.id), zoneId: freshSlug(zone.zoneId), levelId: levelId(zone) }));
+  const walls = data.walls.map(wall => ({ ...wall, id: freshId(wall.id), levelId: levelId(wall) }));
+  // Furniture may reference its zone by id or by slug
+  const zoneRef = (ref: string | undefined) => (ref ? ids.get(ref) ?? slugs.get(ref) : undefined);
+  const furniture = data.furniture.map(item => ({ ...item, id: freshId(item.id), zoneId: zoneRef(item.zoneId), levelId: levelId(item) }));
+  const openings = data.openings
+    .filter(opening => ids.has(opening.hostId))
+    .map(opening => ({ ...opening, id: freshId(opening.id), hostId: ids.get(opening.hostId)! }));
+  const diagrams = data.diagrams.map(shape => ({ ...shape, id: freshId(shape.id), levelId: levelId(shape) }));
+  const measurements = data.measurements.map(measurement => ({ ...measurement, id: freshId(measurement.id), levelId: levelId(measurement) }));
+  const dimensions = data.dimensions
+    .filter(dimension => ids.has(dimension.from.id) && (!dimension.to || ids.has(dimension.to.id)))
+    .map(dimension => ({
+      ...dimension,
+      id: freshId(dimension.id),
+      from: { ...dimension.from, id: ids.get(dimension.from.id)! },
+      to: dimension.to && { ...dimension.to, id: ids.get(dimension.to.id)! },
+      levelId: levelId(dimension),
+    }));
+  const levels = options.levelId ? [] : data.levels;
+
+  return { ...data, zones, walls, furniture, openings, diagrams, levels, measurements, dimensions };
+}
+
+// Diagram shapes are stored in canvas pixels, so they follow the project scale
+function rescaleDiagram(shape: DiagramShape, factor: number): DiagramShape {
+  const scaled = { ...shape, x: shape.x * factor, y: shape.y * factor };
+  switch (scaled.type) {
+    case 'rectangle':
+      return { ...scaled, width: scaled.width * factor, height: scaled.height * factor };
+    case 'circle':
+      return { ...scaled, radius: scaled.radius * factor };
+    case 'line':
+    case 'freehand':
+      return { ...scaled, points: scaled.points.map(value => value * factor) };
+    case 'text':
+      return {
+        ...scaled,
+        width: scaled.width && scaled.width * factor,
+        height: scaled.height && scaled.height * factor,
+      };
+  }
+}
+
+/**
+ * Merge an imported project into the current one on the given level. Imported
+ * entities get fresh IDs, and the plan grows to fit them; the current project's
+ * settings and levels are kept.
+ */
+export function mergeProjectData(current: SaveProjectData, incoming: SaveProjectData, levelId: string): SaveProjectData {
+  const takenIds = new Set([
+    ...current.zones, ...current.furniture, ...current.walls, ...current.openings, ...current.diagrams, ...current.measurements,
+    ...current.dimensions,
+  ].map(entity => entity.id));
+  const remapped = remapProjectIds(incoming, {
+    takenIds,
+    takenZoneIds: new Set(current.zones.map(zone => zone.zoneId)),
+    levelId,
+  });
+  const factor = current.settings.scale / incoming.settings.scale;
+
+  return {
+    ...current,
+    settings: {
+      ...current.settings,
+      apartmentWidth: Math.min(5000, Math.max(current.settings.apartmentWidth, incoming.settings.apartmentWidth)),
+      apartmentHeight: Math.min(5000, Math.max(current.settings.apartmentHeight, incoming.settings.apartmentHeight)),
+    },
+    zones: [...current.zones, ...remapped.zones],
+    furniture: [...current.furniture, ...remapped.furniture],
+    walls: [...current.walls, ...remapped.walls],
+    openings: [...current.openings, ...remapped.openings],
+    diagrams: [...current.diagrams, ...remapped.diagrams.map(shape => rescaleDiagram(shape, factor))],
+    measurements: [...current.measurements, ...remapped.measurements],
+    dimensions: [...current.dimensions, ...remapped.dimensions],
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * Differences between two saved versions of a project
+ */
+
+import { SaveProjectData } from '@/types';
+
+export type VersionChangeType = 'added' | 'removed' | 'modified';
+
+export type VersionEntityKind = 'level' | 'zone' | 'furniture' | 'wall' | 'opening' | 'diagram';
+
+export interface VersionChange {
+  kind: VersionEntityKind;
+  change: VersionChangeType;
+  name: string;
+  // ID of the entity in the older and newer version; zones can be matched across different IDs
+  beforeId?: string;
+  afterId?: string;
+}
+
+export interface VersionDiff {
+  changes: VersionChange[];
+  counts: Record<VersionChangeType, number>;
+  settingsChanged: boolean;
+}
+
+// Compare content while ignoring IDs, which zones can change between saves
+function sameContent(a: object, b: object): boolean {
+  return JSON.stringify({ ...a, id: undefined }) === JSON.stringify({ ...b, id: undefined });
+}
+
+function diffEntities<T extends { id: string }>(
+  kind: VersionEntityKind,
+  before: T[],
+  after: T[],
+  getName: (item: T) => string,
+  getAltKey?: (item: T) => string
+): VersionChange[] {
+  const changes: VersionChange[] = [];
+  const unmatched = new Map(after.map(item => [item.id, item]));
+
+  before.forEach(item => {
+    // Match by ID, then by the alternate key (e.g. a zone saved under a new row ID)
+    let match = unmatched.get(item.id);
+    if (!match && getAltKey) {
+      const key = getAltKey(item);
+      match = Array.from(unmatched.values()).find(other => getAltKey(other) === key);
+    }
+
+    if (!match) {
+      changes.push({ kind, change: 'removed', name: getName(item), beforeId: item.id });
+      return;
+    }
+
+    unmatched.delete(match.id);
+    if (!sameContent(item, match)) {
+      changes.push({ kind, change: 'modified', name: getName(match), beforeId: item.id, afterId: match.id });
+    }
+  });
+
+  unmatched.forEach(item => {
+    changes.push({ kind, change: 'added', name: getName(item), afterId: item.id });
+  });
+
+  return changes;
+}
+
+/**
+ * Diff two project snapshots entity by entity
+ * @param before - Older version data
+ * @param after - Newer version data
+ * @returns Added, removed and modified entities plus per-type counts
+ */
+export function diffProjectData(before: SaveProjectData, after: SaveProjectData): VersionDiff {
+  const changes = [
+    ...diffEntities('level', before.levels, after.levels, level => level.name),
+    ...diffEntities('zone', before.zones, after.zones, zone => zone.name, zone => `${zone.levelId ?? ''}:${zone.zoneId}`),
+    ...diffEntities('furniture', before.furniture, after.furniture, item => item.name),
+    ...diffEntities('wall', before.walls, after.walls, wall => `Wall ${Math.round(Math.hypot(wall.x2 - wall.x1, wall.y2 - wall.y1))} cm`),
+    ...diffEntities('opening', before.openings, after.openings, opening => opening.type === 'door' ? 'Door' : 'Window'),
+    ...diffEntities('diagram', before.diagrams, after.diagrams, shape => shape.type),
+  ];
+
+  const counts: Record<VersionChangeType, number> = { added: 0, removed: 0, modified: 0 };
+  changes.forEach(change => {
+    counts[change.change]++;
+  });
+
+  return {
+    changes,
+    counts,
+    settingsChanged: JSON.stringify(before.settings) !== JSON.stringify(after.settings),
+  };
+}
+
+/**
+ * IDs to highlight on one side of a comparison, by change type
+ */
+export function getChangedIds(diff: VersionDiff, side: 'before' | 'after'): Map<string, VersionChangeType> {
+  const ids = new Map<string, VersionChangeType>();
+  diff.changes.forEach(change => {
+    const id = side === 'before' ? change.beforeId : change.afterId;
+    if (id) ids.set(id, change.change);
+  });
+  return ids;
+}
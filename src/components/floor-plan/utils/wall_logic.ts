@@ -0,0 +1,283 @@
+/**
+ * Wall logic utilities for mitered wall outlines, endpoint snapping and
+ * snapping furniture flush against wall faces
+ */
+
+import { FurnitureItemType, WallSegment } from '@/types';
+import { Point, distance, getRotatedCorners } from './geometry';
+
+export type WallEnd = 'start' | 'end';
+
+export interface WallJoint {
+  point: Point;
+  ends: { wallId: string; end: WallEnd }[];
+}
+
+// Wall ends closer than this (in cm) are treated as one joint
+export const WALL_JOIN_TOLERANCE = 1;
+
+// Miters longer than this multiple of the wall thickness fall back to square ends
+const MITER_LIMIT = 4;
+
+/**
+ * Get the start or end point of a wall centerline
+ */
+export function getWallEndPoint(wall: WallSegment, end: WallEnd): Point {
+  return end === 'start' ? { x: wall.x1, y: wall.y1 } : { x: wall.x2, y: wall.y2 };
+}
+
+/**
+ * Get the centerline length of a wall in cm
+ */
+export function getWallLength(wall: WallSegment): number {
+  return Math.hypot(wall.x2 - wall.x1, wall.y2 - wall.y1);
+}
+
+/**
+ * Get the centerline angle of a wall in degrees (0 = pointing right)
+ */
+export function getWallAngle(wall: WallSegment): number {
+  return (Math.atan2(wall.y2 - wall.y1, wall.x2 - wall.x1) * 180) / Math.PI;
+}
+
+/**
+ * Group wall ends that meet at the same point into joints
+ * @param walls - Walls to inspect
+ * @param tolerance - Maximum distance in cm between ends of one joint
+ * @returns Joints, including free ends that belong to a single wall
+ */
+export function findWallJoints(walls: WallSegment[], tolerance = WALL_JOIN_TOLERANCE): WallJoint[] {
+  const joints: WallJoint[] = [];
+
+  walls.forEach(wall => {
+    (['start', 'end'] as WallEnd[]).forEach(end => {
+      const point = getWallEndPoint(wall, end);
+      const joint = joints.find(j => distance(j.point, point) <= tolerance);
+      if (joint) {
+        joint.ends.push({ wallId: wall.id, end });
+      } else {
+        joints.push({ point, ends: [{ wallId: wall.id, end }] });
+      }
+    });
+  });
+
+  return joints;
+}
+
+/**
+ * Intersect two infinite lines given as point + direction
+ */
+function intersectLines(p: Point, d: Point, q: Point, e: Point): Point | null {
+  const cross = d.x * e.y - d.y * e.x;
+  if (Math.abs(cross) < 1e-9) return null;
+  const s = ((q.x - p.x) * e.y - (q.y - p.y) * e.x) / cross;
+  return { x: p.x + s * d.x, y: p.y + s * d.y };
+}
+
+/**
+ * Compute the outline of every wall with mitered joins where wall ends meet.
+ * Each outline is [startLeft, endRight, endLeft, startRight] where left/right
+ * are relative to the direction pointing away from that end.
+ * @param walls - Walls to outline
+ * @param tolerance - Maximum distance in cm between ends of one joint
+ * @returns Outline polygon per wall ID, in cm
+ */
+export function computeWallOutlines(
+  walls: WallSegment[],
+  tolerance = WALL_JOIN_TOLERANCE
+): Map<string, Point[]> {
+  const corners = new Map<string, { start?: { left: Point; right: Point }; end?: { left: Point; right: Point } }>();
+  const wallsById = new Map(walls.map(wall => [wall.id, wall]));
+
+  findWallJoints(walls, tolerance).forEach(joint => {
+    // Outward direction and half thickness of every wall leaving this joint
+    const arms = joint.ends
+      .map(({ wallId, end }) => {
+        const wall = wallsById.get(wallId)!;
+        const length = getWallLength(wall);
+        if (length === 0) return null;
+        const sign = end === 'start' ? 1 : -1;
+        const dir = { x: (sign * (wall.x2 - wall.x1)) / length, y: (sign * (wall.y2 - wall.y1)) / length };
+        return {
+          wallId,
+          end,
+          dir,
+          normal: { x: -dir.y, y: dir.x },
+          half: wall.thickness / 2,
+          angle: Math.atan2(dir.y, dir.x),
+        };
+      })
+      .filter((arm): arm is NonNullable<typeof arm> => arm !== null)
+      .sort((a, b) => a.angle - b.angle);
+
+    const { point } = joint;
+    const square = arms.map(arm => ({
+      left: { x: point.x + arm.normal.x * arm.half, y: point.y + arm.normal.y * arm.half },
+      right: { x: point.x - arm.normal.x * arm.half, y: point.y - arm.normal.y * arm.half },
+    }));
+    const result = square.map(s => ({ ...s }));
+
+    // Neighbouring arms (by angle) share a corner: the left face of one meets the right face of the next
+    if (arms.length > 1) {
+      arms.forEach((arm, i) => {
+        const j = (i + 1) % arms.length;
+        const next = arms[j];
+        const corner = intersectLines(square[i].left, arm.dir, square[j].right, next.dir);
+        const limit = MITER_LIMIT * Math.max(arm.half, next.half);
+        if (corner && distance(corner, point) <= limit) {
+          result[i].left = corner;
+          result[j].right = corner;
+        }
+      });
+    }
+
+    arms.forEach((arm, i) => {
+      const entry = corners.get(arm.wallId) ?? {};
+      entry[arm.end] = result[i];
+      corners.set(arm.wallId, entry);
+    });
+  });
+
+  const outlines = new Map<string, Point[]>();
+  walls.forEach(wall => {
+    const entry = corners.get(wall.id);
+    if (!entry?.start || !entry.end) return;
+    outlines.set(wall.id, [entry.start.left, entry.end.right, entry.end.left, entry.start.right]);
+  });
+
+  return outlines;
+}
+
+/**
+ * Find the closest wall end to a point
+ * @param point - Point in cm
+ * @param walls - Walls to search
+ * @param threshold - Maximum snap distance in cm
+ * @param excludeWallId - Wall to ignore, e.g. the one being edited
+ * @returns The matching end point or null when nothing is within range
+ */
+export function snapToWallEnds(
+  point: Point,
+  walls: WallSegment[],
+  threshold: number,
+  excludeWallId?: string
+): Point | null {
+  let best: Point | null = null;
+  let bestDistance = threshold;
+
+  walls.forEach(wall => {
+    if (wall.id === excludeWallId) return;
+    (['start', 'end'] as WallEnd[]).forEach(end => {
+      const candidate = getWallEndPoint(wall, end);
+      const d = distance(candidate, point);
+      if (d <= bestDistance) {
+        best = candidate;
+        bestDistance = d;
+      }
+    });
+  });
+
+  return best;
+}
+
+/**
+ * Constrain a wall end so the wall is horizontal or vertical
+ */
+export function constrainWallOrthogonal(start: Point, point: Point): Point {
+  return Math.abs(point.x - start.x) >= Math.abs(point.y - start.y)
+    ? { x: point.x, y: start.y }
+    : { x: start.x, y: point.y };
+}
+
+/**
+ * Build the updates that move a joint, keeping every wall end at that joint connected
+ * @param walls - All walls
+ * @param from - Current joint position in cm
+ * @param to - New joint position in cm
+ * @param tolerance - Maximum distance in cm between ends of one joint
+ * @returns Per-wall coordinate updates
+ */
+export function moveWallJoint(
+  walls: WallSegment[],
+  from: Point,
+  to: Point,
+  tolerance = WALL_JOIN_TOLERANCE
+): { id: string; updates: Partial<WallSegment> }[] {
+  const moved: { id: string; updates: Partial<WallSegment> }[] = [];
+
+  walls.forEach(wall => {
+    const updates: Partial<WallSegment> = {};
+    if (distance({ x: wall.x1, y: wall.y1 }, from) <= tolerance) {
+      updates.x1 = to.x;
+      updates.y1 = to.y;
+    }
+    if (distance({ x: wall.x2, y: wall.y2 }, from) <= tolerance) {
+      updates.x2 = to.x;
+      updates.y2 = to.y;
+    }
+    if (Object.keys(updates).length > 0) {
+      moved.push({ id: wall.id, updates });
+    }
+  });
+
+  return moved;
+}
+
+/**
+ * Snap a furniture item flush against the nearest wall faces. The item is moved
+ * along the face normal only, so it can slide into a corner formed by two walls.
+ * @param item - Furniture footprint (rotation pivots around x, y)
+ * @param walls - Walls to snap against
+ * @param threshold - Maximum gap in cm that is closed by snapping
+ * @returns The snapped position, or null when no face is within range
+ */
+export function snapFurnitureToWalls(
+  item: Pick<FurnitureItemType, 'x' | 'y' | 'w' | 'h' | 'r'>,
+  walls: WallSegment[],
+  threshold: number
+): { x: number; y: number } | null {
+  let position = { x: item.x, y: item.y };
+  let snappedNormal: Point | null = null;
+
+  // Two passes: the second may only use faces that are not parallel to the first
+  for (let pass = 0; pass < 2; pass++) {
+    const corners = getRotatedCorners({ ...item, ...position });
+    let best: { gap: number; normal: Point } | null = null;
+
+    walls.forEach(wall => {
+      const length = getWallLength(wall);
+      if (length === 0) return;
+      const dir = { x: (wall.x2 - wall.x1) / length, y: (wall.y2 - wall.y1) / length };
+      const half = wall.thickness / 2;
+
+      // Only faces the item actually sits alongside
+      const along = corners.map(c => (c.x - wall.x1) * dir.x + (c.y - wall.y1) * dir.y);
+      if (Math.max(...along) <= 0 || Math.min(...along) >= length) return;
+
+      [1, -1].forEach(side => {
+        const normal = { x: -dir.y * side, y: dir.x * side };
+        if (snappedNormal && Math.abs(normal.x * snappedNormal.x + normal.y * snappedNormal.y) > 0.99) return;
+
+        const offsets = corners.map(c => (c.x - wall.x1) * normal.x + (c.y - wall.y1) * normal.y - half);
+        // The item must be on this side of the wall
+        if (Math.max(...offsets) <= 0) return;
+
+        const gap = Math.min(...offsets);
+        if (Math.abs(gap) <= threshold && (!best || Math.abs(gap) < Math.abs(best.gap))) {
+          best = { gap, normal };
+        }
+      });
+    });
+
+    if (!best) break;
+    const { gap, normal } = best as { gap: number; normal: Point };
+    position = {
+      x: Math.round((position.x - gap * normal.x) * 10) / 10,
+      y: Math.round((position.y - gap * normal.y) * 10) / 10,
+    };
+    snappedNormal = normal;
+  }
+
+  if (!snappedNormal || position.x < 0 || position.y < 0) return null;
+  return position;
+}
@@ -2,7 +2,16 @@
  * Zone logic utilities for automatic zone assignment and furniture placement
  */
 
-import { FloorPlanZone, FurnitureItemType } from '@/types';
+import { FloorPlanZone, FurnitureItemType, ZonePoint } from '@/types';
+import {
+  Point,
+  getRotatedCorners,
+  getPolygonBounds,
+  pointInPolygon,
+  polygonArea,
+  polygonIntersectionArea,
+  rectToPolygon,
+} from './geometry';
 
 export interface ZoneAssignmentResult {
   zoneId: string | null;
@@ -11,6 +20,9 @@ export interface ZoneAssignmentResult {
   overlappingZones: string[];
 }
 
+// Furniture footprint input; rotation is optional for callers that only track the box
+type FurnitureFootprint = Pick<FurnitureItemType, 'x' | 'y' | 'w' | 'h'> & { r?: number };
+
 /**
  * Calculate if two rectangles overlap
  */
@@ -27,20 +39,94 @@ function rectanglesOverlap(
 }
 
 /**
- * Calculate the overlap area between two rectangles
+ * Get the outline of a zone: its polygon points, or its rectangle corners
  */
-function calculateOverlapArea(
-  rect1: { x: number; y: number; w: number; h: number },
-  rect2: { x: number; y: number; w: number; h: number }
-): number {
-  if (!rectanglesOverlap(rect1, rect2)) return 0;
+export function getZonePolygon(zone: Pick<FloorPlanZone, 'x' | 'y' | 'w' | 'h' | 'points'>): Point[] {
+  return zone.points && zone.points.length >= 3 ? zone.points : rectToPolygon(zone);
+}
 
-  const overlapX1 = Math.max(rect1.x, rect2.x);
-  const overlapY1 = Math.max(rect1.y, rect2.y);
-  const overlapX2 = Math.min(rect1.x + rect1.w, rect2.x + rect2.w);
-  const overlapY2 = Math.min(rect1.y + rect1.h, rect2.y + rect2.h);
+/**
+ * Check whether a zone has a polygonal outline
+ */
+export function isPolygonZone(zone: Pick<FloorPlanZone, 'points'>): boolean {
+  return !!zone.points && zone.points.length >= 3;
+}
+
+/**
+ * Calculate the floor area of a zone in cm²
+ */
+export function getZoneArea(zone: Pick<FloorPlanZone, 'x' | 'y' | 'w' | 'h' | 'points'>): number {
+  return polygonArea(getZonePolygon(zone));
+}
 
-  return (overlapX2 - overlapX1) * (overlapY2 - overlapY1);
+/**
+ * Check if a point (in cm) lies inside a zone outline
+ */
+export function isPointInZone(point: Point, zone: Pick<FloorPlanZone, 'x' | 'y' | 'w' | 'h' | 'points'>): boolean {
+  if (!isPolygonZone(zone)) {
+    return point.x >= zone.x && point.x <= zone.x + zone.w && point.y >= zone.y && point.y <= zone.y + zone.h;
+  }
+  return pointInPolygon(point, getZonePolygon(zone));
+}
+
+/**
+ * Build zone updates from a polygon outline, keeping x/y/w/h as its bounding box
+ */
+export function zoneUpdatesFromPoints(points: ZonePoint[]): Pick<FloorPlanZone, 'x' | 'y' | 'w' | 'h' | 'points'> {
+  const roundedPoints = points.map(p => ({ x: Math.round(p.x), y: Math.round(p.y) }));
+  const bounds = getPolygonBounds(roundedPoints);
+
+  return {
+    x: bounds.minX,
+    y: bounds.minY,
+    w: Math.max(1, bounds.width),
+    h: Math.max(1, bounds.height),
+    points: roundedPoints,
+  };
+}
+
+/**
+ * Move a zone by an offset in cm, translating its polygon outline if it has one
+ */
+export function translateZone(
+  zone: FloorPlanZone,
+  dx: number,
+  dy: number
+): Partial<FloorPlanZone> {
+  if (!isPolygonZone(zone)) {
+    return { x: zone.x + dx, y: zone.y + dy };
+  }
+  return zoneUpdatesFromPoints(zone.points!.map(p => ({ x: p.x + dx, y: p.y + dy })));
+}
+
+/**
+ * Resize a zone's bounding box in cm, scaling its polygon outline if it has one
+ */
+export function resizeZone(
+  zone: FloorPlanZone,
+  w: number,
+  h: number
+): Partial<FloorPlanZone> {
+  if (!isPolygonZone(zone)) {
+    return { w, h };
+  }
+  const sx = w / zone.w;
+  const sy = h / zone.h;
+  return zoneUpdatesFromPoints(zone.points!.map(p => ({
+    x: zone.x + (p.x - zone.x) * sx,
+    y: zone.y + (p.y - zone.y) * sy,
+  })));
+}
+
+/**
+ * Calculate the overlap area between a furniture footprint and a zone outline
+ */
+function calculateOverlapArea(
+  furniture: FurnitureFootprint,
+  zone: Pick<FloorPlanZone, 'x' | 'y' | 'w' | 'h' | 'points'>
+): number {
+  const footprint = getRotatedCorners({ ...furniture, r: furniture.r ?? 0 });
+  return polygonIntersectionArea(getZonePolygon(zone), footprint);
 }
 
 /**
@@ -48,7 +134,7 @@ function calculateOverlapArea(
  * Returns the zone with the largest overlap area
  */
 export function detectFurnitureZone(
-  furniture: Pick<FurnitureItemType, 'x' | 'y' | 'w' | 'h'>,
+  furniture: FurnitureFootprint,
   zones: FloorPlanZone[]
 ): ZoneAssignmentResult {
   const overlappingZones: Array<{
@@ -108,7 +194,7 @@ export function autoAssignFurnitureToZones(
  * Check if furniture placement is valid within a zone
  */
 export function isValidFurniturePlacement(
-  furniture: Pick<FurnitureItemType, 'x' | 'y' | 'w' | 'h'>,
+  furniture: FurnitureFootprint,
   zone: FloorPlanZone,
   minOverlapPercentage: number = 0.8
 ): boolean {
@@ -150,7 +236,7 @@ export function calculateZoneUtilization(
   utilizationPercentage: number;
   furnitureCount: number;
 } {
-  const zoneArea = zone.w * zone.h;
+  const zoneArea = getZoneArea(zone);
   const furnitureInZone = getFurnitureInZone(furniture, zone.id);
 
   let occupiedArea = 0;
@@ -177,12 +263,18 @@ export function suggestFurniturePlacement(
   padding: number = 10
 ): { x: number; y: number } | null {
   const furnitureInZone = getFurnitureInZone(existingFurniture, zone.id);
+  const polygonal = isPolygonZone(zone);
 
   // Try to place furniture starting from top-left corner
   for (let y = zone.y + padding; y <= zone.y + zone.h - furniture.h - padding; y += 5) {
     for (let x = zone.x + padding; x <= zone.x + zone.w - furniture.w - padding; x += 5) {
       const testPosition = { x, y, w: furniture.w, h: furniture.h };
 
+      // Polygonal zones: the whole footprint must sit inside the outline
+      if (polygonal && calculateOverlapArea(testPosition, zone) < furniture.w * furniture.h - 1) {
+        continue;
+      }
+
       // Check if position conflicts with existing furniture
       const hasConflict = furnitureInZone.some(existing =>
         rectanglesOverlap(testPosition, existing)
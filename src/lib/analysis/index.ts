@@ -0,0 +1,65 @@
+import { AnalysisInput, AnalysisProvider, FloorPlanAnalysis } from './types';
+import { roboflowProvider } from './providers/roboflow';
+import { openaiProvider } from './providers/openai';
+import { fixtureProvider } from './providers/fixture';
+import { localProvider } from './providers/local_cv';
+
+export * from './types';
+export { validateAndOptimizeZones, attachOpeningsToZones, calibrateFromDimensionLabels, toEditorLayout } from './postprocess';
+
+const PROVIDERS: Record<string, AnalysisProvider> = {
+  [roboflowProvider.id]: roboflowProvider,
+  [openaiProvider.id]: openaiProvider,
+  [localProvider.id]: localProvider,
+  [fixtureProvider.id]: fixtureProvider,
+};
+
+// Tried in this order when ANALYSIS_PROVIDERS is not set; the local detector
+// needs no keys so there is always a fallback. The fixture is never picked implicitly.
+const DEFAULT_PROVIDER_ORDER = ['roboflow', 'openai', 'local'];
+
+/**
+ * Providers to try, in order, from the comma-separated ANALYSIS_PROVIDERS
+ * setting (e.g. "roboflow,openai,local" or "fixture"), skipping unconfigured ones
+ */
+export function getAnalysisProviders(): AnalysisProvider[] {
+  const names = process.env.ANALYSIS_PROVIDERS
+    ? process.env.ANALYSIS_PROVIDERS.split(',').map(name => name.trim()).filter(Boolean)
+    : DEFAULT_PROVIDER_ORDER;
+
+  return names.flatMap(name => {
+    const provider = PROVIDERS[name];
+    if (!provider) {
+      console.warn(`Unknown analysis provider "${name}"; expected one of: ${Object.keys(PROVIDERS).join(', ')}`);
+      return [];
+    }
+    return provider.isConfigured() ? [provider] : [];
+  });
+}
+
+/**
+ * Analyze a plan with the first provider that succeeds. The method is
+ * suffixed with "-fallback" when an earlier provider failed.
+ */
+export async function analyzeFloorPlan(input: AnalysisInput): Promise<{ analysis: FloorPlanAnalysis; analysisMethod: string }> {
+  const providers = getAnalysisProviders();
+  if (providers.length === 0) {
+    throw new Error('No floor plan analysis provider is configured');
+  }
+
+  let lastError: unknown;
+  for (const [index, provider] of providers.entries()) {
+    try {
+      console.log(`Analyzing floor plan with ${provider.id}...`);
+      const analysis = await provider.analyze(input);
+      return {
+        analysis,
+        analysisMethod: index === 0 ? provider.method : `${provider.method}-fallback`,
+      };
+    } catch (error) {
+      console.error(`❌ ${provider.id} analysis failed:`, error);
+      lastError = error;
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,130 @@
+import { put } from '@vercel/blob';
+import { and, eq, notInArray } from 'drizzle-orm';
+import { db } from '@/lib/db';
+import { analysisJobs, importedFloorPlans, insertImportedFloorPlanSchema, AnalysisJobRecord } from '@/lib/db/schema';
+import { generateUniqueShortId, generateUniqueSlug } from '@/lib/db/imported_floor_plans';
+import { AnalysisJobStatus, AnalysisJobSummary } from '@/types';
+import { analyzeFloorPlan } from './index';
+import { toEditorLayout } from './postprocess';
+
+// Jobs in these states no longer change
+export const FINAL_JOB_STATUSES: AnalysisJobStatus[] = ['done', 'failed', 'cancelled'];
+
+interface AnalysisJobInput {
+  jobId: string;
+  file: File;
+  totalArea?: number;
+  userId: string | null;
+}
+
+// Raised when the job was cancelled while a stage was running
+class JobCancelledError extends Error {}
+
+/**
+ * Move a job to the next stage, unless it has been cancelled or already finished
+ */
+async function advance(jobId: string, status: AnalysisJobStatus, values: Partial<AnalysisJobRecord> = {}) {
+  const [job] = await db
+    .update(analysisJobs)
+    .set({ ...values, status, updatedAt: new Date() })
+    .where(and(eq(analysisJobs.id, jobId), notInArray(analysisJobs.status, FINAL_JOB_STATUSES)))
+    .returning({ id: analysisJobs.id });
+  if (!job) {
+    throw new JobCancelledError();
+  }
+}
+
+/**
+ * Upload, analyze and save a floor plan, recording each stage on the job row.
+ * Cancellation is checked between stages; a running provider call is not interrupted.
+ */
+export async function runAnalysisJob({ jobId, file, totalArea, userId }: AnalysisJobInput): Promise<void> {
+  try {
+    await advance(jobId, 'uploading');
+    const uniqueFilename = `floorplan-${Date.now()}-${file.name}`;
+    const blob = await put(uniqueFilename, file, {
+      access: 'public',
+    });
+
+    await advance(jobId, 'detecting');
+    const { analysis: rawAnalysis, analysisMethod } = await analyzeFloorPlan({ file, totalArea });
+
+    await advance(jobId, 'extracting', { analysisMethod });
+    const { analysis, zones, openings } = toEditorLayout(rawAnalysis);
+    const shortId = await generateUniqueShortId();
+    const slug = await generateUniqueSlug(`floor-plan-${Date.now()}`);
+
+    // Validate data before saving to database
+    const validationResult = insertImportedFloorPlanSchema.safeParse({
+      shortId,
+      slug,
+      userId,
+      originalImageUrl: blob.url,
+      originalImageWidth: null, // TODO: Extract from image if needed
+      originalImageHeight: null,
+      analysisData: analysis,
+      dimensions: analysis.dimensions,
+      zones,
+      openings,
+      isProcessed: false,
+    });
+    if (!validationResult.success) {
+      console.error('Validation failed for imported floor plan:', validationResult.error.issues);
+      throw new Error(`Invalid floor plan data: ${validationResult.error.issues.map(issue => issue.message).join(', ')}`);
+    }
+
+    // Save the import and finish the job together, so a late cancel leaves nothing behind
+    await db.transaction(async (tx) => {
+      const [savedFloorPlan] = await tx
+        .insert(importedFloorPlans)
+        .values(validationResult.data)
+        .returning();
+
+      const result = {
+        ...analysis,
+        zones,
+        openings,
+        imageUrl: blob.url,
+        imageSize: file.size,
+        processedAt: new Date().toISOString(),
+        analysisMethod,
+        id: savedFloorPlan.id,
+        shortId: savedFloorPlan.shortId,
+        slug: savedFloorPlan.slug,
+      };
+
+      const [job] = await tx
+        .update(analysisJobs)
+        .set({ status: 'done', importedFloorPlanId: savedFloorPlan.id, result, updatedAt: new Date() })
+        .where(and(eq(analysisJobs.id, jobId), notInArray(analysisJobs.status, FINAL_JOB_STATUSES)))
+        .returning({ id: analysisJobs.id });
+      if (!job) {
+        throw new JobCancelledError();
+      }
+    });
+  } catch (error) {
+    if (error instanceof JobCancelledError) {
+      console.log(`Analysis job ${jobId} was cancelled`);
+      return;
+    }
+
+    console.error(`Analysis job ${jobId} failed:`, error);
+    await advance(jobId, 'failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    }).catch(() => {
+      // Cancelled in the meantime; nothing to record
+    });
+  }
+}
+
+export function toAnalysisJobSummary(job: AnalysisJobRecord): AnalysisJobSummary {
+  return {
+    id: job.id,
+    status: job.status as AnalysisJobStatus,
+    error: job.error,
+    analysisMethod: job.analysisMethod,
+    result: job.status === 'done' ? job.result : null,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,242 @@
+import { Opening } from '@/types';
+import { clampOpeningOffset, findNearestHostEdge, getHostEdges } from '@/components/floor-plan/utils/opening_logic';
+import { extractDimensions, fitCalibration } from '@/components/floor-plan/utils/calibration';
+import { AnalyzedZone, DetectedOpening, FloorPlanAnalysis } from './types';
+
+// Plans are clamped to this size range in the editor (cm)
+const MIN_DIMENSION = 300;
+const MAX_DIMENSION = 2000;
+// Dimension labels are ignored when they disagree by more than this fraction of their mean length
+const MAX_LABEL_SPREAD = 0.1;
+
+// Helper function to validate and optimize zone layout
+export function validateAndOptimizeZones(zones: AnalyzedZone[], canvasWidth: number, canvasHeight: number): AnalyzedZone[] {
+  const optimizedZones: AnalyzedZone[] = [];
+  const MIN_ZONE_SIZE = 50; // Minimum zone dimension in cm
+  const OVERLAP_THRESHOLD = 0.3; // Maximum allowed overlap (30%)
+
+  zones.forEach((zone) => {
+    // Validate zone dimensions
+    const optimizedZone = { ...zone };
+
+    // Ensure minimum dimensions
+    if (zone.w < MIN_ZONE_SIZE) {
+      optimizedZone.w = MIN_ZONE_SIZE;
+    }
+    if (zone.h < MIN_ZONE_SIZE) {
+      optimizedZone.h = MIN_ZONE_SIZE;
+    }
+
+    // Ensure zones stay within canvas bounds
+    optimizedZone.x = Math.max(0, Math.min(canvasWidth - zone.w, zone.x));
+    optimizedZone.y = Math.max(0, Math.min(canvasHeight - zone.h, zone.y));
+
+    // Check for excessive overlap with existing zones
+    let hasExcessiveOverlap = false;
+    for (const existingZone of optimizedZones) {
+      const overlap = calculateZoneOverlap(optimizedZone, existingZone);
+      if (overlap > OVERLAP_THRESHOLD) {
+        hasExcessiveOverlap = true;
+        break;
+      }
+    }
+
+    // If no excessive overlap or this is the first zone, add it
+    if (!hasExcessiveOverlap || optimizedZones.length === 0) {
+      optimizedZones.push(optimizedZone);
+    } else {
+      // Try to reposition zone to reduce overlap
+      const repositionedZone = repositionZoneToReduceOverlap(optimizedZone, optimizedZones, canvasWidth, canvasHeight);
+      if (repositionedZone) {
+        optimizedZones.push(repositionedZone);
+      }
+    }
+  });
+
+  return optimizedZones;
+}
+
+// Calculate overlap between two zones (returns overlap ratio 0-1)
+function calculateZoneOverlap(zone1: AnalyzedZone, zone2: AnalyzedZone): number {
+  const xOverlap = Math.max(0, Math.min(zone1.x + zone1.w, zone2.x + zone2.w) - Math.max(zone1.x, zone2.x));
+  const yOverlap = Math.max(0, Math.min(zone1.y + zone1.h, zone2.y + zone2.h) - Math.max(zone1.y, zone2.y));
+  const overlapArea = xOverlap * yOverlap;
+  const zone1Area = zone1.w * zone1.h;
+
+  return overlapArea / zone1Area;
+}
+
+// Try to reposition a zone to reduce overlap
+function repositionZoneToReduceOverlap(zone: AnalyzedZone, existingZones: AnalyzedZone[], canvasWidth: number, canvasHeight: number): AnalyzedZone | null {
+  const attempts = [
+    { x: zone.x + 50, y: zone.y },      // Right
+    { x: zone.x - 50, y: zone.y },      // Left
+    { x: zone.x, y: zone.y + 50 },      // Down
+    { x: zone.x, y: zone.y - 50 },      // Up
+    { x: zone.x + 30, y: zone.y + 30 }, // Diagonal
+    { x: zone.x - 30, y: zone.y - 30 }, // Diagonal opposite
+  ];
+
+  for (const attempt of attempts) {
+    const repositionedZone = {
+      ...zone,
+      x: Math.max(0, Math.min(canvasWidth - zone.w, attempt.x)),
+      y: Math.max(0, Math.min(canvasHeight - zone.h, attempt.y))
+    };
+
+    // Check if this new position has acceptable overlap
+    let maxOverlap = 0;
+    for (const existingZone of existingZones) {
+      const overlap = calculateZoneOverlap(repositionedZone, existingZone);
+      maxOverlap = Math.max(maxOverlap, overlap);
+    }
+
+    if (maxOverlap <= 0.2) { // Allow 20% overlap as acceptable
+      return repositionedZone;
+    }
+  }
+
+  // If no good position found, return null to skip this zone
+  return null;
+}
+
+// Attach detected doors and windows (in cm) to the nearest zone edge running along them
+export function attachOpeningsToZones(detected: DetectedOpening[], zones: AnalyzedZone[]): Opening[] {
+  const edges = getHostEdges([], zones.map(zone => ({ ...zone, id: zone.zoneId })));
+
+  return detected.flatMap((opening, index) => {
+    const center = { x: opening.x + opening.w / 2, y: opening.y + opening.h / 2 };
+    const isSquare = Math.abs(opening.w - opening.h) < Math.min(opening.w, opening.h) * 0.25;
+    const horizontal = opening.w >= opening.h;
+
+    // Elongated boxes lie along their edge; square door boxes include the swing and may sit on either axis
+    const candidates = isSquare
+      ? edges
+      : edges.filter(edge => {
+        const alongX = Math.abs(edge.end.x - edge.start.x) >= Math.abs(edge.end.y - edge.start.y);
+        return alongX === horizontal;
+      });
+
+    const nearest = findNearestHostEdge(center, candidates, Math.max(opening.w, opening.h));
+    if (!nearest) {
+      console.log(`🚫 Dropped ${opening.type} ${index}: no room edge nearby`);
+      return [];
+    }
+
+    const { edge } = nearest;
+    const width = Math.max(10, Math.min(edge.length, Math.round(isSquare ? Math.max(opening.w, opening.h) : horizontal ? opening.w : opening.h)));
+    return [{
+      id: `${opening.type}_${index}`,
+      type: opening.type,
+      hostType: 'zone' as const,
+      hostId: edge.hostId,
+      edgeIndex: edge.edgeIndex,
+      offset: Math.round(clampOpeningOffset(nearest.offset, width, edge.length)),
+      width,
+      // Zone outlines run clockwise, so swinging to the left of an edge opens into the room
+      hinge: 'start' as const,
+      swing: 'left' as const,
+      height: opening.type === 'door' ? 210 : 120,
+      sillHeight: opening.type === 'door' ? undefined : 90,
+    }];
+  });
+}
+
+/**
+ * Size the plan from the dimension strings written on it, when the provider read any,
+ * instead of the total-area estimate. Labels are placed in percentages, so their lengths
+ * are measured with the estimated plan size and one correction factor is fitted to all of them.
+ */
+export function calibrateFromDimensionLabels(analysis: FloorPlanAnalysis): FloorPlanAnalysis {
+  const widthCm = analysis.dimensions.width * 100;
+  const heightCm = analysis.dimensions.height * 100;
+
+  // Bare numbers are skipped; without a unit they could be mm, cm or m
+  const segments = (analysis.dimensionLabels ?? []).flatMap(label => {
+    const [dimension, ...rest] = extractDimensions(label.text);
+    const measured = Math.hypot(((label.x2 - label.x1) / 100) * widthCm, ((label.y2 - label.y1) / 100) * heightCm);
+    return dimension && rest.length === 0 && measured > 0 ? [{ measured, actual: dimension.cm }] : [];
+  });
+
+  const fromArea = { ...analysis, calibration: analysis.calibration ?? { method: 'area' as const, labelCount: 0 } };
+  const fit = fitCalibration(segments);
+  if (!fit) return fromArea;
+
+  const meanLength = segments.reduce((sum, segment) => sum + segment.actual, 0) / segments.length;
+  if (fit.rmsError > meanLength * MAX_LABEL_SPREAD) {
+    console.warn(`📏 Ignoring ${fit.count} dimension labels that disagree by ${fit.rmsError.toFixed(0)} cm`);
+    return fromArea;
+  }
+
+  const factor = fit.cmPerUnit;
+  console.log(`📏 Calibrated from ${fit.count} dimension labels: ×${factor.toFixed(3)}, ±${fit.rmsError.toFixed(1)} cm`);
+  return {
+    ...analysis,
+    totalArea: analysis.totalArea * factor * factor,
+    dimensions: {
+      width: analysis.dimensions.width * factor,
+      height: analysis.dimensions.height * factor,
+    },
+    scale: analysis.scale / factor,
+    calibration: {
+      method: 'dimensions',
+      labelCount: fit.count,
+      rmsError: Math.round(fit.rmsError * 10) / 10,
+      maxError: Math.round(fit.maxError * 10) / 10,
+    },
+  };
+}
+
+/**
+ * Convert a provider's percentage-based analysis into editor zones and
+ * openings in cm, calibrated from dimension labels where possible and with the
+ * plan dimensions clamped to what the editor supports
+ */
+export function toEditorLayout(detected: FloorPlanAnalysis): {
+  analysis: FloorPlanAnalysis;
+  zones: AnalyzedZone[];
+  openings: Opening[];
+} {
+  const analysis = calibrateFromDimensionLabels(detected);
+
+  // Convert percentage-based coordinates to absolute coordinates based on analysis dimensions
+  const FLOOR_PLAN_WIDTH_CM = Math.round(analysis.dimensions.width * 100); // Convert meters to cm
+  const FLOOR_PLAN_HEIGHT_CM = Math.round(analysis.dimensions.height * 100); // Convert meters to cm
+
+  const editorWidth = Math.max(MIN_DIMENSION, Math.min(MAX_DIMENSION, FLOOR_PLAN_WIDTH_CM));
+  const editorHeight = Math.max(MIN_DIMENSION, Math.min(MAX_DIMENSION, FLOOR_PLAN_HEIGHT_CM));
+
+  const convertedZones = analysis.zones.map(zone => ({
+    ...zone,
+    // Convert percentages to absolute coordinates in cm based on analysis dimensions
+    x: Math.round((zone.x / 100) * editorWidth),
+    y: Math.round((zone.y / 100) * editorHeight),
+    w: Math.round((zone.w / 100) * editorWidth),
+    h: Math.round((zone.h / 100) * editorHeight),
+  }));
+
+  // Validate and optimize zone layout
+  const zones = validateAndOptimizeZones(convertedZones, editorWidth, editorHeight);
+
+  // Convert detected doors and windows to cm and host them on the final zone edges
+  const openings = attachOpeningsToZones(
+    (analysis.openings ?? []).map(opening => ({
+      ...opening,
+      x: (opening.x / 100) * editorWidth,
+      y: (opening.y / 100) * editorHeight,
+      w: (opening.w / 100) * editorWidth,
+      h: (opening.h / 100) * editorHeight,
+    })),
+    zones
+  );
+
+  return {
+    // Dimensions match the editor dimensions, back in meters
+    analysis: {
+      ...analysis,
+      dimensions: { width: editorWidth / 100, height: editorHeight / 100 },
+    },
+    zones,
+    openings,
+  };
+}
@@ -0,0 +1,88 @@
+import { AnalysisInput, AnalysisProvider, FloorPlanAnalysis } from '../types';
+import { getFurnitureForType } from '../room_types';
+
+type FixtureZone = Omit<FloorPlanAnalysis['zones'][number], 'suggestedFurniture'>;
+
+const zone = (name: string, type: string, x: number, y: number, w: number, h: number, confidence = 0.9): FixtureZone => ({
+  name,
+  zoneId: `fixture_${name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}`,
+  x,
+  y,
+  w,
+  h,
+  type,
+  confidence,
+});
+
+// Canned results in the same percentage coordinates the real providers return
+const FIXTURES: Record<string, Omit<FloorPlanAnalysis, 'zones'> & { zones: FixtureZone[] }> = {
+  apartment: {
+    totalArea: 100,
+    dimensions: { width: 12.5, height: 8 },
+    zones: [
+      zone('Living Room', 'living', 0, 0, 50, 55),
+      zone('Kitchen', 'kitchen', 50, 0, 25, 40),
+      zone('Bathroom', 'bathroom', 75, 0, 25, 40),
+      zone('Hallway', 'hallway', 50, 40, 50, 15, 0.55),
+      zone('Bedroom', 'bedroom', 0, 55, 50, 45),
+      zone('Office', 'office', 50, 55, 50, 45),
+    ],
+    openings: [
+      { type: 'door', x: 99, y: 43, w: 1, h: 8, confidence: 0.9 },
+      { type: 'door', x: 36, y: 54.5, w: 7, h: 1, confidence: 0.85 },
+      { type: 'door', x: 60, y: 54.5, w: 7, h: 1, confidence: 0.85 },
+      { type: 'window', x: 15, y: 0, w: 16, h: 1, confidence: 0.8 },
+      { type: 'window', x: 15, y: 99, w: 16, h: 1, confidence: 0.8 },
+    ],
+    dimensionLabels: [
+      { text: '12.50 m', x1: 0, y1: 0, x2: 100, y2: 0 },
+      { text: '8,00 m', x1: 0, y1: 0, x2: 0, y2: 100 },
+      { text: '625 cm', x1: 0, y1: 55, x2: 50, y2: 55 },
+    ],
+    scale: 50,
+  },
+  studio: {
+    totalArea: 30,
+    dimensions: { width: 6, height: 5 },
+    zones: [
+      zone('Main Room', 'living', 0, 0, 100, 70),
+      zone('Bathroom', 'bathroom', 0, 70, 40, 30),
+      zone('Kitchenette', 'kitchen', 40, 70, 60, 30),
+    ],
+    openings: [
+      { type: 'door', x: 99, y: 20, w: 1, h: 16, confidence: 0.9 },
+      { type: 'door', x: 15, y: 69.5, w: 14, h: 1, confidence: 0.85 },
+      { type: 'window', x: 30, y: 0, w: 35, h: 1, confidence: 0.8 },
+    ],
+    scale: 50,
+  },
+};
+
+async function analyzeWithFixture({ totalArea }: AnalysisInput): Promise<FloorPlanAnalysis> {
+  const name = process.env.ANALYSIS_FIXTURE || 'apartment';
+  const fixture = FIXTURES[name];
+  if (!fixture) {
+    throw new Error(`Unknown analysis fixture "${name}"; expected one of: ${Object.keys(FIXTURES).join(', ')}`);
+  }
+
+  // Copy so callers can mutate the result freely
+  return {
+    ...fixture,
+    totalArea: totalArea || fixture.totalArea,
+    dimensions: { ...fixture.dimensions },
+    zones: fixture.zones.map(z => ({ ...z, suggestedFurniture: getFurnitureForType(z.type) })),
+    openings: fixture.openings?.map(o => ({ ...o })),
+    dimensionLabels: fixture.dimensionLabels?.map(label => ({ ...label })),
+  };
+}
+
+/**
+ * Offline stand-in returning a canned plan (ANALYSIS_FIXTURE picks which),
+ * for developing and testing the import pipeline without network access
+ */
+export const fixtureProvider: AnalysisProvider = {
+  id: 'fixture',
+  method: 'fixture',
+  isConfigured: () => true,
+  analyze: analyzeWithFixture,
+};
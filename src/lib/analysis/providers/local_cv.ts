@@ -0,0 +1,141 @@
+import sharp from 'sharp';
+import { AnalysisInput, AnalysisProvider, AnalyzedZone, FloorPlanAnalysis } from '../types';
+import { getFurnitureForType } from '../room_types';
+import { Mask, binarize, dilate, getMaskBounds, labelRegions, open, otsuThreshold } from '../raster';
+
+// Plans are analyzed at this size (longest side, px) to keep the run time predictable
+const WORKING_SIZE = 800;
+// Strokes thinner than this fraction of the longest side are text, furniture or dimension lines
+const WALL_STROKE_RATIO = 0.004;
+// Gaps up to twice this fraction of the longest side (about 1.1 m on a 12 m plan) are
+// treated as doorways and closed between rooms
+const DOORWAY_RATIO = 0.045;
+// Enclosed regions smaller than this fraction of the plan are ignored
+const MIN_ROOM_RATIO = 0.004;
+// Used to derive the scale when the user gives no total area, as the other providers do
+const DEFAULT_TOTAL_AREA = 85.5;
+
+async function loadGrayscale(file: File): Promise<{ gray: Uint8Array; width: number; height: number }> {
+  const { data, info } = await sharp(Buffer.from(await file.arrayBuffer()))
+    .flatten({ background: '#ffffff' })
+    .grayscale()
+    .resize({ width: WORKING_SIZE, height: WORKING_SIZE, fit: 'inside', withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return { gray: new Uint8Array(data.buffer, data.byteOffset, data.length), width: info.width, height: info.height };
+}
+
+// Surround the mask with unset pixels so rooms touching the image edge stay enclosed
+function pad(mask: Mask, size: number): Mask {
+  const width = mask.width + size * 2;
+  const height = mask.height + size * 2;
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < mask.height; y++) {
+    data.set(mask.data.subarray(y * mask.width, (y + 1) * mask.width), (y + size) * width + size);
+  }
+  return { data, width, height };
+}
+
+// Keep only thick strokes, backing off for plans drawn with thin walls
+function detectWalls(ink: Mask, strokeRadius: number): Mask {
+  const minInk = ink.data.length * 0.002;
+  for (let radius = strokeRadius; radius > 0; radius--) {
+    const walls = open(ink, radius);
+    if (walls.data.reduce((sum, value) => sum + value, 0) >= minInk) {
+      return walls;
+    }
+  }
+  return ink;
+}
+
+/**
+ * Classical room detection: binarize the plan, keep thick wall strokes, close
+ * doorways and take every enclosed region as a room
+ */
+async function analyzeWithLocalCV({ file, totalArea: userTotalArea }: AnalysisInput): Promise<FloorPlanAnalysis> {
+  const { gray, width, height } = await loadGrayscale(file);
+  const longest = Math.max(width, height);
+  const strokeRadius = Math.max(1, Math.round(longest * WALL_STROKE_RATIO));
+  const doorwayRadius = Math.max(2, Math.round(longest * DOORWAY_RATIO));
+
+  const ink = pad(binarize(gray, width, height, otsuThreshold(gray)), doorwayRadius + 1);
+  const walls = detectWalls(ink, strokeRadius);
+  const bounds = getMaskBounds(walls);
+  if (!bounds) {
+    throw new Error('No walls found in the floor plan image');
+  }
+
+  // Regions not touching the border are enclosed by walls
+  const closed = dilate(walls, doorwayRadius);
+  const { regions } = labelRegions(closed);
+  const planWidth = bounds.maxX - bounds.minX + 1;
+  const planHeight = bounds.maxY - bounds.minY + 1;
+  const minArea = planWidth * planHeight * MIN_ROOM_RATIO;
+
+  // Grow each region back by the doorway radius so it reaches the wall faces
+  const rooms = regions
+    .filter(region =>
+      region.area >= minArea &&
+      region.minX > 0 && region.minY > 0 &&
+      region.maxX < closed.width - 1 && region.maxY < closed.height - 1
+    )
+    .map(region => {
+      const minX = Math.max(bounds.minX, region.minX - doorwayRadius);
+      const minY = Math.max(bounds.minY, region.minY - doorwayRadius);
+      const maxX = Math.min(bounds.maxX, region.maxX + doorwayRadius);
+      const maxY = Math.min(bounds.maxY, region.maxY + doorwayRadius);
+      // Rooms fill their box; ragged leftovers between walls do not
+      const fill = region.area / ((region.maxX - region.minX + 1) * (region.maxY - region.minY + 1));
+      return { minX, minY, w: maxX - minX + 1, h: maxY - minY + 1, area: region.area, fill };
+    })
+    .sort((a, b) => b.area - a.area);
+
+  if (rooms.length === 0) {
+    throw new Error('No enclosed rooms found in the floor plan image');
+  }
+
+  // Scale from the total floor area, then size the plan to its wall extents
+  const totalArea = userTotalArea || DEFAULT_TOTAL_AREA;
+  const roomPixels = rooms.reduce((sum, room) => sum + room.w * room.h, 0);
+  const metersPerPixel = Math.sqrt(totalArea / roomPixels);
+
+  // Without labels, only the largest room gets a guessed type
+  const zones: AnalyzedZone[] = rooms.map((room, index) => {
+    const type = index === 0 ? 'living' : 'room';
+    return {
+      name: index === 0 ? 'Living Room' : `Room ${index + 1}`,
+      zoneId: `local_room_${index + 1}`,
+      x: ((room.minX - bounds.minX) / planWidth) * 100,
+      y: ((room.minY - bounds.minY) / planHeight) * 100,
+      w: (room.w / planWidth) * 100,
+      h: (room.h / planHeight) * 100,
+      type,
+      suggestedFurniture: getFurnitureForType(type),
+      confidence: Math.round(room.fill * 100) / 100,
+    };
+  });
+
+  console.log(`🧱 Local analysis found ${zones.length} rooms in a ${planWidth}×${planHeight}px plan`);
+
+  return {
+    totalArea,
+    dimensions: {
+      width: planWidth * metersPerPixel,
+      height: planHeight * metersPerPixel,
+    },
+    zones,
+    openings: [],
+    scale: 1 / metersPerPixel,
+  };
+}
+
+/**
+ * Offline room detector built on sharp; needs no keys and gives the same
+ * result for the same image
+ */
+export const localProvider: AnalysisProvider = {
+  id: 'local',
+  method: 'local-cv',
+  isConfigured: () => true,
+  analyze: analyzeWithLocalCV,
+};
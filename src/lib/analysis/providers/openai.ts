@@ -0,0 +1,229 @@
+import OpenAI from 'openai';
+import { AnalysisInput, AnalysisProvider, FloorPlanAnalysis, floorPlanAnalysisSchema } from '../types';
+import { getFurnitureForType } from '../room_types';
+
+let client: OpenAI | null = null;
+
+// Created on first use so a missing key only matters when this provider runs
+function getClient(): OpenAI {
+  if (!client) {
+    client = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY!,
+    });
+  }
+  return client;
+}
+
+// Create a two-phase analysis approach
+const createDescriptivePrompt = () => `
+You are looking at a specific floor plan image. Describe EXACTLY what you see in THIS image.
+
+DO NOT give generic descriptions. Look at THIS SPECIFIC floor plan and tell me:
+
+ANALYZE THE FLOOR PLAN BY:
+
+1. **Room Detection** - Even without labels, identify rooms by:
+   - Size: Larger spaces are usually living rooms
+   - Kitchen fixtures: Look for counters, sinks, appliances drawn as rectangles/squares
+   - Bathrooms: Small rooms with toilet/shower symbols
+   - Bedrooms: Medium-sized enclosed rooms with doors
+   - Hallways: Narrow connecting spaces
+
+2. **Visual Clues**:
+   - Thick black lines = walls
+   - Gaps in walls = doorways
+   - Small squares/rectangles within rooms = fixtures (toilets, sinks, etc.)
+   - L-shaped areas often = kitchens with counters
+   - Rectangular boxes in bathrooms = showers/tubs
+
+3. **Spatial Analysis**:
+   - Describe the location of EACH distinct space you see
+   - Use directions: top-left, bottom-right, center, etc.
+   - Note which rooms connect to each other
+   - Identify the main entrance (usually opens to a hallway or living area)
+
+4. **Count and List**:
+   - How many distinct rooms/spaces do you see?
+   - What is the approximate shape of each room?
+   - Which rooms have doors vs open connections?
+
+5. **Dimension Labels**:
+   - Copy every length written on the plan exactly as printed (e.g. "3.45 m", "345", "11' 4\"")
+   - For each one, say which wall or room side it measures and where that wall starts and ends
+
+Even if you can't be 100% certain of room types, describe EVERY space you see and make educated guesses based on size and fixtures.`;
+
+const createExtractionPrompt = (description: string, totalArea?: number) => `
+Based on this floor plan description:
+"${description}"
+
+Convert to JSON with ALL required fields for each room.
+
+${totalArea ? `Total area: ${totalArea} m²` : 'Estimate total area around 85 m²'}
+
+MAPPING RULES:
+- "top-left" → x:10, y:10
+- "top-center" → x:40, y:10
+- "top-right" → x:70, y:10
+- "center" → x:40, y:40
+- "bottom-left" → x:10, y:70
+- "bottom-center" → x:40, y:70
+- "bottom-right" → x:70, y:70
+- "left side" → x:10
+- "right side" → x:70
+
+For every dimension label in the description, add an entry to "dimensionLabels" with the text
+exactly as printed and the ends (x1, y1) and (x2, y2) of the wall it measures, in the same
+percentage coordinates as the rooms. Leave "dimensionLabels" empty if the plan has none.
+
+Return EXACTLY this structure with ALL fields filled:
+{
+  "totalArea": ${totalArea || 85.5},
+  "dimensions": {
+    "width": 12.5,
+    "height": 8.0
+  },
+  "zones": [
+    {
+      "name": "Living Room",
+      "zoneId": "living_room",
+      "x": 10,
+      "y": 10,
+      "w": 40,
+      "h": 40,
+      "type": "living",
+      "suggestedFurniture": ["sofa", "coffee table"]
+    }
+  ],
+  "dimensionLabels": [
+    { "text": "5.00 m", "x1": 10, "y1": 10, "x2": 50, "y2": 10 }
+  ],
+  "scale": 50
+}`;
+
+// GPT-4 Vision analysis: describe the plan first, then convert the description to JSON
+async function analyzeWithGPTVision({ file, totalArea: userTotalArea }: AnalysisInput): Promise<FloorPlanAnalysis> {
+  const openai = getClient();
+
+  // Convert image to base64 for OpenAI
+  const arrayBuffer = await file.arrayBuffer();
+  const base64 = Buffer.from(arrayBuffer).toString('base64');
+  const mimeType = file.type;
+  const dataUrl = `data:${mimeType};base64,${base64}`;
+
+  // Debug: Check if image data is valid
+  console.log('Image details:', {
+    fileSize: file.size,
+    mimeType: mimeType,
+    base64Length: base64.length,
+    dataUrlPreview: dataUrl.substring(0, 50) + '...'
+  });
+
+  // Phase 1: Get detailed description of the floor plan
+  console.log('Phase 1: Getting floor plan description...');
+  const descriptionResponse = await openai.chat.completions.create({
+    model: "gpt-4o",
+    messages: [
+      {
+        role: "system",
+        content: "You have computer vision capabilities. Look at the PROVIDED IMAGE and describe EXACTLY what you see. Do not give generic floor plan descriptions. Analyze THIS SPECIFIC image's walls, rooms, and grid layout."
+      },
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: createDescriptivePrompt(),
+          },
+          {
+            type: "image_url",
+            image_url: {
+              url: dataUrl,
+              detail: "high"
+            },
+          },
+        ],
+      },
+    ],
+    max_tokens: 1000,
+    temperature: 0.2,
+  });
+
+  const description = descriptionResponse.choices[0]?.message?.content;
+  console.log('Floor plan description:', description);
+
+  if (!description) {
+    throw new Error('Failed to get floor plan description');
+  }
+
+  // Phase 2: Convert description to structured data
+  console.log('Phase 2: Converting to structured data...');
+  const response = await openai.chat.completions.create({
+    model: "gpt-4o",
+    messages: [
+      {
+        role: "system",
+        content: "You are a precise data converter. Take floor plan descriptions and convert them into exact JSON coordinates. Place rooms EXACTLY where they are described in the input. Never use generic placements."
+      },
+      {
+        role: "user",
+        content: createExtractionPrompt(description, userTotalArea),
+      },
+    ],
+    max_tokens: 1500,
+    temperature: 0.0,
+  });
+
+  const analysisText = response.choices[0]?.message?.content;
+
+  if (!analysisText) {
+    throw new Error('No analysis received from OpenAI');
+  }
+
+  console.log('OpenAI Response:', analysisText);
+
+  // Parse and validate the JSON response using Zod
+  let cleanText = analysisText.trim();
+
+  // Remove any markdown code blocks
+  cleanText = cleanText.replace(/^```json\s*/, '').replace(/\s*```$/, '');
+  cleanText = cleanText.replace(/^```\s*/, '').replace(/\s*```$/, '');
+
+  // Extract JSON object if embedded in text
+  const jsonMatch = cleanText.match(/\{[\s\S]*\}/);
+  const jsonString = jsonMatch ? jsonMatch[0] : cleanText;
+
+  // Parse JSON first, then validate with Zod
+  const rawAnalysis = JSON.parse(jsonString);
+
+  // Transform and ensure all required fields
+  if (rawAnalysis.zones && Array.isArray(rawAnalysis.zones)) {
+    rawAnalysis.zones = rawAnalysis.zones.map((zone: Record<string, unknown>, index: number) => {
+      const zoneType = (zone.type as string) || 'room';
+      return {
+        ...zone,
+        // Ensure w/h instead of width/height
+        w: zone.w ?? zone.width,
+        h: zone.h ?? zone.height,
+        width: undefined,
+        height: undefined,
+        // Add missing required fields
+        name: zone.name || `${zoneType.charAt(0).toUpperCase() + zoneType.slice(1)} ${index + 1}`,
+        zoneId: zone.zoneId || `${zoneType}_${index + 1}`,
+        suggestedFurniture: zone.suggestedFurniture || getFurnitureForType(zoneType)
+      };
+    });
+  }
+
+  return floorPlanAnalysisSchema.parse(rawAnalysis);
+}
+
+/**
+ * GPT-4o vision: estimates room boxes from a free-text description of the plan
+ */
+export const openaiProvider: AnalysisProvider = {
+  id: 'openai',
+  method: 'gpt-vision',
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  analyze: analyzeWithGPTVision,
+};
@@ -0,0 +1,205 @@
+import { AnalysisInput, AnalysisProvider, AnalyzedZone, DetectedOpening, FloorPlanAnalysis } from '../types';
+import { getFurnitureForType, mapClassToRoomType } from '../room_types';
+
+// Roboflow API configuration
+const ROBOFLOW_API_KEY = process.env.ROBOFLOW_API_KEY || process.env.NEXT_PUBLIC_ROBOFLOW_PUBLISHEABLE_API_KEY;
+const ROBOFLOW_MODEL_ENDPOINT = 'https://serverless.roboflow.com/floor-plan-wnhb5/4';
+// Enabled by default when the API key is available (can be disabled with NEXT_PUBLIC_ROBOFLOW_ENABLED=false)
+const ROBOFLOW_ENABLED = process.env.NEXT_PUBLIC_ROBOFLOW_ENABLED !== 'false' && !!ROBOFLOW_API_KEY;
+
+interface RoboflowPrediction {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  confidence: number;
+  class: string;
+  class_id: number;
+}
+
+interface RoboflowResponse {
+  time: number;
+  image: {
+    width: number;
+    height: number;
+  };
+  predictions: RoboflowPrediction[];
+}
+
+// Map Roboflow classes to opening types; anything else is treated as a room
+function mapClassToOpeningType(roboflowClass: string): DetectedOpening['type'] | null {
+  const name = roboflowClass.toLowerCase();
+  if (name.includes('door')) return 'door';
+  if (name.includes('window')) return 'window';
+  return null;
+}
+
+async function analyzeWithRoboflow({ file, totalArea: userTotalArea }: AnalysisInput): Promise<FloorPlanAnalysis> {
+  if (!ROBOFLOW_API_KEY) {
+    throw new Error('Roboflow API key not configured');
+  }
+
+  // Convert file to base64 for Roboflow API
+  const bytes = await file.arrayBuffer();
+  const base64 = Buffer.from(bytes).toString('base64');
+
+  console.log('Analyzing floor plan with Roboflow...');
+
+  // Call Roboflow API using the correct format
+  const url = new URL(ROBOFLOW_MODEL_ENDPOINT);
+  url.searchParams.append('api_key', ROBOFLOW_API_KEY);
+  url.searchParams.append('confidence', '0.3');
+  url.searchParams.append('overlap', '0.5');
+
+  const roboflowResponse = await fetch(url.toString(), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: base64,
+  });
+
+  if (!roboflowResponse.ok) {
+    const errorText = await roboflowResponse.text();
+    console.error('Roboflow API error:', errorText);
+    throw new Error(`Roboflow API returned ${roboflowResponse.status}: ${errorText}`);
+  }
+
+  const roboflowResult: RoboflowResponse = await roboflowResponse.json();
+  console.log('🤖 Roboflow Raw Response:', JSON.stringify(roboflowResult, null, 2));
+  console.log('Roboflow predictions:', roboflowResult.predictions.length);
+
+  // Doors and windows become openings instead of rooms
+  const openings: DetectedOpening[] = [];
+
+  // Convert Roboflow predictions to our zone format  
+  const filteredPredictions = roboflowResult.predictions.filter(pred => {
+    const openingType = mapClassToOpeningType(pred.class);
+    if (openingType) {
+      console.log(`🚪 Detected ${openingType}: ${pred.width}x${pred.height}, confidence: ${pred.confidence}`);
+      openings.push({
+        type: openingType,
+        x: pred.x - pred.width / 2, // Roboflow gives center coordinates
+        y: pred.y - pred.height / 2,
+        w: pred.width,
+        h: pred.height,
+        confidence: pred.confidence,
+      });
+      return false;
+    }
+    if (pred.confidence < 0.4) {
+      console.log(`🚫 Filtered out low confidence ${pred.class}: ${pred.confidence}`);
+      return false;
+    }
+
+    // Filter out very small detections by area (likely fixtures, not rooms)
+    const area = pred.width * pred.height;
+    const minRoomArea = 1000; // Minimum 1000 sq pixels (e.g., 32x32)
+    if (area < minRoomArea) {
+      console.log(`🚫 Filtered out tiny ${pred.class}: ${pred.width}x${pred.height} (${area} sq px)`);
+      return false;
+    }
+
+    console.log(`✅ Keeping ${pred.class}: ${pred.width}x${pred.height} (${area} sq px), confidence: ${pred.confidence}`);
+    return true;
+  });
+
+  console.log(`📊 Filtered ${roboflowResult.predictions.length} predictions down to ${filteredPredictions.length} rooms`);
+
+  const zones: AnalyzedZone[] = filteredPredictions
+    .map((pred, index) => {
+      const roomType = mapClassToRoomType(pred.class);
+      let roomName = pred.class.charAt(0).toUpperCase() + pred.class.slice(1).replace('_', ' ');
+
+      // Better naming for generic rooms
+      if (pred.class === 'room') {
+        roomName = `Room ${index + 1}`;
+      }
+
+      return {
+        name: roomName,
+        zoneId: `roboflow_${pred.class}_${index}`,
+        x: Math.round(pred.x - pred.width / 2), // Roboflow gives center coordinates
+        y: Math.round(pred.y - pred.height / 2),
+        w: Math.round(pred.width),
+        h: Math.round(pred.height),
+        type: roomType,
+        suggestedFurniture: getFurnitureForType(roomType),
+        confidence: pred.confidence,
+      };
+    });
+
+  console.log('🔄 Roboflow Converted Zones:', JSON.stringify(zones, null, 2));
+
+  // If no rooms detected, provide a basic layout
+  if (zones.length === 0) {
+    console.log('No rooms detected by Roboflow, creating basic layout');
+    const imageWidth = roboflowResult.image.width || 800;
+    const imageHeight = roboflowResult.image.height || 600;
+
+    zones.push({
+      name: 'Main Room',
+      zoneId: 'main_room_1',
+      x: Math.round(imageWidth * 0.1),
+      y: Math.round(imageHeight * 0.1),
+      w: Math.round(imageWidth * 0.8),
+      h: Math.round(imageHeight * 0.8),
+      type: 'room',
+      suggestedFurniture: ['table', 'chairs'],
+    });
+  }
+
+  const totalArea = userTotalArea || 85.5;
+
+  // Convert from image pixels to percentage coordinates (0-100) 
+  // This matches the format that GPT-4 Vision uses
+  const imageWidth = roboflowResult.image.width || 800;
+  const imageHeight = roboflowResult.image.height || 600;
+
+  console.log(`🔄 Converting from image ${imageWidth}×${imageHeight}px to percentage coordinates`);
+
+  // Convert zones from pixel coordinates to percentage coordinates
+  const percentageZones = zones.map(zone => ({
+    ...zone,
+    x: Math.round((zone.x / imageWidth) * 100),
+    y: Math.round((zone.y / imageHeight) * 100),
+    w: Math.round((zone.w / imageWidth) * 100),
+    h: Math.round((zone.h / imageHeight) * 100),
+  }));
+
+  console.log('🎯 Percentage Zones:', JSON.stringify(percentageZones, null, 2));
+
+  // Openings keep fractional percentages - they are much smaller than rooms
+  const percentageOpenings = openings.map(opening => ({
+    ...opening,
+    x: (opening.x / imageWidth) * 100,
+    y: (opening.y / imageHeight) * 100,
+    w: (opening.w / imageWidth) * 100,
+    h: (opening.h / imageHeight) * 100,
+  }));
+
+  const finalAnalysis = {
+    totalArea,
+    dimensions: {
+      width: 12.5, // meters (clamped during post-processing)
+      height: 8.0
+    },
+    zones: percentageZones,
+    openings: percentageOpenings,
+    scale: 50,
+  };
+
+  console.log('✅ Roboflow Final Analysis:', JSON.stringify(finalAnalysis, null, 2));
+
+  return finalAnalysis;
+}
+
+/**
+ * Hosted Roboflow floor plan model: detects rooms, doors and windows as boxes
+ */
+export const roboflowProvider: AnalysisProvider = {
+  id: 'roboflow',
+  method: 'roboflow',
+  isConfigured: () => ROBOFLOW_ENABLED,
+  analyze: analyzeWithRoboflow,
+};
@@ -0,0 +1,174 @@
+/**
+ * Binary image operations for the local room detector. Masks are row-major
+ * Uint8Arrays with 1 for set pixels.
+ */
+
+export interface Mask {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export interface Region {
+  label: number;
+  area: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Otsu's threshold for an 8-bit grayscale image
+ */
+export function otsuThreshold(gray: Uint8Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach(value => histogram[value]++);
+
+  const total = gray.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let i = 0; i < 256; i++) {
+    weightBackground += histogram[i];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += i * histogram[i];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sum - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > best) {
+      best = variance;
+      threshold = i;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * Dark pixels (ink) become set
+ */
+export function binarize(gray: Uint8Array, width: number, height: number, threshold: number): Mask {
+  const data = new Uint8Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = gray[i] <= threshold ? 1 : 0;
+  }
+  return { data, width, height };
+}
+
+// Set a pixel when any pixel within radius along one axis is set (a 1D max filter)
+function dilateAxis(mask: Mask, radius: number, horizontal: boolean): Mask {
+  const { width, height } = mask;
+  const data = new Uint8Array(width * height);
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const index = (line: number, i: number) => horizontal ? line * width + i : i * width + line;
+
+  for (let line = 0; line < lines; line++) {
+    // Running count of set pixels in the window [i - radius, i + radius]
+    let count = 0;
+    for (let i = 0; i < Math.min(radius, length); i++) count += mask.data[index(line, i)];
+    for (let i = 0; i < length; i++) {
+      if (i + radius < length) count += mask.data[index(line, i + radius)];
+      if (i - radius - 1 >= 0) count -= mask.data[index(line, i - radius - 1)];
+      data[index(line, i)] = count > 0 ? 1 : 0;
+    }
+  }
+  return { data, width, height };
+}
+
+/**
+ * Grow set regions by a square of the given radius
+ */
+export function dilate(mask: Mask, radius: number): Mask {
+  if (radius <= 0) return mask;
+  return dilateAxis(dilateAxis(mask, radius, true), radius, false);
+}
+
+export function invert(mask: Mask): Mask {
+  return { ...mask, data: mask.data.map(value => 1 - value) };
+}
+
+/**
+ * Shrink set regions by a square of the given radius
+ */
+export function erode(mask: Mask, radius: number): Mask {
+  return invert(dilate(invert(mask), radius));
+}
+
+/**
+ * Remove strokes thinner than twice the radius, keeping thicker ones at their original width
+ */
+export function open(mask: Mask, radius: number): Mask {
+  return dilate(erode(mask, radius), radius);
+}
+
+/**
+ * Label 4-connected regions of unset pixels; set pixels keep label 0
+ */
+export function labelRegions(mask: Mask): { labels: Int32Array; regions: Region[] } {
+  const { data, width, height } = mask;
+  const labels = new Int32Array(width * height);
+  const regions: Region[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < data.length; start++) {
+    if (data[start] || labels[start]) continue;
+
+    const label = regions.length + 1;
+    const region: Region = { label, area: 0, minX: width, minY: height, maxX: 0, maxY: 0 };
+    labels[start] = label;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const pixel = stack.pop()!;
+      const x = pixel % width;
+      const y = (pixel - x) / width;
+      region.area++;
+      region.minX = Math.min(region.minX, x);
+      region.minY = Math.min(region.minY, y);
+      region.maxX = Math.max(region.maxX, x);
+      region.maxY = Math.max(region.maxY, y);
+
+      const neighbors = [
+        x > 0 ? pixel - 1 : -1,
+        x < width - 1 ? pixel + 1 : -1,
+        y > 0 ? pixel - width : -1,
+        y < height - 1 ? pixel + width : -1,
+      ];
+      neighbors.forEach(next => {
+        if (next >= 0 && !data[next] && !labels[next]) {
+          labels[next] = label;
+          stack.push(next);
+        }
+      });
+    }
+    regions.push(region);
+  }
+
+  return { labels, regions };
+}
+
+/**
+ * Bounding box of the set pixels, or null for an empty mask
+ */
+export function getMaskBounds(mask: Mask): { minX: number; minY: number; maxX: number; maxY: number } | null {
+  const { data, width, height } = mask;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!data[y * width + x]) continue;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  return maxX < 0 ? null : { minX, minY, maxX, maxY };
+}
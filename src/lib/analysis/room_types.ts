@@ -0,0 +1,36 @@
+// Map detector classes to our room types
+export function mapClassToRoomType(detectedClass: string): string {
+  const classMap: { [key: string]: string } = {
+    'bedroom': 'bedroom',
+    'living_room': 'living',
+    'kitchen': 'kitchen',
+    'bathroom': 'bathroom',
+    'dining_room': 'dining',
+    'office': 'office',
+    'closet': 'storage',
+    'hallway': 'hallway',
+    'room': 'room',
+    'space': 'room',
+  };
+
+  return classMap[detectedClass.toLowerCase()] || 'room';
+}
+
+// Furniture suggested for a room type
+export function getFurnitureForType(roomType: string): string[] {
+  const furnitureMap: Record<string, string[]> = {
+    living: ["sofa", "coffee table", "TV stand", "armchair"],
+    bedroom: ["bed", "nightstand", "wardrobe", "dresser"],
+    kitchen: ["dining table", "stove", "refrigerator", "counter"],
+    bathroom: ["toilet", "sink", "shower", "mirror"],
+    hallway: ["console table", "coat rack"],
+    dining: ["dining table", "chairs", "sideboard"],
+    entrance: ["shoe rack", "coat rack", "mirror"],
+    utility: ["washer", "dryer", "shelving"],
+    storage: ["shelving", "storage boxes"],
+    office: ["desk", "office chair", "bookshelf", "filing cabinet"],
+    room: ["table", "chairs", "lighting"],
+  };
+
+  return furnitureMap[roomType] || ["furniture"];
+}
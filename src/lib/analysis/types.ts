@@ -0,0 +1,81 @@
+import { z } from 'zod';
+
+// Room detected on the plan; coordinates are percentages (0-100) of the image
+export const analyzedZoneSchema = z.object({
+  name: z.string(),
+  zoneId: z.string(),
+  x: z.number(),
+  y: z.number(),
+  w: z.number(),
+  h: z.number(),
+  type: z.string(),
+  suggestedFurniture: z.array(z.string()).optional(),
+  // Detector certainty (0-1), shown when reviewing the import; absent when the provider gives none
+  confidence: z.number().min(0).max(1).optional(),
+});
+
+// Door or window bounding box in the same coordinates as the zones
+export const detectedOpeningSchema = z.object({
+  type: z.enum(['door', 'window']),
+  x: z.number(),
+  y: z.number(),
+  w: z.number(),
+  h: z.number(),
+  confidence: z.number(),
+});
+
+// Dimension string written on the plan and the ends of the wall it measures,
+// in the same coordinates as the zones
+export const dimensionLabelSchema = z.object({
+  text: z.string(),
+  x1: z.number(),
+  y1: z.number(),
+  x2: z.number(),
+  y2: z.number(),
+});
+
+// How the plan size was worked out; errors are in cm across the labels used
+export const analysisCalibrationSchema = z.object({
+  method: z.enum(['dimensions', 'area']),
+  labelCount: z.number().int().min(0),
+  rmsError: z.number().optional(),
+  maxError: z.number().optional(),
+});
+
+export const floorPlanAnalysisSchema = z.object({
+  totalArea: z.number(), // in m²
+  dimensions: z.object({
+    width: z.number(), // in meters
+    height: z.number(), // in meters
+  }),
+  zones: z.array(analyzedZoneSchema),
+  openings: z.array(detectedOpeningSchema).optional(),
+  dimensionLabels: z.array(dimensionLabelSchema).optional(),
+  calibration: analysisCalibrationSchema.optional(),
+  scale: z.number(), // pixels per meter for the extracted plan
+});
+
+export type AnalyzedZone = z.infer<typeof analyzedZoneSchema>;
+export type DetectedOpening = z.infer<typeof detectedOpeningSchema>;
+export type DimensionLabel = z.infer<typeof dimensionLabelSchema>;
+export type AnalysisCalibration = z.infer<typeof analysisCalibrationSchema>;
+export type FloorPlanAnalysis = z.infer<typeof floorPlanAnalysisSchema>;
+
+export interface AnalysisInput {
+  file: File;
+  // Total floor area entered by the user, in m²
+  totalArea?: number;
+}
+
+/**
+ * A source of floor plan analyses: a hosted model, an LLM or canned data
+ */
+export interface AnalysisProvider {
+  // Configuration name, as listed in ANALYSIS_PROVIDERS
+  id: string;
+  // Reported to the client as analysisMethod
+  method: string;
+  // Whether the credentials or settings it needs are present
+  isConfigured(): boolean;
+  analyze(input: AnalysisInput): Promise<FloorPlanAnalysis>;
+}
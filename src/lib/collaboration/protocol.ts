@@ -0,0 +1,135 @@
+/**
+ * Wire protocol for real-time collaboration, shared by the editor and the
+ * collaboration server.
+ *
+ * Edits travel as per-entity operations derived from editor commands. The
+ * server assigns them a single order and conflicts resolve per entity:
+ * - patches merge field by field, the later one in server order winning
+ * - a delete wins over concurrent patches, which the server drops
+ * - an upsert (add, or undoing a delete) recreates the entity
+ *
+ * Plan settings travel as patches to a single "settings" entity.
+ */
+
+import { z } from 'zod';
+
+export const entityKindSchema = z.enum([
+  'zone',
+  'furniture',
+  'wall',
+  'opening',
+  'diagram',
+  'level',
+  'measurement',
+  'dimension',
+  'settings',
+]);
+
+export const entityOperationSchema = z.discriminatedUnion('type', [
+  // Create or replace a whole entity
+  z.object({
+    type: z.literal('upsert'),
+    kind: entityKindSchema,
+    id: z.string(),
+    value: z.record(z.unknown()),
+  }),
+  // Change some fields of an existing entity
+  z.object({
+    type: z.literal('patch'),
+    kind: entityKindSchema,
+    id: z.string(),
+    values: z.record(z.unknown()),
+  }),
+  z.object({
+    type: z.literal('delete'),
+    kind: entityKindSchema,
+    id: z.string(),
+  }),
+]);
+
+export const peerSchema = z.object({
+  id: z.string(),
+  name: z.string().max(100),
+  color: z.string().max(20),
+});
+
+export const presenceSchema = z.object({
+  // Pointer position in cm, null when the pointer is off the canvas
+  cursor: z.object({ x: z.number(), y: z.number() }).nullable(),
+  selection: z.array(z.object({
+    id: z.string(),
+    type: z.enum(['zone', 'furniture', 'diagram', 'wall', 'opening']),
+  })).max(100),
+  levelId: z.string().optional(),
+});
+
+// Messages sent by the editor
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('join'),
+    projectId: z.string(),
+    peer: peerSchema.omit({ id: true }),
+  }),
+  z.object({
+    type: z.literal('operations'),
+    batchId: z.string(),
+    operations: z.array(entityOperationSchema).min(1).max(500),
+  }),
+  z.object({
+    type: z.literal('presence'),
+    presence: presenceSchema,
+  }),
+]);
+
+// Messages sent by the server
+export const serverMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('welcome'),
+    peerId: z.string(),
+    peers: z.array(z.object({ peer: peerSchema, presence: presenceSchema })),
+  }),
+  z.object({
+    type: z.literal('peer-joined'),
+    peer: peerSchema,
+  }),
+  z.object({
+    type: z.literal('peer-left'),
+    peerId: z.string(),
+  }),
+  z.object({
+    type: z.literal('presence'),
+    peerId: z.string(),
+    presence: presenceSchema,
+  }),
+  // Operations from another peer, in server order
+  z.object({
+    type: z.literal('operations'),
+    peerId: z.string(),
+    batchId: z.string(),
+    operations: z.array(entityOperationSchema),
+  }),
+  // Confirms one of our batches; rejected lists the indexes of dropped operations
+  z.object({
+    type: z.literal('ack'),
+    batchId: z.string(),
+    rejected: z.array(z.number()),
+  }),
+  z.object({
+    type: z.literal('error'),
+    message: z.string(),
+  }),
+]);
+
+export type EntityKind = z.infer<typeof entityKindSchema>;
+export type EntityOperation = z.infer<typeof entityOperationSchema>;
+export type CollaborationPeer = z.infer<typeof peerSchema>;
+export type Presence = z.infer<typeof presenceSchema>;
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+
+/**
+ * Key identifying an entity across kinds, e.g. "furniture:abc123"
+ */
+export function getEntityKey(operation: Pick<EntityOperation, 'kind' | 'id'>): string {
+  return `${operation.kind}:${operation.id}`;
+}
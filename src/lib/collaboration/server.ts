@@ -0,0 +1,143 @@
+/**
+ * Collaboration relay: keeps one room per project, orders operations,
+ * resolves conflicts per entity and fans out presence.
+ *
+ * It holds no project data and does not authenticate peers, so it is meant
+ * as a local stand-in; run it with `npm run collab:server`.
+ */
+
+import { randomUUID } from 'crypto';
+import { WebSocketServer, WebSocket } from 'ws';
+import {
+  clientMessageSchema,
+  getEntityKey,
+  CollaborationPeer,
+  Presence,
+  ServerMessage,
+} from './protocol';
+
+interface RoomClient {
+  socket: WebSocket;
+  peer: CollaborationPeer;
+  presence: Presence;
+}
+
+interface Room {
+  clients: Map<string, RoomClient>;
+  // Entities deleted in this session; later patches to them are dropped
+  deleted: Set<string>;
+}
+
+interface CollaborationServerOptions {
+  port: number;
+}
+
+const EMPTY_PRESENCE: Presence = { cursor: null, selection: [] };
+
+// A batch holds at most 500 operations, which fits well within this
+const MAX_MESSAGE_BYTES = 1024 * 1024;
+
+function send(socket: WebSocket, message: ServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(room: Room, message: ServerMessage, exceptPeerId?: string) {
+  room.clients.forEach((client, peerId) => {
+    if (peerId !== exceptPeerId) send(client.socket, message);
+  });
+}
+
+export function createCollaborationServer({ port }: CollaborationServerOptions): WebSocketServer {
+  const rooms = new Map<string, Room>();
+  const server = new WebSocketServer({ port, maxPayload: MAX_MESSAGE_BYTES });
+
+  server.on('connection', (socket) => {
+    let room: Room | null = null;
+    let roomId: string | null = null;
+    const peerId = randomUUID();
+
+    socket.on('message', (raw) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw.toString());
+      } catch {
+        send(socket, { type: 'error', message: 'Invalid JSON' });
+        return;
+      }
+
+      const result = clientMessageSchema.safeParse(parsed);
+      if (!result.success) {
+        send(socket, { type: 'error', message: 'Invalid message' });
+        return;
+      }
+      const message = result.data;
+
+      if (message.type === 'join') {
+        if (room) {
+          send(socket, { type: 'error', message: 'Already joined' });
+          return;
+        }
+        roomId = message.projectId;
+        room = rooms.get(roomId) ?? { clients: new Map(), deleted: new Set() };
+        rooms.set(roomId, room);
+
+        const peer: CollaborationPeer = { id: peerId, ...message.peer };
+        send(socket, {
+          type: 'welcome',
+          peerId,
+          peers: Array.from(room.clients.values()).map(({ peer, presence }) => ({ peer, presence })),
+        });
+        room.clients.set(peerId, { socket, peer, presence: EMPTY_PRESENCE });
+        broadcast(room, { type: 'peer-joined', peer }, peerId);
+        return;
+      }
+
+      if (!room) {
+        send(socket, { type: 'error', message: 'Join a project first' });
+        return;
+      }
+
+      if (message.type === 'presence') {
+        const client = room.clients.get(peerId);
+        if (client) client.presence = message.presence;
+        broadcast(room, { type: 'presence', peerId, presence: message.presence }, peerId);
+        return;
+      }
+
+      // Operations: this handler runs to completion before the next message,
+      // so every peer sees batches in the same order
+      const { deleted } = room;
+      const rejected: number[] = [];
+      const accepted = message.operations.filter((operation, index) => {
+        const key = getEntityKey(operation);
+        if (operation.type === 'delete') {
+          deleted.add(key);
+        } else if (operation.type === 'upsert') {
+          deleted.delete(key);
+        } else if (deleted.has(key)) {
+          rejected.push(index);
+          return false;
+        }
+        return true;
+      });
+
+      if (accepted.length > 0) {
+        broadcast(room, { type: 'operations', peerId, batchId: message.batchId, operations: accepted }, peerId);
+      }
+      send(socket, { type: 'ack', batchId: message.batchId, rejected });
+    });
+
+    socket.on('close', () => {
+      if (!room || !roomId) return;
+      room.clients.delete(peerId);
+      broadcast(room, { type: 'peer-left', peerId });
+      if (room.clients.size === 0) {
+        rooms.delete(roomId);
+      }
+    });
+  });
+
+  return server;
+}
@@ -0,0 +1,76 @@
+import { eq } from 'drizzle-orm';
+import { db } from './index';
+import { importedFloorPlans } from './schema';
+
+// Helper function to generate unique short ID with collision detection
+export async function generateUniqueShortId(): Promise<string> {
+    const chars = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    const bytes = new Uint8Array(8);
+    let attempts = 0;
+    const maxAttempts = 10; // Prevent infinite loops
+
+    while (attempts < maxAttempts) {
+        // Use crypto.getRandomValues for cryptographically secure random bytes
+        if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+            crypto.getRandomValues(bytes);
+        } else {
+            // Fallback for environments without crypto.getRandomValues
+            for (let i = 0; i < 8; i++) {
+                bytes[i] = Math.floor(Math.random() * 256);
+            }
+        }
+
+        let result = '';
+        for (let i = 0; i < 8; i++) {
+            result += chars.charAt(bytes[i] % chars.length);
+        }
+
+        // Check if this shortId already exists in the database
+        const existing = await db
+            .select()
+            .from(importedFloorPlans)
+            .where(eq(importedFloorPlans.shortId, result))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return result; // Found a unique ID
+        }
+
+        attempts++;
+    }
+
+    // If we've exhausted attempts, throw an error
+    throw new Error('Failed to generate unique shortId after maximum attempts');
+}
+
+// Helper function to generate SEO-friendly slug
+function generateSlug(baseName: string): string {
+    return baseName
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/(^-|-$)/g, '')
+        .substring(0, 50);
+}
+
+// Helper function to ensure unique slug
+export async function generateUniqueSlug(baseName: string): Promise<string> {
+    let slug = generateSlug(baseName);
+    let counter = 1;
+
+    while (true) {
+        // Check if slug exists
+        const existing = await db
+            .select()
+            .from(importedFloorPlans)
+            .where(eq(importedFloorPlans.slug, slug))
+            .limit(1);
+
+        if (existing.length === 0) {
+            return slug;
+        }
+
+        // If slug exists, add counter
+        slug = generateSlug(`${baseName}-${counter}`);
+        counter++;
+    }
+}
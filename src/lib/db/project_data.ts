@@ -0,0 +1,632 @@
+import { z } from 'zod';
+import { asc, eq, max } from 'drizzle-orm';
+import { db } from './index';
+import {
+    projects,
+    zones,
+    furnitureItems,
+    projectSettings,
+    diagramShapes,
+    walls,
+    openings,
+    levels,
+    measurements,
+    dimensions,
+    projectVersions,
+    insertZoneSchema,
+    insertFurnitureItemSchema,
+    insertProjectSettingsSchema,
+    insertDiagramShapeSchema,
+    insertWallSchema,
+    insertOpeningSchema,
+    insertLevelSchema,
+    insertMeasurementSchema,
+    insertDimensionSchema,
+    insertProjectVersionSchema
+} from './schema';
+import {
+    SaveProjectData,
+    FloorPlanZone,
+    FurnitureItemType,
+    FloorPlanSettings,
+    WallSegment,
+    Opening,
+    Level,
+    Measurement,
+    Dimension,
+    DimensionAnchor,
+    dimensionAnchorSchema,
+    floorPlanSettingsSchema,
+    zonePointSchema
+} from '@/types';
+import { diagram_shape_schema, DiagramShape } from '@/components/floor-plan/canvas/tools/diagram_schemas';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface ProjectContents {
+    zones: FloorPlanZone[];
+    furniture: FurnitureItemType[];
+    settings: FloorPlanSettings | null;
+    diagrams: DiagramShape[];
+    walls: WallSegment[];
+    openings: Opening[];
+    levels: Level[];
+    measurements: Measurement[];
+    dimensions: Dimension[];
+}
+
+/**
+ * Load a project's zones, furniture, settings, diagrams, walls, openings, levels, pinned
+ * measurements and dimension lines in the editor format. Used by the project route and by public share links.
+ */
+export async function readProjectData(projectId: string): Promise<ProjectContents> {
+    const zoneRows = await db
+        .select()
+        .from(zones)
+        .where(eq(zones.projectId, projectId));
+
+    const furnitureRows = await db
+        .select()
+        .from(furnitureItems)
+        .where(eq(furnitureItems.projectId, projectId));
+
+    const [settingsRow] = await db
+        .select()
+        .from(projectSettings)
+        .where(eq(projectSettings.projectId, projectId))
+        .limit(1);
+
+    const diagramRows = await db
+        .select()
+        .from(diagramShapes)
+        .where(eq(diagramShapes.projectId, projectId))
+        .orderBy(asc(diagramShapes.sortOrder));
+
+    const wallRows = await db
+        .select()
+        .from(walls)
+        .where(eq(walls.projectId, projectId));
+
+    const openingRows = await db
+        .select()
+        .from(openings)
+        .where(eq(openings.projectId, projectId));
+
+    const levelRows = await db
+        .select()
+        .from(levels)
+        .where(eq(levels.projectId, projectId))
+        .orderBy(asc(levels.sortOrder));
+
+    const measurementRows = await db
+        .select()
+        .from(measurements)
+        .where(eq(measurements.projectId, projectId));
+
+    const dimensionRows = await db
+        .select()
+        .from(dimensions)
+        .where(eq(dimensions.projectId, projectId));
+
+    // Convert database rows to the editor format
+    const projectZones: FloorPlanZone[] = zoneRows.map(zone => ({
+        id: zone.id,
+        zoneId: zone.zoneId,
+        name: zone.name,
+        x: Number(zone.x),
+        y: Number(zone.y),
+        w: Number(zone.width),
+        h: Number(zone.height),
+        points: zonePointSchema.array().min(3).safeParse(zone.points).data,
+        color: zone.color ?? undefined,
+        levelId: zone.levelId ?? undefined,
+    }));
+
+    const projectFurniture: FurnitureItemType[] = furnitureRows.map(item => ({
+        id: item.id,
+        name: item.name,
+        x: Number(item.x),
+        y: Number(item.y),
+        w: Number(item.width),
+        h: Number(item.height),
+        r: Number(item.rotation ?? 0),
+        color: item.color,
+        catalogId: item.catalogId ?? undefined,
+        zoneId: item.zoneId ?? undefined,
+        levelId: item.levelId ?? undefined,
+    }));
+
+    const projectWalls: WallSegment[] = wallRows.map(wall => ({
+        id: wall.wallId,
+        x1: Number(wall.x1),
+        y1: Number(wall.y1),
+        x2: Number(wall.x2),
+        y2: Number(wall.y2),
+        thickness: Number(wall.thickness),
+        height: Number(wall.height),
+        color: wall.color ?? undefined,
+        levelId: wall.levelId ?? undefined,
+    }));
+
+    const projectOpenings: Opening[] = openingRows.map(opening => ({
+        id: opening.openingId,
+        type: opening.type === 'window' ? 'window' : 'door',
+        hostType: opening.hostType === 'zone' ? 'zone' : 'wall',
+        hostId: opening.hostId,
+        edgeIndex: opening.edgeIndex ?? undefined,
+        offset: Number(opening.offset),
+        width: Number(opening.width),
+        hinge: opening.hinge === 'end' ? 'end' : 'start',
+        swing: opening.swing === 'right' ? 'right' : 'left',
+        height: opening.height !== null ? Number(opening.height) : undefined,
+        sillHeight: opening.sillHeight !== null ? Number(opening.sillHeight) : undefined,
+    }));
+
+    const projectLevels: Level[] = levelRows.map(level => ({
+        id: level.levelId,
+        name: level.name,
+        elevation: Number(level.elevation),
+    }));
+
+    // Validate stored measurement points, skipping any that no longer match the schema
+    const projectMeasurements: Measurement[] = [];
+    for (const row of measurementRows) {
+        const pointsValidationResult = zonePointSchema.array().min(2).safeParse(row.points);
+        if (pointsValidationResult.success) {
+            projectMeasurements.push({
+                id: row.measurementId,
+                kind: row.kind === 'area' ? 'area' : row.kind === 'path' ? 'path' : 'distance',
+                points: pointsValidationResult.data,
+                levelId: row.levelId ?? undefined,
+            });
+        } else {
+            console.error('Measurement validation failed:', row.measurementId, pointsValidationResult.error.issues);
+        }
+    }
+
+    // Validate stored dimension anchors, skipping any that no longer match the schema
+    const projectDimensions: Dimension[] = [];
+    for (const row of dimensionRows) {
+        const anchorsValidationResult = z.object({
+            from: dimensionAnchorSchema,
+            to: dimensionAnchorSchema.optional(),
+        }).safeParse(row.anchors);
+        if (anchorsValidationResult.success) {
+            projectDimensions.push({
+                id: row.dimensionId,
+                kind: row.kind === 'item-item' ? 'item-item' : row.kind === 'furniture-wall' ? 'furniture-wall' : 'zone-edge',
+                from: anchorsValidationResult.data.from,
+                to: anchorsValidationResult.data.to,
+                offset: Number(row.offset),
+                style: row.style === 'arrow' ? 'arrow' : 'tick',
+                levelId: row.levelId ?? undefined,
+            });
+        } else {
+            console.error('Dimension validation failed:', row.dimensionId, anchorsValidationResult.error.issues);
+        }
+    }
+
+    // Validate settings against the editor schema so every field round-trips
+    let settings: FloorPlanSettings | null = null;
+    if (settingsRow) {
+        const settingsValidationResult = floorPlanSettingsSchema.safeParse({
+            apartmentWidth: Number(settingsRow.apartmentWidth),
+            apartmentHeight: Number(settingsRow.apartmentHeight),
+            scale: Number(settingsRow.scale),
+            snap: settingsRow.snap ?? 5,
+            showGrid: settingsRow.showGrid ?? true,
+            showDimensions: settingsRow.showDimensions ?? true,
+            canvasMode: settingsRow.canvasMode ?? 'adaptive',
+            maxCanvasWidth: settingsRow.maxCanvasWidth ?? undefined,
+            maxCanvasHeight: settingsRow.maxCanvasHeight ?? undefined,
+            unitSystem: settingsRow.unitSystem ?? 'cm',
+            showZones: settingsRow.showZones ?? true,
+            showFurniture: settingsRow.showFurniture ?? true,
+            showDiagrams: settingsRow.showDiagrams ?? true,
+            background: settingsRow.background ?? undefined,
+        });
+        if (settingsValidationResult.success) {
+            settings = settingsValidationResult.data;
+        } else {
+            console.error('Project settings validation failed:', settingsValidationResult.error.issues);
+        }
+    }
+
+    // Validate stored diagram shapes, skipping any that no longer match the schema
+    const diagrams: DiagramShape[] = [];
+    for (const row of diagramRows) {
+        const shapeValidationResult = diagram_shape_schema.safeParse(row.data);
+        if (shapeValidationResult.success) {
+            diagrams.push({ ...shapeValidationResult.data, levelId: row.levelId ?? undefined });
+        } else {
+            console.error('Diagram shape validation failed:', row.shapeId, shapeValidationResult.error.issues);
+        }
+    }
+
+    return {
+        zones: projectZones,
+        furniture: projectFurniture,
+        settings,
+        diagrams,
+        walls: projectWalls,
+        openings: projectOpenings,
+        levels: projectLevels,
+        measurements: projectMeasurements,
+        dimensions: projectDimensions,
+    };
+}
+
+// Map client entity IDs to row IDs: kept when the project already owns the row, fresh otherwise
+function assignRowIds(entities: Array<{ id: string }>, owned: Array<{ id: string }>): Map<string, string> {
+    const ownedIds = new Set(owned.map(row => row.id));
+    return new Map(entities.map(entity => [
+        entity.id,
+        ownedIds.has(entity.id) ? entity.id : crypto.randomUUID(),
+    ]));
+}
+
+/**
+ * Replace a project's zones, furniture, diagrams, walls, openings, levels, measurements,
+ * dimensions and settings with the given data. Used by save and by restoring a version; run inside a transaction.
+ */
+export async function writeProjectData(tx: Transaction, projectId: string, data: SaveProjectData) {
+    // Zones keep their row ID across saves so openings hosted on a zone edge stay attached.
+    // Only IDs this project already owns are kept; new zones and IDs from any other project
+    // or file get a fresh UUID, so a save can never collide with another project's rows
+    const ownedZoneIds = await tx
+        .select({ id: zones.id })
+        .from(zones)
+        .where(eq(zones.projectId, projectId));
+    const zoneRowIds = assignRowIds(data.zones, ownedZoneIds);
+
+    // Furniture rows are keyed the same way so dimension lines stay attached to their items
+    const ownedFurnitureIds = await tx
+        .select({ id: furnitureItems.id })
+        .from(furnitureItems)
+        .where(eq(furnitureItems.projectId, projectId));
+    const furnitureRowIds = assignRowIds(data.furniture, ownedFurnitureIds);
+
+    // Point a dimension anchor at the saved zone or furniture row; null when the entity is gone
+    const wallIds = new Set(data.walls.map(wall => wall.id));
+    const resolveAnchor = (anchor: DimensionAnchor): DimensionAnchor | null => {
+        if (anchor.type === 'wall') return wallIds.has(anchor.id) ? anchor : null;
+        const rowId = (anchor.type === 'zone' ? zoneRowIds : furnitureRowIds).get(anchor.id);
+        return rowId ? { ...anchor, id: rowId } : null;
+    };
+
+    // Delete existing levels for this project
+    await tx
+        .delete(levels)
+        .where(eq(levels.projectId, projectId));
+
+    // Insert new levels, keeping their bottom-to-top order
+    if (data.levels.length > 0) {
+        const levelsToInsert = data.levels.map((level, index) => ({
+            projectId,
+            levelId: level.id,
+            name: level.name,
+            elevation: String(level.elevation),
+            sortOrder: index,
+        }));
+
+        // Validate level data using the database schema
+        const levelsValidationResult = insertLevelSchema.omit({ id: true, createdAt: true, updatedAt: true }).array().safeParse(levelsToInsert);
+        if (!levelsValidationResult.success) {
+            throw new Error(`Invalid level data: ${levelsValidationResult.error.issues.map(issue => issue.message).join(', ')}`);
+        }
+
+        await tx
+            .insert(levels)
+            .values(levelsValidationResult.data);
+    }
+
+    // Delete existing zones for this project
+    await tx
+        .delete(zones)
+        .where(eq(zones.projectId, projectId));
+
+    // Insert new zones
+    if (data.zones.length > 0) {
+        const zonesToInsert = data.zones.map(zone => ({
+            id: zoneRowIds.get(zone.id)!,
+            projectId,
+            zoneId: zone.zoneId,
+            name: zone.name,
+            x: String(zone.x),
+            y: String(zone.y),
+            width: String(zone.w),
+            height: String(zone.h),
+            points: zone.points ?? null,
+            color: zone.color || null,
+            levelId: zone.levelId ?? null,
+        }));
+
+        // Validate zones data using the database schema
+        const zonesValidationResult = insertZoneSchema.omit({ createdAt: true, updatedAt: true }).array().safeParse(zonesToInsert);
+        if (!zonesValidationResult.success) {
+            throw new Error(`Invalid zones data: ${zonesValidationResult.error.issues.map(issue => issue.message).join(', ')}`);
+        }
+
+        await tx
+            .insert(zones)
+            .values(zonesValidationResult.data);
+    }
+
+    // Delete existing furniture items for this project
+    await tx
+        .delete(furnitureItems)
+        .where(eq(furnitureItems.projectId, projectId));
+
+    // Insert new furniture items
+    if (data.furniture.length > 0) {
+        const furnitureToInsert = data.furniture.map(item => ({
+            id: furnitureRowIds.get(item.id)!,
+            projectId,
+            catalogId: item.catalogId || null,
+            name: item.name,
+            x: String(item.x),
+            y: String(item.y),
+            width: String(item.w),
+            height: String(item.h),
+            rotation: String(item.r),
+            color: item.color,
+            zoneId: item.zoneId ? zoneRowIds.get(item.zoneId) ?? item.zoneId : null,
+            levelId: item.levelId ?? null,
+        }));
+
+        // Validate furniture data using the database schema
+        const furnitureValidationResult = insertFurnitureItemSchema.omit({ createdAt: true, updatedAt: true }).array().safeParse(furnitureToInsert);
+        if (!furnitureValidationResult.success) {
+            throw new Error(`Invalid furniture data: ${furnitureValidationResult.error.issues.map(issue => issue.message).join(', ')}`);
+        }
+
+        await tx
+            .insert(furnitureItems)
+            .values(furnitureValidationResult.data);
+    }
+
+    // Delete existing diagram shapes for this project
+    await tx
+        .delete(diagramShapes)
+        .where(eq(diagramShapes.projectId, projectId));
+
+    // Insert new diagram shapes, keeping their draw order
+    if (data.diagrams.length > 0) {
+        const diagramsToInsert = data.diagrams.map((shape, index) => ({
+            projectId,
+            shapeId: shape.id,
+            type: shape.type,
+            data: shape,
+            sortOrder: index,
+            levelId: shape.levelId ?? null,
+        }));
+
+        // Validate diagram data using the database schema
+        const diagramsValidationResult = insertDiagramShapeSchema.omit({ id: true, createdAt: true, updatedAt: true }).array().safeParse(diagramsToInsert);
+        if (!diagramsValidationResult.success) {
+            throw new Error(`Invalid diagram data: ${diagramsValidationResult.error.issues.map(issue => issue.message).join(', ')}`);
+        }
+
+        await tx
+            .insert(diagramShapes)
+            .values(diagramsValidationResult.data);
+    }
+
+    // Delete existing walls for this project
+    await tx
+        .delete(walls)
+        .where(eq(walls.projectId, projectId));
+
+    // Insert new walls
+    if (data.walls.length > 0) {
+        const wallsToInsert = data.walls.map(wall => ({
+            projectId,
+            wallId: wall.id,
+            x1: String(wall.x1),
+            y1: String(wall.y1),
+            x2: String(wall.x2),
+            y2: String(wall.y2),
+            thickness: String(wall.thickness),
+            height: String(wall.height),
+            color: wall.color || null,
+            levelId: wall.levelId ?? null,
+        }));
+
+        // Validate wall data using the database schema
+        const wallsValidationResult = insertWallSchema.omit({ id: true, createdAt: true, updatedAt: true }).array().safeParse(wallsToInsert);
+        if (!wallsValidationResult.success) {
+            throw new Error(`Invalid wall data: ${wallsValidationResult.error.issues.map(issue => issue.message).join(', ')}`);
+        }
+
+        await tx
+            .insert(walls)
+            .values(wallsValidationResult.data);
+    }
+
+    // Delete existing openings for this project
+    await tx
+        .delete(openings)
+        .where(eq(openings.projectId, projectId));
+
+    // Insert new openings, pointing zone-hosted ones at the saved zone rows
+    if (data.openings.length > 0) {
+        const openingsToInsert = data.openings.map(opening => ({
+            projectId,
+            openingId: opening.id,
+            type: opening.type,
+            hostType: opening.hostType,
+            hostId: opening.hostType === 'zone' ? zoneRowIds.get(opening.hostId) ?? opening.hostId : opening.hostId,
+            edgeIndex: opening.edgeIndex ?? null,
+            offset: String(opening.offset),
+            width: String(opening.width),
+            hinge: opening.hinge,
+            swing: opening.swing,
+            height: opening.height !== undefined ? String(opening.height) : null,
+            sillHeight: opening.sillHeight !== undefined ? String(opening.sillHeight) : null,
+        }));
+
+        // Validate opening data using the database schema
+        const openingsValidationResult = insertOpeningSchema.omit({ id: true, createdAt: true, updatedAt: true }).array().safeParse(openingsToInsert);
+        if (!openingsValidationResult.success) {
+            throw new Error(`Invalid opening data: ${openingsValidationResult.error.issues.map(issue => issue.message).join(', ')}`);
+        }
+
+        await tx
+            .insert(openings)
+            .values(openingsValidationResult.data);
+    }
+
+    // Delete existing measurements for this project
+    await tx
+        .delete(measurements)
+        .where(eq(measurements.projectId, projectId));
+
+    // Insert new measurements
+    if (data.measurements.length > 0) {
+        const measurementsToInsert = data.measurements.map(measurement => ({
+            projectId,
+            measurementId: measurement.id,
+            kind: measurement.kind,
+            points: measurement.points,
+            levelId: measurement.levelId ?? null,
+        }));
+
+        // Validate measurement data using the database schema
+        const measurementsValidationResult = insertMeasurementSchema.omit({ id: true, createdAt: true, updatedAt: true }).array().safeParse(measurementsToInsert);
+        if (!measurementsValidationResult.success) {
+            throw new Error(`Invalid measurement data: ${measurementsValidationResult.error.issues.map(issue => issue.message).join(', ')}`);
+        }
+
+        await tx
+            .insert(measurements)
+            .values(measurementsValidationResult.data);
+    }
+
+    // Delete existing dimensions for this project
+    await tx
+        .delete(dimensions)
+        .where(eq(dimensions.projectId, projectId));
+
+    // Insert new dimensions attached to the saved rows, dropping any whose entities were deleted
+    const dimensionsToInsert = data.dimensions.flatMap(dimension => {
+        const from = resolveAnchor(dimension.from);
+        const to = dimension.to ? resolveAnchor(dimension.to) : undefined;
+        if (!from || to === null) return [];
+        return [{
+            projectId,
+            dimensionId: dimension.id,
+            kind: dimension.kind,
+            anchors: { from, to },
+            offset: String(dimension.offset),
+            style: dimension.style,
+            levelId: dimension.levelId ?? null,
+        }];
+    });
+    if (dimensionsToInsert.length > 0) {
+        // Validate dimension data using the database schema
+        const dimensionsValidationResult = insertDimensionSchema.omit({ id: true, createdAt: true, updatedAt: true }).array().safeParse(dimensionsToInsert);
+        if (!dimensionsValidationResult.success) {
+            throw new Error(`Invalid dimension data: ${dimensionsValidationResult.error.issues.map(issue => issue.message).join(', ')}`);
+        }
+
+        await tx
+            .insert(dimensions)
+            .values(dimensionsValidationResult.data);
+    }
+
+    // Update or create project settings
+    const [existingSettings] = await tx
+        .select()
+        .from(projectSettings)
+        .where(eq(projectSettings.projectId, projectId))
+        .limit(1);
+
+    const settingsToSave = {
+        projectId,
+        apartmentWidth: String(data.settings.apartmentWidth),
+        apartmentHeight: String(data.settings.apartmentHeight),
+        scale: String(data.settings.scale),
+        snap: data.settings.snap,
+        showGrid: data.settings.showGrid,
+        showDimensions: data.settings.showDimensions,
+        canvasMode: data.settings.canvasMode,
+        maxCanvasWidth: data.settings.maxCanvasWidth ?? null,
+        maxCanvasHeight: data.settings.maxCanvasHeight ?? null,
+        unitSystem: data.settings.unitSystem,
+        showZones: data.settings.showZones,
+        showFurniture: data.settings.showFurniture,
+        showDiagrams: data.settings.showDiagrams,
+        background: data.settings.background ?? null,
+    };
+
+    // Validate settings data
+    const settingsValidationResult = insertProjectSettingsSchema.omit({ id: true, updatedAt: true }).safeParse(settingsToSave);
+    if (!settingsValidationResult.success) {
+        throw new Error(`Invalid settings data: ${settingsValidationResult.error.issues.map(issue => issue.message).join(', ')}`);
+    }
+
+    if (existingSettings) {
+        await tx
+            .update(projectSettings)
+            .set({
+                ...settingsValidationResult.data,
+                updatedAt: new Date(),
+            })
+            .where(eq(projectSettings.id, existingSettings.id));
+    } else {
+        await tx
+            .insert(projectSettings)
+            .values(settingsValidationResult.data);
+    }
+
+    // Update project updatedAt timestamp
+    await tx
+        .update(projects)
+        .set({ updatedAt: new Date() })
+        .where(eq(projects.id, projectId));
+}
+
+/**
+ * Append an immutable snapshot to a project's version history
+ * @returns The new version number
+ */
+export async function recordProjectVersion(
+    tx: Transaction,
+    projectId: string,
+    data: SaveProjectData,
+    options: { userId?: string; name?: string; isCheckpoint?: boolean; restoredFrom?: number } = {}
+): Promise<number> {
+    // Lock the project row so concurrent saves number their versions one after the other
+    await tx
+        .select({ id: projects.id })
+        .from(projects)
+        .where(eq(projects.id, projectId))
+        .for('update');
+
+    const [latest] = await tx
+        .select({ version: max(projectVersions.version) })
+        .from(projectVersions)
+        .where(eq(projectVersions.projectId, projectId));
+
+    const version = (latest?.version ?? 0) + 1;
+
+    // Validate version data using the database schema
+    const versionValidationResult = insertProjectVersionSchema.omit({ id: true, createdAt: true }).safeParse({
+        projectId,
+        version,
+        name: options.name ?? null,
+        isCheckpoint: options.isCheckpoint ?? false,
+        restoredFrom: options.restoredFrom ?? null,
+        data,
+        createdBy: options.userId ?? null,
+    });
+    if (!versionValidationResult.success) {
+        throw new Error(`Invalid version data: ${versionValidationResult.error.issues.map(issue => issue.message).join(', ')}`);
+    }
+
+    await tx
+        .insert(projectVersions)
+        .values(versionValidationResult.data);
+
+    return version;
+}
@@ -0,0 +1,42 @@
+import { randomBytes } from 'crypto';
+import { ProjectShareSummary } from '@/types';
+import { ProjectShareRecord } from './schema';
+
+// 24 random bytes encode to 32 URL-safe characters
+const SHARE_TOKEN_BYTES = 24;
+
+export const SHARE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{32}$/;
+
+export type ShareStatus = 'active' | 'expired' | 'revoked' | 'private';
+
+/**
+ * Mint an unguessable token for a public share link
+ */
+export function generateShareToken(): string {
+    return randomBytes(SHARE_TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * Whether a share link currently grants access. Links only work while the
+ * project is public, so making a project private disables all of them at once.
+ */
+export function getShareStatus(
+    share: Pick<ProjectShareRecord, 'expiresAt' | 'revokedAt'>,
+    isPublic: boolean | null,
+    now: Date = new Date()
+): ShareStatus {
+    if (share.revokedAt) return 'revoked';
+    if (share.expiresAt && share.expiresAt <= now) return 'expired';
+    if (!isPublic) return 'private';
+    return 'active';
+}
+
+export function toShareSummary(share: ProjectShareRecord): ProjectShareSummary {
+    return {
+        id: share.id,
+        token: share.token,
+        expiresAt: share.expiresAt?.toISOString() ?? null,
+        revokedAt: share.revokedAt?.toISOString() ?? null,
+        createdAt: share.createdAt.toISOString(),
+    };
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, integer, jsonb, timestamp, boolean, uuid, decimal, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, integer, jsonb, timestamp, boolean, uuid, decimal, serial, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -18,6 +18,20 @@ export const projects = pgTable("projects", {
   isPublic: boolean("is_public").default(false),
 });
 
+// Levels (floors of a multi-storey project, ordered bottom to top)
+export const levels = pgTable("levels", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  projectId: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  levelId: text("level_id").notNull(), // client-side level ID
+  name: text("name").notNull(), // e.g., "Ground Floor", "First Floor"
+  elevation: decimal("elevation", { precision: 10, scale: 2 }).notNull().default("0"), // cm above the ground floor
+  sortOrder: integer("sort_order").notNull().default(0), // 0 is the lowest level
+  createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+});
+
 // Zones table (room/area definitions)
 export const zones = pgTable("zones", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -30,7 +44,9 @@ export const zones = pgTable("zones", {
   y: decimal("y", { precision: 10, scale: 2 }).notNull(),
   width: decimal("width", { precision: 10, scale: 2 }).notNull(),
   height: decimal("height", { precision: 10, scale: 2 }).notNull(),
+  points: jsonb("points"), // Optional polygon outline [{x, y}] in cm; x/y/width/height hold its bounding box
   color: text("color"),
+  levelId: text("level_id"), // client-side level ID, null for the lowest level
   createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
 });
@@ -64,6 +80,7 @@ export const furnitureItems = pgTable("furniture_items", {
   rotation: decimal("rotation", { precision: 5, scale: 2 }).default("0"),
   color: text("color").notNull(),
   zoneId: text("zone_id"), // which zone/room this item is in
+  levelId: text("level_id"), // client-side level ID, null for the lowest level
   createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
 });
@@ -80,9 +97,133 @@ export const projectSettings = pgTable("project_settings", {
   snap: integer("snap").default(5),
   showGrid: boolean("show_grid").default(true),
   showDimensions: boolean("show_dimensions").default(true),
+  canvasMode: text("canvas_mode").default("adaptive"), // "fixed", "fit-to-screen", "centered", "adaptive"
+  maxCanvasWidth: integer("max_canvas_width"),
+  maxCanvasHeight: integer("max_canvas_height"),
+  unitSystem: text("unit_system").default("cm"), // "cm" or "m"
+  showZones: boolean("show_zones").default(true),
+  showFurniture: boolean("show_furniture").default(true),
+  showDiagrams: boolean("show_diagrams").default(true),
+  background: jsonb("background"), // {url, opacity, scale, rotation, offsetX, offsetY, locked, visible}
+  updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+});
+
+// Diagram shapes (sketches and annotations drawn in diagram mode)
+export const diagramShapes = pgTable("diagram_shapes", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  projectId: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  shapeId: text("shape_id").notNull(), // client-side shape ID
+  type: text("type").notNull(), // "rectangle", "circle", "line", "freehand", "text"
+  data: jsonb("data").notNull(), // Full shape object, validated against diagram_shape_schema
+  sortOrder: integer("sort_order").notNull().default(0), // draw order on the canvas
+  levelId: text("level_id"), // client-side level ID, null for the lowest level
+  createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+});
+
+// Walls (centerline segments with thickness and height, in cm)
+export const walls = pgTable("walls", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  projectId: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  wallId: text("wall_id").notNull(), // client-side wall ID
+  x1: decimal("x1", { precision: 10, scale: 2 }).notNull(),
+  y1: decimal("y1", { precision: 10, scale: 2 }).notNull(),
+  x2: decimal("x2", { precision: 10, scale: 2 }).notNull(),
+  y2: decimal("y2", { precision: 10, scale: 2 }).notNull(),
+  thickness: decimal("thickness", { precision: 10, scale: 2 }).notNull().default("15"),
+  height: decimal("height", { precision: 10, scale: 2 }).notNull().default("250"),
+  color: text("color"),
+  levelId: text("level_id"), // client-side level ID, null for the lowest level
+  createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+});
+
+// Doors and windows hosted on a wall or zone edge
+export const openings = pgTable("openings", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  projectId: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  openingId: text("opening_id").notNull(), // client-side opening ID
+  type: text("type").notNull(), // "door" or "window"
+  hostType: text("host_type").notNull(), // "wall" or "zone"
+  hostId: text("host_id").notNull(), // wall ID or zone ID
+  edgeIndex: integer("edge_index"), // zone outline edge, null for walls
+  offset: decimal("offset", { precision: 10, scale: 2 }).notNull(), // cm from edge start to opening center
+  width: decimal("width", { precision: 10, scale: 2 }).notNull(),
+  hinge: text("hinge").notNull().default("start"), // "start" or "end"
+  swing: text("swing").notNull().default("left"), // "left" or "right" of the edge direction
+  height: decimal("height", { precision: 10, scale: 2 }),
+  sillHeight: decimal("sill_height", { precision: 10, scale: 2 }),
+  createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
 });
 
+// Measurements pinned on the canvas (distance, path or area through points in cm)
+export const measurements = pgTable("measurements", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  projectId: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  measurementId: text("measurement_id").notNull(), // client-side measurement ID
+  kind: text("kind").notNull(), // "distance", "path" or "area"
+  points: jsonb("points").notNull(), // [{x, y}, ...] in cm
+  levelId: text("level_id"), // client-side level ID, null for the lowest level
+  createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+});
+
+// Dimension lines attached to zone edges, walls and furniture
+export const dimensions = pgTable("dimensions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  projectId: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  dimensionId: text("dimension_id").notNull(), // client-side dimension ID
+  kind: text("kind").notNull(), // "zone-edge", "furniture-wall" or "item-item"
+  anchors: jsonb("anchors").notNull(), // { from, to } entity references
+  offset: decimal("offset", { precision: 10, scale: 2 }).default("0").notNull(),
+  style: text("style").notNull().default("tick"), // "tick" or "arrow"
+  levelId: text("level_id"), // client-side level ID, null for the lowest level
+  createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+});
+
+// Project versions (immutable snapshots written on every save; checkpoints carry a name)
+export const projectVersions = pgTable("project_versions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  projectId: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(), // 1, 2, 3... per project
+  name: text("name"), // checkpoint name, null for automatic save snapshots
+  isCheckpoint: boolean("is_checkpoint").notNull().default(false),
+  restoredFrom: integer("restored_from"), // version number this snapshot restored, if any
+  data: jsonb("data").notNull(), // Full save payload, validated against saveProjectDataSchema
+  createdBy: text("created_by"), // References Neon Auth user ID
+  createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+}, (table) => [
+  // Each version number is taken once per project, even by concurrent saves
+  uniqueIndex("project_versions_project_id_version_idx").on(table.projectId, table.version),
+]);
+
+// Public share links (read-only access to a project via an unguessable token)
+export const projectShares = pgTable("project_shares", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  projectId: uuid("project_id")
+    .notNull()
+    .references(() => projects.id, { onDelete: "cascade" }),
+  token: text("token").notNull().unique(), // 32-character URL-safe random token
+  expiresAt: timestamp("expires_at", { mode: "date" }), // null for links that never expire
+  revokedAt: timestamp("revoked_at", { mode: "date" }), // set when the owner revokes the link
+  createdBy: text("created_by"), // References Neon Auth user ID
+  createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+});
+
 // Imported floor plans (from AI analysis)
 export const importedFloorPlans = pgTable("imported_floor_plans", {
   id: serial("id").primaryKey(),
@@ -99,6 +240,13 @@ export const importedFloorPlans = pgTable("imported_floor_plans", {
   analysisData: jsonb("analysis_data").notNull(), // Store the full AI response
   dimensions: jsonb("dimensions").notNull(), // {width: number, height: number}
   zones: jsonb("zones").notNull(), // Array of zone objects
+  openings: jsonb("openings"), // Detected doors and windows hosted on zone edges
+
+  // Review step: zones and openings after the user's corrections, built from the detected ones
+  reviewedZones: jsonb("reviewed_zones"),
+  reviewedOpenings: jsonb("reviewed_openings"),
+  corrections: jsonb("corrections"), // Merge, split, relabel and drop edits, in the order applied
+  reviewedAt: timestamp("reviewed_at", { mode: "date" }),
 
   // Project data created from import
   projectId: uuid("project_id").references(() => projects.id),
@@ -109,12 +257,30 @@ export const importedFloorPlans = pgTable("imported_floor_plans", {
   isProcessed: boolean("is_processed").default(false), // Whether project was created
 });
 
+// Background floor plan analyses; the editor polls these for progress
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  userId: text("user_id"), // References Neon Auth user ID
+  status: text("status").notNull().default("queued"), // queued | uploading | detecting | extracting | done | failed | cancelled
+  fileName: text("file_name"),
+  error: text("error"), // Failure reason when status is failed
+  analysisMethod: text("analysis_method"), // Provider that produced the result
+  importedFloorPlanId: integer("imported_floor_plan_id")
+    .references(() => importedFloorPlans.id, { onDelete: "set null" }),
+  result: jsonb("result"), // Analysis response once done
+  createdAt: timestamp("created_at", { mode: "date" }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date" }).defaultNow().notNull(),
+});
+
 // Zod schemas for validation
 // User schemas are not needed as Neon Auth handles user management
 
 export const insertProjectSchema = createInsertSchema(projects);
 export const selectProjectSchema = createSelectSchema(projects);
 
+export const insertLevelSchema = createInsertSchema(levels);
+export const selectLevelSchema = createSelectSchema(levels);
+
 export const insertZoneSchema = createInsertSchema(zones);
 export const selectZoneSchema = createSelectSchema(zones);
 
@@ -127,9 +293,33 @@ export const selectFurnitureItemSchema = createSelectSchema(furnitureItems);
 export const insertProjectSettingsSchema = createInsertSchema(projectSettings);
 export const selectProjectSettingsSchema = createSelectSchema(projectSettings);
 
+export const insertDiagramShapeSchema = createInsertSchema(diagramShapes);
+export const selectDiagramShapeSchema = createSelectSchema(diagramShapes);
+
+export const insertWallSchema = createInsertSchema(walls);
+export const selectWallSchema = createSelectSchema(walls);
+
+export const insertOpeningSchema = createInsertSchema(openings);
+export const selectOpeningSchema = createSelectSchema(openings);
+
+export const insertMeasurementSchema = createInsertSchema(measurements);
+export const selectMeasurementSchema = createSelectSchema(measurements);
+
+export const insertDimensionSchema = createInsertSchema(dimensions);
+export const selectDimensionSchema = createSelectSchema(dimensions);
+
+export const insertProjectVersionSchema = createInsertSchema(projectVersions);
+export const selectProjectVersionSchema = createSelectSchema(projectVersions);
+
+export const insertProjectShareSchema = createInsertSchema(projectShares);
+export const selectProjectShareSchema = createSelectSchema(projectShares);
+
 export const insertImportedFloorPlanSchema = createInsertSchema(importedFloorPlans);
 export const selectImportedFloorPlanSchema = createSelectSchema(importedFloorPlans);
 
+export const insertAnalysisJobSchema = createInsertSchema(analysisJobs);
+export const selectAnalysisJobSchema = createSelectSchema(analysisJobs);
+
 // Manual schemas for type inference
 export const ProjectSchema = z.object({
   id: z.string().uuid(),
@@ -142,6 +332,17 @@ export const ProjectSchema = z.object({
   isPublic: z.boolean().nullable(),
 });
 
+export const LevelRecordSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  levelId: z.string(),
+  name: z.string(),
+  elevation: z.number(),
+  sortOrder: z.number(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
 export const ZoneSchema = z.object({
   id: z.string().uuid(),
   projectId: z.string().uuid(),
@@ -151,7 +352,9 @@ export const ZoneSchema = z.object({
   y: z.number(),
   width: z.number(),
   height: z.number(),
+  points: z.array(z.object({ x: z.number(), y: z.number() })).nullable(),
   color: z.string().nullable(),
+  levelId: z.string().nullable(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -180,6 +383,7 @@ export const FurnitureItemSchema = z.object({
   rotation: z.number(),
   color: z.string(),
   zoneId: z.string().nullable(),
+  levelId: z.string().nullable(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
@@ -193,9 +397,109 @@ export const ProjectSettingsSchema = z.object({
   snap: z.number(),
   showGrid: z.boolean(),
   showDimensions: z.boolean(),
+  canvasMode: z.string().nullable(),
+  maxCanvasWidth: z.number().nullable(),
+  maxCanvasHeight: z.number().nullable(),
+  unitSystem: z.string().nullable(),
+  showZones: z.boolean().nullable(),
+  showFurniture: z.boolean().nullable(),
+  showDiagrams: z.boolean().nullable(),
+  background: z.any(),
   updatedAt: z.date(),
 });
 
+export const DiagramShapeRecordSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  shapeId: z.string(),
+  type: z.string(),
+  data: z.any(),
+  sortOrder: z.number(),
+  levelId: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const WallSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  wallId: z.string(),
+  x1: z.number(),
+  y1: z.number(),
+  x2: z.number(),
+  y2: z.number(),
+  thickness: z.number(),
+  height: z.number(),
+  color: z.string().nullable(),
+  levelId: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const OpeningRecordSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  openingId: z.string(),
+  type: z.string(),
+  hostType: z.string(),
+  hostId: z.string(),
+  edgeIndex: z.number().nullable(),
+  offset: z.number(),
+  width: z.number(),
+  hinge: z.string(),
+  swing: z.string(),
+  height: z.number().nullable(),
+  sillHeight: z.number().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const MeasurementRecordSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  measurementId: z.string(),
+  kind: z.string(),
+  points: z.any(),
+  levelId: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const DimensionRecordSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  dimensionId: z.string(),
+  kind: z.string(),
+  anchors: z.any(),
+  offset: z.number(),
+  style: z.string(),
+  levelId: z.string().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const ProjectVersionRecordSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  version: z.number(),
+  name: z.string().nullable(),
+  isCheckpoint: z.boolean(),
+  restoredFrom: z.number().nullable(),
+  data: z.any(),
+  createdBy: z.string().nullable(),
+  createdAt: z.date(),
+});
+
+export const ProjectShareRecordSchema = z.object({
+  id: z.string().uuid(),
+  projectId: z.string().uuid(),
+  token: z.string(),
+  expiresAt: z.date().nullable(),
+  revokedAt: z.date().nullable(),
+  createdBy: z.string().nullable(),
+  createdAt: z.date(),
+});
+
 export const ImportedFloorPlanSchema = z.object({
   id: z.number(),
   shortId: z.string(),
@@ -207,17 +511,44 @@ export const ImportedFloorPlanSchema = z.object({
   analysisData: z.any(),
   dimensions: z.any(),
   zones: z.any(),
+  openings: z.any(),
+  reviewedZones: z.any(),
+  reviewedOpenings: z.any(),
+  corrections: z.any(),
+  reviewedAt: z.date().nullable(),
   projectId: z.string().uuid().nullable(),
   createdAt: z.date(),
   updatedAt: z.date(),
   isProcessed: z.boolean(),
 });
 
+export const AnalysisJobRecordSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().nullable(),
+  status: z.string(),
+  fileName: z.string().nullable(),
+  error: z.string().nullable(),
+  analysisMethod: z.string().nullable(),
+  importedFloorPlanId: z.number().nullable(),
+  result: z.any(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
 // Types
 // User type is not needed as Neon Auth handles user management
 export type Project = z.infer<typeof ProjectSchema>;
+export type LevelRecord = z.infer<typeof LevelRecordSchema>;
 export type Zone = z.infer<typeof ZoneSchema>;
 export type FurnitureCatalogItem = z.infer<typeof FurnitureCatalogItemSchema>;
 export type FurnitureItem = z.infer<typeof FurnitureItemSchema>;
 export type ProjectSettings = z.infer<typeof ProjectSettingsSchema>;
-export type ImportedFloorPlan = z.infer<typeof ImportedFloorPlanSchema>;
\ No newline at end of file
+export type DiagramShapeRecord = z.infer<typeof DiagramShapeRecordSchema>;
+export type Wall = z.infer<typeof WallSchema>;
+export type OpeningRecord = z.infer<typeof OpeningRecordSchema>;
+export type MeasurementRecord = z.infer<typeof MeasurementRecordSchema>;
+export type DimensionRecord = z.infer<typeof DimensionRecordSchema>;
+export type ProjectVersionRecord = z.infer<typeof ProjectVersionRecordSchema>;
+export type ProjectShareRecord = z.infer<typeof ProjectShareRecordSchema>;
+export type ImportedFloorPlan = z.infer<typeof ImportedFloorPlanSchema>;
+export type AnalysisJobRecord = z.infer<typeof AnalysisJobRecordSchema>;
\ No newline at end of file
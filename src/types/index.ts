@@ -1,12 +1,29 @@
 import { z } from "zod";
+import { diagram_shape_schema, DiagramShape } from "@/components/floor-plan/canvas/tools/diagram_schemas";
 
 // Additional frontend types that extend database types
 export type FloorPlanZone = z.infer<typeof floorPlanZoneSchema>;
 
+export type ZonePoint = z.infer<typeof zonePointSchema>;
+
 export type FurnitureItemType = z.infer<typeof furnitureItemSchema>;
 
 export type FloorPlanSettings = z.infer<typeof floorPlanSettingsSchema>;
 
+export type WallSegment = z.infer<typeof wallSchema>;
+
+export type Opening = z.infer<typeof openingSchema>;
+
+export type Level = z.infer<typeof levelSchema>;
+
+export type Measurement = z.infer<typeof measurementSchema>;
+
+export type DimensionAnchor = z.infer<typeof dimensionAnchorSchema>;
+
+export type Dimension = z.infer<typeof dimensionSchema>;
+
+export type SaveProjectData = z.infer<typeof saveProjectDataSchema>;
+
 export interface ProjectData {
   id: string;
   name: string;
@@ -14,10 +31,57 @@ export interface ProjectData {
   zones: FloorPlanZone[];
   furniture: FurnitureItemType[];
   settings: FloorPlanSettings;
+  diagrams: DiagramShape[];
+  walls: WallSegment[];
+  openings: Opening[];
+  levels: Level[];
+  measurements: Measurement[];
+  dimensions: Dimension[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Entry of a project's version history, without the snapshot data
+export interface ProjectVersionSummary {
+  id: string;
+  version: number;
+  name: string | null;
+  isCheckpoint: boolean;
+  restoredFrom: number | null;
+  createdAt: string;
+}
+
+// Public share link as listed to the project owner
+export interface ProjectShareSummary {
+  id: string;
+  token: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+// Stages of a background floor plan analysis, in order; done, failed and cancelled are final
+export const ANALYSIS_JOB_STATUSES = ['queued', 'uploading', 'detecting', 'extracting', 'done', 'failed', 'cancelled'] as const;
+
+export type AnalysisJobStatus = typeof ANALYSIS_JOB_STATUSES[number];
+
+// Progress of a floor plan analysis as polled by the editor
+export interface AnalysisJobSummary {
+  id: string;
+  status: AnalysisJobStatus;
+  error: string | null;
+  analysisMethod: string | null;
+  // Analysis response, present once the job is done
+  result: unknown;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Zone detected on an imported plan, in cm; confidence (0-1) is absent when the provider gives none
+export type ImportedZone = Pick<FloorPlanZone, 'zoneId' | 'name' | 'x' | 'y' | 'w' | 'h' | 'points' | 'type' | 'suggestedFurniture'> & {
+  confidence?: number;
+};
+
 export interface ImportedFloorPlanData {
   // Basic properties from ImportedFloorPlan
   id: number;
@@ -29,7 +93,14 @@ export interface ImportedFloorPlanData {
   originalImageHeight: number | null;
   analysisData: unknown;
   dimensions: { width: number; height: number };
-  zones: FloorPlanZone[];
+  zones: ImportedZone[];
+  // Detected doors and windows, hosted on zone edges by zoneId
+  openings: Opening[] | null;
+  // Set once the detected zones have been reviewed; the project is built from these
+  reviewedZones: ImportedZone[] | null;
+  reviewedOpenings: Opening[] | null;
+  corrections: ZoneCorrection[] | null;
+  reviewedAt: Date | null;
   projectId: string | null;
   createdAt: Date;
   updatedAt: Date;
@@ -48,10 +119,63 @@ export const updateProjectSchema = z.object({
   description: z.string().optional(),
 });
 
+export const createProjectShareSchema = z.object({
+  // Days until the link stops working; omitted for a link that never expires
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+export const updateProjectVisibilitySchema = z.object({
+  isPublic: z.boolean(),
+});
+
+// Edit made while reviewing an imported plan. Corrections are replayed in order on the
+// detected zones; zones created by a merge or split take the zoneIds given in `into`.
+export const zoneCorrectionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('drop'),
+    zoneId: z.string().min(1),
+  }),
+  z.object({
+    action: z.literal('relabel'),
+    zoneId: z.string().min(1),
+    name: z.string().trim().min(1, "Zone name is required").max(100, "Zone name is too long"),
+    type: z.string().min(1).optional(),
+  }),
+  z.object({
+    action: z.literal('merge'),
+    zoneIds: z.array(z.string().min(1)).min(2, "Select at least two zones to merge"),
+    into: z.string().min(1),
+  }),
+  z.object({
+    action: z.literal('split'),
+    zoneId: z.string().min(1),
+    // vertical cuts into left and right parts, horizontal into top and bottom
+    axis: z.enum(['vertical', 'horizontal']),
+    // Position of the cut as a fraction of the zone width or height
+    ratio: z.number().min(0.1).max(0.9),
+    into: z.tuple([z.string().min(1), z.string().min(1)]),
+  }),
+]);
+
+export const reviewImportedFloorPlanSchema = z.object({
+  corrections: z.array(zoneCorrectionSchema).max(500, "Too many corrections"),
+});
+
 export type CreateProjectInput = z.infer<typeof createProjectSchema>;
 export type UpdateProjectInput = z.infer<typeof updateProjectSchema>;
+export type CreateProjectVersionInput = z.infer<typeof createProjectVersionSchema>;
+export type CreateProjectShareInput = z.infer<typeof createProjectShareSchema>;
+export type UpdateProjectVisibilityInput = z.infer<typeof updateProjectVisibilitySchema>;
+export type ZoneCorrection = z.infer<typeof zoneCorrectionSchema>;
+export type ReviewImportedFloorPlanInput = z.infer<typeof reviewImportedFloorPlanSchema>;
 
 // Validation schemas for frontend use
+// Zone outline vertex in cm; polygonal zones keep x/y/w/h as their bounding box
+export const zonePointSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+});
+
 export const floorPlanZoneSchema = z.object({
   id: z.string().min(1, "Zone ID is required"),
   zoneId: z.string().min(1, "Zone ID is required"),
@@ -60,9 +184,11 @@ export const floorPlanZoneSchema = z.object({
   y: z.number().min(0, "Y coordinate must be non-negative"),
   w: z.number().min(1, "Width must be positive"),
   h: z.number().min(1, "Height must be positive"),
+  points: z.array(zonePointSchema).min(3, "A polygon needs at least 3 points").optional(),
   color: z.string().optional(),
   type: z.string().optional(),
   suggestedFurniture: z.array(z.string()).optional(),
+  levelId: z.string().optional(),
 });
 
 export const furnitureItemSchema = z.object({
@@ -76,6 +202,75 @@ export const furnitureItemSchema = z.object({
   color: z.string().min(1, "Color is required"),
   catalogId: z.string().uuid().optional(),
   zoneId: z.string().optional(),
+  levelId: z.string().optional(),
+});
+
+// Wall centerline from (x1, y1) to (x2, y2) in cm; the wall extends thickness / 2 to each side
+export const wallSchema = z.object({
+  id: z.string().min(1, "Wall ID is required"),
+  x1: z.number(),
+  y1: z.number(),
+  x2: z.number(),
+  y2: z.number(),
+  thickness: z.number().min(1, "Thickness must be positive").max(200, "Thickness must be reasonable").default(15),
+  height: z.number().min(1, "Height must be positive").max(2000, "Height must be reasonable").default(250),
+  color: z.string().optional(),
+  levelId: z.string().optional(),
+});
+
+// Door or window hosted on a wall centerline or a zone outline edge.
+// offset is the distance in cm along the host edge from its start to the opening center;
+// hinge picks the jamb the leaf turns on and swing the side of the edge it opens into.
+export const openingSchema = z.object({
+  id: z.string().min(1, "Opening ID is required"),
+  type: z.enum(['door', 'window']),
+  hostType: z.enum(['wall', 'zone']),
+  hostId: z.string().min(1, "Opening host is required"),
+  edgeIndex: z.number().int().min(0).optional(),
+  offset: z.number().min(0),
+  width: z.number().min(10, "Opening must be at least 10cm wide").max(1000, "Opening width must be reasonable"),
+  hinge: z.enum(['start', 'end']).default('start'),
+  swing: z.enum(['left', 'right']).default('left'),
+  height: z.number().min(1).max(2000).optional(),
+  sillHeight: z.number().min(0).max(2000).optional(),
+});
+
+// Floor of a multi-storey project. Levels are ordered bottom to top; elevation is the
+// height of the finished floor above the ground floor in cm. Zones, furniture, walls and
+// diagrams reference their level by levelId, items without one belong to the lowest level.
+export const levelSchema = z.object({
+  id: z.string().min(1, "Level ID is required"),
+  name: z.string().min(1, "Level name is required"),
+  elevation: z.number().min(-5000).max(50000).default(0),
+});
+
+// Measurement pinned on the canvas: a point-to-point distance, an open path or a closed
+// area through points in cm. Pinned measurements stay put when the plan changes.
+export const measurementSchema = z.object({
+  id: z.string().min(1, "Measurement ID is required"),
+  kind: z.enum(['distance', 'path', 'area']),
+  points: z.array(zonePointSchema).min(2, "A measurement needs at least two points"),
+  levelId: z.string().optional(),
+});
+
+// Entity a dimension is attached to: a zone outline edge, a wall or a furniture item
+export const dimensionAnchorSchema = z.object({
+  type: z.enum(['zone', 'wall', 'furniture']),
+  id: z.string().min(1, "Dimension anchor ID is required"),
+  edgeIndex: z.number().int().min(0).optional(),
+});
+
+// Dimension line attached to entities rather than fixed points, so it follows them as they
+// move: the length of a zone edge, the clearance between furniture and a wall, or the gap
+// between two furniture items. Offset moves the line off the measured points, in cm.
+export const dimensionSchema = z.object({
+  id: z.string().min(1, "Dimension ID is required"),
+  kind: z.enum(['zone-edge', 'furniture-wall', 'item-item']),
+  from: dimensionAnchorSchema,
+  to: dimensionAnchorSchema.optional(),
+  offset: z.number().min(-1000).max(1000).default(0),
+  style: z.enum(['tick', 'arrow']).default('tick'),
+  levelId: z.string().optional(),
 });
 
 export const floorPlanSettingsSchema = z.object({
@@ -112,21 +307,43 @@ export const zoneSchema = z.object({
   y: z.number(),
   w: z.number(),
   h: z.number(),
+  points: z.array(zonePointSchema).min(3).optional(),
   type: z.string().optional(),
   color: z.string().optional(),
   suggestedFurniture: z.array(z.string()).optional(),
+  levelId: z.string().optional(),
 });
 
 export const saveProjectDataSchema = z.object({
   zones: z.array(zoneSchema),
   furniture: z.array(furnitureItemSchema),
+  // Same ranges as the loaded settings, so saved settings always load back
   settings: z.object({
-    apartmentWidth: z.number(),
-    apartmentHeight: z.number(),
-    scale: z.number(),
-    snap: z.number(),
+    apartmentWidth: floorPlanSettingsSchema.shape.apartmentWidth,
+    apartmentHeight: floorPlanSettingsSchema.shape.apartmentHeight,
+    scale: floorPlanSettingsSchema.shape.scale,
+    snap: floorPlanSettingsSchema.shape.snap,
     showGrid: z.boolean(),
     showDimensions: z.boolean(),
     unitSystem: z.enum(['cm', 'm']).default('cm'),
+    canvasMode: floorPlanSettingsSchema.shape.canvasMode.default('adaptive'),
+    maxCanvasWidth: floorPlanSettingsSchema.shape.maxCanvasWidth,
+    maxCanvasHeight: floorPlanSettingsSchema.shape.maxCanvasHeight,
+    showZones: z.boolean().default(true),
+    showFurniture: z.boolean().default(true),
+    showDiagrams: z.boolean().default(true),
+    background: floorPlanSettingsSchema.shape.background,
   }),
+  diagrams: z.array(diagram_shape_schema).default([]),
+  walls: z.array(wallSchema).default([]),
+  openings: z.array(openingSchema).default([]),
+  levels: z.array(levelSchema).default([]),
+  measurements: z.array(measurementSchema).default([]),
+  dimensions: z.array(dimensionSchema).default([]),
+});
+
+// A checkpoint saves the editor's current data, including unsaved edits, under a name
+export const createProjectVersionSchema = z.object({
+  name: z.string().trim().min(1, "Checkpoint name is required").max(100, "Checkpoint name is too long"),
+  data: saveProjectDataSchema,
 });
\ No newline at end of file